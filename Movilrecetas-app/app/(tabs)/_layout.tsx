@@ -26,6 +26,24 @@ export default function TabLayout() {
           ),
         }}
       />
+      <Tabs.Screen
+        name="favoritos"
+        options={{
+          title: "Favoritos",
+          tabBarIcon: ({ color }) => (
+            <IconSymbol size={28} name="heart.fill" color={color} />
+          ),
+        }}
+      />
+      <Tabs.Screen
+        name="planificador"
+        options={{
+          title: "Plan",
+          tabBarIcon: ({ color }) => (
+            <IconSymbol size={28} name="calendar" color={color} />
+          ),
+        }}
+      />
       <Tabs.Screen
         name="explore"
         options={{
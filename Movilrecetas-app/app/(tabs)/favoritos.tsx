@@ -0,0 +1,131 @@
+import { useFocusEffect, useRouter } from "expo-router";
+import React, { useCallback, useState } from "react";
+import {
+  ActivityIndicator,
+  Alert,
+  FlatList,
+  RefreshControl,
+  StyleSheet,
+  Text,
+  TouchableOpacity,
+  View,
+} from "react-native";
+import { Receta } from "../../src/domain/models/Receta";
+import { BotonFavorito } from "../../src/presentation/components/BotonFavorito";
+import {
+  ALTO_FILA_RECETA,
+  FilaReceta,
+} from "../../src/presentation/components/FilaReceta";
+import { useFavorites } from "../../src/presentation/hooks/useFavorites";
+import { globalStyles } from "../../src/styles/globalStyles";
+import { colors, fontSize, spacing } from "../../src/styles/theme";
+
+export default function FavoritosScreen() {
+  const {
+    favoritos,
+    cargando,
+    cargandoMas,
+    hayMas,
+    cargarFavoritos,
+    cargarMas,
+    alternarFavorito,
+  } = useFavorites();
+  const [refrescando, setRefrescando] = useState(false);
+  const router = useRouter();
+
+  // Recargar al entrar: se pueden haber marcado recetas desde el feed
+  useFocusEffect(
+    useCallback(() => {
+      cargarFavoritos();
+    }, [cargarFavoritos])
+  );
+
+  const handleRefresh = async () => {
+    setRefrescando(true);
+    await cargarFavoritos();
+    setRefrescando(false);
+  };
+
+  const handleQuitar = async (receta: Receta) => {
+    const resultado = await alternarFavorito(receta);
+    if (!resultado.success) {
+      Alert.alert("Error", resultado.error || "No se pudo quitar el favorito");
+    }
+  };
+
+  return (
+    <View style={globalStyles.container}>
+      <View style={globalStyles.header}>
+        <Text style={styles.titulo}>❤️ Favoritos</Text>
+        <TouchableOpacity onPress={() => router.push("/coleccion")}>
+          <Text style={styles.enlaceColecciones}>📚 Mis colecciones</Text>
+        </TouchableOpacity>
+      </View>
+
+      {cargando && favoritos.length === 0 ? (
+        <ActivityIndicator
+          size="large"
+          color={colors.primary}
+          style={{ marginTop: spacing.lg }}
+        />
+      ) : (
+        <FlatList
+          data={favoritos}
+          keyExtractor={(item) => item.id}
+          contentContainerStyle={{ padding: spacing.md }}
+          getItemLayout={(_, index) => ({
+            length: ALTO_FILA_RECETA,
+            offset: ALTO_FILA_RECETA * index,
+            index,
+          })}
+          initialNumToRender={10}
+          windowSize={7}
+          removeClippedSubviews
+          refreshControl={
+            <RefreshControl
+              refreshing={refrescando}
+              onRefresh={handleRefresh}
+            />
+          }
+          onEndReached={hayMas ? cargarMas : undefined}
+          onEndReachedThreshold={0.5}
+          ListFooterComponent={
+            cargandoMas ? (
+              <ActivityIndicator
+                color={colors.primary}
+                style={{ marginVertical: spacing.md }}
+              />
+            ) : null
+          }
+          ListEmptyComponent={
+            <Text style={globalStyles.emptyState}>
+              Aún no tienes favoritos. Toca 🤍 en una receta para guardarla.
+            </Text>
+          }
+          renderItem={({ item }) => (
+            <FilaReceta
+              receta={item}
+              onPress={() => router.push(`/recipe/${item.id}`)}
+              accion={
+                <BotonFavorito esFavorito onPress={() => handleQuitar(item)} />
+              }
+            />
+          )}
+        />
+      )}
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  titulo: {
+    fontSize: fontSize.xl,
+    fontWeight: "bold",
+    color: colors.textPrimary,
+  },
+  enlaceColecciones: {
+    fontSize: fontSize.sm,
+    color: colors.primary,
+    fontWeight: "600",
+  },
+});
@@ -1,5 +1,5 @@
-import { useRouter } from "expo-router";
-import React, { useState } from "react";
+import { useFocusEffect, useRouter } from "expo-router";
+import React, { useCallback, useState } from "react";
 import {
   ActivityIndicator,
   Alert,
@@ -12,8 +12,26 @@ import {
   TouchableOpacity,
   View,
 } from "react-native";
+import { ETIQUETAS_RESTRICCION } from "../../src/domain/models/Alergenos";
+import { EtiquetaEnUso } from "../../src/domain/models/Etiqueta";
+import { FormatoExportacion } from "../../src/domain/models/Exportacion";
+import { OpcionesListado } from "../../src/domain/models/OpcionesListado";
+import { Receta } from "../../src/domain/models/Receta";
+import { Usuario } from "../../src/domain/models/Usuario";
+import { formatearIngrediente } from "../../src/domain/utils/ingredientes";
+import { BotonFavorito } from "../../src/presentation/components/BotonFavorito";
+import { ExportarSheet } from "../../src/presentation/components/ExportarSheet";
+import { FiltroCategorias } from "../../src/presentation/components/FiltroCategorias";
+import { FiltrosSheet } from "../../src/presentation/components/FiltrosSheet";
+import { InfoPreparacion } from "../../src/presentation/components/InfoPreparacion";
+import { PorcionesSelector } from "../../src/presentation/components/PorcionesSelector";
+import { TextoResaltado } from "../../src/presentation/components/TextoResaltado";
+import { ValoracionResumen } from "../../src/presentation/components/ValoracionResumen";
 import { useAuth } from "../../src/presentation/hooks/useAuth";
+import { useExport } from "../../src/presentation/hooks/useExport";
+import { useFavorites } from "../../src/presentation/hooks/useFavorites";
 import { useRecipes } from "../../src/presentation/hooks/useRecipes";
+import { useUnidades } from "../../src/presentation/hooks/useUnidades";
 import { globalStyles } from "../../src/styles/globalStyles";
 import {
   borderRadius,
@@ -24,25 +42,143 @@ import {
 
 export default function HomeScreen() {
   const { usuario, cerrarSesion } = useAuth();
-  const { recetas, cargando, cargarRecetas, buscar, eliminar } = useRecipes();
+  const {
+    recetas,
+    cargando,
+    cargandoMas,
+    hayMas,
+    opciones,
+    coincidencias,
+    resultadosTexto,
+    avisos,
+    ocultas,
+    recargarPreferencias,
+    cargarRecetas,
+    cargarMas,
+    refrescar,
+    sincronizar,
+    cambiarOpciones,
+    obtenerChefs,
+    obtenerEtiquetas,
+    buscar,
+    buscarTexto,
+    eliminar,
+    escalar,
+  } = useRecipes();
+  const { convertir } = useUnidades();
+  const { cargarIds, esFavorito, alternarFavorito } = useFavorites();
   const [busqueda, setBusqueda] = useState("");
+  const [modoBusqueda, setModoBusqueda] = useState<"ingredientes" | "todo">(
+    "ingredientes"
+  );
+  // Porciones elegidas por el usuario en cada tarjeta (id → porciones)
+  const [porcionesElegidas, setPorcionesElegidas] = useState<
+    Record<string, number>
+  >({});
   const [refrescando, setRefrescando] = useState(false);
+  const [mostrarExportar, setMostrarExportar] = useState(false);
+  const { exportando, exportarMisRecetas } = useExport();
+  const [mostrarFiltros, setMostrarFiltros] = useState(false);
+  const [chefs, setChefs] = useState<Usuario[]>([]);
+  const [categorias, setCategorias] = useState<EtiquetaEnUso[]>([]);
   const router = useRouter();
 
+  // Al volver a esta pestaña: los favoritos pueden haber cambiado en otra,
+  // un chef puede haber publicado recetas con categorías nuevas y el
+  // usuario puede haber cambiado sus restricciones en el perfil
+  useFocusEffect(
+    useCallback(() => {
+      cargarIds();
+      obtenerEtiquetas().then(setCategorias);
+      recargarPreferencias();
+    }, [cargarIds, obtenerEtiquetas, recargarPreferencias])
+  );
+
+  // Recetas creadas, editadas o eliminadas en otra pantalla
+  // (crear, editar, importar)
+  useFocusEffect(
+    useCallback(() => {
+      sincronizar();
+    }, [sincronizar])
+  );
+
+  // Número de filtros activos para mostrar en el botón
+  const filtrosActivos =
+    (opciones.orden !== "recientes" ? 1 : 0) +
+    (opciones.soloMias ? 1 : 0) +
+    (opciones.conImagen ? 1 : 0) +
+    (opciones.chefId ? 1 : 0) +
+    (opciones.tiempoMaximo ? 1 : 0) +
+    (opciones.dificultad ? 1 : 0);
+
   const handleBuscar = () => {
-    if (busqueda.trim()) {
-      buscar(busqueda.trim().toLowerCase());
+    if (modoBusqueda === "todo") {
+      if (busqueda.trim()) {
+        buscarTexto(busqueda.trim());
+      } else {
+        cargarRecetas();
+      }
+      return;
+    }
+
+    // Varios ingredientes separados por comas: "huevo, limón, arroz"
+    const ingredientes = busqueda
+      .split(",")
+      .map((ing) => ing.trim())
+      .filter(Boolean);
+
+    if (ingredientes.length > 0) {
+      buscar(ingredientes);
     } else {
       cargarRecetas();
     }
   };
 
+  const handleAbrirFiltros = async () => {
+    setMostrarFiltros(true);
+    if (chefs.length === 0) {
+      setChefs(await obtenerChefs());
+    }
+  };
+
+  const handleAplicarFiltros = (nuevas: OpcionesListado) => {
+    setMostrarFiltros(false);
+    setBusqueda("");
+    cambiarOpciones(nuevas);
+  };
+
+  const handleCategoria = (etiqueta: string | null) => {
+    setBusqueda("");
+    cambiarOpciones({ ...opciones, etiqueta });
+  };
+
+  // Exporta todas las recetas del chef, no solo las páginas cargadas
+  const handleExportar = async (formato: FormatoExportacion) => {
+    const resultado = await exportarMisRecetas(formato);
+    if (resultado.success) {
+      setMostrarExportar(false);
+    } else {
+      Alert.alert("Error", resultado.error || "No se pudo exportar");
+    }
+  };
+
   const handleRefresh = async () => {
     setRefrescando(true);
-    await cargarRecetas();
+    await refrescar();
     setRefrescando(false);
   };
 
+  const handleCambiarPorciones = (recetaId: string, porciones: number) => {
+    setPorcionesElegidas({ ...porcionesElegidas, [recetaId]: porciones });
+  };
+
+  const handleFavorito = async (receta: Receta) => {
+    const resultado = await alternarFavorito(receta);
+    if (!resultado.success) {
+      Alert.alert("Error", resultado.error || "No se pudo guardar el favorito");
+    }
+  };
+
   const handleCerrarSesion = async () => {
     await cerrarSesion();
     router.replace("/auth/login");
@@ -91,22 +227,37 @@ export default function HomeScreen() {
             {usuario.rol === "chef" ? "👨‍🍳 Chef" : "👤 Usuario"}
           </Text>
         </View>
-        <TouchableOpacity
-          style={[
-            globalStyles.button,
-            globalStyles.buttonDanger,
-            styles.botonCerrar,
-          ]}
-          onPress={handleCerrarSesion}
-        >
-          <Text style={globalStyles.buttonText}>Salir</Text>
-        </TouchableOpacity>
+        <View style={styles.accionesHeader}>
+          <TouchableOpacity onPress={() => router.push("/perfil")}>
+            <Text style={styles.botonHeader}>👤</Text>
+          </TouchableOpacity>
+          <TouchableOpacity onPress={() => router.push("/despensa")}>
+            <Text style={styles.botonHeader}>🥫</Text>
+          </TouchableOpacity>
+          <TouchableOpacity onPress={() => router.push("/compras")}>
+            <Text style={styles.botonHeader}>🛒</Text>
+          </TouchableOpacity>
+          <TouchableOpacity
+            style={[
+              globalStyles.button,
+              globalStyles.buttonDanger,
+              styles.botonCerrar,
+            ]}
+            onPress={handleCerrarSesion}
+          >
+            <Text style={globalStyles.buttonText}>Salir</Text>
+          </TouchableOpacity>
+        </View>
       </View>
 
       <View style={styles.contenedorBusqueda}>
         <TextInput
           style={[globalStyles.input, styles.inputBusqueda]}
-          placeholder="Buscar por ingrediente..."
+          placeholder={
+            modoBusqueda === "ingredientes"
+              ? "¿Qué tienes? Ej: huevo, limón, arroz"
+              : "Buscar recetas, ingredientes..."
+          }
           value={busqueda}
           onChangeText={setBusqueda}
           onSubmitEditing={handleBuscar}
@@ -121,8 +272,50 @@ export default function HomeScreen() {
         >
           <Text style={styles.iconoBuscar}>🔍</Text>
         </TouchableOpacity>
+        <TouchableOpacity
+          style={[
+            globalStyles.button,
+            globalStyles.buttonSecondary,
+            styles.botonBuscar,
+          ]}
+          onPress={handleAbrirFiltros}
+        >
+          <Text style={styles.iconoBuscar}>⚙️</Text>
+          {filtrosActivos > 0 && (
+            <View style={styles.contadorFiltros}>
+              <Text style={styles.textoContador}>{filtrosActivos}</Text>
+            </View>
+          )}
+        </TouchableOpacity>
       </View>
 
+      <View style={styles.contenedorModos}>
+        <TouchableOpacity
+          style={[
+            globalStyles.chip,
+            modoBusqueda !== "ingredientes" && styles.modoInactivo,
+          ]}
+          onPress={() => setModoBusqueda("ingredientes")}
+        >
+          <Text style={globalStyles.chipText}>🥕 Por ingrediente</Text>
+        </TouchableOpacity>
+        <TouchableOpacity
+          style={[
+            globalStyles.chip,
+            modoBusqueda !== "todo" && styles.modoInactivo,
+          ]}
+          onPress={() => setModoBusqueda("todo")}
+        >
+          <Text style={globalStyles.chipText}>🔎 Todo</Text>
+        </TouchableOpacity>
+      </View>
+
+      <FiltroCategorias
+        categorias={categorias}
+        seleccionada={opciones.etiqueta}
+        onSeleccionar={handleCategoria}
+      />
+
       {cargando ? (
         <ActivityIndicator
           size="large"
@@ -140,6 +333,41 @@ export default function HomeScreen() {
               onRefresh={handleRefresh}
             />
           }
+          onEndReached={hayMas ? cargarMas : undefined}
+          onEndReachedThreshold={0.5}
+          ListFooterComponent={
+            cargandoMas ? (
+              <ActivityIndicator
+                color={colors.primary}
+                style={{ marginVertical: spacing.md }}
+              />
+            ) : null
+          }
+          ListHeaderComponent={
+            <>
+              {opciones.soloMias && usuario?.rol === "chef" && (
+                <View style={styles.accionesMias}>
+                  <TouchableOpacity
+                    onPress={() => router.push("/recipe/importar")}
+                  >
+                    <Text style={styles.textoExportar}>📥 Importar JSON</Text>
+                  </TouchableOpacity>
+                  <TouchableOpacity onPress={() => setMostrarExportar(true)}>
+                    <Text style={styles.textoExportar}>
+                      📤 Exportar todas mis recetas
+                    </Text>
+                  </TouchableOpacity>
+                </View>
+              )}
+              {ocultas > 0 && (
+                <Text style={styles.textoOcultas}>
+                  {ocultas === 1
+                    ? "1 receta oculta por tus restricciones"
+                    : `${ocultas} recetas ocultas por tus restricciones`}
+                </Text>
+              )}
+            </>
+          }
           ListEmptyComponent={
             <Text style={globalStyles.emptyState}>
               No hay recetas disponibles
@@ -147,24 +375,87 @@ export default function HomeScreen() {
           }
           renderItem={({ item }) => (
             <View style={globalStyles.card}>
-              {item.imagen_url ? (
-                <Image
-                  source={{ uri: item.imagen_url }}
-                  style={globalStyles.cardImage}
-                />
-              ) : (
-                <View style={styles.imagenPlaceholder}>
-                  <Text style={globalStyles.textTertiary}>Sin imagen</Text>
+              <TouchableOpacity
+                onPress={() => router.push(`/recipe/${item.id}`)}
+              >
+                {item.imagen_url ? (
+                  <Image
+                    source={{ uri: item.imagen_url }}
+                    style={globalStyles.cardImage}
+                  />
+                ) : (
+                  <View style={styles.imagenPlaceholder}>
+                    <Text style={globalStyles.textTertiary}>Sin imagen</Text>
+                  </View>
+                )}
+
+                <View style={styles.infoReceta}>
+                  <TextoResaltado
+                    texto={item.titulo}
+                    fragmentos={resultadosTexto[item.id]?.titulo}
+                    style={styles.tituloReceta}
+                  />
+                  <TextoResaltado
+                    texto={item.descripcion}
+                    fragmentos={resultadosTexto[item.id]?.descripcion}
+                    style={globalStyles.textSecondary}
+                    numberOfLines={2}
+                  />
+                  <View style={styles.valoracion}>
+                    <ValoracionResumen
+                      media={item.valoracion_media}
+                      total={item.num_resenas}
+                    />
+                  </View>
+                  <View style={styles.valoracion}>
+                    <InfoPreparacion receta={item} />
+                  </View>
+                  {avisos[item.id] && (
+                    <Text style={styles.avisoRestricciones}>
+                      ⚠️ No apta:{" "}
+                      {avisos[item.id]
+                        .map((r) => ETIQUETAS_RESTRICCION[r])
+                        .join(", ")}
+                    </Text>
+                  )}
+                  {!!resultadosTexto[item.id]?.ingredientes.length && (
+                    <Text style={styles.coincidencias}>
+                      🥘 Contiene{" "}
+                      {resultadosTexto[item.id].ingredientes.join(", ")}
+                    </Text>
+                  )}
                 </View>
-              )}
+              </TouchableOpacity>
 
-              <View style={styles.infoReceta}>
-                <Text style={styles.tituloReceta}>{item.titulo}</Text>
-                <Text style={globalStyles.textSecondary} numberOfLines={2}>
-                  {item.descripcion}
-                </Text>
+              <BotonFavorito
+                esFavorito={esFavorito(item.id)}
+                onPress={() => handleFavorito(item)}
+                style={styles.botonFavorito}
+              />
+
+              <View>
+                {coincidencias[item.id] && (
+                  <Text style={styles.coincidencias}>
+                    ✅ Usa {coincidencias[item.id].usados.join(", ")}
+                    {coincidencias[item.id].faltantes.length > 0
+                      ? ` · Te faltan ${coincidencias[item.id].faltantes.length}`
+                      : " · ¡Tienes todo!"}
+                  </Text>
+                )}
+                <View style={styles.contenedorPorciones}>
+                  <PorcionesSelector
+                    porciones={porcionesElegidas[item.id] ?? item.porciones}
+                    onChange={(porciones) =>
+                      handleCambiarPorciones(item.id, porciones)
+                    }
+                  />
+                </View>
                 <Text style={styles.ingredientes}>
-                  🥘 {item.ingredientes.slice(0, 3).join(", ")}
+                  🥘{" "}
+                  {escalar(item, porcionesElegidas[item.id] ?? item.porciones)
+                    .ingredientes.slice(0, 3)
+                    .map((ing) => formatearIngrediente(convertir(ing)))
+                    .join(" · ")}
                   {item.ingredientes.length > 3 && "..."}
                 </Text>
               </View>
@@ -199,6 +490,23 @@ export default function HomeScreen() {
           )}
         />
       )}
+
+      <FiltrosSheet
+        visible={mostrarFiltros}
+        opciones={opciones}
+        chefs={chefs}
+        mostrarSoloMias={usuario.rol === "chef"}
+        onAplicar={handleAplicarFiltros}
+        onCerrar={() => setMostrarFiltros(false)}
+      />
+
+      <ExportarSheet
+        visible={mostrarExportar}
+        titulo="Todas tus recetas publicadas"
+        exportando={exportando}
+        onElegir={handleExportar}
+        onCerrar={() => setMostrarExportar(false)}
+      />
     </View>
   );
 }
@@ -215,6 +523,14 @@ const styles = StyleSheet.create({
     marginTop: spacing.xs / 2,
     fontWeight: "500",
   },
+  accionesHeader: {
+    flexDirection: "row",
+    alignItems: "center",
+    gap: spacing.md,
+  },
+  botonHeader: {
+    fontSize: fontSize.xl,
+  },
   botonCerrar: {
     paddingHorizontal: spacing.lg,
     paddingVertical: spacing.sm,
@@ -224,6 +540,15 @@ const styles = StyleSheet.create({
     padding: spacing.md,
     gap: spacing.sm,
   },
+  contenedorModos: {
+    flexDirection: "row",
+    gap: spacing.sm,
+    paddingHorizontal: spacing.md,
+    paddingBottom: spacing.sm,
+  },
+  modoInactivo: {
+    backgroundColor: colors.borderLight,
+  },
   inputBusqueda: {
     flex: 1,
     marginBottom: 0,
@@ -233,6 +558,22 @@ const styles = StyleSheet.create({
     justifyContent: "center",
     alignItems: "center",
   },
+  contadorFiltros: {
+    position: "absolute",
+    top: -spacing.xs,
+    right: -spacing.xs,
+    minWidth: 18,
+    height: 18,
+    borderRadius: borderRadius.round,
+    backgroundColor: colors.danger,
+    justifyContent: "center",
+    alignItems: "center",
+  },
+  textoContador: {
+    color: colors.white,
+    fontSize: fontSize.xs,
+    fontWeight: "bold",
+  },
   iconoBuscar: {
     fontSize: fontSize.lg,
   },
@@ -244,6 +585,11 @@ const styles = StyleSheet.create({
     alignItems: "center",
     borderRadius: borderRadius.md,
   },
+  botonFavorito: {
+    position: "absolute",
+    top: spacing.md + spacing.sm,
+    right: spacing.md + spacing.sm,
+  },
   infoReceta: {
     paddingTop: spacing.md,
   },
@@ -253,6 +599,41 @@ const styles = StyleSheet.create({
     color: colors.textPrimary,
     marginBottom: spacing.xs,
   },
+  valoracion: {
+    marginTop: spacing.xs,
+  },
+  avisoRestricciones: {
+    fontSize: fontSize.xs,
+    color: colors.warning,
+    fontWeight: "600",
+    marginTop: spacing.xs,
+  },
+  accionesMias: {
+    flexDirection: "row",
+    justifyContent: "flex-end",
+    gap: spacing.md,
+    marginBottom: spacing.sm,
+  },
+  textoExportar: {
+    fontSize: fontSize.sm,
+    color: colors.primary,
+    fontWeight: "600",
+  },
+  textoOcultas: {
+    fontSize: fontSize.xs,
+    color: colors.textTertiary,
+    textAlign: "center",
+    marginBottom: spacing.sm,
+  },
+  coincidencias: {
+    fontSize: fontSize.xs,
+    color: colors.secondary,
+    fontWeight: "600",
+    marginTop: spacing.sm,
+  },
+  contenedorPorciones: {
+    marginTop: spacing.sm,
+  },
   ingredientes: {
     fontSize: fontSize.xs,
     color: colors.primary,
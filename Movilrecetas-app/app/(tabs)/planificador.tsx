@@ -0,0 +1,372 @@
+import { useRouter } from "expo-router";
+import React, { useRef, useState } from "react";
+import {
+  ActivityIndicator,
+  Alert,
+  ScrollView,
+  StyleSheet,
+  Text,
+  TouchableOpacity,
+  View,
+} from "react-native";
+import {
+  Comida,
+  COMIDAS,
+  ETIQUETAS_COMIDA,
+  PlanComida,
+} from "../../src/domain/models/PlanComida";
+import { Receta } from "../../src/domain/models/Receta";
+import { aFechaISO, formatearDia } from "../../src/domain/utils/fechas";
+import { EntradaPlan } from "../../src/presentation/components/EntradaPlan";
+import { SelectorReceta } from "../../src/presentation/components/SelectorReceta";
+import { useMealPlan } from "../../src/presentation/hooks/useMealPlan";
+import { useRecipes } from "../../src/presentation/hooks/useRecipes";
+import { useShoppingList } from "../../src/presentation/hooks/useShoppingList";
+import { globalStyles } from "../../src/styles/globalStyles";
+import {
+  borderRadius,
+  colors,
+  fontSize,
+  spacing,
+} from "../../src/styles/theme";
+
+// Rectángulo de un hueco en coordenadas de pantalla
+type Rectangulo = { x: number; y: number; ancho: number; alto: number };
+
+const claveHueco = (fecha: string, comida: Comida) => `${fecha}|${comida}`;
+
+export default function PlanificadorScreen() {
+  const {
+    inicio,
+    dias,
+    entradas,
+    cargando,
+    semanaAnterior,
+    semanaSiguiente,
+    semanaActual,
+    entradasDe,
+    asignar,
+    mover,
+    quitar,
+  } = useMealPlan();
+  const {
+    recetas,
+    cargando: cargandoRecetas,
+    hayMas,
+    cargarRecetas,
+    cargarMas,
+    buscarTexto,
+  } = useRecipes();
+  const { agregarRecetas } = useShoppingList();
+  // Hueco al que se está añadiendo una receta (abre el selector)
+  const [huecoSeleccionado, setHuecoSeleccionado] = useState<{
+    fecha: string;
+    comida: Comida;
+  } | null>(null);
+  // Arrastre en curso: sin scroll y resaltando el hueco bajo el dedo
+  const [arrastrando, setArrastrando] = useState(false);
+  const [huecoDestino, setHuecoDestino] = useState<string | null>(null);
+  const huecos = useRef(new Map<string, View>());
+  const rectangulos = useRef(new Map<string, Rectangulo>());
+  const router = useRouter();
+
+  const hoy = aFechaISO(new Date());
+
+  /**
+   * Medir todos los huecos al empezar a arrastrar
+   * (la posición cambia con el scroll, así que se mide cada vez)
+   */
+  const medirHuecos = () => {
+    rectangulos.current.clear();
+    huecos.current.forEach((vista, clave) => {
+      vista.measureInWindow((x, y, ancho, alto) => {
+        rectangulos.current.set(clave, { x, y, ancho, alto });
+      });
+    });
+  };
+
+  const huecoEn = (x: number, y: number): string | null => {
+    for (const [clave, r] of rectangulos.current) {
+      if (x >= r.x && x <= r.x + r.ancho && y >= r.y && y <= r.y + r.alto) {
+        return clave;
+      }
+    }
+    return null;
+  };
+
+  const handleInicioArrastre = () => {
+    setArrastrando(true);
+    medirHuecos();
+  };
+
+  const handleArrastre = (x: number, y: number) => {
+    const clave = huecoEn(x, y);
+    if (clave !== huecoDestino) {
+      setHuecoDestino(clave);
+    }
+  };
+
+  const handleSoltar = async (entrada: PlanComida, x: number, y: number) => {
+    const clave = huecoEn(x, y);
+    setArrastrando(false);
+    setHuecoDestino(null);
+    if (!clave) return;
+
+    const [fecha, comida] = clave.split("|") as [string, Comida];
+    const resultado = await mover(entrada.id, fecha, comida);
+    if (!resultado.success) {
+      Alert.alert("Error", resultado.error || "No se pudo mover la receta");
+    }
+  };
+
+  const handleCancelarArrastre = () => {
+    setArrastrando(false);
+    setHuecoDestino(null);
+  };
+
+  const handleOpcionesEntrada = (entrada: PlanComida) => {
+    Alert.alert(entrada.receta?.titulo ?? "Receta", undefined, [
+      {
+        text: "Cancelar",
+        style: "cancel",
+      },
+      {
+        text: "Ver receta",
+        onPress: () => router.push(`/recipe/${entrada.receta_id}`),
+      },
+      {
+        text: "Quitar del plan",
+        style: "destructive",
+        onPress: async () => {
+          const resultado = await quitar(entrada.id);
+          if (!resultado.success) {
+            Alert.alert("Error", resultado.error || "No se pudo quitar");
+          }
+        },
+      },
+    ]);
+  };
+
+  const handleElegirReceta = async (receta: Receta) => {
+    if (!huecoSeleccionado) return;
+
+    const { fecha, comida } = huecoSeleccionado;
+    setHuecoSeleccionado(null);
+    const resultado = await asignar(fecha, comida, receta.id);
+    if (!resultado.success) {
+      Alert.alert("Error", resultado.error || "No se pudo añadir la receta");
+    }
+  };
+
+  // Una receta planificada varias veces se compra para todas esas comidas
+  const handleAgregarSemanaCompra = async () => {
+    const porReceta = new Map<string, { receta: Receta; porciones: number }>();
+    for (const entrada of entradas) {
+      if (!entrada.receta) continue;
+      const actual = porReceta.get(entrada.receta_id);
+      porReceta.set(entrada.receta_id, {
+        receta: entrada.receta,
+        porciones: (actual?.porciones ?? 0) + entrada.receta.porciones,
+      });
+    }
+
+    if (porReceta.size === 0) {
+      Alert.alert("Lista de la compra", "No hay recetas en esta semana");
+      return;
+    }
+
+    await agregarRecetas([...porReceta.values()]);
+    router.push("/compras");
+  };
+
+  const handleBuscarReceta = (texto: string) => {
+    if (texto) {
+      buscarTexto(texto);
+    } else {
+      cargarRecetas();
+    }
+  };
+
+  return (
+    <View style={globalStyles.container}>
+      <View style={globalStyles.header}>
+        <TouchableOpacity onPress={semanaAnterior}>
+          <Text style={styles.flecha}>‹</Text>
+        </TouchableOpacity>
+        <TouchableOpacity onPress={semanaActual}>
+          <Text style={styles.titulo}>
+            📅 Semana del {formatearDia(inicio)}
+          </Text>
+        </TouchableOpacity>
+        <TouchableOpacity onPress={semanaSiguiente}>
+          <Text style={styles.flecha}>›</Text>
+        </TouchableOpacity>
+      </View>
+
+      <Text style={styles.ayuda}>
+        Mantén pulsada una receta y arrástrala a otro día o comida
+      </Text>
+      <TouchableOpacity onPress={handleAgregarSemanaCompra}>
+        <Text style={styles.enlaceCompra}>🛒 Añadir la semana a la compra</Text>
+      </TouchableOpacity>
+
+      {cargando ? (
+        <ActivityIndicator
+          size="large"
+          color={colors.primary}
+          style={{ marginTop: spacing.lg }}
+        />
+      ) : (
+        <ScrollView
+          scrollEnabled={!arrastrando}
+          contentContainerStyle={{ padding: spacing.md }}
+        >
+          {dias.map((fecha) => (
+            <View
+              key={fecha}
+              style={[
+                globalStyles.card,
+                styles.dia,
+                fecha === hoy && styles.diaHoy,
+              ]}
+            >
+              <Text style={styles.nombreDia}>{formatearDia(fecha)}</Text>
+
+              {COMIDAS.map((comida) => {
+                const clave = claveHueco(fecha, comida);
+                return (
+                  <View
+                    key={comida}
+                    ref={(vista) => {
+                      if (vista) {
+                        huecos.current.set(clave, vista);
+                      } else {
+                        huecos.current.delete(clave);
+                      }
+                    }}
+                    style={[
+                      styles.hueco,
+                      huecoDestino === clave && styles.huecoDestino,
+                    ]}
+                  >
+                    <View style={styles.cabeceraHueco}>
+                      <Text style={styles.nombreComida}>
+                        {ETIQUETAS_COMIDA[comida]}
+                      </Text>
+                      <TouchableOpacity
+                        onPress={() => setHuecoSeleccionado({ fecha, comida })}
+                        hitSlop={8}
+                      >
+                        <Text style={styles.botonAgregar}>+</Text>
+                      </TouchableOpacity>
+                    </View>
+
+                    {entradasDe(fecha, comida).map((entrada) => (
+                      <EntradaPlan
+                        key={entrada.id}
+                        entrada={entrada}
+                        onPress={() => handleOpcionesEntrada(entrada)}
+                        onInicioArrastre={handleInicioArrastre}
+                        onArrastre={handleArrastre}
+                        onSoltar={(x, y) => handleSoltar(entrada, x, y)}
+                        onCancelarArrastre={handleCancelarArrastre}
+                      />
+                    ))}
+                  </View>
+                );
+              })}
+            </View>
+          ))}
+        </ScrollView>
+      )}
+
+      <SelectorReceta
+        visible={huecoSeleccionado !== null}
+        titulo={
+          huecoSeleccionado
+            ? `${ETIQUETAS_COMIDA[huecoSeleccionado.comida]} · ${formatearDia(
+                huecoSeleccionado.fecha
+              )}`
+            : ""
+        }
+        recetas={recetas}
+        cargando={cargandoRecetas}
+        hayMas={hayMas}
+        onBuscar={handleBuscarReceta}
+        onCargarMas={cargarMas}
+        onElegir={handleElegirReceta}
+        onCerrar={() => setHuecoSeleccionado(null)}
+      />
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  flecha: {
+    fontSize: fontSize.xxl,
+    color: colors.primary,
+    paddingHorizontal: spacing.md,
+  },
+  titulo: {
+    fontSize: fontSize.md,
+    fontWeight: "bold",
+    color: colors.textPrimary,
+  },
+  ayuda: {
+    fontSize: fontSize.xs,
+    color: colors.textTertiary,
+    textAlign: "center",
+    marginTop: spacing.sm,
+  },
+  enlaceCompra: {
+    fontSize: fontSize.sm,
+    color: colors.primary,
+    fontWeight: "500",
+    textAlign: "center",
+    marginTop: spacing.sm,
+  },
+  dia: {
+    // Sin recorte: la receta arrastrada puede salir de la tarjeta
+    overflow: "visible",
+  },
+  diaHoy: {
+    borderWidth: 2,
+    borderColor: colors.primary,
+  },
+  nombreDia: {
+    fontSize: fontSize.md,
+    fontWeight: "bold",
+    color: colors.textPrimary,
+    marginBottom: spacing.sm,
+  },
+  hueco: {
+    minHeight: 56,
+    borderRadius: borderRadius.md,
+    borderWidth: 1,
+    borderStyle: "dashed",
+    borderColor: colors.border,
+    padding: spacing.sm,
+    marginBottom: spacing.sm,
+  },
+  huecoDestino: {
+    borderColor: colors.primary,
+    borderStyle: "solid",
+    backgroundColor: colors.borderLight,
+  },
+  cabeceraHueco: {
+    flexDirection: "row",
+    justifyContent: "space-between",
+    alignItems: "center",
+    marginBottom: spacing.xs,
+  },
+  nombreComida: {
+    fontSize: fontSize.sm,
+    color: colors.textSecondary,
+    fontWeight: "600",
+  },
+  botonAgregar: {
+    fontSize: fontSize.xl,
+    color: colors.primary,
+    fontWeight: "bold",
+  },
+});
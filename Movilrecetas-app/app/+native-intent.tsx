@@ -0,0 +1,19 @@
+import { idRecetaDeEnlace, rutaReceta } from "../src/domain/utils/enlaces";
+
+/**
+ * Enlaces que abren la app desde fuera (cooklyapp://recipe/<id>, el
+ * enlace universal https://cookly.app/recipe/<id> y el alias /receta/<id>):
+ * se llevan siempre al detalle de la receta.
+ *
+ * Si no hay sesión, app/_layout.tsx recuerda el destino, manda al
+ * login y vuelve a la receta después de iniciar sesión.
+ */
+export function redirectSystemPath({ path }: { path: string }) {
+  try {
+    const recetaId = idRecetaDeEnlace(path);
+    return recetaId ? rutaReceta(recetaId) : path;
+  } catch {
+    // Un enlace mal formado no debe cerrar la app
+    return "/";
+  }
+}
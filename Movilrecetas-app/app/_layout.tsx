@@ -1,10 +1,12 @@
-import { Stack, useRouter, useSegments } from "expo-router";
+import { Href, Stack, usePathname, useRouter, useSegments } from "expo-router";
 import { useEffect } from "react";
+import { idRecetaDeEnlace, rutaReceta } from "../src/domain/utils/enlaces";
 import { useAuth } from "../src/presentation/hooks/useAuth";
 
 export default function RootLayout() {
-  const { usuario, cargando } = useAuth();
+  const { usuario, cargando, recordarDestino, tomarDestino } = useAuth();
   const segments = useSegments();
+  const pathname = usePathname();
   const router = useRouter();
 
   useEffect(() => {
@@ -15,20 +17,37 @@ export default function RootLayout() {
     const enAuth = segments[0] === "auth";
 
     // REGLA 1: Si NO hay usuario y NO está en auth → Redirigir a login
+    // (recordando la receta si se llegó por un enlace)
     if (!usuario && !enAuth) {
+      const recetaId = idRecetaDeEnlace(pathname);
+      if (recetaId) {
+        recordarDestino(rutaReceta(recetaId));
+      }
       router.replace("/auth/login");
     }
     // REGLA 2: Si HAY usuario y está en auth → Redirigir a tabs
+    // (tras el login o el registro)
     else if (usuario && enAuth) {
       router.replace("/(tabs)");
+
+      // Si se llegó por un enlace a una receta, continuar hasta ella
+      // (encima de tabs, para que "Volver" lleve al inicio)
+      const destino = tomarDestino();
+      if (destino) {
+        router.push(destino as Href);
+      }
     }
-  }, [usuario, segments, cargando]);
+  }, [usuario, segments, pathname, cargando, recordarDestino, tomarDestino]);
 
   return (
     <Stack>
       <Stack.Screen name="(tabs)" options={{ headerShown: false }} />
       <Stack.Screen name="auth" options={{ headerShown: false }} />
       <Stack.Screen name="recipe" options={{ headerShown: false }} />
+      <Stack.Screen name="coleccion" options={{ headerShown: false }} />
+      <Stack.Screen name="compras" options={{ headerShown: false }} />
+      <Stack.Screen name="despensa" options={{ headerShown: false }} />
+      <Stack.Screen name="perfil" options={{ headerShown: false }} />
     </Stack>
   );
 }
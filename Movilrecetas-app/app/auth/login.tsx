@@ -41,11 +41,9 @@ export default function LoginScreen() {
     setCargando(false);
 
     // MANEJO DE RESULTADO
-    if (resultado.success) {
-      // Éxito: Redirigir a tabs
-      // replace() para que no pueda volver con botón atrás
-      router.replace("/(tabs)");
-    } else {
+    // Éxito: app/_layout.tsx redirige a tabs (y a la receta pendiente, si
+    // se llegó por un enlace) en cuanto hay usuario
+    if (!resultado.success) {
       // Error: Mostrar mensaje
       Alert.alert("Error", resultado.error || "No se pudo iniciar sesión");
     }
@@ -46,11 +46,15 @@ export default function RegistroScreen() {
     const resultado = await registrar(email, password, rolSeleccionado);
     setCargando(false);
 
-    if (resultado.success) {
-      // Éxito: Redirigir a login
+    if (resultado.success && resultado.needsConfirmation) {
+      // Falta confirmar el email: Redirigir a login
       Alert.alert("Éxito", "Cuenta creada correctamente", [
         { text: "OK", onPress: () => router.replace("/auth/login") },
       ]);
+    } else if (resultado.success) {
+      // Con la sesión ya iniciada, app/_layout.tsx redirige a tabs (y a la
+      // receta pendiente, si se llegó por un enlace)
+      Alert.alert("Éxito", "Cuenta creada correctamente");
     } else {
       Alert.alert("Error", resultado.error || "No se pudo crear la cuenta");
     }
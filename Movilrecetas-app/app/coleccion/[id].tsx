@@ -0,0 +1,139 @@
+import { useLocalSearchParams, useRouter } from "expo-router";
+import React from "react";
+import {
+  ActivityIndicator,
+  Alert,
+  FlatList,
+  StyleSheet,
+  Text,
+  TouchableOpacity,
+  View,
+} from "react-native";
+import { Receta } from "../../src/domain/models/Receta";
+import {
+  ALTO_FILA_RECETA,
+  FilaReceta,
+} from "../../src/presentation/components/FilaReceta";
+import { useCollection } from "../../src/presentation/hooks/useCollection";
+import { globalStyles } from "../../src/styles/globalStyles";
+import { colors, fontSize, spacing } from "../../src/styles/theme";
+
+export default function DetalleColeccionScreen() {
+  const { id } = useLocalSearchParams<{ id: string }>();
+  const { coleccion, recetas, cargando, quitarReceta } = useCollection(id);
+  const router = useRouter();
+
+  const handleQuitar = (receta: Receta) => {
+    Alert.alert(
+      "Quitar de la colección",
+      `¿Quitar "${receta.titulo}" de esta colección?`,
+      [
+        {
+          text: "Cancelar",
+          style: "cancel",
+        },
+        {
+          text: "Quitar",
+          style: "destructive",
+          onPress: async () => {
+            const resultado = await quitarReceta(receta.id);
+            if (!resultado.success) {
+              Alert.alert("Error", resultado.error || "No se pudo quitar");
+            }
+          },
+        },
+      ]
+    );
+  };
+
+  if (cargando) {
+    return (
+      <View style={globalStyles.loadingContainer}>
+        <ActivityIndicator size="large" color={colors.primary} />
+      </View>
+    );
+  }
+
+  if (!coleccion) {
+    return (
+      <View style={globalStyles.containerCentered}>
+        <Text style={globalStyles.textSecondary}>Colección no encontrada</Text>
+        <TouchableOpacity onPress={() => router.back()}>
+          <Text style={styles.botonVolver}>← Volver</Text>
+        </TouchableOpacity>
+      </View>
+    );
+  }
+
+  return (
+    <View style={globalStyles.container}>
+      <View style={globalStyles.header}>
+        <TouchableOpacity onPress={() => router.back()}>
+          <Text style={styles.botonVolver}>← Volver</Text>
+        </TouchableOpacity>
+        <View style={styles.cabecera}>
+          <Text style={styles.titulo} numberOfLines={1}>
+            {coleccion.nombre}
+          </Text>
+          <Text style={globalStyles.textSecondary}>
+            {recetas.length} {recetas.length === 1 ? "receta" : "recetas"}
+          </Text>
+        </View>
+      </View>
+
+      <FlatList
+        data={recetas}
+        keyExtractor={(item) => item.id}
+        contentContainerStyle={{ padding: spacing.md }}
+        getItemLayout={(_, index) => ({
+          length: ALTO_FILA_RECETA,
+          offset: ALTO_FILA_RECETA * index,
+          index,
+        })}
+        initialNumToRender={10}
+        windowSize={7}
+        removeClippedSubviews
+        ListEmptyComponent={
+          <Text style={globalStyles.emptyState}>
+            Esta colección está vacía. Añade recetas desde su detalle con 📚
+          </Text>
+        }
+        renderItem={({ item }) => (
+          <FilaReceta
+            receta={item}
+            onPress={() => router.push(`/recipe/${item.id}`)}
+            accion={
+              <TouchableOpacity onPress={() => handleQuitar(item)} hitSlop={8}>
+                <Text style={styles.textoQuitar}>×</Text>
+              </TouchableOpacity>
+            }
+          />
+        )}
+      />
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  botonVolver: {
+    fontSize: fontSize.md,
+    color: colors.primary,
+    marginTop: spacing.sm,
+  },
+  cabecera: {
+    flex: 1,
+    alignItems: "flex-end",
+    marginLeft: spacing.md,
+  },
+  titulo: {
+    fontSize: fontSize.lg,
+    fontWeight: "bold",
+    color: colors.textPrimary,
+  },
+  textoQuitar: {
+    color: colors.danger,
+    fontSize: fontSize.xl,
+    fontWeight: "bold",
+    paddingHorizontal: spacing.sm,
+  },
+});
@@ -0,0 +1,26 @@
+import { Stack } from "expo-router";
+
+export default function ColeccionLayout() {
+  return (
+    <Stack
+      screenOptions={{
+        headerShown: false,
+      }}
+    >
+      <Stack.Screen
+        name="index"
+        options={{
+          headerShown: false,
+          presentation: "card", // Gestión de las colecciones del usuario
+        }}
+      />
+      <Stack.Screen
+        name="[id]"
+        options={{
+          headerShown: false,
+          presentation: "card", // Recetas de una colección
+        }}
+      />
+    </Stack>
+  );
+}
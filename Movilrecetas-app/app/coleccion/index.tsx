@@ -0,0 +1,270 @@
+import { useFocusEffect, useRouter } from "expo-router";
+import React, { useCallback, useState } from "react";
+import {
+  ActivityIndicator,
+  Alert,
+  FlatList,
+  StyleSheet,
+  Text,
+  TextInput,
+  TouchableOpacity,
+  View,
+} from "react-native";
+import { Coleccion } from "../../src/domain/models/Coleccion";
+import { useCollections } from "../../src/presentation/hooks/useCollections";
+import { globalStyles } from "../../src/styles/globalStyles";
+import {
+  borderRadius,
+  colors,
+  fontSize,
+  spacing,
+} from "../../src/styles/theme";
+
+export default function ColeccionesScreen() {
+  const {
+    colecciones,
+    cargando,
+    cargarColecciones,
+    crear,
+    renombrar,
+    mover,
+    eliminar,
+  } = useCollections();
+  const [nombreNueva, setNombreNueva] = useState("");
+  const [editandoId, setEditandoId] = useState<string | null>(null);
+  const [nombreEdicion, setNombreEdicion] = useState("");
+  const router = useRouter();
+
+  // Al volver de una colección el número de recetas puede haber cambiado
+  useFocusEffect(
+    useCallback(() => {
+      cargarColecciones();
+    }, [cargarColecciones])
+  );
+
+  const handleCrear = async () => {
+    const resultado = await crear(nombreNueva);
+    if (resultado.success) {
+      setNombreNueva("");
+    } else {
+      Alert.alert("Error", resultado.error || "No se pudo crear la colección");
+    }
+  };
+
+  const handleEmpezarEdicion = (coleccion: Coleccion) => {
+    setEditandoId(coleccion.id);
+    setNombreEdicion(coleccion.nombre);
+  };
+
+  const handleRenombrar = async () => {
+    if (!editandoId) return;
+
+    const resultado = await renombrar(editandoId, nombreEdicion);
+    if (resultado.success) {
+      setEditandoId(null);
+    } else {
+      Alert.alert("Error", resultado.error || "No se pudo renombrar");
+    }
+  };
+
+  const handleMover = async (index: number, direccion: -1 | 1) => {
+    const resultado = await mover(index, direccion);
+    if (!resultado.success) {
+      Alert.alert("Error", resultado.error || "No se pudo guardar el orden");
+    }
+  };
+
+  const handleEliminar = (coleccion: Coleccion) => {
+    Alert.alert(
+      "Eliminar colección",
+      `¿Eliminar "${coleccion.nombre}"? Las recetas no se borran.`,
+      [
+        {
+          text: "Cancelar",
+          style: "cancel",
+        },
+        {
+          text: "Eliminar",
+          style: "destructive",
+          onPress: async () => {
+            const resultado = await eliminar(coleccion.id);
+            if (!resultado.success) {
+              Alert.alert("Error", resultado.error || "No se pudo eliminar");
+            }
+          },
+        },
+      ]
+    );
+  };
+
+  return (
+    <View style={globalStyles.container}>
+      <View style={globalStyles.header}>
+        <TouchableOpacity onPress={() => router.back()}>
+          <Text style={styles.botonVolver}>← Volver</Text>
+        </TouchableOpacity>
+        <Text style={styles.titulo}>📚 Mis colecciones</Text>
+      </View>
+
+      <View style={styles.contenedorNueva}>
+        <TextInput
+          style={[globalStyles.input, styles.inputNueva]}
+          placeholder='Nueva colección. Ej: "Cenas rápidas"'
+          value={nombreNueva}
+          onChangeText={setNombreNueva}
+          onSubmitEditing={handleCrear}
+        />
+        <TouchableOpacity
+          style={[
+            globalStyles.button,
+            globalStyles.buttonPrimary,
+            styles.botonCrear,
+          ]}
+          onPress={handleCrear}
+        >
+          <Text style={globalStyles.buttonText}>+ Crear</Text>
+        </TouchableOpacity>
+      </View>
+
+      {cargando && colecciones.length === 0 ? (
+        <ActivityIndicator
+          size="large"
+          color={colors.primary}
+          style={{ marginTop: spacing.lg }}
+        />
+      ) : (
+        <FlatList
+          data={colecciones}
+          keyExtractor={(item) => item.id}
+          contentContainerStyle={{ padding: spacing.md }}
+          ListEmptyComponent={
+            <Text style={globalStyles.emptyState}>
+              Crea tu primera colección para organizar tus recetas
+            </Text>
+          }
+          renderItem={({ item, index }) => (
+            <View style={styles.fila}>
+              {editandoId === item.id ? (
+                <TextInput
+                  style={[globalStyles.input, styles.inputEdicion]}
+                  value={nombreEdicion}
+                  onChangeText={setNombreEdicion}
+                  onSubmitEditing={handleRenombrar}
+                  onBlur={() => setEditandoId(null)}
+                  autoFocus
+                />
+              ) : (
+                <TouchableOpacity
+                  style={styles.infoColeccion}
+                  onPress={() => router.push(`/coleccion/${item.id}`)}
+                >
+                  <Text style={styles.nombre} numberOfLines={1}>
+                    {item.nombre}
+                  </Text>
+                  <Text style={globalStyles.textSecondary}>
+                    {item.num_recetas}{" "}
+                    {item.num_recetas === 1 ? "receta" : "recetas"}
+                  </Text>
+                </TouchableOpacity>
+              )}
+
+              <View style={styles.acciones}>
+                <TouchableOpacity
+                  onPress={() => handleMover(index, -1)}
+                  disabled={index === 0}
+                >
+                  <Text
+                    style={[
+                      styles.textoAccion,
+                      index === 0 && styles.textoDeshabilitado,
+                    ]}
+                  >
+                    ↑
+                  </Text>
+                </TouchableOpacity>
+                <TouchableOpacity
+                  onPress={() => handleMover(index, 1)}
+                  disabled={index === colecciones.length - 1}
+                >
+                  <Text
+                    style={[
+                      styles.textoAccion,
+                      index === colecciones.length - 1 &&
+                        styles.textoDeshabilitado,
+                    ]}
+                  >
+                    ↓
+                  </Text>
+                </TouchableOpacity>
+                <TouchableOpacity onPress={() => handleEmpezarEdicion(item)}>
+                  <Text style={styles.textoAccion}>✏️</Text>
+                </TouchableOpacity>
+                <TouchableOpacity onPress={() => handleEliminar(item)}>
+                  <Text style={styles.textoAccion}>🗑️</Text>
+                </TouchableOpacity>
+              </View>
+            </View>
+          )}
+        />
+      )}
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  botonVolver: {
+    fontSize: fontSize.md,
+    color: colors.primary,
+  },
+  titulo: {
+    fontSize: fontSize.lg,
+    fontWeight: "bold",
+    color: colors.textPrimary,
+  },
+  contenedorNueva: {
+    flexDirection: "row",
+    padding: spacing.md,
+    gap: spacing.sm,
+  },
+  inputNueva: {
+    flex: 1,
+    marginBottom: 0,
+  },
+  botonCrear: {
+    paddingHorizontal: spacing.md,
+  },
+  fila: {
+    flexDirection: "row",
+    alignItems: "center",
+    gap: spacing.md,
+    backgroundColor: colors.white,
+    borderRadius: borderRadius.lg,
+    padding: spacing.md,
+    marginBottom: spacing.sm,
+  },
+  infoColeccion: {
+    flex: 1,
+  },
+  nombre: {
+    fontSize: fontSize.md,
+    fontWeight: "bold",
+    color: colors.textPrimary,
+    marginBottom: spacing.xs,
+  },
+  inputEdicion: {
+    flex: 1,
+    marginBottom: 0,
+  },
+  acciones: {
+    flexDirection: "row",
+    alignItems: "center",
+    gap: spacing.md,
+  },
+  textoAccion: {
+    fontSize: fontSize.lg,
+    color: colors.secondary,
+  },
+  textoDeshabilitado: {
+    color: colors.border,
+  },
+});
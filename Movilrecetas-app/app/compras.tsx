@@ -0,0 +1,216 @@
+import { useFocusEffect, useRouter } from "expo-router";
+import React, { useCallback } from "react";
+import {
+  ActivityIndicator,
+  Alert,
+  ScrollView,
+  SectionList,
+  StyleSheet,
+  Text,
+  TouchableOpacity,
+  View,
+} from "react-native";
+import { formatearIngrediente } from "../src/domain/utils/ingredientes";
+import { useShoppingList } from "../src/presentation/hooks/useShoppingList";
+import { useUnidades } from "../src/presentation/hooks/useUnidades";
+import { globalStyles } from "../src/styles/globalStyles";
+import { borderRadius, colors, fontSize, spacing } from "../src/styles/theme";
+
+export default function ListaCompraScreen() {
+  const {
+    lista,
+    grupos,
+    pendientes,
+    cargando,
+    quitarReceta,
+    alternarMarcado,
+    desmarcarTodo,
+    vaciar,
+    recargar,
+  } = useShoppingList();
+  const { convertir } = useUnidades();
+  const router = useRouter();
+
+  // Se pueden haber añadido recetas desde el detalle o el planificador
+  useFocusEffect(
+    useCallback(() => {
+      recargar();
+    }, [recargar])
+  );
+
+  const handleVaciar = () => {
+    Alert.alert("Vaciar lista", "¿Quitar todas las recetas y artículos?", [
+      {
+        text: "Cancelar",
+        style: "cancel",
+      },
+      {
+        text: "Vaciar",
+        style: "destructive",
+        onPress: vaciar,
+      },
+    ]);
+  };
+
+  if (cargando || !lista) {
+    return (
+      <View style={globalStyles.loadingContainer}>
+        <ActivityIndicator size="large" color={colors.primary} />
+      </View>
+    );
+  }
+
+  return (
+    <View style={globalStyles.container}>
+      <View style={globalStyles.header}>
+        <TouchableOpacity onPress={() => router.back()}>
+          <Text style={styles.enlace}>← Volver</Text>
+        </TouchableOpacity>
+        <Text style={styles.titulo}>🛒 Lista de la compra</Text>
+      </View>
+
+      {lista.recetas.length > 0 && (
+        <View>
+          <ScrollView
+            horizontal
+            showsHorizontalScrollIndicator={false}
+            contentContainerStyle={styles.recetas}
+          >
+            {lista.recetas.map((receta) => (
+              <View key={receta.id} style={globalStyles.chip}>
+                <Text style={globalStyles.chipText}>
+                  {receta.titulo} · {receta.porciones} 🍽️
+                </Text>
+                <TouchableOpacity
+                  onPress={() => quitarReceta(receta.id)}
+                  hitSlop={8}
+                >
+                  <Text style={styles.quitarReceta}>×</Text>
+                </TouchableOpacity>
+              </View>
+            ))}
+          </ScrollView>
+
+          <View style={styles.resumen}>
+            <Text style={globalStyles.textSecondary}>
+              {pendientes === 0
+                ? "¡Todo comprado! 🎉"
+                : `${pendientes} pendientes`}
+            </Text>
+            <View style={styles.accionesLista}>
+              <TouchableOpacity onPress={desmarcarTodo}>
+                <Text style={styles.enlace}>Desmarcar</Text>
+              </TouchableOpacity>
+              <TouchableOpacity onPress={handleVaciar}>
+                <Text style={styles.enlaceEliminar}>Vaciar</Text>
+              </TouchableOpacity>
+            </View>
+          </View>
+        </View>
+      )}
+
+      <SectionList
+        sections={grupos.map((grupo) => ({ ...grupo, data: grupo.items }))}
+        keyExtractor={(item) => item.id}
+        contentContainerStyle={{ padding: spacing.md }}
+        stickySectionHeadersEnabled={false}
+        ListEmptyComponent={
+          <Text style={globalStyles.emptyState}>
+            Tu lista está vacía. Añade recetas desde su detalle o desde el
+            planificador semanal.
+          </Text>
+        }
+        renderSectionHeader={({ section }) => (
+          <Text style={styles.seccion}>{section.etiqueta}</Text>
+        )}
+        renderItem={({ item }) => (
+          <TouchableOpacity
+            style={styles.item}
+            onPress={() => alternarMarcado(item.id)}
+          >
+            <Text style={styles.casilla}>{item.marcado ? "☑️" : "⬜"}</Text>
+            <View style={styles.infoItem}>
+              <Text
+                style={[styles.textoItem, item.marcado && styles.textoMarcado]}
+              >
+                {formatearIngrediente(convertir(item))}
+              </Text>
+              <Text style={styles.recetasItem} numberOfLines={1}>
+                {item.recetas.join(" · ")}
+              </Text>
+            </View>
+          </TouchableOpacity>
+        )}
+      />
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  titulo: {
+    fontSize: fontSize.lg,
+    fontWeight: "bold",
+    color: colors.textPrimary,
+  },
+  enlace: {
+    fontSize: fontSize.md,
+    color: colors.primary,
+  },
+  enlaceEliminar: {
+    fontSize: fontSize.md,
+    color: colors.danger,
+  },
+  recetas: {
+    gap: spacing.sm,
+    padding: spacing.md,
+  },
+  quitarReceta: {
+    color: colors.primary,
+    fontSize: fontSize.md,
+    fontWeight: "bold",
+  },
+  resumen: {
+    flexDirection: "row",
+    justifyContent: "space-between",
+    alignItems: "center",
+    paddingHorizontal: spacing.md,
+  },
+  accionesLista: {
+    flexDirection: "row",
+    gap: spacing.md,
+  },
+  seccion: {
+    fontSize: fontSize.md,
+    fontWeight: "bold",
+    color: colors.textPrimary,
+    marginTop: spacing.md,
+    marginBottom: spacing.sm,
+  },
+  item: {
+    flexDirection: "row",
+    alignItems: "center",
+    gap: spacing.md,
+    backgroundColor: colors.white,
+    borderRadius: borderRadius.md,
+    padding: spacing.sm,
+    marginBottom: spacing.xs,
+  },
+  casilla: {
+    fontSize: fontSize.lg,
+  },
+  infoItem: {
+    flex: 1,
+  },
+  textoItem: {
+    fontSize: fontSize.md,
+    color: colors.textPrimary,
+  },
+  textoMarcado: {
+    textDecorationLine: "line-through",
+    color: colors.textTertiary,
+  },
+  recetasItem: {
+    fontSize: fontSize.xs,
+    color: colors.textTertiary,
+  },
+});
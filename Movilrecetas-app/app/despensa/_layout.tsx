@@ -0,0 +1,26 @@
+import { Stack } from "expo-router";
+
+export default function DespensaLayout() {
+  return (
+    <Stack
+      screenOptions={{
+        headerShown: false,
+      }}
+    >
+      <Stack.Screen
+        name="index"
+        options={{
+          headerShown: false,
+          presentation: "card", // Artículos de la despensa
+        }}
+      />
+      <Stack.Screen
+        name="sugerencias"
+        options={{
+          headerShown: false,
+          presentation: "card", // Recetas que aprovechan la despensa
+        }}
+      />
+    </Stack>
+  );
+}
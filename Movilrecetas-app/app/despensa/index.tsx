@@ -0,0 +1,250 @@
+import { useFocusEffect, useRouter } from "expo-router";
+import React, { useCallback, useState } from "react";
+import {
+  ActivityIndicator,
+  Alert,
+  FlatList,
+  StyleSheet,
+  Text,
+  TouchableOpacity,
+  View,
+} from "react-native";
+import {
+  ArticuloDespensa,
+  EstadoCaducidad,
+} from "../../src/domain/models/Despensa";
+import { DatosArticulo } from "../../src/domain/useCases/pantry/PantryUseCase";
+import {
+  describirCaducidad,
+  estadoCaducidad,
+} from "../../src/domain/utils/despensa";
+import { formatearIngrediente } from "../../src/domain/utils/ingredientes";
+import { FormularioArticulo } from "../../src/presentation/components/FormularioArticulo";
+import { usePantry } from "../../src/presentation/hooks/usePantry";
+import { useUnidades } from "../../src/presentation/hooks/useUnidades";
+import { globalStyles } from "../../src/styles/globalStyles";
+import {
+  borderRadius,
+  colors,
+  fontSize,
+  spacing,
+} from "../../src/styles/theme";
+
+// Color del aviso de caducidad según el estado
+const COLORES_CADUCIDAD: Record<EstadoCaducidad, string> = {
+  caducado: colors.danger,
+  pronto: colors.warning,
+  bien: colors.success,
+  sin_fecha: colors.textTertiary,
+};
+
+export default function DespensaScreen() {
+  const {
+    articulos,
+    cargando,
+    cargarArticulos,
+    agregar,
+    actualizar,
+    eliminar,
+  } = usePantry();
+  const { convertir } = useUnidades();
+  const [mostrarFormulario, setMostrarFormulario] = useState(false);
+  const [editando, setEditando] = useState<ArticuloDespensa | null>(null);
+  const router = useRouter();
+
+  useFocusEffect(
+    useCallback(() => {
+      cargarArticulos();
+    }, [cargarArticulos])
+  );
+
+  const handleNuevo = () => {
+    setEditando(null);
+    setMostrarFormulario(true);
+  };
+
+  const handleEditar = (articulo: ArticuloDespensa) => {
+    setEditando(articulo);
+    setMostrarFormulario(true);
+  };
+
+  const handleGuardar = async (datos: DatosArticulo) => {
+    const resultado = editando
+      ? await actualizar(editando.id, datos)
+      : await agregar(datos);
+    if (!resultado.success) {
+      Alert.alert("Error", resultado.error || "No se pudo guardar");
+    }
+    return resultado.success;
+  };
+
+  const handleEliminar = (articulo: ArticuloDespensa) => {
+    Alert.alert("Quitar de la despensa", `¿Quitar "${articulo.nombre}"?`, [
+      {
+        text: "Cancelar",
+        style: "cancel",
+      },
+      {
+        text: "Quitar",
+        style: "destructive",
+        onPress: async () => {
+          const resultado = await eliminar(articulo.id);
+          if (!resultado.success) {
+            Alert.alert("Error", resultado.error || "No se pudo quitar");
+          }
+        },
+      },
+    ]);
+  };
+
+  const porCaducar = articulos.filter(
+    (articulo) => estadoCaducidad(articulo) === "pronto"
+  ).length;
+
+  return (
+    <View style={globalStyles.container}>
+      <View style={globalStyles.header}>
+        <TouchableOpacity onPress={() => router.back()}>
+          <Text style={styles.enlace}>← Volver</Text>
+        </TouchableOpacity>
+        <Text style={styles.titulo}>🥫 Mi despensa</Text>
+        <TouchableOpacity onPress={handleNuevo}>
+          <Text style={styles.enlace}>+ Añadir</Text>
+        </TouchableOpacity>
+      </View>
+
+      {articulos.length > 0 && (
+        <TouchableOpacity
+          style={[globalStyles.card, styles.avisoSugerencias]}
+          onPress={() => router.push("/despensa/sugerencias")}
+        >
+          <Text style={styles.textoSugerencias}>🍳 ¿Qué cocino con esto?</Text>
+          {porCaducar > 0 && (
+            <Text style={globalStyles.textSecondary}>
+              {porCaducar === 1
+                ? "1 artículo caduca pronto"
+                : `${porCaducar} artículos caducan pronto`}
+            </Text>
+          )}
+        </TouchableOpacity>
+      )}
+
+      {cargando ? (
+        <ActivityIndicator
+          size="large"
+          color={colors.primary}
+          style={{ marginTop: spacing.lg }}
+        />
+      ) : (
+        <FlatList
+          data={articulos}
+          keyExtractor={(item) => item.id}
+          contentContainerStyle={{ padding: spacing.md }}
+          ListEmptyComponent={
+            <Text style={globalStyles.emptyState}>
+              Tu despensa está vacía. Añade lo que tienes en casa y te
+              sugeriremos recetas para aprovecharlo.
+            </Text>
+          }
+          renderItem={({ item }) => {
+            const estado = estadoCaducidad(item);
+            return (
+              <TouchableOpacity
+                style={styles.articulo}
+                onPress={() => handleEditar(item)}
+              >
+                <View
+                  style={[
+                    styles.marcaCaducidad,
+                    { backgroundColor: COLORES_CADUCIDAD[estado] },
+                  ]}
+                />
+                <View style={styles.infoArticulo}>
+                  <Text style={styles.nombre}>
+                    {formatearIngrediente(
+                      convertir({
+                        nombre: item.nombre,
+                        cantidad: item.cantidad ?? undefined,
+                        unidad: item.unidad ?? undefined,
+                      })
+                    )}
+                  </Text>
+                  <Text
+                    style={[
+                      styles.caducidad,
+                      { color: COLORES_CADUCIDAD[estado] },
+                    ]}
+                  >
+                    {describirCaducidad(item)}
+                  </Text>
+                </View>
+                <TouchableOpacity onPress={() => handleEliminar(item)}>
+                  <Text style={styles.textoEliminar}>×</Text>
+                </TouchableOpacity>
+              </TouchableOpacity>
+            );
+          }}
+        />
+      )}
+
+      <FormularioArticulo
+        visible={mostrarFormulario}
+        articulo={editando}
+        onGuardar={handleGuardar}
+        onCerrar={() => setMostrarFormulario(false)}
+      />
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  titulo: {
+    fontSize: fontSize.lg,
+    fontWeight: "bold",
+    color: colors.textPrimary,
+  },
+  enlace: {
+    fontSize: fontSize.md,
+    color: colors.primary,
+  },
+  avisoSugerencias: {
+    marginHorizontal: spacing.md,
+    marginTop: spacing.md,
+    marginBottom: 0,
+  },
+  textoSugerencias: {
+    fontSize: fontSize.md,
+    fontWeight: "600",
+    color: colors.primary,
+  },
+  articulo: {
+    flexDirection: "row",
+    alignItems: "center",
+    gap: spacing.md,
+    backgroundColor: colors.white,
+    borderRadius: borderRadius.md,
+    padding: spacing.sm,
+    marginBottom: spacing.sm,
+  },
+  marcaCaducidad: {
+    width: 6,
+    alignSelf: "stretch",
+    borderRadius: borderRadius.md,
+  },
+  infoArticulo: {
+    flex: 1,
+  },
+  nombre: {
+    fontSize: fontSize.md,
+    color: colors.textPrimary,
+  },
+  caducidad: {
+    fontSize: fontSize.sm,
+  },
+  textoEliminar: {
+    color: colors.danger,
+    fontSize: fontSize.xl,
+    fontWeight: "bold",
+    paddingHorizontal: spacing.sm,
+  },
+});
@@ -0,0 +1,115 @@
+import { useFocusEffect, useRouter } from "expo-router";
+import React, { useCallback } from "react";
+import {
+  ActivityIndicator,
+  FlatList,
+  StyleSheet,
+  Text,
+  TouchableOpacity,
+  View,
+} from "react-native";
+import { FilaReceta } from "../../src/presentation/components/FilaReceta";
+import { usePantry } from "../../src/presentation/hooks/usePantry";
+import { globalStyles } from "../../src/styles/globalStyles";
+import { colors, fontSize, spacing } from "../../src/styles/theme";
+
+export default function SugerenciasDespensaScreen() {
+  const { sugerencias, cargandoSugerencias, cargarSugerencias } = usePantry();
+  const router = useRouter();
+
+  // La despensa puede haber cambiado en la pantalla anterior
+  useFocusEffect(
+    useCallback(() => {
+      cargarSugerencias();
+    }, [cargarSugerencias])
+  );
+
+  return (
+    <View style={globalStyles.container}>
+      <View style={globalStyles.header}>
+        <TouchableOpacity onPress={() => router.back()}>
+          <Text style={styles.enlace}>← Despensa</Text>
+        </TouchableOpacity>
+        <Text style={styles.titulo}>🍳 Qué cocinar</Text>
+      </View>
+
+      {cargandoSugerencias ? (
+        <ActivityIndicator
+          size="large"
+          color={colors.primary}
+          style={{ marginTop: spacing.lg }}
+        />
+      ) : (
+        <FlatList
+          data={sugerencias}
+          keyExtractor={(item) => item.receta.id}
+          contentContainerStyle={{ padding: spacing.md }}
+          ListHeaderComponent={
+            sugerencias.length > 0 ? (
+              <Text style={styles.ayuda}>
+                Primero las recetas que aprovechan lo que caduca antes
+              </Text>
+            ) : null
+          }
+          ListEmptyComponent={
+            <Text style={globalStyles.emptyState}>
+              Ninguna receta usa lo que tienes en la despensa
+            </Text>
+          }
+          renderItem={({ item }) => (
+            <View style={styles.sugerencia}>
+              <FilaReceta
+                receta={item.receta}
+                onPress={() => router.push(`/recipe/${item.receta.id}`)}
+              />
+              {item.porCaducar.length > 0 && (
+                <Text style={styles.porCaducar}>
+                  ⚠️ Aprovecha {item.porCaducar.map((a) => a.nombre).join(", ")}
+                </Text>
+              )}
+              <Text style={styles.detalle}>
+                ✅ Usa {item.usados.map((a) => a.nombre).join(", ")}
+                {item.faltantes.length > 0
+                  ? ` · Te faltan ${item.faltantes.length}`
+                  : " · ¡Tienes todo!"}
+              </Text>
+            </View>
+          )}
+        />
+      )}
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  titulo: {
+    fontSize: fontSize.lg,
+    fontWeight: "bold",
+    color: colors.textPrimary,
+  },
+  enlace: {
+    fontSize: fontSize.md,
+    color: colors.primary,
+  },
+  ayuda: {
+    fontSize: fontSize.xs,
+    color: colors.textTertiary,
+    textAlign: "center",
+    marginBottom: spacing.md,
+  },
+  sugerencia: {
+    marginBottom: spacing.md,
+  },
+  porCaducar: {
+    fontSize: fontSize.xs,
+    color: colors.warning,
+    fontWeight: "600",
+    marginHorizontal: spacing.sm,
+  },
+  detalle: {
+    fontSize: fontSize.xs,
+    color: colors.secondary,
+    fontWeight: "600",
+    marginHorizontal: spacing.sm,
+  },
+});
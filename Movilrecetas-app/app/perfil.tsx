@@ -0,0 +1,183 @@
+import { useRouter } from "expo-router";
+import React from "react";
+import {
+  ActivityIndicator,
+  Alert,
+  ScrollView,
+  StyleSheet,
+  Switch,
+  Text,
+  TouchableOpacity,
+  View,
+} from "react-native";
+import {
+  ALERGENOS,
+  DIETAS,
+  ETIQUETAS_RESTRICCION,
+  Restriccion,
+} from "../src/domain/models/Alergenos";
+import {
+  ETIQUETAS_SISTEMA,
+  SISTEMAS_UNIDADES,
+} from "../src/domain/models/Unidades";
+import { useAuth } from "../src/presentation/hooks/useAuth";
+import { useProfile } from "../src/presentation/hooks/useProfile";
+import { useUnidades } from "../src/presentation/hooks/useUnidades";
+import { globalStyles } from "../src/styles/globalStyles";
+import { colors, fontSize, spacing } from "../src/styles/theme";
+
+export default function PerfilScreen() {
+  const { usuario } = useAuth();
+  const { preferencias, cargando, alternarRestriccion, cambiarModo } =
+    useProfile();
+  const { sistema, cambiarSistema } = useUnidades();
+  const router = useRouter();
+
+  const handleAlternar = async (restriccion: Restriccion) => {
+    const resultado = await alternarRestriccion(restriccion);
+    if (!resultado.success) {
+      Alert.alert("Error", resultado.error || "No se pudo guardar");
+    }
+  };
+
+  const handleModo = async (ocultar: boolean) => {
+    const resultado = await cambiarModo(ocultar ? "ocultar" : "avisar");
+    if (!resultado.success) {
+      Alert.alert("Error", resultado.error || "No se pudo guardar");
+    }
+  };
+
+  const renderChips = (restricciones: Restriccion[]) => (
+    <View style={styles.listaChips}>
+      {restricciones.map((restriccion) => (
+        <TouchableOpacity
+          key={restriccion}
+          style={[
+            globalStyles.chip,
+            !preferencias.restricciones.includes(restriccion) &&
+              styles.chipInactivo,
+          ]}
+          onPress={() => handleAlternar(restriccion)}
+        >
+          <Text style={globalStyles.chipText}>
+            {ETIQUETAS_RESTRICCION[restriccion]}
+          </Text>
+        </TouchableOpacity>
+      ))}
+    </View>
+  );
+
+  return (
+    <ScrollView style={globalStyles.container}>
+      <View style={globalStyles.contentPadding}>
+        <TouchableOpacity onPress={() => router.back()}>
+          <Text style={styles.enlace}>← Volver</Text>
+        </TouchableOpacity>
+
+        <Text style={globalStyles.title}>👤 Mi perfil</Text>
+        {usuario && (
+          <View style={[globalStyles.card, styles.datos]}>
+            <Text style={globalStyles.textPrimary}>{usuario.email}</Text>
+            <Text style={globalStyles.textSecondary}>
+              {usuario.rol === "chef" ? "👨‍🍳 Chef" : "👤 Usuario"}
+            </Text>
+          </View>
+        )}
+
+        <Text style={globalStyles.subtitle}>Unidades</Text>
+        <Text style={styles.ayuda}>
+          Cómo se muestran las cantidades y temperaturas de las recetas
+        </Text>
+        <View style={styles.listaChips}>
+          {SISTEMAS_UNIDADES.map((opcion) => (
+            <TouchableOpacity
+              key={opcion}
+              style={[
+                globalStyles.chip,
+                sistema !== opcion && styles.chipInactivo,
+              ]}
+              onPress={() => cambiarSistema(opcion)}
+            >
+              <Text style={globalStyles.chipText}>
+                {ETIQUETAS_SISTEMA[opcion]}
+              </Text>
+            </TouchableOpacity>
+          ))}
+        </View>
+
+        <Text style={globalStyles.subtitle}>Restricciones alimentarias</Text>
+        {cargando ? (
+          <ActivityIndicator color={colors.primary} />
+        ) : (
+          <>
+            <Text style={styles.ayuda}>Alergias e intolerancias</Text>
+            {renderChips(ALERGENOS)}
+            <Text style={styles.ayuda}>Dieta</Text>
+            {renderChips(DIETAS)}
+
+            <View style={styles.filaSwitch}>
+              <View style={styles.textoSwitch}>
+                <Text style={globalStyles.textPrimary}>
+                  Ocultar recetas no aptas
+                </Text>
+                <Text style={styles.ayuda}>
+                  Si está desactivado, se muestran con un aviso ⚠️
+                </Text>
+              </View>
+              <Switch
+                value={preferencias.modo === "ocultar"}
+                onValueChange={handleModo}
+                trackColor={{ true: colors.primary }}
+              />
+            </View>
+
+            <Text style={styles.nota}>
+              Los alérgenos se detectan a partir de los ingredientes y el chef
+              puede corregirlos. Ante una alergia grave, revisa siempre la
+              receta completa.
+            </Text>
+          </>
+        )}
+      </View>
+    </ScrollView>
+  );
+}
+
+const styles = StyleSheet.create({
+  enlace: {
+    fontSize: fontSize.md,
+    color: colors.primary,
+    marginBottom: spacing.md,
+  },
+  datos: {
+    marginTop: spacing.md,
+  },
+  ayuda: {
+    fontSize: fontSize.sm,
+    color: colors.textSecondary,
+    marginBottom: spacing.xs,
+  },
+  listaChips: {
+    flexDirection: "row",
+    flexWrap: "wrap",
+    gap: spacing.sm,
+    marginBottom: spacing.md,
+  },
+  chipInactivo: {
+    backgroundColor: colors.borderLight,
+  },
+  filaSwitch: {
+    flexDirection: "row",
+    justifyContent: "space-between",
+    alignItems: "center",
+    gap: spacing.md,
+    marginVertical: spacing.md,
+  },
+  textoSwitch: {
+    flex: 1,
+  },
+  nota: {
+    fontSize: fontSize.xs,
+    color: colors.textTertiary,
+  },
+});
@@ -0,0 +1,453 @@
+import { useLocalSearchParams, useRouter } from "expo-router";
+import React, { useState } from "react";
+import {
+  ActivityIndicator,
+  Alert,
+  Image,
+  ScrollView,
+  StyleSheet,
+  Text,
+  TouchableOpacity,
+  View,
+} from "react-native";
+import { FormatoExportacion } from "../../src/domain/models/Exportacion";
+import { restriccionesIncumplidas } from "../../src/domain/utils/alergenos";
+import { formatearEtiqueta } from "../../src/domain/utils/etiquetas";
+import { formatearIngrediente } from "../../src/domain/utils/ingredientes";
+import { estimarNutricion } from "../../src/domain/utils/nutricion";
+import { AlergenosResumen } from "../../src/presentation/components/AlergenosResumen";
+import { ComentariosSeccion } from "../../src/presentation/components/ComentariosSeccion";
+import { ExportarSheet } from "../../src/presentation/components/ExportarSheet";
+import { InfoPreparacion } from "../../src/presentation/components/InfoPreparacion";
+import { PanelNutricional } from "../../src/presentation/components/PanelNutricional";
+import { PorcionesSelector } from "../../src/presentation/components/PorcionesSelector";
+import { ResenasSeccion } from "../../src/presentation/components/ResenasSeccion";
+import { SelectorColecciones } from "../../src/presentation/components/SelectorColecciones";
+import { TemporizadoresActivos } from "../../src/presentation/components/TemporizadoresActivos";
+import { ValoracionResumen } from "../../src/presentation/components/ValoracionResumen";
+import { useAuth } from "../../src/presentation/hooks/useAuth";
+import { useCollections } from "../../src/presentation/hooks/useCollections";
+import { useComments } from "../../src/presentation/hooks/useComments";
+import { useExport } from "../../src/presentation/hooks/useExport";
+import { useProfile } from "../../src/presentation/hooks/useProfile";
+import { useRecipeDetail } from "../../src/presentation/hooks/useRecipeDetail";
+import { useReviews } from "../../src/presentation/hooks/useReviews";
+import { useShoppingList } from "../../src/presentation/hooks/useShoppingList";
+import { useTemporizadores } from "../../src/presentation/hooks/useTemporizadores";
+import { useUnidades } from "../../src/presentation/hooks/useUnidades";
+import { globalStyles } from "../../src/styles/globalStyles";
+import {
+  borderRadius,
+  colors,
+  fontSize,
+  spacing,
+} from "../../src/styles/theme";
+
+export default function DetalleRecetaScreen() {
+  const { id } = useLocalSearchParams<{ id: string }>();
+  const { usuario } = useAuth();
+  const { receta, recetaEscalada, porciones, setPorciones, cargando } =
+    useRecipeDetail(id);
+  const { resenas, miResena, guardar } = useReviews(id);
+  const { comentarios, enviando, publicar, editar, eliminar } = useComments(id);
+  const {
+    colecciones,
+    cargando: cargandoColecciones,
+    cargarColecciones,
+    crear: crearColeccion,
+    obtenerColeccionesDeReceta,
+    alternarReceta,
+  } = useCollections();
+  const { agregarRecetas } = useShoppingList();
+  const { preferencias } = useProfile();
+  const { convertir, convertirTexto } = useUnidades();
+  const { temporizadores, cancelar, restantes } = useTemporizadores();
+  const { exportando, exportar, compartirEnlace } = useExport();
+  const [mostrarColecciones, setMostrarColecciones] = useState(false);
+  const [mostrarExportar, setMostrarExportar] = useState(false);
+  const [coleccionesReceta, setColeccionesReceta] = useState<string[]>([]);
+  const router = useRouter();
+
+  const handleAbrirColecciones = async () => {
+    if (!id) return;
+    setMostrarColecciones(true);
+    const [ids] = await Promise.all([
+      obtenerColeccionesDeReceta(id),
+      cargarColecciones(),
+    ]);
+    setColeccionesReceta(ids);
+  };
+
+  const handleAlternarColeccion = async (
+    coleccionId: string,
+    incluir: boolean
+  ) => {
+    if (!id) return;
+    const anteriores = coleccionesReceta;
+    setColeccionesReceta(
+      incluir
+        ? [...anteriores, coleccionId]
+        : anteriores.filter((c) => c !== coleccionId)
+    );
+
+    const resultado = await alternarReceta(coleccionId, id, incluir);
+    if (!resultado.success) {
+      setColeccionesReceta(anteriores);
+      Alert.alert("Error", resultado.error || "No se pudo guardar");
+    }
+  };
+
+  // La colección creada desde aquí ya incluye la receta
+  const handleCrearColeccion = async (nombre: string) => {
+    const resultado = await crearColeccion(nombre);
+    if (!resultado.success || !resultado.coleccion) {
+      Alert.alert("Error", resultado.error || "No se pudo crear la colección");
+      return false;
+    }
+    await handleAlternarColeccion(resultado.coleccion.id, true);
+    return true;
+  };
+
+  // Se añade con las porciones elegidas en el selector
+  const handleAgregarCompra = async () => {
+    if (!receta) return;
+    await agregarRecetas([{ receta, porciones }]);
+    Alert.alert("Lista de la compra", `"${receta.titulo}" añadida a la lista`, [
+      {
+        text: "Seguir aquí",
+        style: "cancel",
+      },
+      {
+        text: "Ver lista",
+        onPress: () => router.push("/compras"),
+      },
+    ]);
+  };
+
+  // Se exporta la receta original, no la escalada a otras porciones
+  const handleExportar = async (formato: FormatoExportacion) => {
+    if (!receta) return;
+    const resultado = await exportar([receta], formato);
+    if (resultado.success) {
+      setMostrarExportar(false);
+    } else {
+      Alert.alert("Error", resultado.error || "No se pudo exportar");
+    }
+  };
+
+  const handleCompartirEnlace = async () => {
+    if (!receta) return;
+    const resultado = await compartirEnlace(receta);
+    if (!resultado.success) {
+      Alert.alert("Error", resultado.error || "No se pudo compartir el enlace");
+    }
+  };
+
+  // Abierta desde un enlace puede no haber pantalla anterior
+  const handleVolver = () => {
+    if (router.canGoBack()) {
+      router.back();
+    } else {
+      router.replace("/(tabs)");
+    }
+  };
+
+  if (cargando) {
+    return (
+      <View style={globalStyles.loadingContainer}>
+        <ActivityIndicator size="large" color={colors.primary} />
+      </View>
+    );
+  }
+
+  if (!receta || !recetaEscalada) {
+    return (
+      <View style={globalStyles.containerCentered}>
+        <Text style={globalStyles.textSecondary}>Receta no encontrada</Text>
+        <TouchableOpacity
+          style={[
+            globalStyles.button,
+            globalStyles.buttonPrimary,
+            styles.botonVolverError,
+          ]}
+          onPress={handleVolver}
+        >
+          <Text style={globalStyles.buttonText}>Volver</Text>
+        </TouchableOpacity>
+      </View>
+    );
+  }
+
+  const nombreChef = receta.chef?.nombre || receta.chef?.email;
+  const esDueno = usuario?.id === receta.chef_id;
+
+  // Media calculada con las reseñas ya cargadas: se actualiza al
+  // publicar o editar una reseña sin volver a pedir la receta
+  const mediaResenas =
+    resenas.length > 0
+      ? resenas.reduce((suma, r) => suma + r.puntuacion, 0) / resenas.length
+      : 0;
+
+  return (
+    <ScrollView style={globalStyles.container}>
+      <View style={globalStyles.contentPadding}>
+        <View style={styles.header}>
+          <TouchableOpacity onPress={handleVolver}>
+            <Text style={styles.botonVolver}>← Volver</Text>
+          </TouchableOpacity>
+          <View style={styles.accionesHeader}>
+            <TouchableOpacity onPress={handleCompartirEnlace}>
+              <Text style={styles.botonVolver}>🔗 Enlace</Text>
+            </TouchableOpacity>
+            <TouchableOpacity onPress={() => setMostrarExportar(true)}>
+              <Text style={styles.botonVolver}>📤 Exportar</Text>
+            </TouchableOpacity>
+            <TouchableOpacity onPress={handleAbrirColecciones}>
+              <Text style={styles.botonVolver}>📚 Guardar</Text>
+            </TouchableOpacity>
+          </View>
+        </View>
+
+        {receta.imagen_url ? (
+          <Image source={{ uri: receta.imagen_url }} style={styles.imagen} />
+        ) : (
+          <View style={[styles.imagen, styles.imagenPlaceholder]}>
+            <Text style={globalStyles.textTertiary}>Sin imagen</Text>
+          </View>
+        )}
+
+        <Text style={globalStyles.title}>{receta.titulo}</Text>
+        {nombreChef && <Text style={styles.chef}>👨‍🍳 Por {nombreChef}</Text>}
+        <View style={styles.valoracion}>
+          <ValoracionResumen media={mediaResenas} total={resenas.length} />
+        </View>
+        <View style={styles.valoracion}>
+          <InfoPreparacion receta={receta} detallado />
+        </View>
+        {receta.etiquetas.length > 0 && (
+          <View style={styles.etiquetas}>
+            {receta.etiquetas.map((etiqueta) => (
+              <View key={etiqueta} style={globalStyles.chip}>
+                <Text style={globalStyles.chipText}>
+                  {formatearEtiqueta(etiqueta)}
+                </Text>
+              </View>
+            ))}
+          </View>
+        )}
+
+        <AlergenosResumen
+          receta={receta}
+          incumplidas={restriccionesIncumplidas(
+            receta,
+            preferencias.restricciones
+          )}
+        />
+
+        <Text style={[globalStyles.textPrimary, styles.descripcion]}>
+          {receta.descripcion}
+        </Text>
+
+        <Text style={globalStyles.subtitle}>Ingredientes:</Text>
+        <View style={styles.contenedorPorciones}>
+          <PorcionesSelector porciones={porciones} onChange={setPorciones} />
+        </View>
+        <View style={[globalStyles.card, styles.seccion]}>
+          {recetaEscalada.ingredientes.map((ing, index) => (
+            <Text key={index} style={styles.ingrediente}>
+              • {formatearIngrediente(convertir(ing))}
+            </Text>
+          ))}
+          <TouchableOpacity
+            style={styles.botonCompra}
+            onPress={handleAgregarCompra}
+          >
+            <Text style={styles.textoBotonCompra}>🛒 Añadir a la compra</Text>
+          </TouchableOpacity>
+        </View>
+
+        <PanelNutricional estimacion={estimarNutricion(recetaEscalada)} />
+
+        {receta.pasos.length > 0 && (
+          <>
+            <Text style={globalStyles.subtitle}>Preparación:</Text>
+            <TouchableOpacity
+              style={[
+                globalStyles.button,
+                globalStyles.buttonPrimary,
+                styles.seccion,
+              ]}
+              onPress={() =>
+                router.push(
+                  `/recipe/cocinar?id=${receta.id}&porciones=${porciones}`
+                )
+              }
+            >
+              <Text style={globalStyles.buttonText}>👨‍🍳 Modo cocina</Text>
+            </TouchableOpacity>
+            <TemporizadoresActivos
+              temporizadores={temporizadores}
+              restantes={restantes}
+              onCancelar={cancelar}
+            />
+            {receta.pasos.map((paso, index) => (
+              <View key={index} style={[globalStyles.card, styles.seccion]}>
+                <View style={styles.cabeceraPaso}>
+                  <Text style={styles.numeroPaso}>Paso {index + 1}</Text>
+                  {!!paso.duracion_minutos && (
+                    <Text style={globalStyles.textSecondary}>
+                      ⏱️ {paso.duracion_minutos} min
+                    </Text>
+                  )}
+                </View>
+                <Text style={globalStyles.textPrimary}>
+                  {convertirTexto(paso.texto)}
+                </Text>
+                {paso.imagen_url && (
+                  <Image
+                    source={{ uri: paso.imagen_url }}
+                    style={styles.imagenPaso}
+                  />
+                )}
+              </View>
+            ))}
+          </>
+        )}
+
+        <ResenasSeccion
+          resenas={resenas}
+          miResena={miResena}
+          puedeResenar={!!usuario && !esDueno}
+          onGuardar={guardar}
+        />
+
+        <ComentariosSeccion
+          comentarios={comentarios}
+          usuarioId={usuario?.id}
+          chefId={receta.chef_id}
+          enviando={enviando}
+          onPublicar={publicar}
+          onEditar={editar}
+          onEliminar={eliminar}
+        />
+
+        {/* Acceso a edición para el chef dueño */}
+        {esDueno && (
+          <TouchableOpacity
+            style={[globalStyles.button, globalStyles.buttonSecondary]}
+            onPress={() => router.push(`/recipe/editar?id=${receta.id}`)}
+          >
+            <Text style={globalStyles.buttonText}>✏️ Editar</Text>
+          </TouchableOpacity>
+        )}
+      </View>
+
+      <SelectorColecciones
+        visible={mostrarColecciones}
+        colecciones={colecciones}
+        seleccionadas={coleccionesReceta}
+        cargando={cargandoColecciones}
+        onAlternar={handleAlternarColeccion}
+        onCrear={handleCrearColeccion}
+        onCerrar={() => setMostrarColecciones(false)}
+      />
+
+      <ExportarSheet
+        visible={mostrarExportar}
+        titulo={receta.titulo}
+        exportando={exportando}
+        onElegir={handleExportar}
+        onCerrar={() => setMostrarExportar(false)}
+      />
+    </ScrollView>
+  );
+}
+
+const styles = StyleSheet.create({
+  header: {
+    flexDirection: "row",
+    justifyContent: "space-between",
+    marginBottom: spacing.md,
+  },
+  accionesHeader: {
+    flexDirection: "row",
+    gap: spacing.md,
+  },
+  botonVolver: {
+    fontSize: fontSize.md,
+    color: colors.primary,
+    marginBottom: spacing.sm,
+  },
+  botonVolverError: {
+    marginTop: spacing.lg,
+    paddingHorizontal: spacing.xl,
+  },
+  imagen: {
+    width: "100%",
+    height: 250,
+    borderRadius: borderRadius.lg,
+    marginBottom: spacing.md,
+  },
+  imagenPlaceholder: {
+    backgroundColor: colors.borderLight,
+    justifyContent: "center",
+    alignItems: "center",
+  },
+  chef: {
+    fontSize: fontSize.sm,
+    color: colors.primary,
+    fontWeight: "500",
+    marginTop: -spacing.sm,
+    marginBottom: spacing.md,
+  },
+  valoracion: {
+    marginBottom: spacing.md,
+  },
+  etiquetas: {
+    flexDirection: "row",
+    flexWrap: "wrap",
+    gap: spacing.sm,
+    marginBottom: spacing.md,
+  },
+  descripcion: {
+    marginBottom: spacing.lg,
+    lineHeight: 22,
+  },
+  contenedorPorciones: {
+    marginBottom: spacing.md,
+  },
+  seccion: {
+    marginBottom: spacing.md,
+  },
+  ingrediente: {
+    fontSize: fontSize.md,
+    color: colors.textPrimary,
+    marginBottom: spacing.xs,
+  },
+  botonCompra: {
+    alignSelf: "flex-start",
+    marginTop: spacing.sm,
+  },
+  textoBotonCompra: {
+    fontSize: fontSize.md,
+    color: colors.primary,
+    fontWeight: "500",
+  },
+  cabeceraPaso: {
+    flexDirection: "row",
+    justifyContent: "space-between",
+    alignItems: "center",
+    marginBottom: spacing.sm,
+  },
+  numeroPaso: {
+    fontSize: fontSize.sm,
+    fontWeight: "bold",
+    color: colors.primary,
+  },
+  imagenPaso: {
+    width: "100%",
+    height: 180,
+    borderRadius: borderRadius.md,
+    marginTop: spacing.sm,
+  },
+});
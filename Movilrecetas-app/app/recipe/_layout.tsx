@@ -7,6 +7,13 @@ export default function RecipeLayout() {
         headerShown: false,
       }}
     >
+      <Stack.Screen
+        name="[id]"
+        options={{
+          headerShown: false,
+          presentation: "card", // Detalle completo de una receta
+        }}
+      />
       <Stack.Screen
         name="crear"
         options={{
@@ -14,6 +21,22 @@ export default function RecipeLayout() {
           presentation: "card", // Animación de tarjeta desde abajo
         }}
       />
+      <Stack.Screen
+        name="cocinar"
+        options={{
+          headerShown: false,
+          presentation: "fullScreenModal", // Modo cocina a pantalla completa
+          gestureEnabled: false, // Evita salir sin querer con las manos mojadas
+        }}
+      />
+      <Stack.Screen
+        name="importar"
+        options={{
+          headerShown: false,
+          presentation: "card", // Importación masiva desde un JSON exportado
+          gestureEnabled: false, // No salir a mitad de la importación
+        }}
+      />
       <Stack.Screen
         name="editar"
         options={{
@@ -0,0 +1,279 @@
+import { useKeepAwake } from "expo-keep-awake";
+import { useLocalSearchParams, useRouter } from "expo-router";
+import { StatusBar } from "expo-status-bar";
+import React, { useEffect, useState } from "react";
+import {
+  ActivityIndicator,
+  Alert,
+  Image,
+  ScrollView,
+  StyleSheet,
+  Text,
+  TouchableOpacity,
+  View,
+} from "react-native";
+import { formatearIngrediente } from "../../src/domain/utils/ingredientes";
+import {
+  duracionesDePaso,
+  formatearDuracionCorta,
+} from "../../src/domain/utils/temporizadores";
+import { TemporizadoresActivos } from "../../src/presentation/components/TemporizadoresActivos";
+import { useRecipeDetail } from "../../src/presentation/hooks/useRecipeDetail";
+import { useTemporizadores } from "../../src/presentation/hooks/useTemporizadores";
+import { useUnidades } from "../../src/presentation/hooks/useUnidades";
+import { globalStyles } from "../../src/styles/globalStyles";
+import {
+  borderRadius,
+  colors,
+  fontSize,
+  spacing,
+} from "../../src/styles/theme";
+
+/**
+ * Modo cocina: la receta paso a paso a pantalla completa
+ *
+ * La página 0 son los ingredientes (para las porciones elegidas en el
+ * detalle) y cada página siguiente, un paso. La pantalla no se apaga
+ * mientras está abierta.
+ */
+export default function ModoCocinaScreen() {
+  useKeepAwake();
+  const { id, porciones: porcionesParam } = useLocalSearchParams<{
+    id: string;
+    porciones?: string;
+  }>();
+  const { receta, recetaEscalada, setPorciones, cargando } =
+    useRecipeDetail(id);
+  const { temporizadores, iniciar, cancelar, restantes } = useTemporizadores();
+  const { convertir, convertirTexto } = useUnidades();
+  const [pagina, setPagina] = useState(0);
+  const router = useRouter();
+
+  // Al cargar la receta: usar las porciones elegidas en el detalle
+  useEffect(() => {
+    const elegidas = Number(porcionesParam);
+    if (receta && elegidas > 0) setPorciones(elegidas);
+  }, [receta, porcionesParam, setPorciones]);
+
+  if (cargando) {
+    return (
+      <View style={globalStyles.loadingContainer}>
+        <ActivityIndicator size="large" color={colors.primary} />
+      </View>
+    );
+  }
+
+  if (!receta || !recetaEscalada) {
+    return (
+      <View style={globalStyles.containerCentered}>
+        <Text style={globalStyles.textSecondary}>Receta no encontrada</Text>
+      </View>
+    );
+  }
+
+  const totalPasos = receta.pasos.length;
+  const paso = pagina > 0 ? receta.pasos[pagina - 1] : null;
+  const esUltima = pagina === totalPasos;
+
+  const handleIniciar = async (segundos: number) => {
+    await iniciar({
+      receta_id: receta.id,
+      receta_titulo: receta.titulo,
+      paso: pagina - 1,
+      duracion_segundos: segundos,
+    });
+  };
+
+  // Al salir con temporizadores en marcha se avisa de que siguen corriendo
+  const handleSalir = () => {
+    const enMarcha = temporizadores.filter((t) => restantes(t) > 0).length;
+    if (enMarcha === 0) {
+      router.back();
+      return;
+    }
+    Alert.alert(
+      "Salir del modo cocina",
+      "Los temporizadores seguirán en marcha y te avisaremos al terminar.",
+      [
+        { text: "Seguir cocinando", style: "cancel" },
+        { text: "Salir", onPress: () => router.back() },
+      ]
+    );
+  };
+
+  return (
+    <View style={globalStyles.container}>
+      <StatusBar hidden />
+      <View style={globalStyles.header}>
+        <TouchableOpacity onPress={handleSalir} hitSlop={8}>
+          <Text style={styles.enlace}>✕ Salir</Text>
+        </TouchableOpacity>
+        <Text style={styles.progreso}>
+          {pagina === 0 ? "Ingredientes" : `Paso ${pagina} de ${totalPasos}`}
+        </Text>
+      </View>
+      <View style={styles.barra}>
+        <View
+          style={[
+            styles.barraRelleno,
+            { width: `${(pagina / Math.max(1, totalPasos)) * 100}%` },
+          ]}
+        />
+      </View>
+
+      <ScrollView contentContainerStyle={styles.contenido}>
+        <TemporizadoresActivos
+          temporizadores={temporizadores}
+          restantes={restantes}
+          onCancelar={cancelar}
+        />
+
+        {paso ? (
+          <>
+            <Text style={styles.textoPaso}>{convertirTexto(paso.texto)}</Text>
+            {paso.imagen_url && (
+              <Image source={{ uri: paso.imagen_url }} style={styles.imagen} />
+            )}
+            <View style={styles.botonesTemporizador}>
+              {duracionesDePaso(paso).map((segundos) => (
+                <TouchableOpacity
+                  key={segundos}
+                  style={styles.botonTemporizador}
+                  onPress={() => handleIniciar(segundos)}
+                >
+                  <Text style={styles.textoTemporizador}>
+                    ⏱️ {formatearDuracionCorta(segundos)}
+                  </Text>
+                </TouchableOpacity>
+              ))}
+            </View>
+          </>
+        ) : (
+          <>
+            <Text style={styles.titulo}>{receta.titulo}</Text>
+            <Text style={globalStyles.textSecondary}>
+              Para {recetaEscalada.porciones}{" "}
+              {recetaEscalada.porciones === 1 ? "porción" : "porciones"}
+            </Text>
+            {recetaEscalada.ingredientes.map((ing, index) => (
+              <Text key={index} style={styles.ingrediente}>
+                • {formatearIngrediente(convertir(ing))}
+              </Text>
+            ))}
+          </>
+        )}
+      </ScrollView>
+
+      <View style={styles.navegacion}>
+        <TouchableOpacity
+          style={[
+            globalStyles.button,
+            globalStyles.buttonSecondary,
+            styles.botonNavegacion,
+            pagina === 0 && styles.botonDesactivado,
+          ]}
+          disabled={pagina === 0}
+          onPress={() => setPagina(pagina - 1)}
+        >
+          <Text style={styles.textoNavegacion}>← Anterior</Text>
+        </TouchableOpacity>
+        <TouchableOpacity
+          style={[
+            globalStyles.button,
+            globalStyles.buttonPrimary,
+            styles.botonNavegacion,
+          ]}
+          onPress={() => (esUltima ? handleSalir() : setPagina(pagina + 1))}
+        >
+          <Text style={styles.textoNavegacion}>
+            {esUltima ? "✓ Terminar" : "Siguiente →"}
+          </Text>
+        </TouchableOpacity>
+      </View>
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  enlace: {
+    fontSize: fontSize.lg,
+    color: colors.primary,
+  },
+  progreso: {
+    fontSize: fontSize.lg,
+    fontWeight: "bold",
+    color: colors.textPrimary,
+  },
+  barra: {
+    height: 4,
+    backgroundColor: colors.borderLight,
+  },
+  barraRelleno: {
+    height: 4,
+    backgroundColor: colors.primary,
+  },
+  contenido: {
+    padding: spacing.lg,
+  },
+  titulo: {
+    fontSize: fontSize.xxl,
+    fontWeight: "bold",
+    color: colors.textPrimary,
+    marginBottom: spacing.xs,
+  },
+  textoPaso: {
+    fontSize: fontSize.xxl,
+    lineHeight: 40,
+    color: colors.textPrimary,
+  },
+  ingrediente: {
+    fontSize: fontSize.xl,
+    lineHeight: 34,
+    color: colors.textPrimary,
+    marginTop: spacing.sm,
+  },
+  imagen: {
+    width: "100%",
+    height: 220,
+    borderRadius: borderRadius.lg,
+    marginTop: spacing.lg,
+  },
+  botonesTemporizador: {
+    flexDirection: "row",
+    flexWrap: "wrap",
+    gap: spacing.sm,
+    marginTop: spacing.lg,
+  },
+  botonTemporizador: {
+    borderWidth: 2,
+    borderColor: colors.primary,
+    borderRadius: borderRadius.xl,
+    paddingVertical: spacing.sm,
+    paddingHorizontal: spacing.lg,
+  },
+  textoTemporizador: {
+    fontSize: fontSize.lg,
+    fontWeight: "600",
+    color: colors.primary,
+  },
+  navegacion: {
+    flexDirection: "row",
+    gap: spacing.md,
+    padding: spacing.md,
+    backgroundColor: colors.white,
+    borderTopWidth: 1,
+    borderTopColor: colors.borderLight,
+  },
+  botonNavegacion: {
+    flex: 1,
+    paddingVertical: spacing.lg,
+  },
+  botonDesactivado: {
+    opacity: 0.4,
+  },
+  textoNavegacion: {
+    color: colors.white,
+    fontSize: fontSize.lg,
+    fontWeight: "bold",
+  },
+});
@@ -11,6 +11,22 @@ import {
   TouchableOpacity,
   View,
 } from "react-native";
+import { InfoAlergenos } from "../../src/domain/models/Alergenos";
+import { Ingrediente } from "../../src/domain/models/Ingrediente";
+import { Paso } from "../../src/domain/models/Paso";
+import {
+  DatosPreparacion,
+  PREPARACION_VACIA,
+} from "../../src/domain/models/Preparacion";
+import { PORCIONES_POR_DEFECTO } from "../../src/domain/utils/porciones";
+import { validarPreparacion } from "../../src/domain/utils/tiempos";
+import { AlergenosEditor } from "../../src/presentation/components/AlergenosEditor";
+import { EtiquetasSelector } from "../../src/presentation/components/EtiquetasSelector";
+import { ImportarRecetaSheet } from "../../src/presentation/components/ImportarRecetaSheet";
+import { IngredientesEditor } from "../../src/presentation/components/IngredientesEditor";
+import { PasosEditor } from "../../src/presentation/components/PasosEditor";
+import { PreparacionEditor } from "../../src/presentation/components/PreparacionEditor";
+import { PorcionesSelector } from "../../src/presentation/components/PorcionesSelector";
 import { useAuth } from "../../src/presentation/hooks/useAuth";
 import { useRecipes } from "../../src/presentation/hooks/useRecipes";
 import { globalStyles } from "../../src/styles/globalStyles";
@@ -23,26 +39,22 @@ import {
 
 export default function CrearRecetaScreen() {
   const { usuario, esChef } = useAuth();
-  const { crear, seleccionarImagen, tomarFoto } = useRecipes();
+  const { crear, importar, seleccionarImagen, tomarFoto } = useRecipes();
   const router = useRouter();
 
   const [titulo, setTitulo] = useState("");
   const [descripcion, setDescripcion] = useState("");
-  const [ingrediente, setIngrediente] = useState("");
-  const [ingredientes, setIngredientes] = useState<string[]>([]);
+  const [ingredientes, setIngredientes] = useState<Ingrediente[]>([]);
+  const [porciones, setPorciones] = useState(PORCIONES_POR_DEFECTO);
+  const [pasos, setPasos] = useState<Paso[]>([]);
+  const [etiquetas, setEtiquetas] = useState<string[]>([]);
+  const [preparacion, setPreparacion] =
+    useState<DatosPreparacion>(PREPARACION_VACIA);
+  // null = alérgenos detectados automáticamente con los ingredientes
+  const [alergenos, setAlergenos] = useState<InfoAlergenos | null>(null);
   const [imagenUri, setImagenUri] = useState<string | null>(null);
   const [cargando, setCargando] = useState(false);
-
-  const agregarIngrediente = () => {
-    if (ingrediente.trim()) {
-      setIngredientes([...ingredientes, ingrediente.trim()]);
-      setIngrediente("");
-    }
-  };
-
-  const quitarIngrediente = (index: number) => {
-    setIngredientes(ingredientes.filter((_, i) => i !== index));
-  };
+  const [mostrarImportar, setMostrarImportar] = useState(false);
 
   const handleSeleccionarImagen = async () => {
     Alert.alert("Agregar Foto", "¿Cómo quieres agregar la imagen?", [
@@ -71,6 +83,36 @@ export default function CrearRecetaScreen() {
     ]);
   };
 
+  // Rellena el formulario con el borrador: el chef lo revisa y publica
+  const handleImportar = (texto: string) => {
+    const resultado = importar(texto);
+    if (!resultado.success || !resultado.borrador) {
+      Alert.alert("Error", resultado.error || "No se pudo importar la receta");
+      return false;
+    }
+
+    const borrador = resultado.borrador;
+    setTitulo(borrador.titulo);
+    setDescripcion(borrador.descripcion);
+    setIngredientes(borrador.ingredientes);
+    setPorciones(borrador.porciones);
+    setPasos(borrador.pasos);
+    setEtiquetas(borrador.etiquetas);
+    setPreparacion({
+      tiempo_preparacion: borrador.tiempo_preparacion,
+      tiempo_coccion: borrador.tiempo_coccion,
+      dificultad: borrador.dificultad,
+    });
+    setAlergenos(null);
+    setImagenUri(borrador.imagen_url ?? null);
+
+    Alert.alert(
+      "Receta importada",
+      `${borrador.ingredientes.length} ingredientes y ${borrador.pasos.length} pasos. Revisa los datos antes de publicar.`
+    );
+    return true;
+  };
+
   const handleCrear = async () => {
     if (!titulo || !descripcion || ingredientes.length === 0) {
       Alert.alert(
@@ -80,13 +122,26 @@ export default function CrearRecetaScreen() {
       return;
     }
 
+    const errorPreparacion = validarPreparacion(preparacion);
+    if (errorPreparacion) {
+      Alert.alert("Error", errorPreparacion);
+      return;
+    }
+
     setCargando(true);
     const resultado = await crear(
-      titulo,
-      descripcion,
-      ingredientes,
-      usuario!.id,
-      imagenUri || undefined
+      {
+        titulo,
+        descripcion,
+        ingredientes,
+        porciones,
+        pasos,
+        etiquetas,
+        preparacion,
+        alergenos,
+        imagenUri: imagenUri || undefined,
+      },
+      usuario!.id
     );
     setCargando(false);
 
@@ -98,6 +153,11 @@ export default function CrearRecetaScreen() {
             setTitulo("");
             setDescripcion("");
             setIngredientes([]);
+            setPorciones(PORCIONES_POR_DEFECTO);
+            setPasos([]);
+            setEtiquetas([]);
+            setPreparacion(PREPARACION_VACIA);
+            setAlergenos(null);
             setImagenUri(null);
             router.push("/(tabs)");
           },
@@ -136,6 +196,9 @@ export default function CrearRecetaScreen() {
             <Text style={styles.botonVolver}>← Volver</Text>
           </TouchableOpacity>
           <Text style={globalStyles.title}>Nueva Receta</Text>
+          <TouchableOpacity onPress={() => setMostrarImportar(true)}>
+            <Text style={styles.botonVolver}>📥 Importar de un blog</Text>
+          </TouchableOpacity>
         </View>
 
         <TextInput
@@ -147,44 +210,42 @@ export default function CrearRecetaScreen() {
 
         <TextInput
           style={[globalStyles.input, globalStyles.inputMultiline]}
-          placeholder="Descripción"
+          placeholder="Descripción (resumen de la receta)"
           value={descripcion}
           onChangeText={setDescripcion}
           multiline
           numberOfLines={4}
         />
 
-        <Text style={globalStyles.subtitle}>Ingredientes:</Text>
-        <View style={styles.contenedorIngrediente}>
-          <TextInput
-            style={[globalStyles.input, styles.inputIngrediente]}
-            placeholder="Ej: Tomate"
-            value={ingrediente}
-            onChangeText={setIngrediente}
-            onSubmitEditing={agregarIngrediente}
-          />
-          <TouchableOpacity
-            style={[
-              globalStyles.button,
-              globalStyles.buttonPrimary,
-              styles.botonAgregar,
-            ]}
-            onPress={agregarIngrediente}
-          >
-            <Text style={styles.textoAgregar}>+</Text>
-          </TouchableOpacity>
+        <Text style={globalStyles.subtitle}>Porciones:</Text>
+        <View style={styles.contenedorPorciones}>
+          <PorcionesSelector porciones={porciones} onChange={setPorciones} />
         </View>
 
-        <View style={styles.listaIngredientes}>
-          {ingredientes.map((ing, index) => (
-            <View key={index} style={globalStyles.chip}>
-              <Text style={globalStyles.chipText}>{ing}</Text>
-              <TouchableOpacity onPress={() => quitarIngrediente(index)}>
-                <Text style={styles.textoEliminar}>×</Text>
-              </TouchableOpacity>
-            </View>
-          ))}
-        </View>
+        <PreparacionEditor
+          preparacion={preparacion}
+          onChange={setPreparacion}
+        />
+
+        <IngredientesEditor
+          ingredientes={ingredientes}
+          onChange={setIngredientes}
+        />
+
+        <PasosEditor
+          pasos={pasos}
+          onChange={setPasos}
+          seleccionarImagen={seleccionarImagen}
+          tomarFoto={tomarFoto}
+        />
+
+        <EtiquetasSelector etiquetas={etiquetas} onChange={setEtiquetas} />
+
+        <AlergenosEditor
+          ingredientes={ingredientes}
+          manual={alergenos}
+          onChange={setAlergenos}
+        />
 
         <TouchableOpacity
           style={[globalStyles.button, globalStyles.buttonSecondary]}
@@ -215,6 +276,12 @@ export default function CrearRecetaScreen() {
           )}
         </TouchableOpacity>
       </View>
+
+      <ImportarRecetaSheet
+        visible={mostrarImportar}
+        onImportar={handleImportar}
+        onCerrar={() => setMostrarImportar(false)}
+      />
     </ScrollView>
   );
 }
@@ -237,36 +304,9 @@ const styles = StyleSheet.create({
     color: colors.textPrimary,
     marginBottom: spacing.sm,
   },
-  contenedorIngrediente: {
-    flexDirection: "row",
-    gap: spacing.sm,
-    marginBottom: spacing.md,
-  },
-  inputIngrediente: {
-    flex: 1,
-    marginBottom: 0,
-  },
-  botonAgregar: {
-    width: 50,
-    justifyContent: "center",
-    alignItems: "center",
-  },
-  textoAgregar: {
-    color: colors.white,
-    fontSize: fontSize.xl,
-    fontWeight: "bold",
-  },
-  listaIngredientes: {
-    flexDirection: "row",
-    flexWrap: "wrap",
-    gap: spacing.sm,
+  contenedorPorciones: {
     marginBottom: spacing.lg,
   },
-  textoEliminar: {
-    color: colors.primary,
-    fontSize: fontSize.lg,
-    fontWeight: "bold",
-  },
   vistaPrevia: {
     width: "100%",
     height: 200,
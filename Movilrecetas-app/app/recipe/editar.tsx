@@ -11,23 +11,44 @@ import {
   TouchableOpacity,
   View,
 } from "react-native";
+import { InfoAlergenos } from "../../src/domain/models/Alergenos";
+import { Ingrediente } from "../../src/domain/models/Ingrediente";
+import { Paso } from "../../src/domain/models/Paso";
+import {
+  DatosPreparacion,
+  PREPARACION_VACIA,
+} from "../../src/domain/models/Preparacion";
+import { PORCIONES_POR_DEFECTO } from "../../src/domain/utils/porciones";
+import { validarPreparacion } from "../../src/domain/utils/tiempos";
+import { AlergenosEditor } from "../../src/presentation/components/AlergenosEditor";
+import { EtiquetasSelector } from "../../src/presentation/components/EtiquetasSelector";
+import { IngredientesEditor } from "../../src/presentation/components/IngredientesEditor";
+import { PasosEditor } from "../../src/presentation/components/PasosEditor";
+import { PreparacionEditor } from "../../src/presentation/components/PreparacionEditor";
+import { PorcionesSelector } from "../../src/presentation/components/PorcionesSelector";
 import { useAuth } from "../../src/presentation/hooks/useAuth";
+import { useRecipeDetail } from "../../src/presentation/hooks/useRecipeDetail";
 import { useRecipes } from "../../src/presentation/hooks/useRecipes";
 import { globalStyles } from "../../src/styles/globalStyles";
 import { colors, fontSize, spacing } from "../../src/styles/theme";
 
 export default function EditarRecetaScreen() {
-  const { id } = useLocalSearchParams();
+  const { id } = useLocalSearchParams<{ id: string }>();
   const { usuario } = useAuth();
-  const { recetas, actualizar, seleccionarImagen, tomarFoto } = useRecipes();
+  const { actualizar, seleccionarImagen, tomarFoto } = useRecipes();
+  const { receta, cargando: cargandoReceta } = useRecipeDetail(id);
   const router = useRouter();
 
-  const receta = recetas.find((r) => r.id === id);
-
   const [titulo, setTitulo] = useState("");
   const [descripcion, setDescripcion] = useState("");
-  const [ingrediente, setIngrediente] = useState("");
-  const [ingredientes, setIngredientes] = useState<string[]>([]);
+  const [ingredientes, setIngredientes] = useState<Ingrediente[]>([]);
+  const [porciones, setPorciones] = useState(PORCIONES_POR_DEFECTO);
+  const [pasos, setPasos] = useState<Paso[]>([]);
+  const [etiquetas, setEtiquetas] = useState<string[]>([]);
+  const [preparacion, setPreparacion] =
+    useState<DatosPreparacion>(PREPARACION_VACIA);
+  // null = alérgenos detectados automáticamente con los ingredientes
+  const [alergenos, setAlergenos] = useState<InfoAlergenos | null>(null);
   const [imagenUri, setImagenUri] = useState<string | null>(null);
   const [cargando, setCargando] = useState(false);
 
@@ -37,11 +58,32 @@ export default function EditarRecetaScreen() {
       setTitulo(receta.titulo);
       setDescripcion(receta.descripcion);
       setIngredientes(receta.ingredientes);
+      setPorciones(receta.porciones);
+      setPasos(receta.pasos);
+      setEtiquetas(receta.etiquetas);
+      setPreparacion({
+        tiempo_preparacion: receta.tiempo_preparacion,
+        tiempo_coccion: receta.tiempo_coccion,
+        dificultad: receta.dificultad,
+      });
+      setAlergenos(
+        receta.alergenos_manual
+          ? { alergenos: receta.alergenos, dietas: receta.dietas }
+          : null
+      );
       // No establecer imagenUri aquí porque queremos que sea null inicialmente
       // La imagen actual se mostrará usando receta.imagen_url
     }
   }, [receta]);
 
+  if (cargandoReceta) {
+    return (
+      <View style={globalStyles.loadingContainer}>
+        <ActivityIndicator size="large" color={colors.primary} />
+      </View>
+    );
+  }
+
   // Validar que el usuario es el dueño
   if (!receta) {
     return (
@@ -67,17 +109,6 @@ export default function EditarRecetaScreen() {
     );
   }
 
-  const agregarIngrediente = () => {
-    if (ingrediente.trim()) {
-      setIngredientes([...ingredientes, ingrediente.trim()]);
-      setIngrediente("");
-    }
-  };
-
-  const quitarIngrediente = (index: number) => {
-    setIngredientes(ingredientes.filter((_, i) => i !== index));
-  };
-
   const handleSeleccionarImagen = async () => {
     Alert.alert("Cambiar Imagen", "¿Cómo quieres cambiar la imagen?", [
       {
@@ -111,14 +142,24 @@ export default function EditarRecetaScreen() {
       return;
     }
 
+    const errorPreparacion = validarPreparacion(preparacion);
+    if (errorPreparacion) {
+      Alert.alert("Error", errorPreparacion);
+      return;
+    }
+
     setCargando(true);
-    const resultado = await actualizar(
-      receta.id,
+    const resultado = await actualizar(receta.id, {
       titulo,
       descripcion,
       ingredientes,
-      imagenUri || undefined
-    );
+      porciones,
+      pasos,
+      etiquetas,
+      preparacion,
+      alergenos,
+      imagenUri: imagenUri || undefined,
+    });
     setCargando(false);
 
     if (resultado.success) {
@@ -149,44 +190,42 @@ export default function EditarRecetaScreen() {
 
         <TextInput
           style={[globalStyles.input, globalStyles.inputMultiline]}
-          placeholder="Descripción"
+          placeholder="Descripción (resumen de la receta)"
           value={descripcion}
           onChangeText={setDescripcion}
           multiline
           numberOfLines={4}
         />
 
-        <Text style={globalStyles.subtitle}>Ingredientes:</Text>
-        <View style={styles.contenedorIngrediente}>
-          <TextInput
-            style={[globalStyles.input, styles.inputIngrediente]}
-            placeholder="Ej: Tomate"
-            value={ingrediente}
-            onChangeText={setIngrediente}
-            onSubmitEditing={agregarIngrediente}
-          />
-          <TouchableOpacity
-            style={[
-              globalStyles.button,
-              globalStyles.buttonPrimary,
-              styles.botonAgregar,
-            ]}
-            onPress={agregarIngrediente}
-          >
-            <Text style={styles.textoAgregar}>+</Text>
-          </TouchableOpacity>
+        <Text style={globalStyles.subtitle}>Porciones:</Text>
+        <View style={styles.contenedorPorciones}>
+          <PorcionesSelector porciones={porciones} onChange={setPorciones} />
         </View>
 
-        <View style={styles.listaIngredientes}>
-          {ingredientes.map((ing, index) => (
-            <View key={index} style={globalStyles.chip}>
-              <Text style={globalStyles.chipText}>{ing}</Text>
-              <TouchableOpacity onPress={() => quitarIngrediente(index)}>
-                <Text style={styles.textoEliminar}>×</Text>
-              </TouchableOpacity>
-            </View>
-          ))}
-        </View>
+        <PreparacionEditor
+          preparacion={preparacion}
+          onChange={setPreparacion}
+        />
+
+        <IngredientesEditor
+          ingredientes={ingredientes}
+          onChange={setIngredientes}
+        />
+
+        <PasosEditor
+          pasos={pasos}
+          onChange={setPasos}
+          seleccionarImagen={seleccionarImagen}
+          tomarFoto={tomarFoto}
+        />
+
+        <EtiquetasSelector etiquetas={etiquetas} onChange={setEtiquetas} />
+
+        <AlergenosEditor
+          ingredientes={ingredientes}
+          manual={alergenos}
+          onChange={setAlergenos}
+        />
 
         <TouchableOpacity
           style={[globalStyles.button, globalStyles.buttonSecondary]}
@@ -254,36 +293,9 @@ const styles = StyleSheet.create({
     marginBottom: spacing.lg,
     paddingHorizontal: spacing.lg,
   },
-  contenedorIngrediente: {
-    flexDirection: "row",
-    gap: spacing.sm,
-    marginBottom: spacing.md,
-  },
-  inputIngrediente: {
-    flex: 1,
-    marginBottom: 0,
-  },
-  botonAgregar: {
-    width: 50,
-    justifyContent: "center",
-    alignItems: "center",
-  },
-  textoAgregar: {
-    color: colors.white,
-    fontSize: fontSize.xl,
-    fontWeight: "bold",
-  },
-  listaIngredientes: {
-    flexDirection: "row",
-    flexWrap: "wrap",
-    gap: spacing.sm,
+  contenedorPorciones: {
     marginBottom: spacing.lg,
   },
-  textoEliminar: {
-    color: colors.primary,
-    fontSize: fontSize.lg,
-    fontWeight: "bold",
-  },
   etiquetaImagen: {
     fontSize: fontSize.sm,
     color: colors.textSecondary,
@@ -0,0 +1,324 @@
+import { useRouter } from "expo-router";
+import React from "react";
+import {
+  ActivityIndicator,
+  Alert,
+  ScrollView,
+  StyleSheet,
+  Text,
+  TouchableOpacity,
+  View,
+} from "react-native";
+import { FilaImportacion } from "../../src/domain/models/Importacion";
+import { useAuth } from "../../src/presentation/hooks/useAuth";
+import { useBulkImport } from "../../src/presentation/hooks/useBulkImport";
+import { globalStyles } from "../../src/styles/globalStyles";
+import {
+  borderRadius,
+  colors,
+  fontSize,
+  spacing,
+} from "../../src/styles/theme";
+
+/**
+ * Importación masiva de recetas desde un archivo JSON exportado
+ * con "📤 Exportar" (formato de la app)
+ *
+ * 1. El chef elige el archivo y ve cada receta con sus errores
+ * 2. Se publican solo las válidas, con barra de progreso
+ * 3. Al terminar se muestra el informe (publicadas, fallidas, omitidas)
+ */
+export default function ImportarRecetasScreen() {
+  const { esChef } = useAuth();
+  const {
+    nombreArchivo,
+    filas,
+    leyendo,
+    progreso,
+    informe,
+    elegirArchivo,
+    importar,
+    reiniciar,
+  } = useBulkImport();
+  const router = useRouter();
+
+  const validas = filas.filter((fila) => fila.datos !== null).length;
+  const importando = progreso !== null;
+
+  const handleElegir = async () => {
+    const resultado = await elegirArchivo();
+    if (!resultado.success) {
+      Alert.alert("Error", resultado.error || "No se pudo leer el archivo");
+    }
+  };
+
+  const handleImportar = () => {
+    const omitidas = filas.length - validas;
+    Alert.alert(
+      "Importar recetas",
+      omitidas > 0
+        ? `Se publicarán ${validas} recetas. ${omitidas} con errores se omitirán.`
+        : `Se publicarán ${validas} recetas.`,
+      [
+        { text: "Cancelar", style: "cancel" },
+        {
+          text: "Importar",
+          onPress: async () => {
+            const resultado = await importar();
+            if (!resultado.success) {
+              Alert.alert(
+                "Error",
+                resultado.error || "No se pudieron importar las recetas"
+              );
+            }
+          },
+        },
+      ]
+    );
+  };
+
+  const renderFila = (fila: FilaImportacion) => {
+    const valida = fila.datos !== null;
+    return (
+      <View
+        key={fila.indice}
+        style={[styles.fila, !valida && styles.filaConErrores]}
+      >
+        <Text style={styles.tituloFila} numberOfLines={1}>
+          {valida ? "✅" : "❌"} {fila.indice + 1}. {fila.titulo}
+        </Text>
+        {valida ? (
+          <Text style={styles.detalleFila}>
+            {fila.datos!.ingredientes.length} ingredientes ·{" "}
+            {fila.datos!.pasos.length} pasos
+            {fila.datos!.imagenUri ? " · con foto" : ""}
+          </Text>
+        ) : (
+          fila.errores.map((error) => (
+            <Text key={error} style={styles.errorFila}>
+              • {error}
+            </Text>
+          ))
+        )}
+      </View>
+    );
+  };
+
+  if (!esChef) {
+    return (
+      <View style={globalStyles.container}>
+        <View style={styles.header}>
+          <TouchableOpacity onPress={() => router.back()}>
+            <Text style={styles.botonVolver}>← Volver</Text>
+          </TouchableOpacity>
+        </View>
+        <View style={globalStyles.containerCentered}>
+          <Text style={styles.textoNoChef}>
+            Esta sección es solo para chefs 👨‍🍳
+          </Text>
+          <Text style={globalStyles.textSecondary}>
+            Crea una cuenta de chef para poder publicar recetas
+          </Text>
+        </View>
+      </View>
+    );
+  }
+
+  return (
+    <ScrollView style={globalStyles.container}>
+      <View style={globalStyles.contentPadding}>
+        <View style={styles.header}>
+          <TouchableOpacity onPress={() => router.back()} disabled={importando}>
+            <Text style={styles.botonVolver}>← Volver</Text>
+          </TouchableOpacity>
+          <Text style={globalStyles.title}>Importar recetas</Text>
+          <Text style={globalStyles.textSecondary}>
+            Elige un archivo JSON exportado desde la app. Se comprobará cada
+            receta antes de publicar nada.
+          </Text>
+        </View>
+
+        {informe ? (
+          <View style={styles.informe}>
+            <Text style={globalStyles.subtitle}>Importación terminada</Text>
+            <Text style={styles.lineaInforme}>
+              ✅ {informe.importadas.length} publicadas
+            </Text>
+            {informe.fallidas.length > 0 && (
+              <>
+                <Text style={styles.lineaInforme}>
+                  ⚠️ {informe.fallidas.length} no se pudieron guardar
+                </Text>
+                {informe.fallidas.map((fallida, indice) => (
+                  <Text key={indice} style={styles.errorFila}>
+                    • {fallida.titulo}: {fallida.error}
+                  </Text>
+                ))}
+              </>
+            )}
+            {informe.omitidas > 0 && (
+              <Text style={styles.lineaInforme}>
+                ❌ {informe.omitidas} omitidas por errores
+              </Text>
+            )}
+
+            <TouchableOpacity
+              style={[globalStyles.button, globalStyles.buttonPrimary]}
+              onPress={() => router.push("/(tabs)")}
+            >
+              <Text style={globalStyles.buttonText}>Volver al inicio</Text>
+            </TouchableOpacity>
+            <TouchableOpacity onPress={reiniciar}>
+              <Text style={styles.textoEnlace}>Importar otro archivo</Text>
+            </TouchableOpacity>
+          </View>
+        ) : progreso ? (
+          <View style={styles.progreso}>
+            <Text style={styles.lineaInforme}>
+              Importando {Math.min(progreso.hechas + 1, progreso.total)} de{" "}
+              {progreso.total}...
+            </Text>
+            <View style={styles.barra}>
+              <View
+                style={[
+                  styles.barraRelleno,
+                  {
+                    width: `${(progreso.hechas / progreso.total) * 100}%`,
+                  },
+                ]}
+              />
+            </View>
+            <Text style={globalStyles.textSecondary}>
+              No cierres esta pantalla hasta que termine
+            </Text>
+          </View>
+        ) : (
+          <>
+            <TouchableOpacity
+              style={[globalStyles.button, globalStyles.buttonSecondary]}
+              onPress={handleElegir}
+              disabled={leyendo}
+            >
+              {leyendo ? (
+                <ActivityIndicator color={colors.white} />
+              ) : (
+                <Text style={globalStyles.buttonText}>
+                  {nombreArchivo
+                    ? "📄 Elegir otro archivo"
+                    : "📄 Elegir archivo"}
+                </Text>
+              )}
+            </TouchableOpacity>
+
+            {filas.length > 0 && (
+              <>
+                <Text style={globalStyles.subtitle}>
+                  {nombreArchivo ?? "Archivo"}: {validas} de {filas.length}{" "}
+                  válidas
+                </Text>
+                {filas.map(renderFila)}
+
+                <TouchableOpacity
+                  style={[
+                    globalStyles.button,
+                    globalStyles.buttonPrimary,
+                    styles.botonImportar,
+                    validas === 0 && styles.botonDesactivado,
+                  ]}
+                  onPress={handleImportar}
+                  disabled={validas === 0}
+                >
+                  <Text style={globalStyles.buttonText}>
+                    {validas === 0
+                      ? "No hay recetas válidas"
+                      : `Importar ${validas} recetas`}
+                  </Text>
+                </TouchableOpacity>
+              </>
+            )}
+          </>
+        )}
+      </View>
+    </ScrollView>
+  );
+}
+
+const styles = StyleSheet.create({
+  header: {
+    marginTop: spacing.lg,
+    marginBottom: spacing.lg,
+    padding: spacing.sm,
+  },
+  botonVolver: {
+    fontSize: fontSize.md,
+    color: colors.primary,
+    marginBottom: spacing.sm,
+  },
+  textoNoChef: {
+    fontSize: fontSize.xl,
+    fontWeight: "bold",
+    textAlign: "center",
+    color: colors.textPrimary,
+    marginBottom: spacing.sm,
+  },
+  fila: {
+    backgroundColor: colors.white,
+    borderRadius: borderRadius.md,
+    borderWidth: 1,
+    borderColor: colors.borderLight,
+    padding: spacing.md,
+    marginBottom: spacing.sm,
+  },
+  filaConErrores: {
+    borderColor: colors.danger,
+  },
+  tituloFila: {
+    fontSize: fontSize.md,
+    fontWeight: "600",
+    color: colors.textPrimary,
+  },
+  detalleFila: {
+    fontSize: fontSize.sm,
+    color: colors.textSecondary,
+    marginTop: spacing.xs,
+  },
+  errorFila: {
+    fontSize: fontSize.sm,
+    color: colors.danger,
+    marginTop: spacing.xs,
+  },
+  botonImportar: {
+    marginTop: spacing.md,
+    padding: spacing.lg,
+  },
+  botonDesactivado: {
+    opacity: 0.5,
+  },
+  progreso: {
+    paddingVertical: spacing.xl,
+    gap: spacing.md,
+  },
+  barra: {
+    height: 10,
+    borderRadius: borderRadius.round,
+    backgroundColor: colors.borderLight,
+    overflow: "hidden",
+  },
+  barraRelleno: {
+    height: "100%",
+    backgroundColor: colors.primary,
+  },
+  informe: {
+    gap: spacing.sm,
+  },
+  lineaInforme: {
+    fontSize: fontSize.md,
+    color: colors.textPrimary,
+  },
+  textoEnlace: {
+    textAlign: "center",
+    color: colors.primary,
+    fontSize: fontSize.md,
+    marginTop: spacing.md,
+  },
+});
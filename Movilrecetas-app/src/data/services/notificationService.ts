@@ -0,0 +1,92 @@
+import * as Notifications from "expo-notifications";
+import { Platform } from "react-native";
+
+// Mostrar las notificaciones también con la app en primer plano
+Notifications.setNotificationHandler({
+  handleNotification: async () => ({
+    shouldShowBanner: true,
+    shouldShowList: true,
+    shouldPlaySound: true,
+    shouldSetBadge: false,
+  }),
+});
+
+/**
+ * NotificationService - Servicio de notificaciones locales
+ *
+ * Programa avisos en el propio dispositivo (sin servidor de push):
+ * - Pide permiso la primera vez que se programa una notificación
+ * - En Android usa un canal de importancia alta para que suene
+ * - En web no hay notificaciones programadas: se devuelve null
+ */
+export class NotificationService {
+  // Canal de Android para los avisos de los temporizadores
+  static readonly CANAL_TEMPORIZADORES = "temporizadores";
+
+  /**
+   * Comprobar (y pedir si hace falta) el permiso de notificaciones
+   */
+  static async tienePermiso(): Promise<boolean> {
+    if (Platform.OS === "web") return false;
+
+    try {
+      const actual = await Notifications.getPermissionsAsync();
+      if (actual.granted) return true;
+      if (!actual.canAskAgain) return false;
+
+      const respuesta = await Notifications.requestPermissionsAsync();
+      return respuesta.granted;
+    } catch (error) {
+      console.error("Error comprobando permiso de notificaciones:", error);
+      return false;
+    }
+  }
+
+  /**
+   * Programar una notificación local dentro de `segundos`
+   *
+   * @returns ID de la notificación o null si no se pudo programar
+   */
+  static async programar(
+    titulo: string,
+    cuerpo: string,
+    segundos: number
+  ): Promise<string | null> {
+    if (!(await NotificationService.tienePermiso())) return null;
+
+    try {
+      if (Platform.OS === "android") {
+        await Notifications.setNotificationChannelAsync(
+          NotificationService.CANAL_TEMPORIZADORES,
+          {
+            name: "Temporizadores",
+            importance: Notifications.AndroidImportance.HIGH,
+          }
+        );
+      }
+
+      return await Notifications.scheduleNotificationAsync({
+        content: { title: titulo, body: cuerpo, sound: true },
+        trigger: {
+          type: Notifications.SchedulableTriggerInputTypes.TIME_INTERVAL,
+          seconds: Math.max(1, Math.round(segundos)),
+          channelId: NotificationService.CANAL_TEMPORIZADORES,
+        },
+      });
+    } catch (error) {
+      console.error("Error programando notificación:", error);
+      return null;
+    }
+  }
+
+  /**
+   * Cancelar una notificación programada
+   */
+  static async cancelar(id: string): Promise<void> {
+    try {
+      await Notifications.cancelScheduledNotificationAsync(id);
+    } catch (error) {
+      console.error("Error cancelando notificación:", error);
+    }
+  }
+}
@@ -0,0 +1,74 @@
+import { File, Paths } from "expo-file-system";
+import * as Linking from "expo-linking";
+import * as Sharing from "expo-sharing";
+import { Platform, Share } from "react-native";
+
+/**
+ * ShareService - Servicio para compartir archivos
+ *
+ * Escribe el contenido en la caché de la app y abre la hoja de
+ * compartir del sistema (guardar en Archivos, enviar por correo,
+ * imprimir...). El archivo se sobrescribe en cada exportación.
+ * También comparte enlaces directos a pantallas de la app.
+ */
+export class ShareService {
+  /**
+   * Comprobar si el dispositivo puede compartir archivos
+   * (no disponible en algunos navegadores)
+   */
+  static async disponible(): Promise<boolean> {
+    try {
+      return await Sharing.isAvailableAsync();
+    } catch {
+      return false;
+    }
+  }
+
+  /**
+   * Guardar un archivo de texto y compartirlo
+   *
+   * @param nombre - Nombre con extensión (ej: "receta.md")
+   * @param contenido - Texto del archivo
+   * @param mimeType - Tipo del archivo (ej: "text/markdown")
+   */
+  static async compartirArchivo(
+    nombre: string,
+    contenido: string,
+    mimeType: string
+  ): Promise<void> {
+    const archivo = new File(Paths.cache, nombre);
+    archivo.create({ overwrite: true });
+    archivo.write(contenido);
+
+    await Sharing.shareAsync(archivo.uri, {
+      mimeType,
+      dialogTitle: nombre,
+    });
+  }
+
+  /**
+   * Crear un enlace directo a una ruta de la app
+   * (cooklyapp://recipe/12; en desarrollo, exp://.../--/recipe/12)
+   *
+   * @param ruta - Ruta de la app (ej: "/recipe/12")
+   */
+  static crearEnlace(ruta: string): string {
+    return Linking.createURL(ruta.replace(/^\//, ""));
+  }
+
+  /**
+   * Compartir un enlace con la hoja de compartir del sistema
+   *
+   * @param titulo - Título del contenido (asunto en correo)
+   * @param enlace - URL a compartir
+   */
+  static async compartirEnlace(titulo: string, enlace: string): Promise<void> {
+    // iOS adjunta "url" aparte; Android solo comparte "message"
+    const contenido =
+      Platform.OS === "ios"
+        ? { title: titulo, message: titulo, url: enlace }
+        : { title: titulo, message: `${titulo}\n${enlace}` };
+
+    await Share.share(contenido, { dialogTitle: titulo, subject: titulo });
+  }
+}
@@ -82,6 +82,15 @@ export class StorageService {
   static readonly SESSION_USER_KEY = "cookly_current_user";
   static readonly SESSION_REMEMBER_KEY = "cookly_remember_session";
 
+  // Key para el orden y los filtros del feed de recetas
+  static readonly LIST_OPTIONS_KEY = "cookly_list_options";
+
+  // Key para la lista de la compra (disponible sin conexión)
+  static readonly SHOPPING_LIST_KEY = "cookly_shopping_list";
+
+  // Key para el sistema de unidades en que se muestran las cantidades
+  static readonly UNIT_SYSTEM_KEY = "cookly_unit_system";
+
   /**
    * Limpiar todos los datos de sesión
    */
@@ -0,0 +1,63 @@
+/**
+ * Modelo de Alérgenos y Dietas
+ *
+ * - Alergeno: ingrediente problemático que la receta CONTIENE
+ * - Dieta: tipo de dieta con el que la receta es APTA
+ * - Restriccion: lo que el usuario guarda en su perfil; un alérgeno
+ *   ("no puedo tomar gluten") o una dieta ("solo recetas veganas")
+ */
+
+export type Alergeno = "gluten" | "lactosa" | "frutos_secos" | "huevo";
+
+export type Dieta = "vegano" | "vegetariano";
+
+export type Restriccion = Alergeno | Dieta;
+
+// Qué hacer en el feed con las recetas que no cumplen las restricciones
+export type ModoRestricciones = "ocultar" | "avisar";
+
+export const ALERGENOS: Alergeno[] = [
+  "gluten",
+  "lactosa",
+  "frutos_secos",
+  "huevo",
+];
+
+export const DIETAS: Dieta[] = ["vegano", "vegetariano"];
+
+export const ETIQUETAS_ALERGENO: Record<Alergeno, string> = {
+  gluten: "🌾 Gluten",
+  lactosa: "🥛 Lactosa",
+  frutos_secos: "🥜 Frutos secos",
+  huevo: "🥚 Huevo",
+};
+
+export const ETIQUETAS_DIETA: Record<Dieta, string> = {
+  vegano: "🌱 Vegana",
+  vegetariano: "🥕 Vegetariana",
+};
+
+// Cómo se muestra cada restricción en el perfil y en los avisos
+export const ETIQUETAS_RESTRICCION: Record<Restriccion, string> = {
+  gluten: "Sin gluten",
+  lactosa: "Sin lactosa",
+  frutos_secos: "Sin frutos secos",
+  huevo: "Sin huevo",
+  vegano: "Vegano",
+  vegetariano: "Vegetariano",
+};
+
+export interface InfoAlergenos {
+  alergenos: Alergeno[]; // Alérgenos que contiene
+  dietas: Dieta[]; // Dietas para las que es apta
+}
+
+export interface PreferenciasDieta {
+  restricciones: Restriccion[];
+  modo: ModoRestricciones;
+}
+
+export const PREFERENCIAS_DIETA_POR_DEFECTO: PreferenciasDieta = {
+  restricciones: [],
+  modo: "avisar",
+};
@@ -0,0 +1,14 @@
+/**
+ * Modelo de Colección
+ * Recetario personal con nombre ("Navidad", "Cenas rápidas"...)
+ * que agrupa recetas de cualquier chef
+ */
+
+export interface Coleccion {
+  id: string;
+  usuario_id: string; // Dueño de la colección
+  nombre: string;
+  posicion: number; // Orden elegido por el usuario (0 = primera)
+  created_at: string;
+  num_recetas: number; // Recetas guardadas en la colección
+}
@@ -0,0 +1,27 @@
+/**
+ * Modelo de Comentario
+ * Mensaje del hilo de preguntas y respuestas de una receta
+ */
+
+export interface Comentario {
+  id: string;
+  receta_id: string;
+  usuario_id: string;
+  contenido: string;
+  created_at: string;
+  updated_at?: string; // Presente si el autor lo editó
+  // Información del autor (join)
+  usuario?: {
+    email: string;
+    nombre?: string;
+    rol: string;
+  };
+}
+
+/**
+ * Cambio recibido en tiempo real sobre los comentarios de una receta
+ * (los DELETE de Supabase solo traen el ID de la fila borrada)
+ */
+export type CambioComentario =
+  | { tipo: "INSERT" | "UPDATE"; comentario: Comentario }
+  | { tipo: "DELETE"; id: string };
@@ -0,0 +1,30 @@
+import { Ingrediente } from "./Ingrediente";
+import { Receta } from "./Receta";
+
+/**
+ * Modelos de la Despensa
+ *
+ * - ArticuloDespensa: algo que el usuario tiene en casa
+ * - SugerenciaDespensa: receta recomendada con lo que hay en la despensa
+ */
+
+export interface ArticuloDespensa {
+  id: string;
+  usuario_id: string; // Dueño de la despensa
+  nombre: string; // Ej: "leche"
+  cantidad?: number | null;
+  unidad?: string | null;
+  caduca_el?: string | null; // Fecha de caducidad (YYYY-MM-DD) o null si no caduca
+  created_at: string;
+}
+
+// Estado de un artículo según los días que le quedan
+export type EstadoCaducidad = "caducado" | "pronto" | "bien" | "sin_fecha";
+
+export interface SugerenciaDespensa {
+  receta: Receta; // Receta recomendada
+  usados: ArticuloDespensa[]; // Artículos de la despensa que usa
+  porCaducar: ArticuloDespensa[]; // De esos, los que caducan pronto
+  faltantes: Ingrediente[]; // Ingredientes que no hay en la despensa
+  puntuacion: number; // Prioridad (mayor = aprovecha más lo que caduca)
+}
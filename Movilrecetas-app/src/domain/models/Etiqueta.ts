@@ -0,0 +1,31 @@
+/**
+ * Modelo de Etiqueta
+ * Categoría libre de una receta ("postre", "vegano", "sin gluten"...)
+ *
+ * En la receta se guardan solo los nombres normalizados (minúsculas);
+ * las categorías predefinidas añaden un icono para la UI.
+ */
+
+export interface Categoria {
+  etiqueta: string; // Nombre normalizado (ej: "sin gluten")
+  icono: string;
+}
+
+// Categorías que se ofrecen siempre en el selector y en el filtro
+export const CATEGORIAS_RECETA: Categoria[] = [
+  { etiqueta: "entrada", icono: "🥗" },
+  { etiqueta: "principal", icono: "🍲" },
+  { etiqueta: "postre", icono: "🍰" },
+  { etiqueta: "desayuno", icono: "🥐" },
+  { etiqueta: "bebida", icono: "🥤" },
+  { etiqueta: "vegano", icono: "🌱" },
+  { etiqueta: "vegetariano", icono: "🥕" },
+  { etiqueta: "sin gluten", icono: "🌾" },
+  { etiqueta: "rápida", icono: "⚡" },
+];
+
+// Etiqueta usada en el feed y número de recetas que la llevan
+export interface EtiquetaEnUso {
+  etiqueta: string;
+  num_recetas: number;
+}
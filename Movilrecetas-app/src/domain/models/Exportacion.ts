@@ -0,0 +1,61 @@
+import { Receta } from "./Receta";
+
+/**
+ * Modelo de Exportación
+ * Formatos en que se pueden sacar recetas de la app (imprimir,
+ * copias de seguridad, pasarlas a otra herramienta)
+ */
+
+export type FormatoExportacion = "markdown" | "json" | "html";
+
+export const FORMATOS_EXPORTACION: FormatoExportacion[] = [
+  "markdown",
+  "json",
+  "html",
+];
+
+export const ETIQUETAS_FORMATO: Record<FormatoExportacion, string> = {
+  markdown: "📝 Markdown",
+  json: "💾 JSON (copia de seguridad)",
+  html: "🖨️ HTML para imprimir",
+};
+
+// Identificador y versión del formato JSON: subir la versión si cambia
+// la forma de las recetas para que el importador sepa leer las antiguas
+export const FORMATO_JSON = "cookly-recetas";
+export const VERSION_JSON = 1;
+
+// Campos de la receta que se guardan en el JSON (sin datos calculados
+// en el servidor como valoraciones ni el join del chef)
+export type RecetaExportada = Pick<
+  Receta,
+  | "id"
+  | "titulo"
+  | "descripcion"
+  | "ingredientes"
+  | "porciones"
+  | "pasos"
+  | "etiquetas"
+  | "tiempo_preparacion"
+  | "tiempo_coccion"
+  | "dificultad"
+  | "alergenos"
+  | "dietas"
+  | "alergenos_manual"
+  | "imagen_url"
+  | "created_at"
+>;
+
+export interface ExportacionJson {
+  formato: typeof FORMATO_JSON;
+  version: number;
+  exportado_el: string; // ISO string
+  recetas: RecetaExportada[];
+}
+
+// Archivo listo para escribir y compartir
+export interface ArchivoExportado {
+  nombre: string; // Con extensión (ej: "tortilla-de-patatas.md")
+  contenido: string;
+  mimeType: string;
+}
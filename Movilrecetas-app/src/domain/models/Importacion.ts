@@ -0,0 +1,27 @@
+import { DatosReceta } from "./Receta";
+
+/**
+ * Modelo de Importación Masiva
+ * Recetas leídas de un archivo JSON exportado desde la app
+ * (formato "cookly-recetas") antes de publicarlas
+ */
+
+// Una entrada del archivo con el resultado de validarla
+export interface FilaImportacion {
+  indice: number; // Posición en el archivo (0 = primera)
+  titulo: string; // Para la vista previa, aunque la fila no sea válida
+  datos: DatosReceta | null; // Listos para crearReceta (null si tiene errores)
+  errores: string[];
+}
+
+export interface ProgresoImportacion {
+  hechas: number;
+  total: number;
+}
+
+// Resultado final de la importación
+export interface InformeImportacion {
+  importadas: string[]; // Títulos publicados
+  fallidas: { titulo: string; error: string }[]; // Válidas que no se pudieron guardar
+  omitidas: number; // Filas con errores de validación (no se intentaron)
+}
@@ -0,0 +1,14 @@
+/**
+ * Modelo de Ingrediente
+ * Representa un ingrediente estructurado dentro de una receta
+ *
+ * Ejemplo: "200 g de harina, tamizada" →
+ * { nombre: "harina", cantidad: 200, unidad: "g", nota: "tamizada" }
+ */
+
+export interface Ingrediente {
+  nombre: string; // Nombre del ingrediente (ej: "harina")
+  cantidad?: number; // Cantidad numérica opcional (ej: 200)
+  unidad?: string; // Unidad normalizada opcional (ej: "g", "taza")
+  nota?: string; // Nota de preparación opcional (ej: "tamizada")
+}
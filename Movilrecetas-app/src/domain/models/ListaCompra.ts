@@ -0,0 +1,50 @@
+import { Ingrediente } from "./Ingrediente";
+
+/**
+ * Modelo de Lista de la Compra
+ *
+ * Se guarda en el dispositivo (no en Supabase) para poder usarla en el
+ * supermercado sin conexión. Solo se guardan las recetas elegidas y los
+ * artículos marcados; los artículos se recalculan a partir de ellas.
+ */
+
+export type CategoriaCompra =
+  | "frutas_verduras"
+  | "carnes_pescados"
+  | "lacteos_huevos"
+  | "panaderia"
+  | "despensa"
+  | "especias"
+  | "bebidas"
+  | "otros";
+
+// Receta añadida a la lista, con sus ingredientes ya escalados
+export interface RecetaEnLista {
+  id: string;
+  titulo: string;
+  porciones: number;
+  ingredientes: Ingrediente[];
+}
+
+export interface ListaCompra {
+  recetas: RecetaEnLista[];
+  marcados: string[]; // IDs de los artículos ya comprados
+  actualizada: string; // ISO string de la última modificación
+}
+
+// Artículo consolidado: un ingrediente sumado entre todas las recetas
+export interface ItemCompra {
+  id: string; // Clave estable (nombre normalizado + tipo de unidad)
+  nombre: string;
+  cantidad?: number;
+  unidad?: string;
+  categoria: CategoriaCompra;
+  recetas: string[]; // Títulos de las recetas que lo usan
+  marcado: boolean;
+}
+
+export interface GrupoCompra {
+  categoria: CategoriaCompra;
+  etiqueta: string;
+  items: ItemCompra[];
+}
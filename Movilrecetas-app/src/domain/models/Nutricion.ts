@@ -0,0 +1,27 @@
+/**
+ * Modelo de Nutrición
+ * Estimación de calorías y macronutrientes de una receta calculada
+ * con la tabla local de ingredientes (sin API externa)
+ */
+
+export interface ValoresNutricionales {
+  calorias: number; // kcal
+  proteinas: number; // g
+  grasas: number; // g
+  carbohidratos: number; // g
+}
+
+export const VALORES_VACIOS: ValoresNutricionales = {
+  calorias: 0,
+  proteinas: 0,
+  grasas: 0,
+  carbohidratos: 0,
+};
+
+export interface EstimacionNutricional {
+  total: ValoresNutricionales; // Receta completa
+  porPorcion: ValoresNutricionales;
+  porciones: number;
+  incluidos: number; // Ingredientes que entran en el cálculo
+  noIncluidos: string[]; // Nombres sin cantidad o sin datos en la tabla
+}
@@ -0,0 +1,49 @@
+import { Dificultad } from "./Preparacion";
+
+/**
+ * Modelo de Opciones de Listado
+ * Orden y filtros elegidos por el usuario para el feed de recetas
+ *
+ * Se guardan en el dispositivo (StorageService) para recordarlos
+ * entre sesiones.
+ */
+
+export type OrdenRecetas =
+  | "recientes" // Más nuevas primero (por defecto)
+  | "antiguas" // Más antiguas primero
+  | "alfabetico" // Por título A → Z
+  | "mas_ingredientes" // Más ingredientes primero
+  | "menos_ingredientes" // Menos ingredientes primero
+  | "chef" // Por nombre del chef (A → Z)
+  | "valoracion"; // Mejor valoradas primero
+
+export interface OpcionesListado {
+  orden: OrdenRecetas;
+  soloMias: boolean; // Solo recetas del usuario actual
+  conImagen: boolean; // Solo recetas con imagen
+  chefId: string | null; // Solo recetas de un chef concreto
+  etiqueta: string | null; // Solo recetas de una categoría
+  tiempoMaximo: number | null; // Solo recetas de como mucho estos minutos en total
+  dificultad: Dificultad | null; // Solo recetas de esta dificultad
+}
+
+export const OPCIONES_LISTADO_POR_DEFECTO: OpcionesListado = {
+  orden: "recientes",
+  soloMias: false,
+  conImagen: false,
+  chefId: null,
+  etiqueta: null,
+  tiempoMaximo: null,
+  dificultad: null,
+};
+
+// Etiquetas para mostrar cada orden en la UI
+export const ETIQUETAS_ORDEN: Record<OrdenRecetas, string> = {
+  recientes: "Más recientes",
+  antiguas: "Más antiguas",
+  alfabetico: "A → Z",
+  mas_ingredientes: "Más ingredientes",
+  menos_ingredientes: "Menos ingredientes",
+  chef: "Por chef",
+  valoracion: "Mejor valoradas",
+};
@@ -0,0 +1,11 @@
+import { Receta } from "./Receta";
+
+/**
+ * Modelo de Página de Recetas
+ * Representa un bloque de recetas del feed paginado
+ */
+
+export interface PaginaRecetas {
+  recetas: Receta[]; // Recetas de esta página (más recientes primero)
+  siguienteCursor: string | null; // "created_at|id" u offset de la siguiente página, null si no hay más
+}
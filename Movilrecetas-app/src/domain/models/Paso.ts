@@ -0,0 +1,13 @@
+/**
+ * Modelo de Paso
+ * Representa un paso de preparación dentro de una receta
+ *
+ * Los pasos se guardan en orden: su posición en Receta.pasos
+ * es el número de paso que ve el usuario.
+ */
+
+export interface Paso {
+  texto: string; // Instrucción del paso
+  duracion_minutos?: number; // Duración opcional en minutos
+  imagen_url?: string; // URL opcional de una imagen del paso
+}
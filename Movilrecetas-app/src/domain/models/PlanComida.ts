@@ -0,0 +1,26 @@
+import { Receta } from "./Receta";
+
+/**
+ * Modelo del Planificador Semanal
+ * Cada entrada asigna una receta a un día y a una comida del día
+ */
+
+export type Comida = "desayuno" | "almuerzo" | "cena";
+
+// Comidas en el orden en que se muestran
+export const COMIDAS: Comida[] = ["desayuno", "almuerzo", "cena"];
+
+export const ETIQUETAS_COMIDA: Record<Comida, string> = {
+  desayuno: "☕ Desayuno",
+  almuerzo: "🍲 Almuerzo",
+  cena: "🌙 Cena",
+};
+
+export interface PlanComida {
+  id: string;
+  usuario_id: string;
+  fecha: string; // Día planificado (YYYY-MM-DD, hora local)
+  comida: Comida;
+  receta_id: string;
+  receta?: Receta; // Join con la receta planificada
+}
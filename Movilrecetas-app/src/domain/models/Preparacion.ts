@@ -0,0 +1,29 @@
+/**
+ * Modelo de Datos de Preparación
+ * Tiempos (en minutos) y dificultad que el chef indica en la receta
+ *
+ * Todos son opcionales: las recetas antiguas no los tienen.
+ */
+
+export type Dificultad = "facil" | "media" | "dificil";
+
+// Dificultades en orden creciente
+export const DIFICULTADES: Dificultad[] = ["facil", "media", "dificil"];
+
+export const ETIQUETAS_DIFICULTAD: Record<Dificultad, string> = {
+  facil: "🟢 Fácil",
+  media: "🟡 Media",
+  dificil: "🔴 Difícil",
+};
+
+export interface DatosPreparacion {
+  tiempo_preparacion: number | null; // Minutos de preparación (cortar, mezclar...)
+  tiempo_coccion: number | null; // Minutos al fuego, en el horno...
+  dificultad: Dificultad | null;
+}
+
+export const PREPARACION_VACIA: DatosPreparacion = {
+  tiempo_preparacion: null,
+  tiempo_coccion: null,
+  dificultad: null,
+};
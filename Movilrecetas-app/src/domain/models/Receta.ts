@@ -1,3 +1,8 @@
+import { Alergeno, Dieta, InfoAlergenos } from "./Alergenos";
+import { Ingrediente } from "./Ingrediente";
+import { Paso } from "./Paso";
+import { DatosPreparacion, Dificultad } from "./Preparacion";
+
 /**
  * Modelo de Receta
  * Representa una receta de cocina con toda su información
@@ -6,9 +11,55 @@
 export interface Receta {
   id: string; // UUID único
   titulo: string; // Nombre de la receta
-  descripcion: string; // Descripción detallada
-  ingredientes: string[]; // Array de ingredientes
+  descripcion: string; // Resumen de la receta
+  ingredientes: Ingrediente[]; // Ingredientes estructurados
+  porciones: number; // Número de personas para las que está escrita
+  pasos: Paso[]; // Pasos de preparación en orden
+  etiquetas: string[]; // Categorías normalizadas (ej: ["postre", "sin gluten"])
+  tiempo_preparacion: number | null; // Minutos de preparación
+  tiempo_coccion: number | null; // Minutos de cocción
+  tiempo_total: number | null; // Suma de ambos (null si no se indicó ninguno)
+  dificultad: Dificultad | null;
+  alergenos: Alergeno[]; // Alérgenos que contiene
+  dietas: Dieta[]; // Dietas para las que es apta
+  alergenos_manual: boolean; // true si el chef corrigió la detección automática
   chef_id: string; // ID del chef que la creó
   imagen_url?: string; // URL opcional de la imagen
   created_at: string; // ISO string de fecha de creación
+  valoracion_media: number; // Media de estrellas (0 si no tiene reseñas)
+  num_resenas: number; // Número de reseñas recibidas
+  // Información del chef (join, solo en el detalle)
+  chef?: {
+    email: string;
+    nombre?: string;
+  };
+}
+
+// Datos del formulario para crear o actualizar una receta
+export interface DatosReceta {
+  titulo: string;
+  descripcion: string;
+  ingredientes: Ingrediente[];
+  porciones: number;
+  pasos: Paso[];
+  etiquetas: string[];
+  preparacion: DatosPreparacion; // Tiempos y dificultad
+  alergenos: InfoAlergenos | null; // null = detectar con los ingredientes
+  imagenUri?: string; // URI local, URL o data URI (sin ella no se cambia)
 }
+
+// Receta todavía sin guardar (ej: importada de un blog) que se revisa
+// en el formulario antes de publicarla
+export type BorradorReceta = Pick<
+  Receta,
+  | "titulo"
+  | "descripcion"
+  | "ingredientes"
+  | "porciones"
+  | "pasos"
+  | "etiquetas"
+  | "tiempo_preparacion"
+  | "tiempo_coccion"
+  | "dificultad"
+  | "imagen_url"
+>;
@@ -0,0 +1,20 @@
+/**
+ * Modelo de Reseña
+ * Valoración (1–5 estrellas) y comentario opcional de un usuario
+ * sobre una receta. Cada usuario tiene como máximo una reseña por receta.
+ */
+
+export interface Resena {
+  id: string;
+  receta_id: string;
+  usuario_id: string;
+  puntuacion: number; // Estrellas de 1 a 5
+  comentario?: string; // Texto opcional
+  created_at: string;
+  updated_at?: string; // Última edición del autor
+  // Información del autor (join)
+  usuario?: {
+    email: string;
+    nombre?: string;
+  };
+}
@@ -0,0 +1,28 @@
+import { Ingrediente } from "./Ingrediente";
+import { Receta } from "./Receta";
+
+/**
+ * Modelos de Resultados de Búsqueda
+ *
+ * - ResultadoBusqueda: búsqueda por ingredientes que el usuario tiene en casa
+ * - ResultadoBusquedaTexto: búsqueda de texto en título, descripción e ingredientes
+ */
+
+export interface ResultadoBusqueda {
+  receta: Receta; // Receta encontrada
+  usados: string[]; // Ingredientes del usuario que usa la receta
+  faltantes: Ingrediente[]; // Ingredientes de la receta que el usuario no tiene
+}
+
+export interface Fragmento {
+  texto: string; // Trozo del texto original
+  resaltado: boolean; // true si coincide con la búsqueda
+}
+
+export interface ResultadoBusquedaTexto {
+  receta: Receta; // Receta encontrada
+  puntuacion: number; // Relevancia (mayor = más relevante)
+  titulo: Fragmento[]; // Título dividido para resaltar coincidencias
+  descripcion: Fragmento[]; // Descripción dividida para resaltar coincidencias
+  ingredientes: string[]; // Nombres de ingredientes que coinciden
+}
@@ -0,0 +1,23 @@
+/**
+ * Modelo de Temporizador
+ * Cuenta atrás iniciada desde el modo cocina para un paso de una receta
+ *
+ * Vive en memoria mientras la app está abierta: sigue corriendo al
+ * cambiar de pantalla y avisa con una notificación local al terminar.
+ */
+
+export interface Temporizador {
+  id: string;
+  receta_id: string;
+  receta_titulo: string;
+  paso: number; // Índice del paso en Receta.pasos
+  duracion_segundos: number;
+  termina_en: number; // Momento de fin (ms desde epoch)
+  notificacion_id: string | null; // Notificación programada (si hay permiso)
+}
+
+// Datos para iniciar un temporizador (el resto se calcula al iniciarlo)
+export type NuevoTemporizador = Pick<
+  Temporizador,
+  "receta_id" | "receta_titulo" | "paso" | "duracion_segundos"
+>;
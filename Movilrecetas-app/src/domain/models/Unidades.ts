@@ -0,0 +1,24 @@
+/**
+ * Modelo de Sistema de Unidades
+ * Cómo prefiere ver el usuario las cantidades de los ingredientes
+ *
+ * - original: tal como las escribió el chef
+ * - metrico: gramos, mililitros y °C
+ * - imperial: onzas, libras, tazas y °F
+ */
+
+export type SistemaUnidades = "original" | "metrico" | "imperial";
+
+export const SISTEMAS_UNIDADES: SistemaUnidades[] = [
+  "original",
+  "metrico",
+  "imperial",
+];
+
+export const ETIQUETAS_SISTEMA: Record<SistemaUnidades, string> = {
+  original: "Como la receta",
+  metrico: "Métrico (g, ml, °C)",
+  imperial: "Imperial (oz, tazas, °F)",
+};
+
+export const SISTEMA_POR_DEFECTO: SistemaUnidades = "original";
@@ -1,3 +1,5 @@
+import { ModoRestricciones, Restriccion } from "./Alergenos";
+
 /**
  * Modelo de Usuario
  * Representa la estructura de datos de un usuario en la aplicación
@@ -11,4 +13,6 @@ export interface Usuario {
   email: string; // Email para login
   nombre?: string; // Nombre opcional
   rol: "chef" | "usuario"; // Solo dos tipos de usuarios
+  restricciones?: Restriccion[]; // Alérgenos y dietas del usuario
+  modo_restricciones?: ModoRestricciones; // Ocultar o avisar en el feed
 }
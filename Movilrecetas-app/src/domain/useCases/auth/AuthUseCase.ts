@@ -2,6 +2,10 @@ import { supabase } from "@/src/data/services/supabaseClient";
 import { StorageService } from "../../../data/services/storageService";
 import { Usuario } from "../../models/Usuario";
 
+// Ruta a la que llevaba un enlace abierto sin sesión (compartida entre
+// instancias: la guarda el layout raíz y la recoge la pantalla de login)
+let destinoPendiente: string | null = null;
+
 /**
  * AuthUseCase - Caso de Uso de Autenticación
  *
@@ -11,6 +15,7 @@ import { Usuario } from "../../models/Usuario";
  * - Cierre de sesión
  * - Obtener usuario actual
  * - Escuchar cambios de autenticación
+ * - Recordar el destino de un enlace hasta iniciar sesión
  *
  * Este UseCase es el "cerebro" de la autenticación.
  * Los componentes no hablan directamente con Supabase, sino con este UseCase.
@@ -142,6 +147,26 @@ export class AuthUseCase {
     }
   }
 
+  /**
+   * Recordar la ruta de un enlace abierto sin sesión
+   *
+   * @param ruta - Ruta de la app (ej: "/recipe/12")
+   */
+  recordarDestino(ruta: string) {
+    destinoPendiente = ruta;
+  }
+
+  /**
+   * Obtener y olvidar el destino pendiente (se usa una sola vez)
+   *
+   * @returns Ruta pendiente o null
+   */
+  tomarDestino(): string | null {
+    const ruta = destinoPendiente;
+    destinoPendiente = null;
+    return ruta;
+  }
+
   /**
    * Cerrar sesión
    */
@@ -153,6 +178,11 @@ export class AuthUseCase {
       // Limpiar todos los datos de sesión guardados localmente
       await StorageService.limpiarDatosSesion();
 
+      // La lista de la compra se guarda por dispositivo: quien inicie
+      // sesión después no debe heredarla. No se borra al caducar la
+      // sesión, para que siga disponible sin conexión
+      await StorageService.removeItem(StorageService.SHOPPING_LIST_KEY);
+
       return { success: true };
     } catch (error: any) {
       return { success: false, error: error.message };
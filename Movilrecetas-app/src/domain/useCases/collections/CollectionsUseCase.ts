@@ -0,0 +1,290 @@
+import { supabase } from "@/src/data/services/supabaseClient";
+import { Coleccion } from "../../models/Coleccion";
+import { Receta } from "../../models/Receta";
+import { mapearReceta } from "../../utils/recetas";
+
+/**
+ * CollectionsUseCase - Caso de Uso de Colecciones
+ *
+ * Tabla "colecciones":
+ * - id, usuario_id (→ usuarios.id), nombre, posicion (int), created_at
+ * - Índice único (usuario_id, lower(nombre)): sin nombres repetidos por usuario
+ *
+ * Tabla "colecciones_recetas":
+ * - coleccion_id (→ colecciones.id, on delete cascade)
+ * - receta_id (→ recetas.id, on delete cascade)
+ * - created_at
+ * - Clave primaria (coleccion_id, receta_id)
+ *
+ * RLS: cada usuario solo ve y modifica sus colecciones y sus filas.
+ *
+ * Gestiona:
+ * - Listar, crear, renombrar, reordenar y eliminar colecciones
+ * - Añadir y quitar recetas de una colección
+ * - Listar las recetas de una colección
+ */
+
+export class CollectionsUseCase {
+  static readonly LONGITUD_MAXIMA_NOMBRE = 40;
+
+  /**
+   * Obtener las colecciones del usuario en su orden
+   */
+  async obtenerColecciones(): Promise<Coleccion[]> {
+    const {
+      data: { user },
+    } = await supabase.auth.getUser();
+    if (!user) return [];
+
+    const { data, error } = await supabase
+      .from("colecciones")
+      .select("*, colecciones_recetas(count)")
+      .eq("usuario_id", user.id)
+      .order("posicion", { ascending: true })
+      .order("created_at", { ascending: true });
+
+    if (error) {
+      console.error("Error al obtener colecciones:", error);
+      return [];
+    }
+
+    return data.map((fila: any) => this.mapearColeccion(fila));
+  }
+
+  /**
+   * Obtener una colección por ID
+   */
+  async obtenerColeccionPorId(id: string): Promise<Coleccion | null> {
+    const { data, error } = await supabase
+      .from("colecciones")
+      .select("*, colecciones_recetas(count)")
+      .eq("id", id)
+      .maybeSingle();
+
+    if (error) {
+      console.error("Error al obtener colección:", error);
+      return null;
+    }
+
+    return data ? this.mapearColeccion(data) : null;
+  }
+
+  /**
+   * Obtener las recetas de una colección (últimas añadidas primero)
+   */
+  async obtenerRecetasDeColeccion(coleccionId: string): Promise<Receta[]> {
+    const { data, error } = await supabase
+      .from("colecciones_recetas")
+      .select("created_at, recetas(*)")
+      .eq("coleccion_id", coleccionId)
+      .order("created_at", { ascending: false });
+
+    if (error) {
+      console.error("Error al obtener recetas de la colección:", error);
+      return [];
+    }
+
+    return data
+      .filter((fila: any) => fila.recetas)
+      .map((fila: any) => mapearReceta(fila.recetas));
+  }
+
+  /**
+   * Obtener los IDs de las colecciones que contienen una receta
+   * (para marcar las casillas del selector)
+   */
+  async obtenerColeccionesDeReceta(recetaId: string): Promise<string[]> {
+    const { data, error } = await supabase
+      .from("colecciones_recetas")
+      .select("coleccion_id")
+      .eq("receta_id", recetaId);
+
+    if (error) {
+      console.error("Error al obtener colecciones de la receta:", error);
+      return [];
+    }
+
+    return data.map((fila) => fila.coleccion_id);
+  }
+
+  /**
+   * Crear una colección al final de la lista
+   */
+  async crearColeccion(nombre: string) {
+    try {
+      const errorNombre = this.validarNombre(nombre);
+      if (errorNombre) return { success: false, error: errorNombre };
+
+      const {
+        data: { user },
+      } = await supabase.auth.getUser();
+      if (!user) {
+        return { success: false, error: "Usuario no autenticado" };
+      }
+
+      // La nueva colección va detrás de la última
+      const { data: ultima } = await supabase
+        .from("colecciones")
+        .select("posicion")
+        .eq("usuario_id", user.id)
+        .order("posicion", { ascending: false })
+        .limit(1)
+        .maybeSingle();
+
+      const { data, error } = await supabase
+        .from("colecciones")
+        .insert({
+          usuario_id: user.id,
+          nombre: nombre.trim(),
+          posicion: ultima ? ultima.posicion + 1 : 0,
+        })
+        .select()
+        .single();
+
+      if (error) throw error;
+      return {
+        success: true,
+        coleccion: { ...data, num_recetas: 0 } as Coleccion,
+      };
+    } catch (error: any) {
+      console.error("Error al crear colección:", error);
+      return { success: false, error: this.mensajeError(error) };
+    }
+  }
+
+  /**
+   * Cambiar el nombre de una colección
+   */
+  async renombrarColeccion(id: string, nombre: string) {
+    try {
+      const errorNombre = this.validarNombre(nombre);
+      if (errorNombre) return { success: false, error: errorNombre };
+
+      const { error } = await supabase
+        .from("colecciones")
+        .update({ nombre: nombre.trim() })
+        .eq("id", id);
+
+      if (error) throw error;
+      return { success: true };
+    } catch (error: any) {
+      console.error("Error al renombrar colección:", error);
+      return { success: false, error: this.mensajeError(error) };
+    }
+  }
+
+  /**
+   * Guardar un nuevo orden de colecciones
+   *
+   * @param ids - IDs de las colecciones en el orden deseado
+   */
+  async reordenarColecciones(ids: string[]) {
+    try {
+      const resultados = await Promise.all(
+        ids.map((id, posicion) =>
+          supabase.from("colecciones").update({ posicion }).eq("id", id)
+        )
+      );
+
+      const fallo = resultados.find((r) => r.error);
+      if (fallo?.error) throw fallo.error;
+      return { success: true };
+    } catch (error: any) {
+      console.error("Error al reordenar colecciones:", error);
+      return { success: false, error: error.message };
+    }
+  }
+
+  /**
+   * Eliminar una colección (las recetas no se borran)
+   */
+  async eliminarColeccion(id: string) {
+    try {
+      const { error } = await supabase
+        .from("colecciones")
+        .delete()
+        .eq("id", id);
+
+      if (error) throw error;
+      return { success: true };
+    } catch (error: any) {
+      console.error("Error al eliminar colección:", error);
+      return { success: false, error: error.message };
+    }
+  }
+
+  /**
+   * Añadir una receta a una colección
+   */
+  async agregarReceta(coleccionId: string, recetaId: string) {
+    try {
+      const { error } = await supabase
+        .from("colecciones_recetas")
+        .upsert(
+          { coleccion_id: coleccionId, receta_id: recetaId },
+          { onConflict: "coleccion_id,receta_id", ignoreDuplicates: true }
+        );
+
+      if (error) throw error;
+      return { success: true };
+    } catch (error: any) {
+      console.error("Error al añadir receta a la colección:", error);
+      return { success: false, error: error.message };
+    }
+  }
+
+  /**
+   * Quitar una receta de una colección
+   */
+  async quitarReceta(coleccionId: string, recetaId: string) {
+    try {
+      const { error } = await supabase
+        .from("colecciones_recetas")
+        .delete()
+        .eq("coleccion_id", coleccionId)
+        .eq("receta_id", recetaId);
+
+      if (error) throw error;
+      return { success: true };
+    } catch (error: any) {
+      console.error("Error al quitar receta de la colección:", error);
+      return { success: false, error: error.message };
+    }
+  }
+
+  /**
+   * Validar el nombre de una colección
+   *
+   * @returns Mensaje de error o null si es válido
+   */
+  private validarNombre(nombre: string): string | null {
+    if (!nombre.trim()) {
+      return "El nombre es obligatorio";
+    }
+    if (nombre.trim().length > CollectionsUseCase.LONGITUD_MAXIMA_NOMBRE) {
+      return `El nombre no puede superar ${CollectionsUseCase.LONGITUD_MAXIMA_NOMBRE} caracteres`;
+    }
+    return null;
+  }
+
+  /**
+   * Traducir los errores de Supabase que el usuario puede resolver
+   */
+  private mensajeError(error: any): string {
+    // 23505 = unique_violation (nombre repetido)
+    if (error?.code === "23505") {
+      return "Ya tienes una colección con ese nombre";
+    }
+    return error?.message ?? "Error desconocido";
+  }
+
+  /**
+   * Convertir una fila (con el conteo de recetas) en el modelo Coleccion
+   */
+  private mapearColeccion({ colecciones_recetas, ...fila }: any): Coleccion {
+    return {
+      ...fila,
+      num_recetas: colecciones_recetas?.[0]?.count ?? 0,
+    } as Coleccion;
+  }
+}
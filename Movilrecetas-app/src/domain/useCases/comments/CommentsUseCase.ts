@@ -0,0 +1,243 @@
+import { supabase } from "@/src/data/services/supabaseClient";
+import { CambioComentario, Comentario } from "../../models/Comentario";
+
+/**
+ * CommentsUseCase - Caso de Uso de Comentarios de Recetas
+ *
+ * Tabla "comentarios":
+ * - id, receta_id (→ recetas.id, on delete cascade), usuario_id (→ usuarios.id)
+ * - contenido: text, created_at, updated_at
+ * - RLS:
+ *   - insert: cualquier usuario autenticado, como él mismo
+ *   - update: solo el autor
+ *   - delete: el autor o el chef dueño de la receta
+ * - Publicada en supabase_realtime para recibir los cambios en vivo
+ * - REPLICA IDENTITY FULL: los eventos DELETE traen receta_id (el filtro
+ *   de realtime no se aplica a los DELETE, se filtran en el cliente)
+ *
+ * Gestiona:
+ * - Listar comentarios de una receta (más antiguos primero, como un hilo)
+ * - Publicar, editar y eliminar comentarios
+ * - Suscripción en tiempo real a los cambios del hilo
+ */
+
+// Contador para dar un nombre único al canal de cada suscripción
+let numeroSuscripcion = 0;
+
+export class CommentsUseCase {
+  static readonly LONGITUD_MAXIMA = 1000;
+
+  /**
+   * Obtener los comentarios de una receta
+   */
+  async obtenerComentarios(recetaId: string): Promise<Comentario[]> {
+    const { data, error } = await supabase
+      .from("comentarios")
+      .select("*, usuarios(email, nombre, rol)")
+      .eq("receta_id", recetaId)
+      .order("created_at", { ascending: true });
+
+    if (error) {
+      console.error("Error al obtener comentarios:", error);
+      return [];
+    }
+
+    return data.map((fila: any) => this.mapearComentario(fila));
+  }
+
+  /**
+   * Publicar un comentario en una receta
+   */
+  async publicarComentario(recetaId: string, contenido: string) {
+    try {
+      const error = this.validarContenido(contenido);
+      if (error) return { success: false, error };
+
+      const {
+        data: { user },
+      } = await supabase.auth.getUser();
+      if (!user) {
+        return { success: false, error: "Usuario no autenticado" };
+      }
+
+      const { data, error: insertError } = await supabase
+        .from("comentarios")
+        .insert({
+          receta_id: recetaId,
+          usuario_id: user.id,
+          contenido: contenido.trim(),
+        })
+        .select("*, usuarios(email, nombre, rol)")
+        .single();
+
+      if (insertError) throw insertError;
+      return { success: true, comentario: this.mapearComentario(data) };
+    } catch (error: any) {
+      console.error("Error al publicar comentario:", error);
+      return { success: false, error: error.message };
+    }
+  }
+
+  /**
+   * Editar un comentario propio
+   */
+  async editarComentario(id: string, contenido: string) {
+    try {
+      const error = this.validarContenido(contenido);
+      if (error) return { success: false, error };
+
+      const { data, error: updateError } = await supabase
+        .from("comentarios")
+        .update({
+          contenido: contenido.trim(),
+          updated_at: new Date().toISOString(),
+        })
+        .eq("id", id)
+        .select("*, usuarios(email, nombre, rol)");
+
+      if (updateError) throw updateError;
+
+      // RLS no devuelve error, simplemente no actualiza filas ajenas
+      if (data.length === 0) {
+        return {
+          success: false,
+          error: "Solo puedes editar tus propios comentarios",
+        };
+      }
+
+      return { success: true, comentario: this.mapearComentario(data[0]) };
+    } catch (error: any) {
+      console.error("Error al editar comentario:", error);
+      return { success: false, error: error.message };
+    }
+  }
+
+  /**
+   * Eliminar un comentario (propio, o cualquiera si eres el chef de la receta)
+   */
+  async eliminarComentario(id: string) {
+    try {
+      const { data, error } = await supabase
+        .from("comentarios")
+        .delete()
+        .eq("id", id)
+        .select("id");
+
+      if (error) throw error;
+
+      if (data.length === 0) {
+        return {
+          success: false,
+          error: "No tienes permiso para eliminar este comentario",
+        };
+      }
+
+      return { success: true };
+    } catch (error: any) {
+      console.error("Error al eliminar comentario:", error);
+      return { success: false, error: error.message };
+    }
+  }
+
+  /**
+   * Escuchar en tiempo real los cambios del hilo de una receta
+   *
+   * Mismo mecanismo que el chat (postgres_changes). Las inserciones y
+   * ediciones se vuelven a pedir con el join del autor; los DELETE no
+   * se pueden filtrar por receta en el servidor, así que llegan todos y
+   * se descartan aquí los de otras recetas.
+   *
+   * @returns Función para cancelar la suscripción
+   */
+  suscribirseAComentarios(
+    recetaId: string,
+    callback: (cambio: CambioComentario) => void
+  ) {
+    const alCambiarFila = async (tipo: "INSERT" | "UPDATE", id: string) => {
+      const { data, error } = await supabase
+        .from("comentarios")
+        .select("*, usuarios(email, nombre, rol)")
+        .eq("id", id)
+        .single();
+
+      if (error) {
+        console.error("Error al obtener comentario:", error);
+        return;
+      }
+
+      callback({ tipo, comentario: this.mapearComentario(data) });
+    };
+
+    // Un canal por suscripción: puede haber varios detalles abiertos a la
+    // vez, incluso de la misma receta (supabase reutiliza los canales con
+    // el mismo nombre)
+    numeroSuscripcion++;
+    const channel = supabase.channel(
+      `comentarios-${recetaId}-${numeroSuscripcion}`
+    );
+    channel
+      .on(
+        "postgres_changes",
+        {
+          event: "INSERT",
+          schema: "public",
+          table: "comentarios",
+          filter: `receta_id=eq.${recetaId}`,
+        },
+        (payload) => alCambiarFila("INSERT", payload.new.id)
+      )
+      .on(
+        "postgres_changes",
+        {
+          event: "UPDATE",
+          schema: "public",
+          table: "comentarios",
+          filter: `receta_id=eq.${recetaId}`,
+        },
+        (payload) => alCambiarFila("UPDATE", payload.new.id)
+      )
+      .on(
+        "postgres_changes",
+        {
+          event: "DELETE",
+          schema: "public",
+          table: "comentarios",
+        },
+        (payload) => {
+          if (payload.old.id && payload.old.receta_id === recetaId) {
+            callback({ tipo: "DELETE", id: payload.old.id });
+          }
+        }
+      )
+      .subscribe();
+
+    return () => {
+      supabase.removeChannel(channel);
+    };
+  }
+
+  /**
+   * Validar el texto de un comentario
+   *
+   * @returns Mensaje de error o null si es válido
+   */
+  private validarContenido(contenido: string): string | null {
+    if (!contenido.trim()) {
+      return "El comentario está vacío";
+    }
+    if (contenido.trim().length > CommentsUseCase.LONGITUD_MAXIMA) {
+      return `El comentario no puede superar ${CommentsUseCase.LONGITUD_MAXIMA} caracteres`;
+    }
+    return null;
+  }
+
+  /**
+   * Convertir una fila (con join de usuarios) en el modelo Comentario
+   */
+  private mapearComentario({ usuarios, ...fila }: any): Comentario {
+    return {
+      ...fila,
+      usuario: usuarios ?? undefined,
+    } as Comentario;
+  }
+}
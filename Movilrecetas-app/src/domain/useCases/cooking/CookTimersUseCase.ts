@@ -0,0 +1,92 @@
+import { NotificationService } from "../../../data/services/notificationService";
+import { NuevoTemporizador, Temporizador } from "../../models/Temporizador";
+import { formatearDuracionCorta } from "../../utils/temporizadores";
+
+type Suscriptor = (temporizadores: Temporizador[]) => void;
+
+// Estado compartido por todas las pantallas: los temporizadores siguen
+// corriendo aunque se salga del modo cocina
+let temporizadores: Temporizador[] = [];
+const suscriptores = new Set<Suscriptor>();
+
+function notificar() {
+  suscriptores.forEach((suscriptor) => suscriptor(temporizadores));
+}
+
+/**
+ * CookTimersUseCase - Caso de Uso de los Temporizadores de Cocina
+ *
+ * Los temporizadores se guardan como momento de fin (no como segundos
+ * restantes), así no se desajustan si la app pasa a segundo plano.
+ * Al iniciarlos se programa una notificación local para ese momento.
+ *
+ * Gestiona:
+ * - Iniciar varios temporizadores a la vez (de cualquier receta)
+ * - Cancelar o descartar un temporizador
+ * - Avisar a las pantallas suscritas de cada cambio
+ */
+
+export class CookTimersUseCase {
+  /**
+   * Temporizadores activos y terminados sin descartar, por orden de fin
+   */
+  obtenerTemporizadores(): Temporizador[] {
+    return temporizadores;
+  }
+
+  /**
+   * Escuchar los cambios de la lista
+   *
+   * @returns Función para dejar de escuchar
+   */
+  suscribir(suscriptor: Suscriptor): () => void {
+    suscriptores.add(suscriptor);
+    return () => {
+      suscriptores.delete(suscriptor);
+    };
+  }
+
+  /**
+   * Iniciar un temporizador y programar su notificación
+   *
+   * Si no hay permiso de notificaciones el temporizador funciona
+   * igual, pero solo avisa dentro de la app.
+   */
+  async iniciar(datos: NuevoTemporizador): Promise<Temporizador> {
+    const notificacionId = await NotificationService.programar(
+      "⏰ ¡Tiempo!",
+      `${datos.receta_titulo} · Paso ${datos.paso + 1} (${formatearDuracionCorta(
+        datos.duracion_segundos
+      )})`,
+      datos.duracion_segundos
+    );
+
+    const temporizador: Temporizador = {
+      ...datos,
+      id: `${Date.now()}-${Math.random().toString(36).slice(2, 8)}`,
+      termina_en: Date.now() + datos.duracion_segundos * 1000,
+      notificacion_id: notificacionId,
+    };
+
+    temporizadores = [...temporizadores, temporizador].sort(
+      (a, b) => a.termina_en - b.termina_en
+    );
+    notificar();
+    return temporizador;
+  }
+
+  /**
+   * Cancelar un temporizador en marcha o descartar uno terminado
+   */
+  async cancelar(id: string): Promise<void> {
+    const temporizador = temporizadores.find((t) => t.id === id);
+    if (!temporizador) return;
+
+    temporizadores = temporizadores.filter((t) => t.id !== id);
+    notificar();
+
+    if (temporizador.notificacion_id && temporizador.termina_en > Date.now()) {
+      await NotificationService.cancelar(temporizador.notificacion_id);
+    }
+  }
+}
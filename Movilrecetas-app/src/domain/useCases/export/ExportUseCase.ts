@@ -0,0 +1,90 @@
+import { supabase } from "@/src/data/services/supabaseClient";
+import { ShareService } from "../../../data/services/shareService";
+import { FormatoExportacion } from "../../models/Exportacion";
+import { Receta } from "../../models/Receta";
+import { rutaReceta } from "../../utils/enlaces";
+import { exportarRecetas } from "../../utils/exportacion";
+import { mapearReceta } from "../../utils/recetas";
+
+/**
+ * ExportUseCase - Caso de Uso de Exportación de Recetas
+ *
+ * Gestiona:
+ * - Exportar una o varias recetas a Markdown, JSON o HTML
+ * - Exportar todas las recetas del chef actual (copia de seguridad)
+ * - Compartir el archivo con la hoja de compartir del sistema
+ * - Compartir el enlace directo a una receta (cooklyapp://recipe/<id>)
+ */
+
+export class ExportUseCase {
+  /**
+   * Exportar recetas y abrir la hoja de compartir
+   */
+  async exportar(recetas: Receta[], formato: FormatoExportacion) {
+    try {
+      if (recetas.length === 0) {
+        return { success: false, error: "No hay recetas que exportar" };
+      }
+      if (!(await ShareService.disponible())) {
+        return {
+          success: false,
+          error: "Este dispositivo no permite compartir archivos",
+        };
+      }
+
+      const archivo = exportarRecetas(recetas, formato);
+      await ShareService.compartirArchivo(
+        archivo.nombre,
+        archivo.contenido,
+        archivo.mimeType
+      );
+      return { success: true };
+    } catch (error: any) {
+      console.error("Error al exportar recetas:", error);
+      return { success: false, error: error.message };
+    }
+  }
+
+  /**
+   * Compartir el enlace a una receta
+   *
+   * Quien lo abra con la app instalada va directo al detalle (o al
+   * login primero, si no tiene sesión)
+   */
+  async compartirEnlace(receta: Receta) {
+    try {
+      const enlace = ShareService.crearEnlace(rutaReceta(receta.id));
+      await ShareService.compartirEnlace(receta.titulo, enlace);
+      return { success: true };
+    } catch (error: any) {
+      console.error("Error al compartir enlace:", error);
+      return { success: false, error: error.message };
+    }
+  }
+
+  /**
+   * Exportar todas las recetas del chef actual (no solo las cargadas
+   * en el feed, que va por páginas)
+   */
+  async exportarMisRecetas(formato: FormatoExportacion) {
+    const {
+      data: { user },
+    } = await supabase.auth.getUser();
+    if (!user) {
+      return { success: false, error: "Usuario no autenticado" };
+    }
+
+    const { data, error } = await supabase
+      .from("recetas")
+      .select("*")
+      .eq("chef_id", user.id)
+      .order("created_at", { ascending: false });
+
+    if (error) {
+      console.error("Error al obtener recetas para exportar:", error);
+      return { success: false, error: error.message };
+    }
+
+    return this.exportar(data.map(mapearReceta), formato);
+  }
+}
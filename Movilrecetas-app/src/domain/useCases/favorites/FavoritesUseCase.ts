@@ -0,0 +1,149 @@
+import { supabase } from "@/src/data/services/supabaseClient";
+import { PaginaRecetas } from "../../models/PaginaRecetas";
+import { mapearReceta } from "../../utils/recetas";
+
+/**
+ * FavoritesUseCase - Caso de Uso de Favoritos
+ *
+ * Cualquier usuario (chef o no) puede guardar recetas como favoritas.
+ *
+ * Tabla "favoritos":
+ * - usuario_id: uuid → usuarios.id
+ * - receta_id: uuid → recetas.id (on delete cascade)
+ * - created_at: timestamptz (fecha en que se marcó)
+ * - Clave única (usuario_id, receta_id)
+ *
+ * Gestiona:
+ * - IDs de las recetas favoritas del usuario (para los corazones del feed)
+ * - Listado paginado de favoritos (más recientes primero)
+ * - Marcar y desmarcar favoritos
+ */
+
+export class FavoritesUseCase {
+  // Número de favoritos por página
+  static readonly TAMANO_PAGINA = 20;
+
+  /**
+   * Obtener los IDs de todas las recetas favoritas del usuario
+   */
+  async obtenerIdsFavoritos(): Promise<string[]> {
+    const {
+      data: { user },
+    } = await supabase.auth.getUser();
+    if (!user) return [];
+
+    const { data, error } = await supabase
+      .from("favoritos")
+      .select("receta_id")
+      .eq("usuario_id", user.id);
+
+    if (error) {
+      console.error("Error al obtener favoritos:", error);
+      return [];
+    }
+
+    return data.map((fila) => fila.receta_id);
+  }
+
+  /**
+   * Obtener una página de recetas favoritas
+   *
+   * El cursor es el created_at del último favorito de la página anterior
+   * (fecha en que se marcó, no la de la receta)
+   *
+   * @param cursor - Cursor devuelto por la página anterior (null = primera página)
+   * @param limite - Número de favoritos por página
+   */
+  async obtenerFavoritos(
+    cursor: string | null = null,
+    limite: number = FavoritesUseCase.TAMANO_PAGINA
+  ): Promise<PaginaRecetas> {
+    const {
+      data: { user },
+    } = await supabase.auth.getUser();
+    if (!user) return { recetas: [], siguienteCursor: null };
+
+    let query = supabase
+      .from("favoritos")
+      .select("created_at, recetas(*)")
+      .eq("usuario_id", user.id)
+      .order("created_at", { ascending: false })
+      .limit(limite + 1);
+
+    if (cursor) {
+      query = query.lt("created_at", cursor);
+    }
+
+    const { data, error } = await query;
+
+    if (error) {
+      console.error("Error al obtener favoritos:", error);
+      return { recetas: [], siguienteCursor: null };
+    }
+
+    const filas = data.slice(0, limite);
+    const hayMas = data.length > limite;
+
+    return {
+      // Una receta borrada deja de aparecer aunque quede el favorito
+      recetas: filas
+        .filter((fila: any) => fila.recetas)
+        .map((fila: any) => mapearReceta(fila.recetas)),
+      siguienteCursor: hayMas ? filas[filas.length - 1].created_at : null,
+    };
+  }
+
+  /**
+   * Marcar una receta como favorita
+   */
+  async agregarFavorito(recetaId: string) {
+    try {
+      const {
+        data: { user },
+      } = await supabase.auth.getUser();
+      if (!user) {
+        return { success: false, error: "Usuario no autenticado" };
+      }
+
+      // upsert: marcar dos veces la misma receta no es un error
+      const { error } = await supabase
+        .from("favoritos")
+        .upsert(
+          { usuario_id: user.id, receta_id: recetaId },
+          { onConflict: "usuario_id,receta_id", ignoreDuplicates: true }
+        );
+
+      if (error) throw error;
+      return { success: true };
+    } catch (error: any) {
+      console.error("Error al agregar favorito:", error);
+      return { success: false, error: error.message };
+    }
+  }
+
+  /**
+   * Quitar una receta de favoritos
+   */
+  async quitarFavorito(recetaId: string) {
+    try {
+      const {
+        data: { user },
+      } = await supabase.auth.getUser();
+      if (!user) {
+        return { success: false, error: "Usuario no autenticado" };
+      }
+
+      const { error } = await supabase
+        .from("favoritos")
+        .delete()
+        .eq("usuario_id", user.id)
+        .eq("receta_id", recetaId);
+
+      if (error) throw error;
+      return { success: true };
+    } catch (error: any) {
+      console.error("Error al quitar favorito:", error);
+      return { success: false, error: error.message };
+    }
+  }
+}
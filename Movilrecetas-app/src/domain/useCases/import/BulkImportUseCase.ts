@@ -0,0 +1,121 @@
+import { supabase } from "@/src/data/services/supabaseClient";
+import * as DocumentPicker from "expo-document-picker";
+import { File } from "expo-file-system";
+import {
+  FilaImportacion,
+  InformeImportacion,
+  ProgresoImportacion,
+} from "../../models/Importacion";
+import { leerArchivoImportacion } from "../../utils/importacionMasiva";
+import { RecipesUseCase } from "../recipe/RecipesUseCase";
+
+/**
+ * BulkImportUseCase - Caso de Uso de Importación Masiva
+ *
+ * Gestiona:
+ * - Elegir un archivo JSON exportado desde la app
+ * - Validar cada receta antes de publicar nada (vista previa)
+ * - Publicar las recetas válidas una a una, con progreso e informe
+ *
+ * Cada receta se crea con RecipesUseCase.crearReceta, así que las
+ * imágenes (URLs o incrustadas en base64) se suben al Storage igual
+ * que al crear una receta desde el formulario.
+ */
+
+export class BulkImportUseCase {
+  private recipesUseCase = new RecipesUseCase();
+
+  /**
+   * Elegir un archivo y validar su contenido
+   *
+   * @returns Nombre del archivo y filas validadas (cancelado = success
+   *   sin filas)
+   */
+  async elegirArchivo(): Promise<{
+    success: boolean;
+    nombre?: string;
+    filas?: FilaImportacion[];
+    error?: string;
+  }> {
+    try {
+      const resultado = await DocumentPicker.getDocumentAsync({
+        type: ["application/json", "text/plain"],
+        copyToCacheDirectory: true,
+      });
+
+      if (resultado.canceled) {
+        return { success: true };
+      }
+
+      const archivo = resultado.assets[0];
+      const texto = await new File(archivo.uri).text();
+      const lectura = leerArchivoImportacion(texto);
+
+      if ("error" in lectura) {
+        return { success: false, error: lectura.error };
+      }
+
+      return { success: true, nombre: archivo.name, filas: lectura.filas };
+    } catch (error: any) {
+      console.error("Error al leer el archivo de importación:", error);
+      return { success: false, error: error.message };
+    }
+  }
+
+  /**
+   * Publicar las filas válidas como recetas del chef actual
+   *
+   * Se insertan en orden y de una en una: si una falla (imagen
+   * inaccesible, error de red...) se anota y se sigue con la siguiente.
+   *
+   * @param filas - Filas validadas por elegirArchivo
+   * @param onProgreso - Se llama tras procesar cada receta
+   */
+  async importar(
+    filas: FilaImportacion[],
+    onProgreso?: (progreso: ProgresoImportacion) => void
+  ): Promise<{
+    success: boolean;
+    informe?: InformeImportacion;
+    error?: string;
+  }> {
+    const {
+      data: { user },
+    } = await supabase.auth.getUser();
+    if (!user) {
+      return { success: false, error: "Usuario no autenticado" };
+    }
+
+    const validas = filas.filter((fila) => fila.datos !== null);
+    const informe: InformeImportacion = {
+      importadas: [],
+      fallidas: [],
+      omitidas: filas.length - validas.length,
+    };
+
+    if (validas.length === 0) {
+      return { success: false, error: "No hay recetas válidas que importar" };
+    }
+
+    onProgreso?.({ hechas: 0, total: validas.length });
+
+    for (const [posicion, fila] of validas.entries()) {
+      const datos = fila.datos!;
+      const resultado = await this.recipesUseCase.crearReceta(datos, user.id);
+
+      if (resultado.success) {
+        informe.importadas.push(datos.titulo);
+      } else {
+        console.error(`Error al importar "${datos.titulo}":`, resultado.error);
+        informe.fallidas.push({
+          titulo: datos.titulo,
+          error: resultado.error || "Error desconocido",
+        });
+      }
+
+      onProgreso?.({ hechas: posicion + 1, total: validas.length });
+    }
+
+    return { success: true, informe };
+  }
+}
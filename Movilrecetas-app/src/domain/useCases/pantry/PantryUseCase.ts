@@ -0,0 +1,165 @@
+import { supabase } from "@/src/data/services/supabaseClient";
+import { ArticuloDespensa } from "../../models/Despensa";
+import { ordenarPorCaducidad } from "../../utils/despensa";
+import { esFechaISOValida } from "../../utils/fechas";
+import { normalizarUnidad } from "../../utils/ingredientes";
+
+// Datos que el usuario rellena en el formulario de la despensa
+export interface DatosArticulo {
+  nombre: string;
+  cantidad?: number | null;
+  unidad?: string | null;
+  caduca_el?: string | null; // YYYY-MM-DD
+}
+
+/**
+ * PantryUseCase - Caso de Uso de la Despensa
+ *
+ * Tabla "despensa":
+ * - id, usuario_id (→ usuarios.id)
+ * - nombre: text not null
+ * - cantidad: numeric null, unidad: text null
+ * - caduca_el: date null (sin fecha = no caduca)
+ * - created_at
+ * - RLS: cada usuario solo ve y modifica su despensa
+ *
+ * Gestiona:
+ * - Listar los artículos (primero los que caducan antes)
+ * - Añadir, editar y eliminar artículos
+ */
+
+export class PantryUseCase {
+  /**
+   * Obtener la despensa del usuario ordenada por caducidad
+   */
+  async obtenerArticulos(): Promise<ArticuloDespensa[]> {
+    const {
+      data: { user },
+    } = await supabase.auth.getUser();
+    if (!user) return [];
+
+    const { data, error } = await supabase
+      .from("despensa")
+      .select("*")
+      .eq("usuario_id", user.id);
+
+    if (error) {
+      console.error("Error al obtener la despensa:", error);
+      return [];
+    }
+
+    return ordenarPorCaducidad(data.map((fila) => this.mapearArticulo(fila)));
+  }
+
+  /**
+   * Añadir un artículo a la despensa
+   */
+  async agregarArticulo(datos: DatosArticulo) {
+    try {
+      const {
+        data: { user },
+      } = await supabase.auth.getUser();
+      if (!user) {
+        return { success: false, error: "Usuario no autenticado" };
+      }
+
+      const validacion = this.validar(datos);
+      if (validacion) {
+        return { success: false, error: validacion };
+      }
+
+      const { data, error } = await supabase
+        .from("despensa")
+        .insert({ ...this.limpiar(datos), usuario_id: user.id })
+        .select()
+        .single();
+
+      if (error) throw error;
+      return { success: true, articulo: this.mapearArticulo(data) };
+    } catch (error: any) {
+      console.error("Error al añadir a la despensa:", error);
+      return { success: false, error: error.message };
+    }
+  }
+
+  /**
+   * Editar un artículo (nombre, cantidad o caducidad)
+   */
+  async actualizarArticulo(id: string, datos: DatosArticulo) {
+    try {
+      const validacion = this.validar(datos);
+      if (validacion) {
+        return { success: false, error: validacion };
+      }
+
+      const { data, error } = await supabase
+        .from("despensa")
+        .update(this.limpiar(datos))
+        .eq("id", id)
+        .select()
+        .single();
+
+      if (error) throw error;
+      return { success: true, articulo: this.mapearArticulo(data) };
+    } catch (error: any) {
+      console.error("Error al actualizar artículo de la despensa:", error);
+      return { success: false, error: error.message };
+    }
+  }
+
+  /**
+   * Eliminar un artículo (gastado o tirado)
+   */
+  async eliminarArticulo(id: string) {
+    try {
+      const { error } = await supabase.from("despensa").delete().eq("id", id);
+
+      if (error) throw error;
+      return { success: true };
+    } catch (error: any) {
+      console.error("Error al eliminar artículo de la despensa:", error);
+      return { success: false, error: error.message };
+    }
+  }
+
+  /**
+   * Validar los datos del formulario
+   * @returns Mensaje de error o null si son válidos
+   */
+  private validar(datos: DatosArticulo): string | null {
+    if (!datos.nombre.trim()) {
+      return "El nombre es obligatorio";
+    }
+    if (datos.cantidad != null && !(datos.cantidad > 0)) {
+      return "La cantidad debe ser mayor que 0";
+    }
+    if (datos.caduca_el && !esFechaISOValida(datos.caduca_el)) {
+      return "La fecha no es válida (formato AAAA-MM-DD)";
+    }
+    return null;
+  }
+
+  /**
+   * Normalizar los datos antes de guardarlos
+   */
+  private limpiar(datos: DatosArticulo) {
+    const unidad = datos.unidad?.trim();
+    return {
+      nombre: datos.nombre.trim(),
+      cantidad: datos.cantidad ?? null,
+      unidad: unidad ? (normalizarUnidad(unidad) ?? unidad) : null,
+      caduca_el: datos.caduca_el || null,
+    };
+  }
+
+  /**
+   * Convertir una fila en el modelo ArticuloDespensa
+   * (numeric llega como texto desde PostgREST)
+   */
+  private mapearArticulo(fila: any): ArticuloDespensa {
+    return {
+      ...fila,
+      cantidad: fila.cantidad != null ? Number(fila.cantidad) : null,
+    } as ArticuloDespensa;
+  }
+}
@@ -0,0 +1,129 @@
+import { supabase } from "@/src/data/services/supabaseClient";
+import { Comida, PlanComida } from "../../models/PlanComida";
+import { sumarDias } from "../../utils/fechas";
+import { mapearReceta } from "../../utils/recetas";
+
+/**
+ * MealPlanUseCase - Caso de Uso del Planificador Semanal
+ *
+ * Tabla "plan_comidas":
+ * - id, usuario_id (→ usuarios.id)
+ * - fecha: date (día de calendario, sin hora)
+ * - comida: text check in ('desayuno', 'almuerzo', 'cena')
+ * - receta_id (→ recetas.id, on delete cascade)
+ * - RLS: cada usuario solo ve y modifica su plan
+ *
+ * Un hueco (día + comida) puede tener varias recetas (ej: plato y postre).
+ *
+ * Gestiona:
+ * - Obtener el plan de una semana
+ * - Asignar una receta a un hueco
+ * - Mover una entrada a otro hueco
+ * - Quitar una entrada
+ */
+
+export class MealPlanUseCase {
+  /**
+   * Obtener todas las entradas de la semana que empieza en `inicio`
+   *
+   * @param inicio - Lunes de la semana (YYYY-MM-DD)
+   */
+  async obtenerSemana(inicio: string): Promise<PlanComida[]> {
+    const {
+      data: { user },
+    } = await supabase.auth.getUser();
+    if (!user) return [];
+
+    const { data, error } = await supabase
+      .from("plan_comidas")
+      .select("*, recetas(*)")
+      .eq("usuario_id", user.id)
+      .gte("fecha", inicio)
+      .lte("fecha", sumarDias(inicio, 6))
+      .order("fecha", { ascending: true });
+
+    if (error) {
+      console.error("Error al obtener el plan semanal:", error);
+      return [];
+    }
+
+    return data.map((fila: any) => this.mapearEntrada(fila));
+  }
+
+  /**
+   * Asignar una receta a un día y comida
+   */
+  async asignarReceta(fecha: string, comida: Comida, recetaId: string) {
+    try {
+      const {
+        data: { user },
+      } = await supabase.auth.getUser();
+      if (!user) {
+        return { success: false, error: "Usuario no autenticado" };
+      }
+
+      const { data, error } = await supabase
+        .from("plan_comidas")
+        .insert({
+          usuario_id: user.id,
+          fecha,
+          comida,
+          receta_id: recetaId,
+        })
+        .select("*, recetas(*)")
+        .single();
+
+      if (error) throw error;
+      return { success: true, entrada: this.mapearEntrada(data) };
+    } catch (error: any) {
+      console.error("Error al asignar receta al plan:", error);
+      return { success: false, error: error.message };
+    }
+  }
+
+  /**
+   * Mover una entrada a otro día y/o comida
+   */
+  async moverEntrada(id: string, fecha: string, comida: Comida) {
+    try {
+      const { error } = await supabase
+        .from("plan_comidas")
+        .update({ fecha, comida })
+        .eq("id", id);
+
+      if (error) throw error;
+      return { success: true };
+    } catch (error: any) {
+      console.error("Error al mover entrada del plan:", error);
+      return { success: false, error: error.message };
+    }
+  }
+
+  /**
+   * Quitar una entrada del plan
+   */
+  async quitarEntrada(id: string) {
+    try {
+      const { error } = await supabase
+        .from("plan_comidas")
+        .delete()
+        .eq("id", id);
+
+      if (error) throw error;
+      return { success: true };
+    } catch (error: any) {
+      console.error("Error al quitar entrada del plan:", error);
+      return { success: false, error: error.message };
+    }
+  }
+
+  /**
+   * Convertir una fila (con join de recetas) en el modelo PlanComida
+   */
+  private mapearEntrada({ recetas, ...fila }: any): PlanComida {
+    return {
+      ...fila,
+      receta: recetas ? mapearReceta(recetas) : undefined,
+    } as PlanComida;
+  }
+}
@@ -0,0 +1,90 @@
+import { supabase } from "@/src/data/services/supabaseClient";
+import {
+  ALERGENOS,
+  DIETAS,
+  ModoRestricciones,
+  PREFERENCIAS_DIETA_POR_DEFECTO,
+  PreferenciasDieta,
+  Restriccion,
+} from "../../models/Alergenos";
+
+/**
+ * ProfileUseCase - Caso de Uso del Perfil del Usuario
+ *
+ * Columnas de "usuarios" que gestiona:
+ * - restricciones: text[] default '{}' (alérgenos y dietas del usuario)
+ * - modo_restricciones: text default 'avisar' check in ('ocultar', 'avisar')
+ * - RLS: cada usuario solo modifica su propia fila
+ *
+ * Gestiona:
+ * - Leer las restricciones alimentarias del usuario
+ * - Guardar restricciones y modo (ocultar o avisar en el feed)
+ */
+
+export class ProfileUseCase {
+  /**
+   * Obtener las preferencias de dieta del usuario actual
+   * (por defecto si no hay sesión o todavía no las ha guardado)
+   */
+  async obtenerPreferencias(): Promise<PreferenciasDieta> {
+    const {
+      data: { user },
+    } = await supabase.auth.getUser();
+    if (!user) return PREFERENCIAS_DIETA_POR_DEFECTO;
+
+    const { data, error } = await supabase
+      .from("usuarios")
+      .select("restricciones, modo_restricciones")
+      .eq("id", user.id)
+      .maybeSingle();
+
+    if (error || !data) {
+      if (error) console.error("Error al obtener preferencias:", error);
+      return PREFERENCIAS_DIETA_POR_DEFECTO;
+    }
+
+    return {
+      restricciones: this.filtrarRestricciones(data.restricciones),
+      modo: data.modo_restricciones === "ocultar" ? "ocultar" : "avisar",
+    };
+  }
+
+  /**
+   * Guardar las restricciones y el modo del usuario actual
+   */
+  async guardarPreferencias(
+    restricciones: Restriccion[],
+    modo: ModoRestricciones
+  ) {
+    try {
+      const {
+        data: { user },
+      } = await supabase.auth.getUser();
+      if (!user) {
+        return { success: false, error: "Usuario no autenticado" };
+      }
+
+      const { error } = await supabase
+        .from("usuarios")
+        .update({
+          restricciones: this.filtrarRestricciones(restricciones),
+          modo_restricciones: modo,
+        })
+        .eq("id", user.id);
+
+      if (error) throw error;
+      return { success: true };
+    } catch (error: any) {
+      console.error("Error al guardar preferencias:", error);
+      return { success: false, error: error.message };
+    }
+  }
+
+  /**
+   * Quedarse solo con restricciones conocidas, sin duplicados
+   */
+  private filtrarRestricciones(valor: unknown): Restriccion[] {
+    if (!Array.isArray(valor)) return [];
+    return [...ALERGENOS, ...DIETAS].filter((r) => valor.includes(r));
+  }
+}
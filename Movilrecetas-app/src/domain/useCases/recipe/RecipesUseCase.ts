@@ -1,75 +1,479 @@
 import { supabase } from "@/src/data/services/supabaseClient";
 import * as ImagePicker from "expo-image-picker";
-import { Receta } from "../../models/Receta";
+import { InfoAlergenos } from "../../models/Alergenos";
+import { ArticuloDespensa, SugerenciaDespensa } from "../../models/Despensa";
+import { EtiquetaEnUso } from "../../models/Etiqueta";
+import { Ingrediente } from "../../models/Ingrediente";
+import {
+  OPCIONES_LISTADO_POR_DEFECTO,
+  OpcionesListado,
+} from "../../models/OpcionesListado";
+import { PaginaRecetas } from "../../models/PaginaRecetas";
+import { Paso } from "../../models/Paso";
+import { DatosPreparacion } from "../../models/Preparacion";
+import { BorradorReceta, DatosReceta, Receta } from "../../models/Receta";
+import {
+  ResultadoBusqueda,
+  ResultadoBusquedaTexto,
+} from "../../models/ResultadoBusqueda";
+import { Usuario } from "../../models/Usuario";
+import { detectarAlergenos } from "../../utils/alergenos";
+import { sugerirRecetas } from "../../utils/despensa";
+import { MAX_ETIQUETAS, normalizarEtiquetas } from "../../utils/etiquetas";
+import { decodificarDataUri, extensionDeTipo } from "../../utils/imagenes";
+import { escalarIngredientes, validarPorciones } from "../../utils/porciones";
+import { mapearReceta } from "../../utils/recetas";
+import { importarRecetaSchema } from "../../utils/schemaOrg";
+import { calcularTiempoTotal, validarPreparacion } from "../../utils/tiempos";
+import {
+  dividirResaltado,
+  extraerTerminos,
+  ingredienteContiene,
+  normalizarTexto,
+  palabrasClave,
+} from "../../utils/texto";
 
 /**
  * RecipesUseCase - Caso de Uso de Recetas
  *
  * Gestiona toda la lógica de negocio de recetas:
- * - Listar recetas
- * - Buscar por ingrediente
- * - Crear, actualizar, eliminar
+ * - Listar recetas paginadas, con orden y filtros (categoría, tiempo
+ *   total máximo, dificultad...)
+ * - Listar las etiquetas en uso para el filtro por categoría
+ * - Obtener una receta por ID
+ * - Buscar por ingredientes disponibles (con ranking)
+ * - Sugerir recetas con la despensa (prioriza lo que caduca pronto)
+ * - Buscar por texto en título, descripción e ingredientes
+ * - Crear, actualizar, eliminar (con alérgenos detectados o corregidos)
+ * - Escalar ingredientes según las porciones
+ * - Importar recetas de blogs (JSON-LD schema.org) como borrador
  * - Subir imágenes
  * - Seleccionar imagen de galería
+ *
+ * Tabla "recetas" (columnas derivadas, ver supabase/migrations):
+ * - ingredientes: jsonb, lista de { cantidad, unidad, nombre } (las filas
+ *   antiguas pueden guardar texto libre)
+ * - busqueda_ingredientes, busqueda_texto: text en minúsculas y sin tildes,
+ *   mantenidas por un trigger, con índice trigram para los ilike
+ * - chef_nombre: nombre visible del chef (perfil o email), copiado por un
+ *   trigger para el orden "Por chef"
  */
 
 export class RecipesUseCase {
+  // Número de recetas por página del feed
+  static readonly TAMANO_PAGINA = 10;
+
+  // Recetas candidatas (las más recientes) que se puntúan en cada búsqueda
+  static readonly MAX_CANDIDATAS = 200;
+
   /**
-   * Obtener todas las recetas ordenadas por más recientes
+   * Obtener una página de recetas con el orden y filtros elegidos
+   *
+   * Paginación:
+   * - Orden por fecha: cursor "created_at|id" de la última receta. Cada
+   *   página pide las recetas creadas antes (o después) del cursor, así no
+   *   se repiten ni se saltan filas aunque se publiquen recetas nuevas
+   *   durante el scroll. El id desempata las recetas con la misma fecha.
+   * - Resto de órdenes: el cursor es la posición (offset) de la siguiente página.
+   *
+   * @param opciones - Orden y filtros del listado
+   * @param cursor - Cursor devuelto por la página anterior (null = primera página)
+   * @param limite - Número de recetas por página
    */
-  async obtenerRecetas(): Promise<Receta[]> {
-    const { data, error } = await supabase
-      .from("recetas")
-      .select("*")
-      .order("created_at", { ascending: false }); // Más recientes primero
+  async obtenerRecetas(
+    opciones: OpcionesListado = OPCIONES_LISTADO_POR_DEFECTO,
+    cursor: string | null = null,
+    limite: number = RecipesUseCase.TAMANO_PAGINA
+  ): Promise<PaginaRecetas> {
+    const porFecha =
+      opciones.orden === "recientes" || opciones.orden === "antiguas";
+    const ascendente = opciones.orden === "antiguas";
+
+    // PASO 1: Aplicar filtros
+    let query = await this.aplicarFiltros(
+      supabase.from("recetas").select("*"),
+      opciones
+    );
+    if (!query) return { recetas: [], siguienteCursor: null };
+
+    if (porFecha && cursor) {
+      const [fecha, id] = cursor.split("|");
+      const operador = ascendente ? "gt" : "lt";
+      query = query.or(
+        `created_at.${operador}."${fecha}",and(created_at.eq."${fecha}",id.${operador}.${id})`
+      );
+    }
+
+    // PASO 2: Ordenar
+    query = this.aplicarOrden(query, opciones);
+
+    // PASO 3: Paginar (una fila extra para saber si hay más páginas)
+    const desde = !porFecha && cursor ? parseInt(cursor, 10) : 0;
+    query = porFecha
+      ? query.limit(limite + 1)
+      : query.range(desde, desde + limite);
+
+    const { data, error } = await query;
 
     if (error) {
       console.error("Error al obtener recetas:", error);
+      return { recetas: [], siguienteCursor: null };
+    }
+
+    const recetas: Receta[] = data
+      .slice(0, limite)
+      .map((fila: any) => mapearReceta(fila));
+    const hayMas = data.length > limite;
+
+    let siguienteCursor: string | null = null;
+    if (hayMas) {
+      const ultima = recetas[recetas.length - 1];
+      siguienteCursor = porFecha
+        ? `${ultima.created_at}|${ultima.id}`
+        : String(desde + limite);
+    }
+
+    return { recetas, siguienteCursor };
+  }
+
+  /**
+   * Obtener solo las recetas publicadas después de una fecha
+   *
+   * Se usa en "pull to refresh" para no volver a descargar el feed
+   * completo. Aplica los filtros y el orden del listado.
+   *
+   * @param despuesDe - created_at de la receta más reciente ya cargada
+   * @param opciones - Orden y filtros del listado
+   */
+  async obtenerRecetasNuevas(
+    despuesDe: string,
+    opciones: OpcionesListado = OPCIONES_LISTADO_POR_DEFECTO
+  ): Promise<Receta[]> {
+    const query = await this.aplicarFiltros(
+      supabase.from("recetas").select("*"),
+      opciones
+    );
+    if (!query) return [];
+
+    const { data, error } = await this.aplicarOrden(
+      query.gt("created_at", despuesDe),
+      opciones
+    );
+
+    if (error) {
+      console.error("Error al obtener recetas nuevas:", error);
       return [];
     }
 
-    return data as Receta[];
+    return data.map((fila: any) => mapearReceta(fila));
   }
 
   /**
-   * Buscar recetas que contengan un ingrediente específico
+   * Volver a leer recetas ya cargadas para recoger ediciones y borrados
    *
-   * Usa el operador 'contains' de PostgreSQL para buscar en arrays
+   * Solo devuelve las que siguen existiendo y cumplen los filtros del
+   * listado: las que faltan se han eliminado o ya no pasan los filtros.
    *
-   * @param ingrediente - Ingrediente a buscar
+   * @param ids - IDs de las recetas cargadas
+   * @param opciones - Filtros del listado
+   * @returns Las recetas vigentes, o null si no se pudieron leer
    */
-  async buscarPorIngrediente(ingrediente: string): Promise<Receta[]> {
+  async obtenerRecetasPorIds(
+    ids: string[],
+    opciones: OpcionesListado = OPCIONES_LISTADO_POR_DEFECTO
+  ): Promise<Receta[] | null> {
+    if (ids.length === 0) return [];
+
+    const query = await this.aplicarFiltros(
+      supabase.from("recetas").select("*"),
+      opciones
+    );
+    if (!query) return [];
+
+    const { data, error } = await query.in("id", ids);
+
+    if (error) {
+      console.error("Error al volver a leer las recetas:", error);
+      return null;
+    }
+
+    return data.map((fila: any) => mapearReceta(fila));
+  }
+
+  /**
+   * Obtener los chefs que pueden usarse como filtro del listado
+   */
+  async obtenerChefs(): Promise<Usuario[]> {
     const { data, error } = await supabase
-      .from("recetas")
+      .from("usuarios")
       .select("*")
-      .contains("ingredientes", [ingrediente.toLowerCase()])
-      .order("created_at", { ascending: false });
+      .eq("rol", "chef")
+      .order("email", { ascending: true });
 
     if (error) {
-      console.error("Error en búsqueda:", error);
+      console.error("Error al obtener chefs:", error);
       return [];
     }
 
-    return data as Receta[];
+    return data as Usuario[];
+  }
+
+  /**
+   * Obtener las etiquetas usadas en las recetas, de más a menos usada
+   *
+   * Solo descarga la columna "etiquetas"; el recuento se hace en el
+   * cliente (las etiquetas son pocas y cortas)
+   */
+  async obtenerEtiquetas(): Promise<EtiquetaEnUso[]> {
+    const { data, error } = await supabase
+      .from("recetas")
+      .select("etiquetas")
+      .not("etiquetas", "eq", "{}");
+
+    if (error) {
+      console.error("Error al obtener etiquetas:", error);
+      return [];
+    }
+
+    const recuento = new Map<string, number>();
+    for (const fila of data) {
+      for (const etiqueta of normalizarEtiquetas(fila.etiquetas)) {
+        recuento.set(etiqueta, (recuento.get(etiqueta) ?? 0) + 1);
+      }
+    }
+
+    return [...recuento.entries()]
+      .map(([etiqueta, num_recetas]) => ({ etiqueta, num_recetas }))
+      .sort(
+        (a, b) =>
+          b.num_recetas - a.num_recetas || a.etiqueta.localeCompare(b.etiqueta)
+      );
+  }
+
+  /**
+   * Obtener una receta por su ID, incluyendo los datos del chef
+   *
+   * @param id - ID de la receta
+   * @returns Receta completa o null si no existe
+   */
+  async obtenerRecetaPorId(id: string): Promise<Receta | null> {
+    try {
+      // PASO 1: Obtener la receta
+      const { data, error } = await supabase
+        .from("recetas")
+        .select("*")
+        .eq("id", id)
+        .single();
+
+      if (error) throw error;
+
+      const receta = mapearReceta(data);
+
+      // PASO 2: Obtener el chef (si falla, se muestra la receta sin él)
+      const { data: chef, error: chefError } = await supabase
+        .from("usuarios")
+        .select("email, nombre")
+        .eq("id", receta.chef_id)
+        .single();
+
+      if (chefError) {
+        console.error("Error al obtener chef:", chefError);
+      } else {
+        receta.chef = chef;
+      }
+
+      return receta;
+    } catch (error) {
+      console.error("Error al obtener receta:", error);
+      return null;
+    }
+  }
+
+  /**
+   * Buscar recetas con los ingredientes que el usuario tiene en casa
+   *
+   * Ranking:
+   * 1. Más ingredientes del usuario utilizados
+   * 2. Menos ingredientes faltantes
+   * 3. Más recientes
+   *
+   * La comparación es por palabras completas y sin tildes ("limon"
+   * encuentra "limón", "jugo de limón" y "limones", pero "sal" no
+   * encuentra "salmón"). El servidor devuelve las candidatas (ver
+   * obtenerCandidatas) y aquí se comprueba y puntúa cada una.
+   *
+   * @param ingredientes - Ingredientes disponibles (ej: ["huevo", "limon"])
+   * @returns Recetas que usan al menos uno, ordenadas por relevancia
+   */
+  async buscarPorIngredientes(
+    ingredientes: string[]
+  ): Promise<ResultadoBusqueda[]> {
+    const terminos = ingredientes
+      .map((original) => ({
+        original: original.trim(),
+        normalizado: normalizarTexto(original),
+      }))
+      .filter((termino) => termino.normalizado);
+
+    if (terminos.length === 0) return [];
+
+    const recetas = await this.obtenerCandidatas(
+      "busqueda_ingredientes",
+      terminos.map((termino) => palabrasClave(termino.normalizado))
+    );
+
+    const resultados = recetas.map((receta): ResultadoBusqueda => {
+      const nombres = receta.ingredientes.map((ing) =>
+        normalizarTexto(ing.nombre)
+      );
+
+      return {
+        receta,
+        usados: terminos
+          .filter((termino) =>
+            nombres.some((nombre) =>
+              ingredienteContiene(nombre, termino.normalizado)
+            )
+          )
+          .map((termino) => termino.original),
+        faltantes: receta.ingredientes.filter(
+          (_, i) =>
+            !terminos.some((termino) =>
+              ingredienteContiene(nombres[i], termino.normalizado)
+            )
+        ),
+      };
+    });
+
+    // Recetas ya vienen ordenadas por más recientes: sort estable
+    return resultados
+      .filter((resultado) => resultado.usados.length > 0)
+      .sort(
+        (a, b) =>
+          b.usados.length - a.usados.length ||
+          a.faltantes.length - b.faltantes.length
+      );
+  }
+
+  /**
+   * Sugerir recetas que aprovechan la despensa del usuario
+   *
+   * Misma comparación por palabras que buscarPorIngredientes, pero cada
+   * artículo puntúa más cuanto antes caduca (ver utils/despensa).
+   *
+   * @param articulos - Contenido de la despensa
+   * @returns Recetas que usan al menos un artículo no caducado
+   */
+  async sugerirConDespensa(
+    articulos: ArticuloDespensa[]
+  ): Promise<SugerenciaDespensa[]> {
+    if (articulos.length === 0) return [];
+
+    const recetas = await this.obtenerCandidatas(
+      "busqueda_ingredientes",
+      articulos.map((articulo) => palabrasClave(articulo.nombre))
+    );
+    return sugerirRecetas(recetas, articulos);
+  }
+
+  /**
+   * Buscar recetas por texto en título, descripción e ingredientes
+   *
+   * Puntuación por cada término de la búsqueda:
+   * - Título: 10 (+5 si una palabra del título empieza por el término)
+   * - Ingrediente: 5
+   * - Descripción: 2
+   *
+   * Las recetas que coinciden con más términos quedan arriba; a igual
+   * puntuación se mantienen las más recientes primero.
+   *
+   * @param consulta - Texto libre (ej: "tarta limon")
+   * @returns Recetas con al menos una coincidencia y sus fragmentos resaltados
+   */
+  async buscarTexto(consulta: string): Promise<ResultadoBusquedaTexto[]> {
+    const terminos = extraerTerminos(consulta);
+    if (terminos.length === 0) return [];
+
+    const recetas = await this.obtenerCandidatas(
+      "busqueda_texto",
+      terminos.map((termino) => [termino])
+    );
+
+    const resultados = recetas.map((receta): ResultadoBusquedaTexto => {
+      const titulo = normalizarTexto(receta.titulo);
+      const palabrasTitulo = titulo.split(" ");
+      const descripcion = normalizarTexto(receta.descripcion);
+      const ingredientes = receta.ingredientes.filter((ing) =>
+        terminos.some((termino) =>
+          normalizarTexto(ing.nombre).includes(termino)
+        )
+      );
+
+      let puntuacion = 0;
+      terminos.forEach((termino) => {
+        if (titulo.includes(termino)) {
+          puntuacion += 10;
+          if (palabrasTitulo.some((palabra) => palabra.startsWith(termino))) {
+            puntuacion += 5;
+          }
+        }
+        if (
+          ingredientes.some((ing) =>
+            normalizarTexto(ing.nombre).includes(termino)
+          )
+        ) {
+          puntuacion += 5;
+        }
+        if (descripcion.includes(termino)) {
+          puntuacion += 2;
+        }
+      });
+
+      return {
+        receta,
+        puntuacion,
+        titulo: dividirResaltado(receta.titulo, terminos),
+        descripcion: dividirResaltado(receta.descripcion, terminos),
+        ingredientes: ingredientes.map((ing) => ing.nombre),
+      };
+    });
+
+    // Recetas ya vienen ordenadas por más recientes: sort estable
+    return resultados
+      .filter((resultado) => resultado.puntuacion > 0)
+      .sort((a, b) => b.puntuacion - a.puntuacion);
   }
 
   /**
    * Crear nueva receta
    *
-   * @param titulo - Título de la receta
-   * @param descripcion - Descripción detallada
-   * @param ingredientes - Array de ingredientes
+   * @param datos - Datos del formulario (alergenos null = detectarlos a
+   *   partir de los ingredientes)
    * @param chefId - ID del chef que la crea
-   * @param imagenUri - URI local de la imagen (opcional)
    */
-  async crearReceta(
-    titulo: string,
-    descripcion: string,
-    ingredientes: string[],
-    chefId: string,
-    imagenUri?: string
-  ) {
+  async crearReceta(datos: DatosReceta, chefId: string) {
+    const {
+      titulo,
+      descripcion,
+      ingredientes,
+      porciones,
+      pasos,
+      etiquetas,
+      preparacion,
+      alergenos,
+      imagenUri,
+    } = datos;
+
     try {
+      if (validarPorciones(porciones) === null) {
+        throw new Error("El número de porciones no es válido");
+      }
+      const etiquetasGuardadas = this.prepararEtiquetas(etiquetas);
+      const errorPreparacion = validarPreparacion(preparacion);
+      if (errorPreparacion) {
+        throw new Error(errorPreparacion);
+      }
+
       let imagenUrl: string | null = null;
 
       // PASO 1: Subir imagen si existe
@@ -77,13 +481,22 @@ export class RecipesUseCase {
         imagenUrl = await this.subirImagen(imagenUri);
       }
 
-      // PASO 2: Insertar receta en base de datos
+      // PASO 2: Subir imágenes de los pasos que sean locales
+      const pasosGuardados = await this.prepararPasos(pasos);
+
+      // PASO 3: Insertar receta en base de datos
       const { data, error } = await supabase
         .from("recetas")
         .insert({
           titulo,
           descripcion,
           ingredientes,
+          num_ingredientes: ingredientes.length, // Para ordenar en el feed
+          porciones,
+          pasos: pasosGuardados,
+          etiquetas: etiquetasGuardadas,
+          ...this.prepararTiempos(preparacion),
+          ...this.prepararAlergenos(ingredientes, alergenos),
           chef_id: chefId,
           imagen_url: imagenUrl,
         })
@@ -92,7 +505,7 @@ export class RecipesUseCase {
 
       if (error) throw error;
 
-      return { success: true, receta: data };
+      return { success: true, receta: mapearReceta(data) };
     } catch (error: any) {
       return { success: false, error: error.message };
     }
@@ -102,19 +515,31 @@ export class RecipesUseCase {
    * Actualizar receta existente
    *
    * @param id - ID de la receta
-   * @param titulo - Nuevo título
-   * @param descripcion - Nueva descripción
-   * @param ingredientes - Nuevos ingredientes
-   * @param imagenUri - Nueva imagen URI (opcional)
+   * @param datos - Nuevos datos (sin imagenUri se conserva la imagen actual)
    */
-  async actualizarReceta(
-    id: string,
-    titulo: string,
-    descripcion: string,
-    ingredientes: string[],
-    imagenUri?: string
-  ) {
+  async actualizarReceta(id: string, datos: DatosReceta) {
+    const {
+      titulo,
+      descripcion,
+      ingredientes,
+      porciones,
+      pasos,
+      etiquetas,
+      preparacion,
+      alergenos,
+      imagenUri,
+    } = datos;
+
     try {
+      if (validarPorciones(porciones) === null) {
+        throw new Error("El número de porciones no es válido");
+      }
+      const etiquetasGuardadas = this.prepararEtiquetas(etiquetas);
+      const errorPreparacion = validarPreparacion(preparacion);
+      if (errorPreparacion) {
+        throw new Error(errorPreparacion);
+      }
+
       let imagenUrl: string | null = null;
 
       // PASO 1: Si hay nueva imagen, subirla
@@ -122,11 +547,20 @@ export class RecipesUseCase {
         imagenUrl = await this.subirImagen(imagenUri);
       }
 
-      // PASO 2: Preparar datos para actualizar
+      // PASO 2: Subir imágenes de los pasos que sean locales
+      const pasosGuardados = await this.prepararPasos(pasos);
+
+      // PASO 3: Preparar datos para actualizar
       const updateData: any = {
         titulo,
         descripcion,
         ingredientes,
+        num_ingredientes: ingredientes.length, // Para ordenar en el feed
+        porciones,
+        pasos: pasosGuardados,
+        etiquetas: etiquetasGuardadas,
+        ...this.prepararTiempos(preparacion),
+        ...this.prepararAlergenos(ingredientes, alergenos),
       };
 
       // Solo actualizar imagen_url si se proporcionó una nueva imagen
@@ -134,7 +568,7 @@ export class RecipesUseCase {
         updateData.imagen_url = imagenUrl;
       }
 
-      // PASO 3: Actualizar receta en base de datos
+      // PASO 4: Actualizar receta en base de datos
       const { data, error } = await supabase
         .from("recetas")
         .update(updateData)
@@ -144,7 +578,7 @@ export class RecipesUseCase {
 
       if (error) throw error;
 
-      return { success: true, receta: data };
+      return { success: true, receta: mapearReceta(data) };
     } catch (error: any) {
       return { success: false, error: error.message };
     }
@@ -167,34 +601,313 @@ export class RecipesUseCase {
     }
   }
 
+  /**
+   * Escalar una receta a otro número de porciones
+   *
+   * No modifica la receta original: devuelve una copia con las
+   * cantidades recalculadas (con redondeo y cambio de unidad)
+   *
+   * @param receta - Receta original
+   * @param porciones - Número de personas deseado
+   */
+  escalarReceta(receta: Receta, porciones: number): Receta {
+    if (validarPorciones(porciones) === null) return receta;
+
+    return {
+      ...receta,
+      porciones,
+      ingredientes: escalarIngredientes(
+        receta.ingredientes,
+        receta.porciones,
+        porciones
+      ),
+    };
+  }
+
+  /**
+   * Importar una receta pegada desde un blog (HTML o JSON-LD)
+   *
+   * No guarda nada: devuelve un borrador para revisarlo en el
+   * formulario y publicarlo después con crearReceta.
+   *
+   * @param texto - HTML de la página o JSON-LD con "@type": "Recipe"
+   */
+  importarReceta(texto: string): {
+    success: boolean;
+    borrador?: BorradorReceta;
+    error?: string;
+  } {
+    if (!texto.trim()) {
+      return {
+        success: false,
+        error: "Pega el HTML o el JSON-LD de la receta",
+      };
+    }
+
+    const borrador = importarRecetaSchema(texto);
+    if (!borrador) {
+      return {
+        success: false,
+        error:
+          "No se encontró ninguna receta (schema.org Recipe) en el texto pegado",
+      };
+    }
+    if (!borrador.titulo && borrador.ingredientes.length === 0) {
+      return { success: false, error: "La receta importada está vacía" };
+    }
+
+    return { success: true, borrador };
+  }
+
+  /**
+   * Normalizar y validar las etiquetas antes de guardarlas
+   */
+  private prepararEtiquetas(etiquetas: string[]): string[] {
+    const normalizadas = normalizarEtiquetas(etiquetas);
+    if (normalizadas.length > MAX_ETIQUETAS) {
+      throw new Error(`Máximo ${MAX_ETIQUETAS} etiquetas por receta`);
+    }
+    return normalizadas;
+  }
+
+  /**
+   * Columnas de tiempos y dificultad a guardar
+   * (tiempo_total se guarda calculado para poder filtrar por él)
+   */
+  private prepararTiempos(preparacion: DatosPreparacion) {
+    return {
+      tiempo_preparacion: preparacion.tiempo_preparacion,
+      tiempo_coccion: preparacion.tiempo_coccion,
+      tiempo_total: calcularTiempoTotal(preparacion),
+      dificultad: preparacion.dificultad,
+    };
+  }
+
+  /**
+   * Columnas de alérgenos y dietas a guardar
+   *
+   * Si el chef no los corrigió se recalculan con los ingredientes
+   * actuales, así siguen al día al editar la receta
+   */
+  private prepararAlergenos(
+    ingredientes: Ingrediente[],
+    manual: InfoAlergenos | null
+  ) {
+    const { alergenos, dietas } = manual ?? detectarAlergenos(ingredientes);
+    return { alergenos, dietas, alergenos_manual: manual !== null };
+  }
+
+  /**
+   * Ordenar una consulta de "recetas" según el orden del listado
+   * (created_at e id desempatan en todos los órdenes)
+   */
+  private aplicarOrden(query: any, opciones: OpcionesListado): any {
+    const ascendente = opciones.orden === "antiguas";
+
+    switch (opciones.orden) {
+      case "alfabetico":
+        query = query.order("titulo", { ascending: true });
+        break;
+      case "mas_ingredientes":
+      case "menos_ingredientes":
+        query = query.order("num_ingredientes", {
+          ascending: opciones.orden === "menos_ingredientes",
+          nullsFirst: false,
+        });
+        break;
+      case "chef":
+        // Por el nombre que se muestra del chef (copiado en la receta)
+        query = query
+          .order("chef_nombre", { ascending: true, nullsFirst: false })
+          .order("chef_id", { ascending: true });
+        break;
+      case "valoracion":
+        query = query
+          .order("valoracion_media", { ascending: false, nullsFirst: false })
+          .order("num_resenas", { ascending: false });
+        break;
+    }
+
+    return query
+      .order("created_at", { ascending: ascendente })
+      .order("id", { ascending: ascendente });
+  }
+
+  /**
+   * Aplicar los filtros del listado a una consulta de "recetas"
+   *
+   * @returns La consulta filtrada, o null si el filtro "solo mías"
+   * no puede aplicarse porque no hay usuario autenticado
+   */
+  private async aplicarFiltros(
+    query: any,
+    opciones: OpcionesListado
+  ): Promise<any | null> {
+    if (opciones.soloMias) {
+      const {
+        data: { user },
+      } = await supabase.auth.getUser();
+      if (!user) return null;
+      query = query.eq("chef_id", user.id);
+    }
+
+    if (opciones.chefId) {
+      query = query.eq("chef_id", opciones.chefId);
+    }
+
+    if (opciones.conImagen) {
+      query = query.not("imagen_url", "is", null);
+    }
+
+    // etiquetas @> '{postre}' (usa el índice GIN de la columna)
+    if (opciones.etiqueta) {
+      query = query.contains("etiquetas", [opciones.etiqueta]);
+    }
+
+    // Las recetas sin tiempos indicados no pasan el filtro
+    if (opciones.tiempoMaximo) {
+      query = query.lte("tiempo_total", opciones.tiempoMaximo);
+    }
+
+    if (opciones.dificultad) {
+      query = query.eq("dificultad", opciones.dificultad);
+    }
+
+    return query;
+  }
+
+  /**
+   * Obtener las recetas candidatas de una búsqueda (más recientes primero)
+   *
+   * Filtra en el servidor con ilike sobre una columna de búsqueda en
+   * minúsculas y sin tildes, mantenida por un trigger (ver
+   * supabase/migrations). Una receta es candidata si contiene todas las
+   * palabras de alguno de los grupos. Es un filtro amplio ("limon" deja
+   * pasar "limonada"); la comparación exacta se hace después en el cliente.
+   *
+   * @param columna - Columna de búsqueda
+   * @param grupos - Palabras normalizadas de cada término buscado
+   */
+  private async obtenerCandidatas(
+    columna: "busqueda_ingredientes" | "busqueda_texto",
+    grupos: string[][]
+  ): Promise<Receta[]> {
+    const condiciones = grupos
+      .map((palabras) =>
+        palabras
+          // Solo letras y números: el resto rompería la sintaxis de or()
+          .map((palabra) => palabra.replace(/[^a-z0-9]/g, ""))
+          .filter(Boolean)
+          // "nuez" también debe encontrar "nueces"
+          .map((palabra) => `${columna}.ilike.*${palabra.replace(/z$/, "")}*`)
+      )
+      .filter((grupo) => grupo.length > 0)
+      .map((grupo) =>
+        grupo.length === 1 ? grupo[0] : `and(${grupo.join(",")})`
+      );
+
+    if (condiciones.length === 0) return [];
+
+    const { data, error } = await supabase
+      .from("recetas")
+      .select("*")
+      .or(condiciones.join(","))
+      .order("created_at", { ascending: false })
+      .limit(RecipesUseCase.MAX_CANDIDATAS);
+
+    if (error) {
+      console.error("Error al buscar recetas:", error);
+      return [];
+    }
+
+    return data.map((fila) => mapearReceta(fila));
+  }
+
+  /**
+   * Preparar los pasos antes de guardarlos
+   *
+   * - Descarta pasos sin texto
+   * - Sube las imágenes igual que la principal (ver subirImagen): las
+   *   locales, las incrustadas y las de otras webs
+   */
+  private async prepararPasos(pasos: Paso[]): Promise<Paso[]> {
+    const pasosValidos = pasos.filter((paso) => paso.texto.trim());
+
+    return Promise.all(
+      pasosValidos.map(async (paso) => {
+        const preparado: Paso = { texto: paso.texto.trim() };
+
+        if (paso.duracion_minutos && paso.duracion_minutos > 0) {
+          preparado.duracion_minutos = paso.duracion_minutos;
+        }
+
+        if (paso.imagen_url) {
+          preparado.imagen_url = await this.subirImagen(paso.imagen_url);
+        }
+
+        return preparado;
+      })
+    );
+  }
+
   /**
    * Subir imagen al Storage de Supabase
    *
+   * Las imágenes de otras webs también se copian al bucket, para no
+   * depender de que sigan publicadas; las que ya están en el bucket se
+   * conservan tal cual (al editar una receta sin cambiar sus fotos).
+   *
    * PROCESO:
-   * 1. Leer archivo como ArrayBuffer
+   * 1. Leer archivo como ArrayBuffer (con su tipo de imagen)
    * 2. Generar nombre único
    * 3. Subir a bucket "photos-recipe"
    * 4. Obtener URL pública
    *
-   * @param uri - URI local de la imagen
+   * @param uri - URI local, URL remota o imagen incrustada (data URI)
    * @returns URL pública de la imagen subida
    */
   private async subirImagen(uri: string): Promise<string> {
     try {
-      // PASO 1: Generar nombre único
+      const {
+        data: { publicUrl: urlBucket },
+      } = supabase.storage.from("recetas-fotos").getPublicUrl("");
+      if (uri.startsWith(urlBucket)) return uri;
+
+      // PASO 1: Leer la imagen (las incrustadas se decodifican a mano;
+      // el resto con fetch, compatible con React Native)
+      let arrayBuffer: ArrayBuffer;
+      let mimeType = "image/jpeg";
+      const incrustada = decodificarDataUri(uri);
+      if (incrustada) {
+        arrayBuffer = incrustada.datos;
+        mimeType = incrustada.mimeType;
+      } else {
+        const response = await fetch(uri);
+        if (!response.ok) {
+          throw new Error(
+            `No se pudo descargar la imagen (${response.status})`
+          );
+        }
+        // Los archivos locales no siempre traen content-type
+        const tipo = response.headers.get("content-type")?.split(";")[0];
+        if (tipo?.startsWith("image/")) {
+          mimeType = tipo;
+        } else if (tipo && uri.startsWith("http")) {
+          throw new Error("El enlace no es una imagen");
+        }
+        arrayBuffer = await response.arrayBuffer();
+      }
+
+      // PASO 2: Generar nombre único
       const fileName = `${Date.now()}_${Math.random()
         .toString(36)
-        .substring(7)}.jpg`;
-
-      // PASO 2: Leer archivo usando fetch (compatible con React Native)
-      const response = await fetch(uri);
-      const arrayBuffer = await response.arrayBuffer();
+        .substring(7)}.${extensionDeTipo(mimeType)}`;
 
       // PASO 3: Subir a Supabase Storage usando ArrayBuffer
       const { data, error } = await supabase.storage
         .from("recetas-fotos")
         .upload(fileName, arrayBuffer, {
-          contentType: "image/jpeg",
+          contentType: mimeType,
           cacheControl: "3600", // Cache de 1 hora
           upsert: false, // No sobrescribir si existe
         });
@@ -0,0 +1,137 @@
+import { supabase } from "@/src/data/services/supabaseClient";
+import { Resena } from "../../models/Resena";
+
+/**
+ * ReviewsUseCase - Caso de Uso de Reseñas
+ *
+ * Tabla "resenas":
+ * - id, receta_id (→ recetas.id, on delete cascade), usuario_id (→ usuarios.id)
+ * - puntuacion: int entre 1 y 5 (check)
+ * - comentario: text opcional
+ * - created_at, updated_at
+ * - Clave única (usuario_id, receta_id): una reseña por usuario y receta
+ * - RLS: solo el autor puede insertar/actualizar su reseña
+ *
+ * Un trigger sobre "resenas" mantiene en "recetas" las columnas
+ * valoracion_media y num_resenas, que usan las tarjetas y el orden
+ * "Mejor valoradas" sin tener que agregar en cada consulta.
+ *
+ * Gestiona:
+ * - Listar las reseñas de una receta
+ * - Obtener la reseña del usuario actual
+ * - Crear o editar la reseña del usuario actual
+ */
+
+export class ReviewsUseCase {
+  static readonly PUNTUACION_MINIMA = 1;
+  static readonly PUNTUACION_MAXIMA = 5;
+  static readonly LONGITUD_MAXIMA_COMENTARIO = 1000;
+
+  /**
+   * Obtener las reseñas de una receta (más recientes primero)
+   */
+  async obtenerResenas(recetaId: string): Promise<Resena[]> {
+    const { data, error } = await supabase
+      .from("resenas")
+      .select("*, usuarios(email, nombre)")
+      .eq("receta_id", recetaId)
+      .order("created_at", { ascending: false });
+
+    if (error) {
+      console.error("Error al obtener reseñas:", error);
+      return [];
+    }
+
+    return data.map(({ usuarios, ...resena }: any) => ({
+      ...resena,
+      usuario: usuarios ?? undefined,
+    })) as Resena[];
+  }
+
+  /**
+   * Obtener la reseña del usuario actual para una receta
+   *
+   * @returns La reseña o null si todavía no ha valorado la receta
+   */
+  async obtenerMiResena(recetaId: string): Promise<Resena | null> {
+    const {
+      data: { user },
+    } = await supabase.auth.getUser();
+    if (!user) return null;
+
+    const { data, error } = await supabase
+      .from("resenas")
+      .select("*")
+      .eq("receta_id", recetaId)
+      .eq("usuario_id", user.id)
+      .maybeSingle();
+
+    if (error) {
+      console.error("Error al obtener reseña:", error);
+      return null;
+    }
+
+    return data as Resena | null;
+  }
+
+  /**
+   * Crear o editar la reseña del usuario actual
+   *
+   * Si ya existe una reseña suya para la receta se sobrescribe,
+   * así cada usuario mantiene una única reseña editable
+   *
+   * @param recetaId - Receta valorada
+   * @param puntuacion - Estrellas (1–5)
+   * @param comentario - Texto opcional
+   */
+  async guardarResena(recetaId: string, puntuacion: number, comentario = "") {
+    try {
+      if (
+        !Number.isInteger(puntuacion) ||
+        puntuacion < ReviewsUseCase.PUNTUACION_MINIMA ||
+        puntuacion > ReviewsUseCase.PUNTUACION_MAXIMA
+      ) {
+        return {
+          success: false,
+          error: `La puntuación debe estar entre ${ReviewsUseCase.PUNTUACION_MINIMA} y ${ReviewsUseCase.PUNTUACION_MAXIMA} estrellas`,
+        };
+      }
+
+      const texto = comentario.trim();
+      if (texto.length > ReviewsUseCase.LONGITUD_MAXIMA_COMENTARIO) {
+        return {
+          success: false,
+          error: `El comentario no puede superar ${ReviewsUseCase.LONGITUD_MAXIMA_COMENTARIO} caracteres`,
+        };
+      }
+
+      const {
+        data: { user },
+      } = await supabase.auth.getUser();
+      if (!user) {
+        return { success: false, error: "Usuario no autenticado" };
+      }
+
+      const { data, error } = await supabase
+        .from("resenas")
+        .upsert(
+          {
+            receta_id: recetaId,
+            usuario_id: user.id,
+            puntuacion,
+            comentario: texto || null,
+            updated_at: new Date().toISOString(),
+          },
+          { onConflict: "usuario_id,receta_id" }
+        )
+        .select()
+        .single();
+
+      if (error) throw error;
+      return { success: true, resena: data as Resena };
+    } catch (error: any) {
+      console.error("Error al guardar reseña:", error);
+      return { success: false, error: error.message };
+    }
+  }
+}
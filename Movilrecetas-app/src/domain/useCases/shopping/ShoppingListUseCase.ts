@@ -0,0 +1,139 @@
+import { StorageService } from "../../../data/services/storageService";
+import { GrupoCompra, ListaCompra } from "../../models/ListaCompra";
+import { Receta } from "../../models/Receta";
+import {
+  agruparPorCategoria,
+  consolidarIngredientes,
+} from "../../utils/compras";
+import { escalarIngredientes } from "../../utils/porciones";
+
+const LISTA_VACIA: ListaCompra = {
+  recetas: [],
+  marcados: [],
+  actualizada: new Date(0).toISOString(),
+};
+
+/**
+ * ShoppingListUseCase - Caso de Uso de la Lista de la Compra
+ *
+ * La lista vive solo en el dispositivo (StorageService), así funciona
+ * en el supermercado sin conexión. Cada operación lee la lista guardada,
+ * la modifica y la vuelve a guardar, una detrás de otra.
+ *
+ * Gestiona:
+ * - Añadir y quitar recetas (con las porciones elegidas)
+ * - Marcar y desmarcar artículos comprados
+ * - Vaciar la lista
+ * - Consolidar y agrupar los artículos por sección
+ */
+
+export class ShoppingListUseCase {
+  // Cola de escrituras: dos toques seguidos no deben pisarse la lista
+  private cola: Promise<unknown> = Promise.resolve();
+
+  /**
+   * Obtener la lista guardada (vacía si no hay ninguna)
+   */
+  async obtenerLista(): Promise<ListaCompra> {
+    const guardada = await StorageService.getObject<ListaCompra>(
+      StorageService.SHOPPING_LIST_KEY
+    );
+    return guardada ?? LISTA_VACIA;
+  }
+
+  /**
+   * Añadir recetas a la lista
+   *
+   * Si una receta ya estaba, se reemplaza con las nuevas porciones
+   *
+   * @param recetas - Recetas y porciones para las que se compra
+   */
+  async agregarRecetas(
+    recetas: { receta: Receta; porciones: number }[]
+  ): Promise<ListaCompra> {
+    return this.modificar((lista) => {
+      const ids = recetas.map(({ receta }) => receta.id);
+      return {
+        ...lista,
+        recetas: [
+          ...lista.recetas.filter((r) => !ids.includes(r.id)),
+          ...recetas.map(({ receta, porciones }) => ({
+            id: receta.id,
+            titulo: receta.titulo,
+            porciones,
+            ingredientes: escalarIngredientes(
+              receta.ingredientes,
+              receta.porciones,
+              porciones
+            ),
+          })),
+        ],
+      };
+    });
+  }
+
+  /**
+   * Quitar una receta de la lista
+   */
+  async quitarReceta(recetaId: string): Promise<ListaCompra> {
+    return this.modificar((lista) => ({
+      ...lista,
+      recetas: lista.recetas.filter((r) => r.id !== recetaId),
+    }));
+  }
+
+  /**
+   * Marcar o desmarcar un artículo como comprado
+   */
+  async alternarMarcado(itemId: string): Promise<ListaCompra> {
+    return this.modificar((lista) => ({
+      ...lista,
+      marcados: lista.marcados.includes(itemId)
+        ? lista.marcados.filter((id) => id !== itemId)
+        : [...lista.marcados, itemId],
+    }));
+  }
+
+  /**
+   * Desmarcar todos los artículos
+   */
+  async desmarcarTodo(): Promise<ListaCompra> {
+    return this.modificar((lista) => ({ ...lista, marcados: [] }));
+  }
+
+  /**
+   * Vaciar la lista por completo
+   */
+  async vaciarLista(): Promise<ListaCompra> {
+    return this.modificar(() => ({ ...LISTA_VACIA }));
+  }
+
+  /**
+   * Artículos de la lista consolidados y agrupados por sección
+   */
+  obtenerGrupos(lista: ListaCompra): GrupoCompra[] {
+    return agruparPorCategoria(
+      consolidarIngredientes(lista.recetas, lista.marcados)
+    );
+  }
+
+  /**
+   * Leer, modificar y guardar la lista en la cola de escrituras
+   *
+   * @param cambio - Recibe la lista actual y devuelve la nueva
+   */
+  private modificar(
+    cambio: (lista: ListaCompra) => ListaCompra
+  ): Promise<ListaCompra> {
+    const operacion = this.cola.then(async () => {
+      const nueva = {
+        ...cambio(await this.obtenerLista()),
+        actualizada: new Date().toISOString(),
+      };
+      await StorageService.setObject(StorageService.SHOPPING_LIST_KEY, nueva);
+      return nueva;
+    });
+    this.cola = operacion.catch(() => undefined);
+    return operacion;
+  }
+}
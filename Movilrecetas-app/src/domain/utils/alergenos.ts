@@ -0,0 +1,243 @@
+import {
+  Alergeno,
+  ALERGENOS,
+  Dieta,
+  DIETAS,
+  InfoAlergenos,
+  Restriccion,
+} from "../models/Alergenos";
+import { Ingrediente } from "../models/Ingrediente";
+import { Receta } from "../models/Receta";
+import { contienePalabra, normalizarTexto } from "./texto";
+
+/**
+ * Utilidades de Alérgenos y Dietas
+ *
+ * Detecta alérgenos y dietas a partir de los nombres de los
+ * ingredientes con un diccionario de palabras clave. La detección es
+ * orientativa: el chef puede corregirla en el formulario de la receta.
+ */
+
+// Marcas que se detectan en los ingredientes: los alérgenos y los
+// grupos que deciden las dietas
+export type MarcaIngrediente = Alergeno | "carne_pescado" | "otro_animal";
+
+export interface EntradaDiccionario {
+  palabras: string[]; // Palabras clave (sin tildes, en singular)
+  excepciones?: string[]; // Nombres que las contienen pero no cuentan
+}
+
+/**
+ * Diccionario ingrediente → marca
+ *
+ * Para reconocer un ingrediente nuevo basta con añadir su palabra
+ * clave aquí (sin tildes y en singular: "nuez" encuentra "nueces").
+ * Las palabras se buscan completas, así "pan" no marca "panceta".
+ */
+export const DICCIONARIO_ALERGENOS: Record<
+  MarcaIngrediente,
+  EntradaDiccionario
+> = {
+  gluten: {
+    palabras: [
+      "harina",
+      "trigo",
+      "pan",
+      "pan rallado",
+      "pasta",
+      "espagueti",
+      "macarron",
+      "fideo",
+      "tallarin",
+      "lasana",
+      "cuscus",
+      "semola",
+      "cebada",
+      "centeno",
+      "espelta",
+      "seitan",
+      "galleta",
+      "bizcocho",
+      "hojaldre",
+      "masa",
+      "cerveza",
+      "tortilla de trigo",
+    ],
+    excepciones: [
+      "harina de maiz",
+      "harina de arroz",
+      "harina de almendra",
+      "harina de garbanzo",
+      "sin gluten",
+    ],
+  },
+  lactosa: {
+    palabras: [
+      "leche",
+      "queso",
+      "mantequilla",
+      "nata",
+      "yogur",
+      "crema de leche",
+      "requeson",
+      "mozzarella",
+      "parmesano",
+      "ricotta",
+      "mascarpone",
+      "suero de leche",
+    ],
+    excepciones: [
+      "leche de almendra",
+      "leche de coco",
+      "leche de soja",
+      "leche de avena",
+      "leche de arroz",
+      "mantequilla de cacahuete",
+      "sin lactosa",
+    ],
+  },
+  frutos_secos: {
+    palabras: [
+      "almendra",
+      "nuez",
+      "avellana",
+      "anacardo",
+      "pistacho",
+      "cacahuete",
+      "mani",
+      "pinon",
+      "pecana",
+      "macadamia",
+      "praline",
+      "mazapan",
+    ],
+    excepciones: ["nuez moscada"],
+  },
+  huevo: {
+    palabras: ["huevo", "yema", "clara de huevo", "mayonesa", "merengue"],
+  },
+  carne_pescado: {
+    palabras: [
+      "carne",
+      "pollo",
+      "ternera",
+      "cerdo",
+      "vacuno",
+      "cordero",
+      "pavo",
+      "conejo",
+      "jamon",
+      "bacon",
+      "panceta",
+      "chorizo",
+      "salchicha",
+      "morcilla",
+      "lomo",
+      "costilla",
+      "pescado",
+      "atun",
+      "salmon",
+      "merluza",
+      "bacalao",
+      "sardina",
+      "anchoa",
+      "gamba",
+      "langostino",
+      "mejillon",
+      "almeja",
+      "calamar",
+      "pulpo",
+      "caldo de pollo",
+      "gelatina",
+    ],
+    excepciones: ["gelatina vegetal", "carne vegetal", "carne de soja"],
+  },
+  otro_animal: {
+    palabras: ["miel"],
+  },
+};
+
+/**
+ * Marcas de un ingrediente según el diccionario
+ */
+export function marcasDeIngrediente(
+  nombre: string,
+  diccionario: Record<
+    MarcaIngrediente,
+    EntradaDiccionario
+  > = DICCIONARIO_ALERGENOS
+): MarcaIngrediente[] {
+  const normalizado = normalizarTexto(nombre);
+
+  return (Object.keys(diccionario) as MarcaIngrediente[]).filter((marca) => {
+    const { palabras, excepciones = [] } = diccionario[marca];
+    if (excepciones.some((e) => contienePalabra(normalizado, e))) {
+      return false;
+    }
+    return palabras.some((p) => contienePalabra(normalizado, p));
+  });
+}
+
+/**
+ * Detectar alérgenos y dietas de una lista de ingredientes
+ *
+ * Sin ingredientes no se puede afirmar ninguna dieta.
+ */
+export function detectarAlergenos(
+  ingredientes: Ingrediente[],
+  diccionario: Record<
+    MarcaIngrediente,
+    EntradaDiccionario
+  > = DICCIONARIO_ALERGENOS
+): InfoAlergenos {
+  const marcas = new Set(
+    ingredientes.flatMap((ing) => marcasDeIngrediente(ing.nombre, diccionario))
+  );
+  const alergenos = ALERGENOS.filter((alergeno) => marcas.has(alergeno));
+
+  const dietas: Dieta[] = [];
+  if (ingredientes.length > 0 && !marcas.has("carne_pescado")) {
+    dietas.push("vegetariano");
+    const animal =
+      marcas.has("lactosa") || marcas.has("huevo") || marcas.has("otro_animal");
+    if (!animal) dietas.unshift("vegano");
+  }
+
+  return { alergenos, dietas };
+}
+
+/**
+ * Normalizar los alérgenos y dietas de una fila
+ *
+ * Descarta valores desconocidos; las recetas guardadas antes de
+ * existir las columnas se etiquetan con la detección automática
+ */
+export function normalizarAlergenos(
+  fila: any,
+  ingredientes: Ingrediente[]
+): InfoAlergenos {
+  if (!Array.isArray(fila.alergenos) || !Array.isArray(fila.dietas)) {
+    return detectarAlergenos(ingredientes);
+  }
+  return {
+    alergenos: ALERGENOS.filter((a) => fila.alergenos.includes(a)),
+    dietas: DIETAS.filter((d) => fila.dietas.includes(d)),
+  };
+}
+
+/**
+ * Restricciones del usuario que una receta NO cumple
+ *
+ * - Alérgeno: la receta lo contiene
+ * - Dieta: la receta no es apta para ella
+ */
+export function restriccionesIncumplidas(
+  receta: Receta,
+  restricciones: Restriccion[]
+): Restriccion[] {
+  return restricciones.filter((restriccion) =>
+    (DIETAS as Restriccion[]).includes(restriccion)
+      ? !receta.dietas.includes(restriccion as Dieta)
+      : receta.alergenos.includes(restriccion as Alergeno)
+  );
+}
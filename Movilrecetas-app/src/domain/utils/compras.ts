@@ -0,0 +1,389 @@
+import { Ingrediente } from "../models/Ingrediente";
+import {
+  CategoriaCompra,
+  GrupoCompra,
+  ItemCompra,
+  RecetaEnLista,
+} from "../models/ListaCompra";
+import { ajustarYRedondear } from "./porciones";
+import { palabrasDe } from "./texto";
+import { MAGNITUDES, UNIDAD_BASE } from "./unidades";
+
+/**
+ * Utilidades de la Lista de la Compra
+ *
+ * - Une el mismo ingrediente de varias recetas ("tomates" = "tomate")
+ * - Suma cantidades cuando las unidades son compatibles (g + kg, cda + ml)
+ * - Clasifica cada artículo en una sección del supermercado
+ */
+
+/**
+ * Secciones del supermercado en el orden del recorrido habitual
+ *
+ * Para clasificar un ingrediente nuevo basta con añadir la palabra
+ * (normalizada y en singular) a su sección.
+ */
+export const CATEGORIAS_COMPRA: {
+  categoria: CategoriaCompra;
+  etiqueta: string;
+  palabras: string[];
+}[] = [
+  {
+    categoria: "frutas_verduras",
+    etiqueta: "🥬 Frutas y verduras",
+    palabras: [
+      "tomate",
+      "cebolla",
+      "cebolleta",
+      "ajo",
+      "papa",
+      "patata",
+      "zanahoria",
+      "limon",
+      "lima",
+      "lechuga",
+      "pimiento",
+      "manzana",
+      "platano",
+      "banana",
+      "naranja",
+      "pepino",
+      "calabacin",
+      "calabaza",
+      "espinaca",
+      "perejil",
+      "cilantro",
+      "albahaca",
+      "menta",
+      "aguacate",
+      "palta",
+      "champinon",
+      "hongo",
+      "seta",
+      "brocoli",
+      "coliflor",
+      "apio",
+      "fresa",
+      "frutilla",
+      "jengibre",
+      "berenjena",
+      "puerro",
+      "repollo",
+      "col",
+      "uva",
+      "pera",
+      "mango",
+      "pina",
+      "choclo",
+      "elote",
+      "guisante",
+      "arveja",
+      "judia",
+      "chile",
+      "aji",
+      "rucula",
+      "remolacha",
+      "betabel",
+    ],
+  },
+  {
+    categoria: "carnes_pescados",
+    etiqueta: "🥩 Carnes y pescados",
+    palabras: [
+      "pollo",
+      "carne",
+      "res",
+      "ternera",
+      "cerdo",
+      "jamon",
+      "tocino",
+      "bacon",
+      "panceta",
+      "chorizo",
+      "salchicha",
+      "pavo",
+      "cordero",
+      "pescado",
+      "salmon",
+      "merluza",
+      "bacalao",
+      "camaron",
+      "gamba",
+      "langostino",
+      "calamar",
+      "mejillon",
+      "pechuga",
+      "muslo",
+      "lomo",
+      "costilla",
+    ],
+  },
+  {
+    categoria: "lacteos_huevos",
+    etiqueta: "🧀 Lácteos y huevos",
+    palabras: [
+      "leche",
+      "queso",
+      "mantequilla",
+      "manteca",
+      "yogur",
+      "yogurt",
+      "crema",
+      "nata",
+      "huevo",
+      "requeson",
+      "mozzarella",
+      "parmesano",
+      "ricota",
+    ],
+  },
+  {
+    categoria: "panaderia",
+    etiqueta: "🥖 Panadería",
+    palabras: ["pan", "baguette", "tortilla", "bizcocho", "galleta"],
+  },
+  {
+    categoria: "especias",
+    etiqueta: "🧂 Especias y condimentos",
+    palabras: [
+      "sal",
+      "pimienta",
+      "oregano",
+      "comino",
+      "canela",
+      "pimenton",
+      "paprika",
+      "moscada",
+      "laurel",
+      "vainilla",
+      "tomillo",
+      "romero",
+      "curry",
+      "clavo",
+      "azafran",
+      "mostaza",
+      "mayonesa",
+      "ketchup",
+      "soja",
+      "salsa",
+    ],
+  },
+  {
+    categoria: "despensa",
+    etiqueta: "🥫 Despensa",
+    palabras: [
+      "arroz",
+      "pasta",
+      "fideo",
+      "espagueti",
+      "macarron",
+      "harina",
+      "azucar",
+      "aceite",
+      "vinagre",
+      "lenteja",
+      "garbanzo",
+      "frijol",
+      "poroto",
+      "alubia",
+      "avena",
+      "chocolate",
+      "cacao",
+      "levadura",
+      "maicena",
+      "atun",
+      "caldo",
+      "miel",
+      "nuez",
+      "almendra",
+      "mani",
+      "cacahuete",
+      "pasa",
+      "polvo",
+      "bicarbonato",
+      "gelatina",
+      "maiz",
+      "quinoa",
+      "cuscus",
+      "aceituna",
+    ],
+  },
+  {
+    categoria: "bebidas",
+    etiqueta: "🥤 Bebidas",
+    palabras: [
+      "agua",
+      "vino",
+      "cerveza",
+      "jugo",
+      "zumo",
+      "cafe",
+      "te",
+      "refresco",
+    ],
+  },
+];
+
+const ETIQUETA_OTROS = "🛒 Otros";
+
+/**
+ * Clave con la que se comparan dos ingredientes
+ */
+export function claveIngrediente(nombre: string): string {
+  return palabrasDe(nombre).join(" ");
+}
+
+/**
+ * Sección del supermercado de un ingrediente
+ *
+ * Manda la primera palabra reconocida: "caldo de pollo" es despensa
+ * y "pechuga de pollo" es carne.
+ */
+export function categorizarIngrediente(nombre: string): CategoriaCompra {
+  for (const palabra of palabrasDe(nombre)) {
+    const encontrada = CATEGORIAS_COMPRA.find((c) =>
+      c.palabras.includes(palabra)
+    );
+    if (encontrada) return encontrada.categoria;
+  }
+  return "otros";
+}
+
+/**
+ * Tipo de unidad con el que se pueden sumar las cantidades
+ * (masa, volumen, o la propia unidad si no es convertible)
+ */
+function grupoUnidad(ingrediente: Ingrediente): string {
+  if (ingrediente.cantidad === undefined) return "sin_cantidad";
+  if (!ingrediente.unidad) return "unidad";
+  return MAGNITUDES[ingrediente.unidad]?.magnitud ?? ingrediente.unidad;
+}
+
+/**
+ * Sumar una cantidad a otra, convirtiendo unidades si hace falta
+ *
+ * Si ambas usan la misma unidad se conserva (2 tazas + 1 taza = 3 tazas);
+ * si no, se pasa a la unidad base (1 taza + 2 cda = 270 ml).
+ */
+function sumarCantidades(
+  a: { cantidad: number; unidad?: string },
+  b: { cantidad: number; unidad?: string }
+): { cantidad: number; unidad?: string } {
+  if (a.unidad === b.unidad) {
+    return { cantidad: a.cantidad + b.cantidad, unidad: a.unidad };
+  }
+
+  const magnitudA = MAGNITUDES[a.unidad ?? ""];
+  const magnitudB = MAGNITUDES[b.unidad ?? ""];
+  return {
+    cantidad: a.cantidad * magnitudA.factor + b.cantidad * magnitudB.factor,
+    unidad: UNIDAD_BASE[magnitudA.magnitud],
+  };
+}
+
+/**
+ * Consolidar los ingredientes de varias recetas en artículos de compra
+ *
+ * @param recetas - Recetas de la lista con sus ingredientes ya escalados
+ * @param marcados - IDs de artículos ya comprados
+ */
+export function consolidarIngredientes(
+  recetas: RecetaEnLista[],
+  marcados: string[] = []
+): ItemCompra[] {
+  const items = new Map<string, ItemCompra>();
+
+  for (const receta of recetas) {
+    for (const ingrediente of receta.ingredientes) {
+      const nombre = claveIngrediente(ingrediente.nombre);
+      if (!nombre) continue;
+
+      const id = `${nombre}|${grupoUnidad(ingrediente)}`;
+      const existente = items.get(id);
+
+      if (!existente) {
+        items.set(id, {
+          id,
+          nombre: ingrediente.nombre,
+          ...(ingrediente.cantidad !== undefined && {
+            cantidad: ingrediente.cantidad,
+          }),
+          ...(ingrediente.unidad && { unidad: ingrediente.unidad }),
+          categoria: categorizarIngrediente(ingrediente.nombre),
+          recetas: [receta.titulo],
+          marcado: marcados.includes(id),
+        });
+        continue;
+      }
+
+      if (!existente.recetas.includes(receta.titulo)) {
+        existente.recetas.push(receta.titulo);
+      }
+
+      if (
+        existente.cantidad !== undefined &&
+        ingrediente.cantidad !== undefined
+      ) {
+        const suma = sumarCantidades(
+          { cantidad: existente.cantidad, unidad: existente.unidad },
+          { cantidad: ingrediente.cantidad, unidad: ingrediente.unidad }
+        );
+        existente.cantidad = suma.cantidad;
+        existente.unidad = suma.unidad;
+      }
+    }
+  }
+
+  // "Sal al gusto" se une a la sal con cantidad si también está en la lista
+  for (const [id, item] of items) {
+    if (!id.endsWith("|sin_cantidad")) continue;
+
+    const nombre = id.slice(0, -"|sin_cantidad".length);
+    const conCantidad = [...items.values()].find(
+      (otro) => otro !== item && otro.id.startsWith(`${nombre}|`)
+    );
+    if (conCantidad) {
+      item.recetas
+        .filter((titulo) => !conCantidad.recetas.includes(titulo))
+        .forEach((titulo) => conCantidad.recetas.push(titulo));
+      items.delete(id);
+    }
+  }
+
+  // Presentar las sumas con una unidad y redondeo razonables (1500 g → 1,5 kg)
+  return [...items.values()].map((item) => {
+    if (item.cantidad === undefined) return item;
+    const ajustado = ajustarYRedondear(item.cantidad, item.unidad);
+    return {
+      ...item,
+      cantidad: ajustado.cantidad,
+      ...(ajustado.unidad && { unidad: ajustado.unidad }),
+    };
+  });
+}
+
+/**
+ * Agrupar los artículos por sección, en el orden de CATEGORIAS_COMPRA
+ *
+ * Dentro de cada sección, los pendientes primero y por orden alfabético
+ */
+export function agruparPorCategoria(items: ItemCompra[]): GrupoCompra[] {
+  const secciones = [
+    ...CATEGORIAS_COMPRA,
+    { categoria: "otros" as CategoriaCompra, etiqueta: ETIQUETA_OTROS },
+  ];
+
+  return secciones
+    .map(({ categoria, etiqueta }) => ({
+      categoria,
+      etiqueta,
+      items: items
+        .filter((item) => item.categoria === categoria)
+        .sort(
+          (a, b) =>
+            Number(a.marcado) - Number(b.marcado) ||
+            a.nombre.localeCompare(b.nombre)
+        ),
+    }))
+    .filter((grupo) => grupo.items.length > 0);
+}
@@ -0,0 +1,190 @@
+import { Ingrediente } from "../models/Ingrediente";
+import { SistemaUnidades } from "../models/Unidades";
+import { buscarEntradaNutricional } from "./nutricion";
+import { ajustarYRedondear, redondearCantidad } from "./porciones";
+import { aUnidadBase } from "./unidades";
+
+/**
+ * Utilidades de Conversión de Unidades
+ *
+ * Muestra las cantidades en el sistema que prefiere el usuario sin
+ * tocar la receta guardada:
+ * - Métrico: onzas y libras → g/kg; tazas → g (sólidos) o ml (líquidos)
+ * - Imperial: g/kg → tazas (si se conoce la densidad) u onzas/libras;
+ *   ml/l → tazas o cucharadas
+ * - Temperaturas del texto de los pasos: °C ↔ °F
+ *
+ * Las cucharadas, las piezas ("2 huevos") y las unidades de cocina
+ * (pizca, diente...) se dejan como están: sirven en ambos sistemas.
+ */
+
+// Gramos de una libra: desde aquí las onzas se muestran en libras
+const GRAMOS_LIBRA = 453.6;
+
+// Mililitros de una taza y de una cucharada
+const ML_TAZA = 240;
+const ML_CUCHARADA = 15;
+const ML_CUCHARADITA = 5;
+
+// Unidades que se mantienen en cualquier sistema
+const UNIDADES_UNIVERSALES = ["cda", "cdta"];
+
+// "180 °C", "350ºF", "180 grados centígrados", "350 grados Fahrenheit"
+// y "180 grados" a secas (solo se convierte si habla del horno)
+const REGEX_TEMPERATURA =
+  /(\d+(?:[.,]\d+)?)\s*(?:[°º]\s*([CF])\b|grados(?:\s+(centígrados|celsius|fahrenheit|[CF]\b))?)/gi;
+
+// Palabras que indican que unos "grados" sin escala son del horno
+// (y no, por ejemplo, "girar 90 grados"); sin escala se asume Celsius
+const REGEX_CONTEXTO_HORNO = /horn|precalent|gratin|grill/i;
+
+/**
+ * Convertir una temperatura entre Celsius y Fahrenheit
+ */
+export function convertirTemperatura(
+  valor: number,
+  de: "C" | "F",
+  a: "C" | "F"
+): number {
+  if (de === a) return valor;
+  return de === "C" ? (valor * 9) / 5 + 32 : ((valor - 32) * 5) / 9;
+}
+
+/**
+ * Convertir las temperaturas de un texto al sistema del usuario
+ *
+ * Redondea a múltiplos de 5, como se marcan en los hornos:
+ * "Hornear a 180 °C" → "Hornear a 355 °F"
+ */
+export function convertirTemperaturasEnTexto(
+  texto: string,
+  sistema: SistemaUnidades
+): string {
+  if (sistema === "original") return texto;
+  const destino = sistema === "imperial" ? "F" : "C";
+
+  return texto.replace(
+    REGEX_TEMPERATURA,
+    (
+      coincidencia: string,
+      numero: string,
+      simbolo: string | undefined,
+      palabra: string | undefined,
+      posicion: number
+    ) => {
+      const escala = simbolo ?? palabra;
+      if (!escala) {
+        // Frase en la que aparece: desde el último punto o salto de línea
+        const inicioFrase =
+          Math.max(
+            texto.lastIndexOf(".", posicion),
+            texto.lastIndexOf("\n", posicion)
+          ) + 1;
+        const frase = texto.slice(inicioFrase, posicion + coincidencia.length);
+        if (!REGEX_CONTEXTO_HORNO.test(frase)) return coincidencia;
+      }
+
+      const origen = escala?.charAt(0).toUpperCase() === "F" ? "F" : "C";
+      if (origen === destino) return coincidencia;
+
+      const valor = parseFloat(numero.replace(",", "."));
+      const convertido = convertirTemperatura(valor, origen, destino);
+      return `${Math.round(convertido / 5) * 5} °${destino}`;
+    }
+  );
+}
+
+/**
+ * Elegir la medida imperial de volumen más cómoda para unos ml
+ */
+function aVolumenImperial(ml: number): { cantidad: number; unidad: string } {
+  if (ml >= ML_TAZA / 4) return { cantidad: ml / ML_TAZA, unidad: "taza" };
+  if (ml >= ML_CUCHARADA) {
+    return { cantidad: ml / ML_CUCHARADA, unidad: "cda" };
+  }
+  return { cantidad: ml / ML_CUCHARADITA, unidad: "cdta" };
+}
+
+/**
+ * Pasar gramos a onzas o libras
+ */
+function aMasaImperial(gramos: number): { cantidad: number; unidad: string } {
+  return gramos >= GRAMOS_LIBRA
+    ? { cantidad: gramos / GRAMOS_LIBRA, unidad: "lb" }
+    : { cantidad: gramos / 28.35, unidad: "oz" };
+}
+
+/**
+ * Ajustar una cantidad métrica a la unidad mayor si procede (1000 g → 1 kg)
+ */
+function aMetrico(
+  cantidad: number,
+  unidadBase: string
+): { cantidad: number; unidad: string } {
+  const ajustado = ajustarYRedondear(cantidad, unidadBase);
+  return { cantidad: ajustado.cantidad, unidad: ajustado.unidad ?? unidadBase };
+}
+
+/**
+ * Calcular la cantidad y unidad de destino
+ *
+ * @returns null si el ingrediente se deja como está
+ */
+function convertirMedida(
+  ingrediente: Ingrediente,
+  sistema: SistemaUnidades
+): { cantidad: number; unidad: string } | null {
+  const { cantidad, unidad, nombre } = ingrediente;
+  if (cantidad === undefined || UNIDADES_UNIVERSALES.includes(unidad ?? "")) {
+    return null;
+  }
+
+  const base = aUnidadBase(cantidad, unidad);
+  if (!base) return null;
+
+  const entrada = buscarEntradaNutricional(nombre);
+  const densidad = entrada?.liquido ? undefined : entrada?.densidad;
+
+  if (sistema === "metrico") {
+    if (base.magnitud === "masa") {
+      return aMetrico(base.cantidad, "g");
+    }
+    // ml, cl y l ya son métricos
+    if (unidad !== "taza") return null;
+    return densidad
+      ? aMetrico(base.cantidad * densidad, "g")
+      : aMetrico(base.cantidad, "ml");
+  }
+
+  if (base.magnitud === "masa") {
+    if (unidad === "oz" || unidad === "lb") return null;
+    // Los sólidos con densidad conocida se miden en tazas (harina, azúcar...)
+    return densidad
+      ? aVolumenImperial(base.cantidad / densidad)
+      : aMasaImperial(base.cantidad);
+  }
+  if (unidad === "taza") return null;
+  return aVolumenImperial(base.cantidad);
+}
+
+/**
+ * Mostrar un ingrediente en el sistema de unidades del usuario
+ *
+ * Devuelve el mismo objeto si no hay nada que convertir, así sirve
+ * igual para ingredientes de receta y artículos de la compra.
+ */
+export function convertirIngrediente<T extends Ingrediente>(
+  ingrediente: T,
+  sistema: SistemaUnidades
+): T {
+  if (sistema === "original") return ingrediente;
+
+  const medida = convertirMedida(ingrediente, sistema);
+  if (!medida) return ingrediente;
+
+  return {
+    ...ingrediente,
+    cantidad: redondearCantidad(medida.cantidad, medida.unidad),
+    unidad: medida.unidad,
+  };
+}
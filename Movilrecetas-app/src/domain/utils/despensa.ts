@@ -0,0 +1,151 @@
+import {
+  ArticuloDespensa,
+  EstadoCaducidad,
+  SugerenciaDespensa,
+} from "../models/Despensa";
+import { Receta } from "../models/Receta";
+import { aFechaISO, diasEntre } from "./fechas";
+import { ingredienteContiene, normalizarTexto } from "./texto";
+
+/**
+ * Utilidades de la Despensa
+ *
+ * Calcula la caducidad de los artículos y recomienda recetas que
+ * aprovechan primero lo que está a punto de caducar.
+ */
+
+// Un artículo "caduca pronto" si le quedan estos días o menos
+export const DIAS_AVISO_CADUCIDAD = 3;
+
+/**
+ * Días que le quedan a un artículo (0 = caduca hoy, negativo = caducado)
+ * null si no tiene fecha de caducidad
+ */
+export function diasParaCaducar(
+  articulo: ArticuloDespensa,
+  hoy: string = aFechaISO(new Date())
+): number | null {
+  return articulo.caduca_el ? diasEntre(hoy, articulo.caduca_el) : null;
+}
+
+/**
+ * Estado de caducidad de un artículo
+ */
+export function estadoCaducidad(
+  articulo: ArticuloDespensa,
+  hoy: string = aFechaISO(new Date())
+): EstadoCaducidad {
+  const dias = diasParaCaducar(articulo, hoy);
+  if (dias === null) return "sin_fecha";
+  if (dias < 0) return "caducado";
+  if (dias <= DIAS_AVISO_CADUCIDAD) return "pronto";
+  return "bien";
+}
+
+/**
+ * Texto corto de caducidad para la UI: "Caduca hoy", "Caduca en 2 días"...
+ */
+export function describirCaducidad(
+  articulo: ArticuloDespensa,
+  hoy: string = aFechaISO(new Date())
+): string {
+  const dias = diasParaCaducar(articulo, hoy);
+  if (dias === null) return "Sin caducidad";
+  if (dias < -1) return `Caducó hace ${-dias} días`;
+  if (dias === -1) return "Caducó ayer";
+  if (dias === 0) return "Caduca hoy";
+  if (dias === 1) return "Caduca mañana";
+  return `Caduca en ${dias} días`;
+}
+
+/**
+ * Ordenar artículos: primero los que caducan antes; los que no caducan, al final
+ */
+export function ordenarPorCaducidad(
+  articulos: ArticuloDespensa[]
+): ArticuloDespensa[] {
+  return [...articulos].sort((a, b) => {
+    if (!a.caduca_el) return b.caduca_el ? 1 : 0;
+    if (!b.caduca_el) return -1;
+    return a.caduca_el.localeCompare(b.caduca_el);
+  });
+}
+
+/**
+ * Peso de un artículo en la puntuación de una receta
+ *
+ * Un artículo cualquiera suma 1; uno que caduca pronto suma más cuanto
+ * menos le queda (hoy: 1 + 2 × 4 = 9, dentro de 3 días: 1 + 2 × 1 = 3),
+ * así una receta que salva algo de la basura queda por encima de otra
+ * que usa más artículos que aguantan.
+ */
+function pesoArticulo(articulo: ArticuloDespensa, hoy: string): number {
+  const dias = diasParaCaducar(articulo, hoy);
+  if (dias === null || dias > DIAS_AVISO_CADUCIDAD) return 1;
+  return 1 + 2 * (DIAS_AVISO_CADUCIDAD + 1 - dias);
+}
+
+/**
+ * Recomendar recetas según la despensa
+ *
+ * Los artículos caducados no cuentan (no se deberían cocinar). Solo se
+ * devuelven recetas que usan al menos un artículo, ordenadas por:
+ * 1. Puntuación (prioriza lo que caduca pronto)
+ * 2. Menos ingredientes que comprar
+ *
+ * @param recetas - Recetas candidatas (ordenadas por más recientes)
+ * @param articulos - Contenido de la despensa
+ * @param hoy - Día de referencia (YYYY-MM-DD)
+ */
+export function sugerirRecetas(
+  recetas: Receta[],
+  articulos: ArticuloDespensa[],
+  hoy: string = aFechaISO(new Date())
+): SugerenciaDespensa[] {
+  const disponibles = articulos
+    .filter((articulo) => estadoCaducidad(articulo, hoy) !== "caducado")
+    .map((articulo) => ({
+      articulo,
+      nombre: normalizarTexto(articulo.nombre),
+    }))
+    .filter(({ nombre }) => nombre);
+
+  if (disponibles.length === 0) return [];
+
+  const sugerencias = recetas.map((receta): SugerenciaDespensa => {
+    const nombres = receta.ingredientes.map((ing) =>
+      normalizarTexto(ing.nombre)
+    );
+    const usados = disponibles
+      .filter(({ nombre }) =>
+        nombres.some((ingrediente) => ingredienteContiene(ingrediente, nombre))
+      )
+      .map(({ articulo }) => articulo);
+
+    return {
+      receta,
+      usados,
+      porCaducar: usados.filter(
+        (articulo) => estadoCaducidad(articulo, hoy) === "pronto"
+      ),
+      faltantes: receta.ingredientes.filter(
+        (_, i) =>
+          !disponibles.some(({ nombre }) =>
+            ingredienteContiene(nombres[i], nombre)
+          )
+      ),
+      puntuacion: usados.reduce(
+        (total, articulo) => total + pesoArticulo(articulo, hoy),
+        0
+      ),
+    };
+  });
+
+  // Sort estable: a igualdad se mantienen las más recientes primero
+  return sugerencias
+    .filter((sugerencia) => sugerencia.usados.length > 0)
+    .sort(
+      (a, b) =>
+        b.puntuacion - a.puntuacion || a.faltantes.length - b.faltantes.length
+    );
+}
@@ -0,0 +1,60 @@
+/**
+ * Utilidades de Enlaces
+ *
+ * Enlaces directos a recetas: cooklyapp://recipe/<id> (en desarrollo
+ * con Expo Go, exp://<ip>/--/recipe/<id>) y los enlaces universales
+ * https://cookly.app/recipe/<id>. También se acepta el alias en español
+ * /receta/<id>.
+ *
+ * El dominio tiene que coincidir con ios.associatedDomains y
+ * android.intentFilters de app.json, y servir los archivos de
+ * verificación (apple-app-site-association y assetlinks.json).
+ */
+
+// Pantallas de /recipe que no son el detalle de una receta
+const RUTAS_RESERVADAS = ["crear", "cocinar", "editar", "importar"];
+
+// Prefijo de los enlaces que abren la app (esquema propio, Expo Go o
+// enlace universal)
+const REGEX_ENLACE_APP =
+  /^(?:cooklyapp:\/\/\/?|exps?:\/\/[^/]+\/--\/|https:\/\/cookly\.app\/)/i;
+
+const REGEX_RUTA_RECETA = /^\/?(?:recipe|receta)\/([^/?#]+)\/?(?:[?#].*)?$/i;
+
+/**
+ * Ruta de la app para el detalle de una receta
+ */
+export function rutaReceta(recetaId: string): string {
+  return `/recipe/${encodeURIComponent(recetaId)}`;
+}
+
+/**
+ * Obtener el ID de receta de un enlace o de una ruta de la app
+ *
+ * Acepta enlaces de la app (cooklyapp://recipe/12), enlaces universales
+ * (https://cookly.app/recipe/12) y rutas (/recipe/12)
+ *
+ * @returns ID de la receta o null si no es un enlace a una receta
+ */
+export function idRecetaDeEnlace(enlace: string): string | null {
+  const texto = enlace.trim();
+
+  // Cualquier otro esquema o dominio (mailto:, https://otro.com...) no es de la app
+  const conEsquema = /^[a-z][a-z0-9+.-]*:/i.test(texto);
+  if (conEsquema && !REGEX_ENLACE_APP.test(texto)) return null;
+
+  // Con el esquema propio "recipe" queda como host: cooklyapp://recipe/12
+  const coincidencia = texto
+    .replace(REGEX_ENLACE_APP, "/")
+    .match(REGEX_RUTA_RECETA);
+  if (!coincidencia) return null;
+
+  // Un escape mal formado (%E0) no es un enlace válido
+  let id: string;
+  try {
+    id = decodeURIComponent(coincidencia[1]);
+  } catch {
+    return null;
+  }
+  return RUTAS_RESERVADAS.includes(id.toLowerCase()) ? null : id;
+}
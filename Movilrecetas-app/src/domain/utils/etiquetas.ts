@@ -0,0 +1,52 @@
+import { CATEGORIAS_RECETA } from "../models/Etiqueta";
+
+/**
+ * Utilidades de Etiquetas
+ *
+ * Las etiquetas se guardan en minúsculas y sin espacios repetidos para
+ * que "Sin Gluten" y "sin  gluten" sean la misma categoría en el filtro.
+ */
+
+// Límites para que las etiquetas sigan cabiendo en un chip
+export const MAX_ETIQUETAS = 8;
+export const MAX_LONGITUD_ETIQUETA = 25;
+
+/**
+ * Normalizar una etiqueta escrita por el usuario
+ *
+ * @returns Etiqueta normalizada ("" si no queda texto)
+ */
+export function normalizarEtiqueta(texto: string): string {
+  return texto
+    .trim()
+    .replace(/^#/, "")
+    .replace(/\s+/g, " ")
+    .toLowerCase()
+    .slice(0, MAX_LONGITUD_ETIQUETA)
+    .trim();
+}
+
+/**
+ * Normalizar las etiquetas de una fila
+ *
+ * Descarta valores vacíos y duplicados; las recetas antiguas sin
+ * columna "etiquetas" quedan sin etiquetas
+ */
+export function normalizarEtiquetas(valor: unknown): string[] {
+  if (!Array.isArray(valor)) return [];
+
+  const etiquetas = valor
+    .filter((etiqueta): etiqueta is string => typeof etiqueta === "string")
+    .map(normalizarEtiqueta)
+    .filter(Boolean);
+  return [...new Set(etiquetas)];
+}
+
+/**
+ * Formatear una etiqueta para la UI: "🍰 Postre", "Navidad"...
+ */
+export function formatearEtiqueta(etiqueta: string): string {
+  const categoria = CATEGORIAS_RECETA.find((c) => c.etiqueta === etiqueta);
+  const nombre = etiqueta.charAt(0).toUpperCase() + etiqueta.slice(1);
+  return categoria ? `${categoria.icono} ${nombre}` : nombre;
+}
@@ -0,0 +1,272 @@
+import { ETIQUETAS_ALERGENO, ETIQUETAS_DIETA } from "../models/Alergenos";
+import {
+  ArchivoExportado,
+  ExportacionJson,
+  FORMATO_JSON,
+  FormatoExportacion,
+  RecetaExportada,
+  VERSION_JSON,
+} from "../models/Exportacion";
+import { ETIQUETAS_DIFICULTAD } from "../models/Preparacion";
+import { Receta } from "../models/Receta";
+import { formatearEtiqueta } from "./etiquetas";
+import { formatearIngrediente } from "./ingredientes";
+import { normalizarTexto } from "./texto";
+import { formatearDuracion } from "./tiempos";
+
+/**
+ * Utilidades de Exportación
+ *
+ * Convierte una o varias recetas en el contenido de un archivo:
+ * - Markdown: legible y fácil de pegar en otras herramientas
+ * - JSON versionado: copia de seguridad que se puede volver a importar
+ * - HTML: página pensada para imprimir (una receta por hoja)
+ */
+
+const EXTENSIONES: Record<FormatoExportacion, string> = {
+  markdown: "md",
+  json: "json",
+  html: "html",
+};
+
+const MIME_TYPES: Record<FormatoExportacion, string> = {
+  markdown: "text/markdown",
+  json: "application/json",
+  html: "text/html",
+};
+
+/**
+ * Nombre de archivo seguro a partir de un título: "Tortilla de patatas"
+ * → "tortilla-de-patatas"
+ */
+export function nombreArchivo(titulo: string): string {
+  return (
+    normalizarTexto(titulo)
+      .replace(/[^a-z0-9]+/g, "-")
+      .replace(/^-+|-+$/g, "")
+      .slice(0, 60) || "receta"
+  );
+}
+
+/**
+ * Líneas de datos generales: porciones, tiempos, dificultad...
+ */
+function resumenReceta(receta: Receta): string[] {
+  const lineas = [`Porciones: ${receta.porciones}`];
+
+  if (receta.tiempo_total !== null) {
+    const desglose = [
+      receta.tiempo_preparacion &&
+        `${formatearDuracion(receta.tiempo_preparacion)} de preparación`,
+      receta.tiempo_coccion &&
+        `${formatearDuracion(receta.tiempo_coccion)} de cocción`,
+    ].filter(Boolean);
+    lineas.push(
+      `Tiempo total: ${formatearDuracion(receta.tiempo_total)}` +
+        (desglose.length > 1 ? ` (${desglose.join(" + ")})` : "")
+    );
+  }
+  if (receta.dificultad) {
+    lineas.push(`Dificultad: ${ETIQUETAS_DIFICULTAD[receta.dificultad]}`);
+  }
+  if (receta.etiquetas.length > 0) {
+    lineas.push(
+      `Categorías: ${receta.etiquetas.map(formatearEtiqueta).join(", ")}`
+    );
+  }
+  if (receta.dietas.length > 0) {
+    lineas.push(
+      `Apta para: ${receta.dietas.map((d) => ETIQUETAS_DIETA[d]).join(", ")}`
+    );
+  }
+  if (receta.alergenos.length > 0) {
+    lineas.push(
+      `Alérgenos: ${receta.alergenos.map((a) => ETIQUETAS_ALERGENO[a]).join(", ")}`
+    );
+  }
+  return lineas;
+}
+
+/**
+ * Texto de un paso con su duración: "Hornear. (⏱️ 25 min)"
+ */
+function textoPaso(texto: string, minutos?: number): string {
+  return minutos ? `${texto} (⏱️ ${formatearDuracion(minutos)})` : texto;
+}
+
+/**
+ * Una receta en Markdown
+ */
+export function recetaAMarkdown(receta: Receta): string {
+  const partes = [`# ${receta.titulo}`];
+
+  if (receta.descripcion) partes.push(receta.descripcion);
+  if (receta.imagen_url)
+    partes.push(`![${receta.titulo}](${receta.imagen_url})`);
+  partes.push(
+    resumenReceta(receta)
+      .map((linea) => `- ${linea}`)
+      .join("\n")
+  );
+
+  partes.push(
+    "## Ingredientes\n\n" +
+      receta.ingredientes
+        .map((ing) => `- ${formatearIngrediente(ing)}`)
+        .join("\n")
+  );
+
+  if (receta.pasos.length > 0) {
+    partes.push(
+      "## Preparación\n\n" +
+        receta.pasos
+          .map(
+            (paso, i) =>
+              `${i + 1}. ${textoPaso(paso.texto, paso.duracion_minutos)}`
+          )
+          .join("\n")
+    );
+  }
+
+  return partes.join("\n\n") + "\n";
+}
+
+/**
+ * Quedarse con los campos que se guardan en el JSON
+ */
+function aRecetaExportada(receta: Receta): RecetaExportada {
+  return {
+    id: receta.id,
+    titulo: receta.titulo,
+    descripcion: receta.descripcion,
+    ingredientes: receta.ingredientes,
+    porciones: receta.porciones,
+    pasos: receta.pasos,
+    etiquetas: receta.etiquetas,
+    tiempo_preparacion: receta.tiempo_preparacion,
+    tiempo_coccion: receta.tiempo_coccion,
+    dificultad: receta.dificultad,
+    alergenos: receta.alergenos,
+    dietas: receta.dietas,
+    alergenos_manual: receta.alergenos_manual,
+    imagen_url: receta.imagen_url,
+    created_at: receta.created_at,
+  };
+}
+
+/**
+ * Recetas en el JSON versionado de copia de seguridad
+ */
+export function recetasAJson(recetas: Receta[], fecha: Date): string {
+  const exportacion: ExportacionJson = {
+    formato: FORMATO_JSON,
+    version: VERSION_JSON,
+    exportado_el: fecha.toISOString(),
+    recetas: recetas.map(aRecetaExportada),
+  };
+  return JSON.stringify(exportacion, null, 2);
+}
+
+/**
+ * Escapar texto para insertarlo en HTML
+ */
+function escaparHtml(texto: string): string {
+  return texto
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;")
+    .replace(/"/g, "&quot;")
+    .replace(/'/g, "&#39;");
+}
+
+/**
+ * Una receta como <article> de la página imprimible
+ */
+function recetaAHtml(receta: Receta): string {
+  const imagen = receta.imagen_url
+    ? `<img src="${escaparHtml(receta.imagen_url)}" alt="">`
+    : "";
+  const resumen = resumenReceta(receta)
+    .map((linea) => `<li>${escaparHtml(linea)}</li>`)
+    .join("");
+  const ingredientes = receta.ingredientes
+    .map((ing) => `<li>${escaparHtml(formatearIngrediente(ing))}</li>`)
+    .join("");
+  const pasos = receta.pasos
+    .map(
+      (paso) =>
+        `<li>${escaparHtml(textoPaso(paso.texto, paso.duracion_minutos))}</li>`
+    )
+    .join("");
+
+  return `<article>
+<h1>${escaparHtml(receta.titulo)}</h1>
+${imagen}
+<p>${escaparHtml(receta.descripcion)}</p>
+<ul class="resumen">${resumen}</ul>
+<h2>Ingredientes</h2>
+<ul>${ingredientes}</ul>
+${pasos ? `<h2>Preparación</h2>\n<ol>${pasos}</ol>` : ""}
+</article>`;
+}
+
+/**
+ * Recetas en una página HTML lista para imprimir
+ */
+export function recetasAHtml(recetas: Receta[]): string {
+  const titulo =
+    recetas.length === 1 ? recetas[0].titulo : `${recetas.length} recetas`;
+
+  return `<!DOCTYPE html>
+<html lang="es">
+<head>
+<meta charset="utf-8">
+<meta name="viewport" content="width=device-width, initial-scale=1">
+<title>${escaparHtml(titulo)}</title>
+<style>
+body { font-family: Georgia, serif; max-width: 700px; margin: 0 auto; padding: 24px; color: #222; line-height: 1.5; }
+h1 { margin-bottom: 8px; }
+h2 { border-bottom: 1px solid #ccc; padding-bottom: 4px; }
+img { max-width: 100%; max-height: 300px; object-fit: cover; border-radius: 8px; }
+.resumen { list-style: none; padding: 0; color: #555; font-size: 0.9em; }
+ol li { margin-bottom: 8px; }
+article + article { page-break-before: always; margin-top: 48px; }
+@media print { body { padding: 0; } img { max-height: 200px; } }
+</style>
+</head>
+<body>
+${recetas.map(recetaAHtml).join("\n")}
+</body>
+</html>
+`;
+}
+
+/**
+ * Exportar recetas al formato elegido
+ *
+ * Una receta usa su título como nombre de archivo; varias, la fecha
+ * ("recetas-2025-03-01.json").
+ */
+export function exportarRecetas(
+  recetas: Receta[],
+  formato: FormatoExportacion,
+  fecha: Date = new Date()
+): ArchivoExportado {
+  const base =
+    recetas.length === 1
+      ? nombreArchivo(recetas[0].titulo)
+      : `recetas-${fecha.toISOString().slice(0, 10)}`;
+
+  const contenido =
+    formato === "json"
+      ? recetasAJson(recetas, fecha)
+      : formato === "html"
+        ? recetasAHtml(recetas)
+        : recetas.map(recetaAMarkdown).join("\n---\n\n");
+
+  return {
+    nombre: `${base}.${EXTENSIONES[formato]}`,
+    contenido,
+    mimeType: MIME_TYPES[formato],
+  };
+}
@@ -0,0 +1,108 @@
+/**
+ * Utilidades de Fechas
+ *
+ * El planificador trabaja con días "de calendario" (YYYY-MM-DD) en la
+ * hora local del dispositivo, sin horas ni zonas horarias: así un plan
+ * del lunes sigue siendo del lunes aunque el usuario viaje.
+ */
+
+const NOMBRES_DIAS = [
+  "Domingo",
+  "Lunes",
+  "Martes",
+  "Miércoles",
+  "Jueves",
+  "Viernes",
+  "Sábado",
+];
+
+const NOMBRES_MESES = [
+  "ene",
+  "feb",
+  "mar",
+  "abr",
+  "may",
+  "jun",
+  "jul",
+  "ago",
+  "sep",
+  "oct",
+  "nov",
+  "dic",
+];
+
+/**
+ * Convertir una fecha a YYYY-MM-DD (hora local)
+ */
+export function aFechaISO(fecha: Date): string {
+  const mes = String(fecha.getMonth() + 1).padStart(2, "0");
+  const dia = String(fecha.getDate()).padStart(2, "0");
+  return `${fecha.getFullYear()}-${mes}-${dia}`;
+}
+
+/**
+ * Convertir YYYY-MM-DD a Date (medianoche local)
+ */
+export function desdeFechaISO(fechaISO: string): Date {
+  const [anio, mes, dia] = fechaISO.split("-").map(Number);
+  return new Date(anio, mes - 1, dia);
+}
+
+/**
+ * Comprobar que un texto es una fecha YYYY-MM-DD que existe
+ * ("2025-02-30" o "2025-13-45" tienen el formato pero no son fechas)
+ */
+export function esFechaISOValida(texto: string): boolean {
+  if (!/^\d{4}-\d{2}-\d{2}$/.test(texto)) return false;
+  return aFechaISO(desdeFechaISO(texto)) === texto;
+}
+
+/**
+ * Sumar (o restar) días a una fecha YYYY-MM-DD
+ */
+export function sumarDias(fechaISO: string, dias: number): string {
+  const fecha = desdeFechaISO(fechaISO);
+  fecha.setDate(fecha.getDate() + dias);
+  return aFechaISO(fecha);
+}
+
+/**
+ * Días de calendario de `desde` a `hasta` (negativo si `hasta` es anterior)
+ */
+export function diasEntre(desde: string, hasta: string): number {
+  const diferencia =
+    desdeFechaISO(hasta).getTime() - desdeFechaISO(desde).getTime();
+  // Redondeo: los cambios de horario hacen que un día no dure 24 h exactas
+  return Math.round(diferencia / (24 * 60 * 60 * 1000));
+}
+
+/**
+ * Lunes de la semana que contiene la fecha
+ */
+export function inicioDeSemana(fecha: Date = new Date()): string {
+  const lunes = new Date(
+    fecha.getFullYear(),
+    fecha.getMonth(),
+    fecha.getDate()
+  );
+  // getDay: 0 = domingo → retrocede 6 días; 1 = lunes → 0 días...
+  lunes.setDate(lunes.getDate() - ((lunes.getDay() + 6) % 7));
+  return aFechaISO(lunes);
+}
+
+/**
+ * Los 7 días (YYYY-MM-DD) de la semana que empieza en `inicio`
+ */
+export function diasDeSemana(inicio: string): string[] {
+  return Array.from({ length: 7 }, (_, i) => sumarDias(inicio, i));
+}
+
+/**
+ * Formatear un día para la UI: "Lunes 3 mar"
+ */
+export function formatearDia(fechaISO: string): string {
+  const fecha = desdeFechaISO(fechaISO);
+  return `${NOMBRES_DIAS[fecha.getDay()]} ${fecha.getDate()} ${
+    NOMBRES_MESES[fecha.getMonth()]
+  }`;
+}
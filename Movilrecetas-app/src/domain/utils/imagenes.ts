@@ -0,0 +1,97 @@
+/**
+ * Utilidades de Imágenes
+ *
+ * Decodifica imágenes incrustadas como data URI
+ * (data:image/png;base64,...), que llegan al importar recetas, y
+ * elige la extensión de cada tipo de imagen al subirla.
+ * fetch() no las lee de forma fiable en Android, así que se
+ * convierten a ArrayBuffer a mano antes de subirlas.
+ */
+
+const ALFABETO_BASE64 =
+  "ABCDEFGHIJKLMNOPQRSTUVWXYZabcdefghijklmnopqrstuvwxyz0123456789+/";
+
+const REGEX_DATA_URI = /^data:(image\/[a-z+]+);base64,([\s\S]*)$/i;
+
+// Extensión del archivo en el Storage según el tipo de imagen
+const EXTENSIONES: Record<string, string> = {
+  "image/jpeg": "jpg",
+  "image/jpg": "jpg",
+  "image/png": "png",
+  "image/webp": "webp",
+  "image/gif": "gif",
+};
+
+export interface ImagenDecodificada {
+  datos: ArrayBuffer;
+  mimeType: string;
+  extension: string;
+}
+
+/**
+ * Extensión de archivo para un tipo de imagen (jpg si no se conoce)
+ */
+export function extensionDeTipo(mimeType: string): string {
+  return EXTENSIONES[mimeType.toLowerCase()] ?? "jpg";
+}
+
+/**
+ * Comprobar si una URI es una imagen incrustada
+ */
+export function esDataUri(uri: string): boolean {
+  return REGEX_DATA_URI.test(uri);
+}
+
+/**
+ * Decodificar base64 a bytes
+ *
+ * @throws Error si el texto contiene caracteres no válidos
+ */
+export function base64ABytes(base64: string): Uint8Array {
+  const limpio = base64.replace(/[\s=]/g, "");
+  const bytes = new Uint8Array(Math.floor((limpio.length * 3) / 4));
+
+  let acumulado = 0;
+  let bits = 0;
+  let posicion = 0;
+
+  for (const caracter of limpio) {
+    const valor = ALFABETO_BASE64.indexOf(caracter);
+    if (valor === -1) {
+      throw new Error("La imagen incrustada no es base64 válido");
+    }
+    acumulado = (acumulado << 6) | valor;
+    bits += 6;
+    if (bits >= 8) {
+      bits -= 8;
+      bytes[posicion++] = (acumulado >> bits) & 0xff;
+    }
+  }
+
+  return bytes.subarray(0, posicion);
+}
+
+/**
+ * Decodificar una data URI de imagen
+ *
+ * @returns Bytes y tipo de la imagen, o null si no es una data URI
+ */
+export function decodificarDataUri(uri: string): ImagenDecodificada | null {
+  const coincidencia = uri.match(REGEX_DATA_URI);
+  if (!coincidencia) return null;
+
+  const mimeType = coincidencia[1].toLowerCase();
+  const bytes = base64ABytes(coincidencia[2]);
+  if (bytes.length === 0) {
+    throw new Error("La imagen incrustada está vacía");
+  }
+
+  return {
+    datos: bytes.buffer.slice(
+      bytes.byteOffset,
+      bytes.byteOffset + bytes.byteLength
+    ) as ArrayBuffer,
+    mimeType,
+    extension: extensionDeTipo(mimeType),
+  };
+}
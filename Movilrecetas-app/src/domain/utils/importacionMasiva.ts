@@ -0,0 +1,207 @@
+import { ALERGENOS, DIETAS, InfoAlergenos } from "../models/Alergenos";
+import { FORMATO_JSON, VERSION_JSON } from "../models/Exportacion";
+import { FilaImportacion } from "../models/Importacion";
+import { Paso } from "../models/Paso";
+import { DatosReceta } from "../models/Receta";
+import { DatosPreparacion, DIFICULTADES } from "../models/Preparacion";
+import { MAX_ETIQUETAS, normalizarEtiquetas } from "./etiquetas";
+import { normalizarIngredientes } from "./ingredientes";
+import { PORCIONES_POR_DEFECTO, validarPorciones } from "./porciones";
+import { validarPreparacion } from "./tiempos";
+
+/**
+ * Utilidades de Importación Masiva
+ *
+ * Lee el JSON que genera la exportación (ver models/Exportacion) y
+ * valida cada receta con las mismas reglas que el formulario de
+ * creación. Una fila con errores no impide importar las demás.
+ */
+
+// Límite de recetas por archivo (cada una se publica por separado)
+export const MAX_RECETAS_IMPORTACION = 200;
+
+// Imágenes aceptadas: URL pública o imagen incrustada en base64
+const REGEX_IMAGEN = /^(https?:\/\/\S+|data:image\/[a-z+]+;base64,[\s\S]+)$/i;
+
+/**
+ * Normalizar los pasos de una entrada
+ *
+ * @returns Pasos o null si el formato no es válido
+ */
+function leerPasos(valor: unknown): Paso[] | null {
+  if (valor === undefined || valor === null) return [];
+  if (!Array.isArray(valor)) return null;
+
+  const pasos: Paso[] = [];
+  for (const item of valor) {
+    if (typeof item === "string") {
+      if (item.trim()) pasos.push({ texto: item.trim() });
+      continue;
+    }
+    if (!item || typeof item.texto !== "string") return null;
+    if (!item.texto.trim()) continue;
+
+    const paso: Paso = { texto: item.texto.trim() };
+    if (
+      typeof item.duracion_minutos === "number" &&
+      item.duracion_minutos > 0
+    ) {
+      paso.duracion_minutos = Math.round(item.duracion_minutos);
+    }
+    if (
+      typeof item.imagen_url === "string" &&
+      REGEX_IMAGEN.test(item.imagen_url)
+    ) {
+      paso.imagen_url = item.imagen_url;
+    }
+    pasos.push(paso);
+  }
+  return pasos;
+}
+
+/**
+ * Alérgenos corregidos por el chef (solo si se marcaron como manuales)
+ */
+function leerAlergenos(entrada: any): InfoAlergenos | null {
+  if (entrada.alergenos_manual !== true) return null;
+  const alergenos = Array.isArray(entrada.alergenos) ? entrada.alergenos : [];
+  const dietas = Array.isArray(entrada.dietas) ? entrada.dietas : [];
+  return {
+    alergenos: ALERGENOS.filter((a) => alergenos.includes(a)),
+    dietas: DIETAS.filter((d) => dietas.includes(d)),
+  };
+}
+
+/**
+ * Validar una entrada del archivo
+ */
+export function validarEntrada(
+  entrada: unknown,
+  indice: number
+): FilaImportacion {
+  const errores: string[] = [];
+  const fila = (entrada && typeof entrada === "object" ? entrada : {}) as any;
+  const titulo = typeof fila.titulo === "string" ? fila.titulo.trim() : "";
+
+  if (!entrada || typeof entrada !== "object" || Array.isArray(entrada)) {
+    return {
+      indice,
+      titulo: `Receta ${indice + 1}`,
+      datos: null,
+      errores: ["La entrada no es una receta"],
+    };
+  }
+
+  if (!titulo) errores.push("Falta el título");
+
+  const descripcion =
+    typeof fila.descripcion === "string" ? fila.descripcion.trim() : "";
+  if (!descripcion) errores.push("Falta la descripción");
+
+  const ingredientes = normalizarIngredientes(fila.ingredientes);
+  if (ingredientes.length === 0) errores.push("No tiene ingredientes");
+
+  const porciones =
+    fila.porciones === undefined || fila.porciones === null
+      ? PORCIONES_POR_DEFECTO
+      : validarPorciones(fila.porciones);
+  if (porciones === null) errores.push("El número de porciones no es válido");
+
+  const pasos = leerPasos(fila.pasos);
+  if (pasos === null) errores.push("Los pasos no tienen un formato válido");
+
+  const etiquetas = normalizarEtiquetas(fila.etiquetas);
+  if (etiquetas.length > MAX_ETIQUETAS) {
+    errores.push(`Máximo ${MAX_ETIQUETAS} etiquetas por receta`);
+  }
+
+  const preparacion: DatosPreparacion = {
+    tiempo_preparacion: fila.tiempo_preparacion ?? null,
+    tiempo_coccion: fila.tiempo_coccion ?? null,
+    dificultad: DIFICULTADES.includes(fila.dificultad) ? fila.dificultad : null,
+  };
+  const errorPreparacion = validarPreparacion(preparacion);
+  if (errorPreparacion) errores.push(errorPreparacion);
+  if (fila.dificultad && !preparacion.dificultad) {
+    errores.push("La dificultad no es válida");
+  }
+
+  // URL pública o data URI (data:image/...;base64,...)
+  let imagenUri: string | undefined;
+  if (fila.imagen_url !== undefined && fila.imagen_url !== null) {
+    if (
+      typeof fila.imagen_url === "string" &&
+      REGEX_IMAGEN.test(fila.imagen_url)
+    ) {
+      imagenUri = fila.imagen_url;
+    } else {
+      errores.push("La imagen debe ser una URL o una imagen en base64");
+    }
+  }
+
+  const datos: DatosReceta | null =
+    errores.length === 0
+      ? {
+          titulo,
+          descripcion,
+          ingredientes,
+          porciones: porciones!,
+          pasos: pasos!,
+          etiquetas,
+          preparacion,
+          alergenos: leerAlergenos(fila),
+          imagenUri,
+        }
+      : null;
+
+  return {
+    indice,
+    titulo: titulo || `Receta ${indice + 1}`,
+    datos,
+    errores,
+  };
+}
+
+/**
+ * Leer un archivo de exportación y validar todas sus recetas
+ *
+ * @returns Filas validadas o el error que impide leer el archivo
+ */
+export function leerArchivoImportacion(
+  texto: string
+): { filas: FilaImportacion[] } | { error: string } {
+  let contenido: any;
+  try {
+    contenido = JSON.parse(texto);
+  } catch {
+    return { error: "El archivo no es un JSON válido" };
+  }
+
+  if (
+    contenido?.formato !== FORMATO_JSON ||
+    !Array.isArray(contenido.recetas)
+  ) {
+    return {
+      error: "El archivo no es una exportación de recetas de la app",
+    };
+  }
+  if (
+    typeof contenido.version !== "number" ||
+    contenido.version > VERSION_JSON
+  ) {
+    return {
+      error:
+        "El archivo es de una versión más reciente de la app: actualízala para importarlo",
+    };
+  }
+  if (contenido.recetas.length === 0) {
+    return { error: "El archivo no contiene recetas" };
+  }
+  if (contenido.recetas.length > MAX_RECETAS_IMPORTACION) {
+    return {
+      error: `Máximo ${MAX_RECETAS_IMPORTACION} recetas por archivo`,
+    };
+  }
+
+  return { filas: contenido.recetas.map(validarEntrada) };
+}
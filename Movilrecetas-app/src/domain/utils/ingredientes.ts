@@ -0,0 +1,306 @@
+import { Ingrediente } from "../models/Ingrediente";
+
+/**
+ * Utilidades de Ingredientes
+ *
+ * Convierte el texto libre que escriben los chefs en ingredientes
+ * estructurados y viceversa:
+ * - parsearIngrediente: "1 1/2 tazas de leche" → Ingrediente
+ * - formatearIngrediente: Ingrediente → "1 1/2 tazas de leche"
+ * - normalizarIngredientes: acepta filas antiguas (string[]) y nuevas
+ */
+
+// Sinónimos de unidades → unidad normalizada
+const UNIDADES: Record<string, string> = {
+  g: "g",
+  gr: "g",
+  grs: "g",
+  gramo: "g",
+  gramos: "g",
+  kg: "kg",
+  kilo: "kg",
+  kilos: "kg",
+  kilogramo: "kg",
+  kilogramos: "kg",
+  mg: "mg",
+  ml: "ml",
+  mililitro: "ml",
+  mililitros: "ml",
+  cl: "cl",
+  l: "l",
+  lt: "l",
+  lts: "l",
+  litro: "l",
+  litros: "l",
+  taza: "taza",
+  tazas: "taza",
+  cda: "cda",
+  cdas: "cda",
+  cucharada: "cda",
+  cucharadas: "cda",
+  cdta: "cdta",
+  cdtas: "cdta",
+  cucharadita: "cdta",
+  cucharaditas: "cdta",
+  pizca: "pizca",
+  pizcas: "pizca",
+  diente: "diente",
+  dientes: "diente",
+  lata: "lata",
+  latas: "lata",
+  hoja: "hoja",
+  hojas: "hoja",
+  rodaja: "rodaja",
+  rodajas: "rodaja",
+  manojo: "manojo",
+  manojos: "manojo",
+  unidad: "unidad",
+  unidades: "unidad",
+  oz: "oz",
+  onza: "oz",
+  onzas: "oz",
+  lb: "lb",
+  libra: "lb",
+  libras: "lb",
+};
+
+// Plural de las unidades que se escriben como palabra
+const PLURALES: Record<string, string> = {
+  taza: "tazas",
+  pizca: "pizcas",
+  diente: "dientes",
+  lata: "latas",
+  hoja: "hojas",
+  rodaja: "rodajas",
+  manojo: "manojos",
+  unidad: "unidades",
+};
+
+// Fracciones Unicode que los chefs suelen pegar desde otros sitios
+const FRACCIONES_UNICODE: Record<string, number> = {
+  "½": 1 / 2,
+  "⅓": 1 / 3,
+  "⅔": 2 / 3,
+  "¼": 1 / 4,
+  "¾": 3 / 4,
+  "⅛": 1 / 8,
+};
+
+// Fracciones que se muestran en lugar de decimales
+const FRACCIONES_COMUNES: [number, string][] = [
+  [1 / 4, "1/4"],
+  [1 / 3, "1/3"],
+  [1 / 2, "1/2"],
+  [2 / 3, "2/3"],
+  [3 / 4, "3/4"],
+];
+
+// Entero con punto de miles ("1.000", "2.500,5"). "0.250" no lo es
+const REGEX_MILES = /^[1-9]\d{0,2}(?:\.\d{3})+(?:,\d+)?$/;
+
+const REGEX_CANTIDAD =
+  /^(\d+\s+\d+\/\d+|\d+\/\d+|\d*[½⅓⅔¼¾⅛]|[1-9]\d{0,2}(?:\.\d{3})+(?:,\d+)?(?![\d.])|\d+(?:[.,]\d+)?)\s*/;
+
+/**
+ * Convertir el texto de una cantidad a número
+ *
+ * Acepta "2", "1,5", "1.5", "1/2", "1 1/2", "½" y "1½". Con tres cifras
+ * tras el punto es separador de miles, como se escribe en español:
+ * "1.000" es 1000 y "2.500,5" es 2500,5
+ */
+function parsearCantidad(texto: string): number | undefined {
+  const limpio = texto.trim();
+
+  const unicode = limpio.match(/^(\d*)([½⅓⅔¼¾⅛])$/);
+  if (unicode) {
+    const entero = unicode[1] ? parseInt(unicode[1], 10) : 0;
+    return entero + FRACCIONES_UNICODE[unicode[2]];
+  }
+
+  const mixta = limpio.match(/^(\d+)\s+(\d+)\/(\d+)$/);
+  if (mixta) {
+    const denominador = parseInt(mixta[3], 10);
+    if (denominador === 0) return undefined;
+    return parseInt(mixta[1], 10) + parseInt(mixta[2], 10) / denominador;
+  }
+
+  const fraccion = limpio.match(/^(\d+)\/(\d+)$/);
+  if (fraccion) {
+    const denominador = parseInt(fraccion[2], 10);
+    if (denominador === 0) return undefined;
+    return parseInt(fraccion[1], 10) / denominador;
+  }
+
+  const sinMiles = REGEX_MILES.test(limpio)
+    ? limpio.replace(/\./g, "")
+    : limpio;
+  const numero = parseFloat(sinMiles.replace(",", "."));
+  return isNaN(numero) ? undefined : numero;
+}
+
+/**
+ * Normalizar una unidad escrita por el usuario
+ *
+ * @returns Unidad normalizada o undefined si no es una unidad conocida
+ */
+export function normalizarUnidad(texto: string): string | undefined {
+  const clave = texto.toLowerCase().replace(/\.$/, "");
+  return UNIDADES[clave];
+}
+
+/**
+ * Convertir texto libre en un ingrediente estructurado
+ *
+ * Formato esperado: [cantidad] [unidad] [de] nombre[, nota | (nota)]
+ *
+ * Ejemplos:
+ * - "200 g de harina, tamizada"
+ * - "2 tazas leche"
+ * - "½ cebolla (picada)"
+ * - "sal al gusto"
+ *
+ * Si no se reconoce cantidad ni unidad, todo el texto se usa como nombre,
+ * así las filas antiguas siguen siendo legibles.
+ */
+export function parsearIngrediente(texto: string): Ingrediente {
+  let resto = texto.trim().replace(/\s+/g, " ");
+  const ingrediente: Ingrediente = { nombre: resto };
+
+  // PASO 1: Nota de preparación entre paréntesis, tras una coma o "al gusto"
+  const parentesis = resto.match(/\(([^)]*)\)\s*$/);
+  if (parentesis) {
+    ingrediente.nota = parentesis[1].trim();
+    resto = resto.slice(0, parentesis.index).trim();
+  } else if (/,(?!\d)/.test(resto)) {
+    // Ignorar la coma decimal ("1,5 kg")
+    const indice = resto.search(/,(?!\d)/);
+    ingrediente.nota = resto.slice(indice + 1).trim();
+    resto = resto.slice(0, indice).trim();
+  } else {
+    const alGusto = resto.match(/\s+(al gusto|a gusto)$/i);
+    if (alGusto) {
+      ingrediente.nota = alGusto[1].toLowerCase();
+      resto = resto.slice(0, alGusto.index).trim();
+    }
+  }
+
+  // PASO 2: Cantidad al inicio
+  const cantidad = resto.match(REGEX_CANTIDAD);
+  if (cantidad) {
+    const valor = parsearCantidad(cantidad[1]);
+    if (valor !== undefined) {
+      ingrediente.cantidad = valor;
+      resto = resto.slice(cantidad[0].length);
+    }
+  }
+
+  // PASO 3: Unidad (solo si después queda un nombre)
+  const unidad = resto.match(/^([a-zA-ZáéíóúñÁÉÍÓÚÑ]+\.?)\s+(.+)$/);
+  if (unidad) {
+    const normalizada = normalizarUnidad(unidad[1]);
+    if (normalizada) {
+      ingrediente.unidad = normalizada;
+      resto = unidad[2];
+    }
+  }
+
+  // PASO 4: Quitar el conector "de" ("200 g de harina")
+  if (ingrediente.cantidad !== undefined || ingrediente.unidad) {
+    resto = resto.replace(/^de\s+/i, "");
+  }
+
+  ingrediente.nombre = resto.trim() || texto.trim();
+  if (!ingrediente.nota) delete ingrediente.nota;
+
+  return ingrediente;
+}
+
+/**
+ * Formatear una cantidad para mostrarla
+ *
+ * Usa fracciones de cocina cuando son exactas (1/2, 1 1/4) y
+ * decimales con coma en el resto de casos (1,35)
+ */
+export function formatearCantidad(cantidad: number): string {
+  const entero = Math.floor(cantidad);
+  const decimal = cantidad - entero;
+
+  if (decimal < 0.01) return String(entero);
+
+  const fraccion = FRACCIONES_COMUNES.find(
+    ([valor]) => Math.abs(valor - decimal) < 0.01
+  );
+  if (fraccion) {
+    return entero > 0 ? `${entero} ${fraccion[1]}` : fraccion[1];
+  }
+
+  return String(Math.round(cantidad * 100) / 100).replace(".", ",");
+}
+
+/**
+ * Formatear una unidad según la cantidad (singular/plural)
+ */
+export function formatearUnidad(unidad: string, cantidad?: number): string {
+  if (cantidad !== undefined && cantidad > 1 && PLURALES[unidad]) {
+    return PLURALES[unidad];
+  }
+  return unidad;
+}
+
+/**
+ * Convertir un ingrediente estructurado en texto legible
+ *
+ * Es la operación inversa de parsearIngrediente, por lo que el
+ * resultado se puede volver a editar como texto libre.
+ */
+export function formatearIngrediente(ingrediente: Ingrediente): string {
+  const partes: string[] = [];
+
+  if (ingrediente.cantidad !== undefined) {
+    partes.push(formatearCantidad(ingrediente.cantidad));
+  }
+
+  if (ingrediente.unidad) {
+    partes.push(formatearUnidad(ingrediente.unidad, ingrediente.cantidad));
+    partes.push("de");
+  }
+
+  partes.push(ingrediente.nombre);
+
+  let texto = partes.join(" ");
+  if (ingrediente.nota) {
+    texto += `, ${ingrediente.nota}`;
+  }
+
+  return texto;
+}
+
+/**
+ * Normalizar los ingredientes tal como llegan de la base de datos
+ *
+ * Las recetas antiguas guardan ingredientes como texto ("200 g harina")
+ * y las nuevas como objetos. Ambos formatos se convierten a Ingrediente.
+ */
+export function normalizarIngredientes(valor: unknown): Ingrediente[] {
+  if (!Array.isArray(valor)) return [];
+
+  return valor
+    .map((item): Ingrediente | null => {
+      if (typeof item === "string") {
+        return item.trim() ? parsearIngrediente(item) : null;
+      }
+
+      if (item && typeof item === "object" && "nombre" in item) {
+        const { nombre, cantidad, unidad, nota } = item as Ingrediente;
+        return {
+          nombre: String(nombre),
+          ...(typeof cantidad === "number" && { cantidad }),
+          ...(unidad && { unidad }),
+          ...(nota && { nota }),
+        };
+      }
+
+      return null;
+    })
+    .filter((item): item is Ingrediente => item !== null);
+}
@@ -0,0 +1,155 @@
+import { Ingrediente } from "../models/Ingrediente";
+import {
+  EstimacionNutricional,
+  ValoresNutricionales,
+  VALORES_VACIOS,
+} from "../models/Nutricion";
+import { Receta } from "../models/Receta";
+import {
+  EntradaNutricional,
+  PESOS_POR_UNIDAD,
+  TABLA_NUTRICIONAL,
+} from "./tablaNutricional";
+import { contienePalabra, normalizarTexto } from "./texto";
+import { aUnidadBase } from "./unidades";
+
+/**
+ * Utilidades de Nutrición
+ *
+ * Estima calorías y macronutrientes a partir de los ingredientes
+ * estructurados y la tabla local:
+ * 1. Busca el ingrediente en la tabla ("harina de maíz" antes que "harina")
+ * 2. Pasa su cantidad a gramos (masa, volumen × densidad o peso por pieza)
+ * 3. Suma los valores y los reparte entre las porciones
+ *
+ * Los ingredientes sin cantidad o que no están en la tabla no suman y
+ * se devuelven aparte para avisar de que la estimación es parcial.
+ */
+
+/**
+ * Buscar la entrada de la tabla que corresponde a un ingrediente
+ *
+ * Gana la palabra clave más larga: "pan rallado" frente a "pan".
+ */
+export function buscarEntradaNutricional(
+  nombre: string,
+  tabla: EntradaNutricional[] = TABLA_NUTRICIONAL
+): EntradaNutricional | null {
+  const texto = normalizarTexto(nombre);
+  let mejor: EntradaNutricional | null = null;
+  let longitud = 0;
+
+  for (const entrada of tabla) {
+    for (const palabra of entrada.palabras) {
+      if (palabra.length > longitud && contienePalabra(texto, palabra)) {
+        mejor = entrada;
+        longitud = palabra.length;
+      }
+    }
+  }
+  return mejor;
+}
+
+/**
+ * Pasar la cantidad de un ingrediente a gramos
+ *
+ * @returns Gramos o null si no hay cantidad o la unidad no se puede convertir
+ */
+export function gramosDeIngrediente(
+  ingrediente: Ingrediente,
+  entrada: EntradaNutricional
+): number | null {
+  const { cantidad, unidad } = ingrediente;
+  if (cantidad === undefined) return null;
+
+  const base = aUnidadBase(cantidad, unidad);
+  if (base) {
+    // Sin densidad conocida se asume la del agua (1 g/ml)
+    return base.magnitud === "masa"
+      ? base.cantidad
+      : base.cantidad * (entrada.densidad ?? 1);
+  }
+
+  if (!unidad || unidad === "unidad") {
+    return entrada.pesoUnidad !== undefined
+      ? cantidad * entrada.pesoUnidad
+      : null;
+  }
+
+  const peso = entrada.gramosPor?.[unidad] ?? PESOS_POR_UNIDAD[unidad];
+  return peso !== undefined ? cantidad * peso : null;
+}
+
+/**
+ * Comprobar si una entrada no aporta nada (sal, agua): cuenta como
+ * incluida aunque no tenga cantidad ("sal al gusto")
+ */
+function sinAporte(entrada: EntradaNutricional): boolean {
+  return Object.values(entrada.por100g).every((valor) => valor === 0);
+}
+
+function sumarValores(
+  a: ValoresNutricionales,
+  b: ValoresNutricionales,
+  factor: number
+): ValoresNutricionales {
+  return {
+    calorias: a.calorias + b.calorias * factor,
+    proteinas: a.proteinas + b.proteinas * factor,
+    grasas: a.grasas + b.grasas * factor,
+    carbohidratos: a.carbohidratos + b.carbohidratos * factor,
+  };
+}
+
+/**
+ * Redondear para mostrar: kcal enteras y gramos con un decimal
+ */
+export function redondearValores(
+  valores: ValoresNutricionales
+): ValoresNutricionales {
+  return {
+    calorias: Math.round(valores.calorias),
+    proteinas: Math.round(valores.proteinas * 10) / 10,
+    grasas: Math.round(valores.grasas * 10) / 10,
+    carbohidratos: Math.round(valores.carbohidratos * 10) / 10,
+  };
+}
+
+/**
+ * Estimar la nutrición de una receta completa y por porción
+ */
+export function estimarNutricion(
+  receta: Pick<Receta, "ingredientes" | "porciones">
+): EstimacionNutricional {
+  let total = VALORES_VACIOS;
+  let incluidos = 0;
+  const noIncluidos: string[] = [];
+
+  for (const ingrediente of receta.ingredientes) {
+    const entrada = buscarEntradaNutricional(ingrediente.nombre);
+    if (entrada && sinAporte(entrada)) {
+      incluidos++;
+      continue;
+    }
+
+    const gramos = entrada ? gramosDeIngrediente(ingrediente, entrada) : null;
+    if (!entrada || gramos === null) {
+      noIncluidos.push(ingrediente.nombre);
+      continue;
+    }
+
+    total = sumarValores(total, entrada.por100g, gramos / 100);
+    incluidos++;
+  }
+
+  const porciones = Math.max(1, receta.porciones);
+  return {
+    total: redondearValores(total),
+    porPorcion: redondearValores(
+      sumarValores(VALORES_VACIOS, total, 1 / porciones)
+    ),
+    porciones,
+    incluidos,
+    noIncluidos,
+  };
+}
@@ -0,0 +1,166 @@
+import { Ingrediente } from "../models/Ingrediente";
+
+/**
+ * Utilidades de Porciones
+ *
+ * Recalcula las cantidades de los ingredientes cuando el usuario cocina
+ * para un número de personas distinto al de la receta original:
+ * - Redondeo razonable según la unidad (5 g, 1/4 de taza...)
+ * - Cambio de unidad cuando la cantidad crece o baja (1000 g → 1 kg)
+ */
+
+// Porciones asumidas para recetas guardadas antes de existir el campo
+export const PORCIONES_POR_DEFECTO = 4;
+
+// Límites aceptados en los formularios y en el selector
+export const PORCIONES_MINIMAS = 1;
+export const PORCIONES_MAXIMAS = 50;
+
+// Unidad mayor a la que se pasa al alcanzar el factor (1000 g → 1 kg)
+const PROMOCIONES: Record<string, { unidad: string; factor: number }> = {
+  mg: { unidad: "g", factor: 1000 },
+  g: { unidad: "kg", factor: 1000 },
+  ml: { unidad: "l", factor: 1000 },
+  cdta: { unidad: "cda", factor: 3 },
+  cda: { unidad: "taza", factor: 16 },
+};
+
+// Unidad menor a la que se pasa cuando la cantidad baja de 1 (0,5 kg → 500 g)
+const DEMOCIONES: Record<string, { unidad: string; factor: number }> = {
+  kg: { unidad: "g", factor: 1000 },
+  l: { unidad: "ml", factor: 1000 },
+};
+
+// Unidades métricas pequeñas que se redondean a números enteros
+const UNIDADES_METRICAS = ["mg", "g", "ml", "cl"];
+
+/**
+ * Comprobar si un número es múltiplo exacto de 1/4
+ */
+function esMultiploDeCuarto(valor: number): boolean {
+  return Math.abs(valor * 4 - Math.round(valor * 4)) < 0.01;
+}
+
+/**
+ * Redondear una cantidad de forma razonable según su unidad
+ *
+ * - g, ml: a 5 desde 100, a enteros desde 10, a un decimal por debajo
+ * - kg, l: a dos decimales
+ * - Cucharadas, tazas y unidades sueltas: al 1/4 más cercano
+ */
+export function redondearCantidad(cantidad: number, unidad?: string): number {
+  if (unidad && UNIDADES_METRICAS.includes(unidad)) {
+    if (cantidad >= 100) return Math.round(cantidad / 5) * 5;
+    if (cantidad >= 10) return Math.round(cantidad);
+    return Math.round(cantidad * 10) / 10;
+  }
+
+  if (unidad === "kg" || unidad === "l") {
+    return Math.round(cantidad * 100) / 100;
+  }
+
+  return Math.max(0.25, Math.round(cantidad * 4) / 4);
+}
+
+/**
+ * Pasar a una unidad mayor o menor cuando la cantidad lo justifica
+ *
+ * Las cucharadas solo se convierten si el resultado es exacto
+ * (6 cdta → 2 cda, pero 4 cdta se quedan como están).
+ */
+export function ajustarUnidad(
+  cantidad: number,
+  unidad?: string
+): { cantidad: number; unidad?: string } {
+  if (!unidad) return { cantidad, unidad };
+
+  const promocion = PROMOCIONES[unidad];
+  if (promocion && cantidad >= promocion.factor) {
+    const convertida = cantidad / promocion.factor;
+    const esCuchara = unidad === "cdta" || unidad === "cda";
+    if (!esCuchara || esMultiploDeCuarto(convertida)) {
+      return ajustarUnidad(convertida, promocion.unidad);
+    }
+  }
+
+  const democion = DEMOCIONES[unidad];
+  if (democion && cantidad < 1) {
+    return { cantidad: cantidad * democion.factor, unidad: democion.unidad };
+  }
+
+  return { cantidad, unidad };
+}
+
+/**
+ * Ajustar la unidad y redondear una cantidad para mostrarla
+ *
+ * Se vuelve a ajustar después de redondear: 999 g redondea a 1000 g,
+ * que se muestra como 1 kg.
+ */
+export function ajustarYRedondear(
+  cantidad: number,
+  unidad?: string
+): { cantidad: number; unidad?: string } {
+  const ajustado = ajustarUnidad(cantidad, unidad);
+  const redondeado = ajustarUnidad(
+    redondearCantidad(ajustado.cantidad, ajustado.unidad),
+    ajustado.unidad
+  );
+  return {
+    cantidad: redondearCantidad(redondeado.cantidad, redondeado.unidad),
+    unidad: redondeado.unidad,
+  };
+}
+
+/**
+ * Escalar un ingrediente por un factor
+ *
+ * Los ingredientes sin cantidad ("sal al gusto") se devuelven sin cambios.
+ */
+export function escalarIngrediente(
+  ingrediente: Ingrediente,
+  factor: number
+): Ingrediente {
+  if (ingrediente.cantidad === undefined) return ingrediente;
+
+  const ajustado = ajustarYRedondear(
+    ingrediente.cantidad * factor,
+    ingrediente.unidad
+  );
+
+  return {
+    ...ingrediente,
+    cantidad: ajustado.cantidad,
+    ...(ajustado.unidad && { unidad: ajustado.unidad }),
+  };
+}
+
+/**
+ * Escalar todos los ingredientes de porcionesOriginales a porcionesDeseadas
+ */
+export function escalarIngredientes(
+  ingredientes: Ingrediente[],
+  porcionesOriginales: number,
+  porcionesDeseadas: number
+): Ingrediente[] {
+  if (porcionesOriginales <= 0 || porcionesOriginales === porcionesDeseadas) {
+    return ingredientes;
+  }
+
+  const factor = porcionesDeseadas / porcionesOriginales;
+  return ingredientes.map((ing) => escalarIngrediente(ing, factor));
+}
+
+/**
+ * Validar y normalizar un número de porciones
+ *
+ * @returns Número entero dentro de los límites o null si no es válido
+ */
+export function validarPorciones(valor: unknown): number | null {
+  const numero = typeof valor === "string" ? Number(valor.trim()) : valor;
+
+  if (typeof numero !== "number" || !Number.isInteger(numero)) return null;
+  if (numero < PORCIONES_MINIMAS || numero > PORCIONES_MAXIMAS) return null;
+
+  return numero;
+}
@@ -0,0 +1,40 @@
+import { Receta } from "../models/Receta";
+import { normalizarAlergenos } from "./alergenos";
+import { normalizarEtiquetas } from "./etiquetas";
+import { normalizarIngredientes } from "./ingredientes";
+import { PORCIONES_POR_DEFECTO, validarPorciones } from "./porciones";
+
+/**
+ * Utilidades de Recetas
+ *
+ * Conversión de filas de Supabase al modelo Receta, compartida por
+ * todos los casos de uso que leen la tabla "recetas" (directamente
+ * o a través de un join, como favoritos)
+ */
+
+/**
+ * Convertir una fila de la tabla "recetas" en el modelo Receta
+ *
+ * Normaliza los ingredientes para que las filas guardadas como
+ * string[] sigan siendo legibles junto a las nuevas (jsonb), y asigna
+ * valores por defecto a los campos que no existían en recetas antiguas
+ * (los alérgenos se detectan a partir de los ingredientes)
+ */
+export function mapearReceta(fila: any): Receta {
+  const ingredientes = normalizarIngredientes(fila.ingredientes);
+  return {
+    ...fila,
+    ingredientes,
+    porciones: validarPorciones(fila.porciones) ?? PORCIONES_POR_DEFECTO,
+    pasos: Array.isArray(fila.pasos) ? fila.pasos : [],
+    etiquetas: normalizarEtiquetas(fila.etiquetas),
+    tiempo_preparacion: fila.tiempo_preparacion ?? null,
+    tiempo_coccion: fila.tiempo_coccion ?? null,
+    tiempo_total: fila.tiempo_total ?? null,
+    dificultad: fila.dificultad ?? null,
+    ...normalizarAlergenos(fila, ingredientes),
+    alergenos_manual: fila.alergenos_manual ?? false,
+    valoracion_media: Number(fila.valoracion_media) || 0,
+    num_resenas: fila.num_resenas ?? 0,
+  } as Receta;
+}
@@ -0,0 +1,254 @@
+import { Paso } from "../models/Paso";
+import { BorradorReceta } from "../models/Receta";
+import { MAX_ETIQUETAS, normalizarEtiquetas } from "./etiquetas";
+import { parsearIngrediente } from "./ingredientes";
+import { PORCIONES_POR_DEFECTO, validarPorciones } from "./porciones";
+import { MINUTOS_MAXIMOS } from "./tiempos";
+
+/**
+ * Utilidades de Importación schema.org
+ *
+ * La mayoría de blogs de cocina publican sus recetas como JSON-LD
+ * (`"@type": "Recipe"`) dentro de un <script type="application/ld+json">.
+ * Aquí se localiza ese objeto, en HTML pegado o en el JSON directamente,
+ * y se convierte en un BorradorReceta para revisarlo en el formulario.
+ *
+ * Referencia: https://schema.org/Recipe
+ */
+
+const REGEX_SCRIPT_LD =
+  /<script[^>]*type\s*=\s*["']application\/ld\+json["'][^>]*>([\s\S]*?)<\/script>/gi;
+
+// Entidades HTML habituales en los textos de los blogs
+const ENTIDADES: Record<string, string> = {
+  amp: "&",
+  lt: "<",
+  gt: ">",
+  quot: '"',
+  apos: "'",
+  nbsp: " ",
+  deg: "°",
+  frac12: "½",
+  frac14: "¼",
+  frac34: "¾",
+  iexcl: "¡",
+  iquest: "¿",
+  aacute: "á",
+  eacute: "é",
+  iacute: "í",
+  oacute: "ó",
+  uacute: "ú",
+  ntilde: "ñ",
+  uuml: "ü",
+  Aacute: "Á",
+  Eacute: "É",
+  Iacute: "Í",
+  Oacute: "Ó",
+  Uacute: "Ú",
+  Ntilde: "Ñ",
+};
+
+/**
+ * Quitar etiquetas HTML, decodificar entidades y compactar espacios
+ */
+export function limpiarTextoHtml(texto: string): string {
+  return texto
+    .replace(/<br\s*\/?>/gi, "\n")
+    .replace(/<[^>]+>/g, "")
+    .replace(/&#x([0-9a-f]+);/gi, (_, hex) =>
+      String.fromCodePoint(parseInt(hex, 16))
+    )
+    .replace(/&#(\d+);/g, (_, dec) => String.fromCodePoint(parseInt(dec, 10)))
+    .replace(
+      /&([a-z0-9]+);/gi,
+      (entidad, nombre) => ENTIDADES[nombre] ?? entidad
+    )
+    .replace(/[ \t]+/g, " ")
+    .trim();
+}
+
+/**
+ * Convertir una duración ISO 8601 a minutos: "PT1H30M" → 90
+ *
+ * @returns Minutos o null si no es una duración válida
+ */
+export function duracionIsoAMinutos(valor: unknown): number | null {
+  if (typeof valor !== "string") return null;
+  const partes = valor
+    .trim()
+    .match(/^P(?:(\d+)D)?(?:T(?:(\d+)H)?(?:(\d+)M)?(?:(\d+(?:\.\d+)?)S)?)?$/i);
+  if (!partes || !/\d/.test(valor)) return null;
+
+  const [, dias, horas, minutos, segundos] = partes.map((p) =>
+    p ? Number(p) : 0
+  );
+  const total = Math.round(dias * 1440 + horas * 60 + minutos + segundos / 60);
+  return total <= MINUTOS_MAXIMOS ? total : null;
+}
+
+/**
+ * Comprobar si un nodo JSON-LD es una receta
+ * ("@type" puede ser un texto o una lista: ["Recipe", "NewsArticle"])
+ */
+function esReceta(nodo: any): boolean {
+  const tipo = nodo?.["@type"];
+  return Array.isArray(tipo) ? tipo.includes("Recipe") : tipo === "Recipe";
+}
+
+/**
+ * Buscar el primer nodo Recipe dentro de un JSON-LD
+ * (puede venir suelto, en una lista o dentro de "@graph")
+ */
+function buscarNodoReceta(nodo: any): any | null {
+  if (Array.isArray(nodo)) {
+    for (const hijo of nodo) {
+      const encontrado = buscarNodoReceta(hijo);
+      if (encontrado) return encontrado;
+    }
+    return null;
+  }
+  if (!nodo || typeof nodo !== "object") return null;
+  if (esReceta(nodo)) return nodo;
+  return buscarNodoReceta(nodo["@graph"] ?? null);
+}
+
+/**
+ * Extraer los bloques JSON-LD de un texto (HTML o JSON directamente)
+ */
+function extraerBloquesJson(texto: string): unknown[] {
+  const limpio = texto.trim();
+  const fuentes = /^[[{]/.test(limpio)
+    ? [limpio]
+    : [...limpio.matchAll(REGEX_SCRIPT_LD)].map((bloque) => bloque[1]);
+
+  return fuentes.flatMap((fuente) => {
+    try {
+      return [JSON.parse(fuente)];
+    } catch {
+      // Un bloque mal formado no impide leer los demás
+      return [];
+    }
+  });
+}
+
+/**
+ * Pasar un valor que puede ser texto o lista de textos a lista
+ */
+function aLista(valor: unknown): string[] {
+  if (typeof valor === "string") return [valor];
+  if (Array.isArray(valor)) {
+    return valor.filter((v): v is string => typeof v === "string");
+  }
+  return [];
+}
+
+/**
+ * Convertir recipeInstructions en pasos
+ *
+ * Acepta un texto (un paso por línea), una lista de textos, HowToStep
+ * ({ text }) y HowToSection ({ itemListElement: [...] })
+ */
+function mapearPasos(valor: unknown): Paso[] {
+  if (typeof valor === "string") {
+    return limpiarTextoHtml(valor)
+      .split(/\n+/)
+      .map((linea) => linea.replace(/^\d+[.)]\s*/, "").trim())
+      .filter(Boolean)
+      .map((texto) => ({ texto }));
+  }
+  if (!Array.isArray(valor)) return [];
+
+  return valor.flatMap((item: any): Paso[] => {
+    if (typeof item === "string") return mapearPasos(item);
+    if (item?.itemListElement) return mapearPasos(item.itemListElement);
+
+    const texto = limpiarTextoHtml(String(item?.text ?? item?.name ?? ""));
+    if (!texto) return [];
+
+    const imagen = mapearImagen(item.image);
+    return [{ texto, ...(imagen && { imagen_url: imagen }) }];
+  });
+}
+
+/**
+ * Primera URL de imagen: texto, lista o ImageObject ({ url })
+ */
+function mapearImagen(valor: any): string | undefined {
+  if (Array.isArray(valor)) return mapearImagen(valor[0]);
+  if (typeof valor === "string")
+    return valor.startsWith("http") ? valor : undefined;
+  if (valor && typeof valor === "object") return mapearImagen(valor.url);
+  return undefined;
+}
+
+/**
+ * Porciones a partir de recipeYield: 4, "4", "4 raciones", ["4", "4 servings"]
+ */
+function mapearPorciones(valor: unknown): number {
+  const textos = typeof valor === "number" ? [String(valor)] : aLista(valor);
+  for (const texto of textos) {
+    const numero = texto.match(/\d+/);
+    const porciones = numero ? validarPorciones(Number(numero[0])) : null;
+    if (porciones) return porciones;
+  }
+  return PORCIONES_POR_DEFECTO;
+}
+
+/**
+ * Tiempos de preparación y cocción
+ *
+ * Si solo se indica totalTime, la parte sin desglosar se toma como
+ * preparación para que el tiempo total coincida.
+ */
+function mapearTiempos(
+  nodo: any
+): Pick<BorradorReceta, "tiempo_preparacion" | "tiempo_coccion"> {
+  const preparacion = duracionIsoAMinutos(nodo.prepTime);
+  const coccion = duracionIsoAMinutos(nodo.cookTime);
+  const total = duracionIsoAMinutos(nodo.totalTime);
+
+  if (preparacion === null && total !== null) {
+    return {
+      tiempo_preparacion: Math.max(0, total - (coccion ?? 0)),
+      tiempo_coccion: coccion,
+    };
+  }
+  return { tiempo_preparacion: preparacion, tiempo_coccion: coccion };
+}
+
+/**
+ * Etiquetas a partir de recipeCategory y keywords ("navidad, horno")
+ */
+function mapearEtiquetas(nodo: any): string[] {
+  const textos = [...aLista(nodo.recipeCategory), ...aLista(nodo.keywords)];
+  return normalizarEtiquetas(
+    textos.flatMap((texto) => limpiarTextoHtml(texto).split(","))
+  ).slice(0, MAX_ETIQUETAS);
+}
+
+/**
+ * Convertir un texto pegado (HTML de la página o JSON-LD) en un borrador
+ *
+ * @returns Borrador o null si no contiene ninguna receta schema.org
+ */
+export function importarRecetaSchema(texto: string): BorradorReceta | null {
+  const nodo = buscarNodoReceta(extraerBloquesJson(texto));
+  if (!nodo) return null;
+
+  const ingredientes = aLista(nodo.recipeIngredient ?? nodo.ingredients)
+    .map(limpiarTextoHtml)
+    .filter(Boolean)
+    .map(parsearIngrediente);
+
+  return {
+    titulo: limpiarTextoHtml(String(nodo.name ?? "")),
+    descripcion: limpiarTextoHtml(String(nodo.description ?? "")),
+    ingredientes,
+    porciones: mapearPorciones(nodo.recipeYield),
+    pasos: mapearPasos(nodo.recipeInstructions),
+    etiquetas: mapearEtiquetas(nodo),
+    ...mapearTiempos(nodo),
+    dificultad: null, // schema.org no define la dificultad
+    imagen_url: mapearImagen(nodo.image),
+  };
+}
@@ -0,0 +1,302 @@
+import { ValoresNutricionales } from "../models/Nutricion";
+
+/**
+ * Tabla Nutricional Local
+ *
+ * Valores aproximados por cada 100 g de alimento (crudo, salvo que se
+ * indique), redondeados a partir de tablas de composición de uso
+ * público. Suficiente para una estimación orientativa, no para un
+ * cálculo dietético. Las densidades también las usa la conversión de
+ * unidades para pasar tazas a gramos y viceversa.
+ *
+ * Para reconocer un ingrediente nuevo basta con añadir una entrada (o
+ * una palabra clave a una existente) sin tildes y en singular.
+ */
+
+export interface EntradaNutricional {
+  palabras: string[]; // Palabras clave (sin tildes, en singular)
+  por100g: ValoresNutricionales;
+  densidad?: number; // g/ml, para pasar tazas y cucharadas a gramos
+  liquido?: boolean; // Se mide en volumen aunque se conozca la densidad
+  pesoUnidad?: number; // Gramos de una pieza ("2 huevos", "1 cebolla")
+  gramosPor?: Record<string, number>; // Pesos propios de lata, hoja...
+}
+
+/**
+ * Peso en gramos de las unidades que no son de masa ni de volumen
+ *
+ * Se usan cuando la entrada no indica un peso propio en `gramosPor`.
+ */
+export const PESOS_POR_UNIDAD: Record<string, number> = {
+  pizca: 0.4,
+  diente: 5,
+  lata: 400,
+  hoja: 1,
+  rodaja: 25,
+  manojo: 30,
+};
+
+/**
+ * Crear los valores de 100 g: kcal, proteínas, grasas, carbohidratos
+ */
+function v(
+  calorias: number,
+  proteinas: number,
+  grasas: number,
+  carbohidratos: number
+): ValoresNutricionales {
+  return { calorias, proteinas, grasas, carbohidratos };
+}
+
+export const TABLA_NUTRICIONAL: EntradaNutricional[] = [
+  // Harinas, cereales y pan
+  { palabras: ["harina"], por100g: v(364, 10, 1, 76), densidad: 0.53 },
+  {
+    palabras: ["harina de maiz", "maicena"],
+    por100g: v(365, 7, 4, 79),
+    densidad: 0.55,
+  },
+  { palabras: ["arroz"], por100g: v(360, 7, 0.6, 79), densidad: 0.85 },
+  {
+    palabras: ["pasta", "espagueti", "macarron", "fideo", "tallarin"],
+    por100g: v(371, 13, 1.5, 75),
+  },
+  {
+    palabras: ["pan"],
+    por100g: v(265, 9, 3.2, 49),
+    pesoUnidad: 250,
+  },
+  { palabras: ["pan rallado"], por100g: v(395, 13, 5, 72), densidad: 0.45 },
+  { palabras: ["avena"], por100g: v(389, 17, 7, 66), densidad: 0.4 },
+  { palabras: ["quinoa"], por100g: v(368, 14, 6, 64), densidad: 0.75 },
+  { palabras: ["levadura"], por100g: v(325, 40, 7, 41) },
+
+  // Lácteos y huevos
+  {
+    palabras: ["leche"],
+    por100g: v(61, 3.2, 3.3, 4.8),
+    densidad: 1.03,
+    liquido: true,
+  },
+  {
+    palabras: ["leche condensada"],
+    por100g: v(321, 7.9, 8.7, 54),
+    densidad: 1.3,
+  },
+  {
+    palabras: ["leche de coco"],
+    por100g: v(230, 2.3, 24, 6),
+    densidad: 1,
+    liquido: true,
+  },
+  {
+    palabras: ["nata", "crema de leche"],
+    por100g: v(340, 2.1, 36, 2.8),
+    densidad: 1,
+    liquido: true,
+  },
+  {
+    palabras: ["mantequilla"],
+    por100g: v(717, 0.9, 81, 0.1),
+    densidad: 0.91,
+  },
+  { palabras: ["queso"], por100g: v(402, 25, 33, 1.3), densidad: 0.45 },
+  {
+    palabras: ["yogur"],
+    por100g: v(61, 3.5, 3.3, 4.7),
+    densidad: 1.03,
+    pesoUnidad: 125,
+  },
+  {
+    palabras: ["huevo", "clara", "yema"],
+    por100g: v(143, 12.6, 9.5, 0.7),
+    pesoUnidad: 50,
+  },
+
+  // Aceites y salsas
+  {
+    palabras: ["aceite"],
+    por100g: v(884, 0, 100, 0),
+    densidad: 0.92,
+    liquido: true,
+  },
+  { palabras: ["mayonesa"], por100g: v(680, 1, 75, 0.6), densidad: 0.91 },
+  {
+    palabras: ["vinagre"],
+    por100g: v(18, 0, 0, 0),
+    densidad: 1.01,
+    liquido: true,
+  },
+  {
+    palabras: ["caldo"],
+    por100g: v(5, 0.6, 0.2, 0.4),
+    densidad: 1,
+    liquido: true,
+  },
+  {
+    palabras: ["vino"],
+    por100g: v(85, 0.1, 0, 2.6),
+    densidad: 0.99,
+    liquido: true,
+  },
+
+  // Carnes y pescados
+  {
+    palabras: ["pollo", "pechuga", "pavo"],
+    por100g: v(165, 31, 3.6, 0),
+    pesoUnidad: 200,
+  },
+  {
+    palabras: ["ternera", "carne", "carne picada", "res"],
+    por100g: v(250, 26, 15, 0),
+  },
+  { palabras: ["cerdo", "lomo"], por100g: v(242, 27, 14, 0) },
+  { palabras: ["jamon"], por100g: v(200, 25, 11, 0) },
+  {
+    palabras: ["bacon", "beicon", "panceta", "tocino"],
+    por100g: v(541, 37, 42, 1.4),
+  },
+  { palabras: ["chorizo"], por100g: v(455, 24, 38, 2) },
+  {
+    palabras: ["salchicha"],
+    por100g: v(300, 12, 27, 2),
+    pesoUnidad: 50,
+  },
+  {
+    palabras: ["atun"],
+    por100g: v(132, 28, 1.3, 0),
+    gramosPor: { lata: 80 },
+  },
+  { palabras: ["salmon"], por100g: v(208, 20, 13, 0) },
+  {
+    palabras: ["merluza", "bacalao", "pescado"],
+    por100g: v(90, 18, 1.5, 0),
+  },
+  {
+    palabras: ["gamba", "langostino"],
+    por100g: v(99, 24, 0.3, 0.2),
+    pesoUnidad: 15,
+  },
+  { palabras: ["tofu"], por100g: v(76, 8, 4.8, 1.9) },
+
+  // Verduras y hortalizas
+  {
+    palabras: ["tomate"],
+    por100g: v(18, 0.9, 0.2, 3.9),
+    densidad: 1,
+    pesoUnidad: 120,
+  },
+  {
+    palabras: ["cebolla", "cebolleta", "puerro"],
+    por100g: v(40, 1.1, 0.1, 9.3),
+    pesoUnidad: 150,
+  },
+  {
+    palabras: ["ajo"],
+    por100g: v(149, 6.4, 0.5, 33),
+    pesoUnidad: 5,
+  },
+  {
+    palabras: ["zanahoria"],
+    por100g: v(41, 0.9, 0.2, 9.6),
+    pesoUnidad: 80,
+  },
+  {
+    palabras: ["patata", "papa"],
+    por100g: v(77, 2, 0.1, 17),
+    pesoUnidad: 200,
+  },
+  {
+    palabras: ["pimiento"],
+    por100g: v(31, 1, 0.3, 6),
+    pesoUnidad: 150,
+  },
+  {
+    palabras: ["calabacin"],
+    por100g: v(17, 1.2, 0.3, 3.1),
+    pesoUnidad: 250,
+  },
+  {
+    palabras: ["berenjena"],
+    por100g: v(25, 1, 0.2, 6),
+    pesoUnidad: 300,
+  },
+  {
+    palabras: ["lechuga"],
+    por100g: v(15, 1.4, 0.2, 2.9),
+    pesoUnidad: 300,
+    gramosPor: { hoja: 15 },
+  },
+  { palabras: ["espinaca"], por100g: v(23, 2.9, 0.4, 3.6) },
+  {
+    palabras: ["champinon", "seta"],
+    por100g: v(22, 3.1, 0.3, 3.3),
+    pesoUnidad: 20,
+  },
+  { palabras: ["judia verde"], por100g: v(31, 1.8, 0.2, 7) },
+  { palabras: ["guisante"], por100g: v(81, 5.4, 0.4, 14) },
+  {
+    palabras: ["maiz"],
+    por100g: v(86, 3.3, 1.4, 19),
+    gramosPor: { lata: 285 },
+  },
+
+  // Legumbres (en seco; la lata equivale al peso en seco escurrido)
+  {
+    palabras: ["garbanzo"],
+    por100g: v(364, 19, 6, 61),
+    gramosPor: { lata: 150 },
+  },
+  {
+    palabras: ["lenteja"],
+    por100g: v(352, 25, 1, 60),
+    gramosPor: { lata: 150 },
+  },
+  {
+    palabras: ["alubia", "judia", "frijol"],
+    por100g: v(333, 23, 0.8, 60),
+    gramosPor: { lata: 150 },
+  },
+
+  // Frutas y frutos secos
+  { palabras: ["limon"], por100g: v(29, 1.1, 0.3, 9), pesoUnidad: 100 },
+  { palabras: ["naranja"], por100g: v(47, 0.9, 0.1, 12), pesoUnidad: 200 },
+  { palabras: ["manzana"], por100g: v(52, 0.3, 0.2, 14), pesoUnidad: 180 },
+  { palabras: ["platano"], por100g: v(89, 1.1, 0.3, 23), pesoUnidad: 120 },
+  { palabras: ["fresa"], por100g: v(32, 0.7, 0.3, 7.7), pesoUnidad: 12 },
+  { palabras: ["aguacate"], por100g: v(160, 2, 15, 9), pesoUnidad: 200 },
+  { palabras: ["nuez"], por100g: v(654, 15, 65, 14), pesoUnidad: 5 },
+  { palabras: ["almendra"], por100g: v(579, 21, 50, 22), pesoUnidad: 1.2 },
+  { palabras: ["cacahuete", "mani"], por100g: v(567, 26, 49, 16) },
+
+  // Dulces
+  { palabras: ["azucar"], por100g: v(387, 0, 0, 100), densidad: 0.85 },
+  { palabras: ["miel"], por100g: v(304, 0.3, 0, 82), densidad: 1.42 },
+  { palabras: ["chocolate"], por100g: v(546, 4.9, 31, 61) },
+  { palabras: ["cacao"], por100g: v(228, 20, 14, 58), densidad: 0.45 },
+
+  // Hierbas, especias y condimentos (aporte mínimo en las cantidades
+  // habituales, pero se cuentan para no dejarlos "sin datos")
+  {
+    palabras: ["perejil", "cilantro", "albahaca", "hierbabuena", "menta"],
+    por100g: v(36, 3, 0.8, 6),
+  },
+  {
+    palabras: [
+      "canela",
+      "comino",
+      "oregano",
+      "pimenton",
+      "curry",
+      "nuez moscada",
+      "tomillo",
+      "romero",
+      "laurel",
+      "pimienta",
+    ],
+    por100g: v(300, 10, 8, 55),
+    densidad: 0.5,
+  },
+  { palabras: ["sal"], por100g: v(0, 0, 0, 0), densidad: 1.2 },
+  { palabras: ["agua"], por100g: v(0, 0, 0, 0), densidad: 1, liquido: true },
+];
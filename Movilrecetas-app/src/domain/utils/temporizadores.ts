@@ -0,0 +1,90 @@
+import { Paso } from "../models/Paso";
+import { normalizarTexto } from "./texto";
+
+/**
+ * Utilidades de Temporizadores
+ *
+ * Detecta las duraciones que menciona el texto de un paso para
+ * ofrecer un temporizador en el modo cocina:
+ * "hornear 25 minutos" → 25 min, "reposar 1 hora y media" → 90 min,
+ * "cocer 8-10 min" → 10 min (se toma el máximo del rango)
+ */
+
+// Duración máxima de un temporizador: un día
+export const SEGUNDOS_MAXIMOS = 24 * 60 * 60;
+
+// Segundos de cada unidad de tiempo (sin tildes, como queda el texto normalizado)
+const SEGUNDOS_POR_UNIDAD: [RegExp, number][] = [
+  [/^(h|hr|hrs|hora|horas)$/, 3600],
+  [/^(m|min|mins|minuto|minutos)$/, 60],
+  [/^(s|seg|segs|segundo|segundos)$/, 1],
+];
+
+// "10 minutos", "1,5 horas", "8-10 min", "8 a 10 min", "1 hora y media"
+const REGEX_DURACION =
+  /(\d+(?:[.,]\d+)?)(?:\s*(?:-|a)\s*(\d+(?:[.,]\d+)?))?\s*([a-z]+)(\s+y\s+media)?/g;
+
+function segundosDeUnidad(unidad: string): number | null {
+  const encontrada = SEGUNDOS_POR_UNIDAD.find(([regex]) => regex.test(unidad));
+  return encontrada ? encontrada[1] : null;
+}
+
+/**
+ * Duraciones (en segundos) que aparecen en un texto, sin repetir
+ */
+export function detectarDuraciones(texto: string): number[] {
+  const duraciones: number[] = [];
+
+  for (const [, desde, hasta, unidad, media] of normalizarTexto(texto).matchAll(
+    REGEX_DURACION
+  )) {
+    const porUnidad = segundosDeUnidad(unidad);
+    if (porUnidad === null) continue;
+
+    const valor = parseFloat((hasta ?? desde).replace(",", "."));
+    const segundos = Math.round((valor + (media ? 0.5 : 0)) * porUnidad);
+    if (segundos > 0 && segundos <= SEGUNDOS_MAXIMOS) {
+      duraciones.push(segundos);
+    }
+  }
+
+  return [...new Set(duraciones)];
+}
+
+/**
+ * Duraciones para ofrecer en un paso: la indicada por el chef
+ * (duracion_minutos) primero y después las que menciona el texto
+ */
+export function duracionesDePaso(paso: Paso): number[] {
+  const indicada = paso.duracion_minutos ? [paso.duracion_minutos * 60] : [];
+  return [...new Set([...indicada, ...detectarDuraciones(paso.texto)])];
+}
+
+/**
+ * Formatear una duración para un botón: "1 h 30 min", "45 s"
+ */
+export function formatearDuracionCorta(segundos: number): string {
+  const horas = Math.floor(segundos / 3600);
+  const minutos = Math.floor((segundos % 3600) / 60);
+  const resto = segundos % 60;
+
+  const partes: string[] = [];
+  if (horas) partes.push(`${horas} h`);
+  if (minutos) partes.push(`${minutos} min`);
+  if (resto || partes.length === 0) partes.push(`${resto} s`);
+  return partes.join(" ");
+}
+
+/**
+ * Formatear el tiempo restante como un reloj: "4:05", "1:02:30"
+ */
+export function formatearCuentaAtras(segundos: number): string {
+  const total = Math.max(0, Math.ceil(segundos));
+  const horas = Math.floor(total / 3600);
+  const minutos = Math.floor((total % 3600) / 60);
+  const resto = String(total % 60).padStart(2, "0");
+
+  return horas
+    ? `${horas}:${String(minutos).padStart(2, "0")}:${resto}`
+    : `${minutos}:${resto}`;
+}
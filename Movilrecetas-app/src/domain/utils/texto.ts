@@ -0,0 +1,163 @@
+import { Fragmento } from "../models/ResultadoBusqueda";
+
+/**
+ * Utilidades de Texto
+ *
+ * Normalización usada por las búsquedas para que coincidan
+ * mayúsculas/minúsculas y palabras con o sin tilde ("limon" = "limón").
+ */
+
+/**
+ * Normalizar texto para comparar: minúsculas, sin tildes y sin espacios extra
+ */
+export function normalizarTexto(texto: string): string {
+  return texto
+    .normalize("NFD")
+    .replace(/[\u0300-\u036f]/g, "")
+    .toLowerCase()
+    .replace(/\s+/g, " ")
+    .trim();
+}
+
+/**
+ * Pasar una palabra normalizada a singular (aproximado, solo para comparar)
+ *
+ * "tomates" → "tomate", "limones" → "limon", "nueces" → "nuez"
+ */
+function singular(palabra: string): string {
+  if (palabra.length <= 3) return palabra;
+  if (palabra.endsWith("ces")) return palabra.slice(0, -3) + "z";
+  if (/[lnrdj]es$/.test(palabra)) return palabra.slice(0, -2);
+  if (palabra.endsWith("s")) return palabra.slice(0, -1);
+  return palabra;
+}
+
+/**
+ * Palabras de un nombre normalizadas y en singular
+ */
+export function palabrasDe(nombre: string): string[] {
+  return normalizarTexto(nombre)
+    .split(/[^a-z0-9ñ]+/)
+    .filter(Boolean)
+    .map(singular);
+}
+
+/**
+ * Palabras de un término que cuentan para buscar (sin "de", "la"...)
+ *
+ * "Leche de coco" → ["leche", "coco"]
+ */
+export function palabrasClave(termino: string): string[] {
+  return palabrasDe(termino).filter((palabra) => !PALABRAS_VACIAS.has(palabra));
+}
+
+/**
+ * Comprobar si un ingrediente contiene un término buscado
+ *
+ * Se comparan palabras completas en singular y sin tildes: "limon"
+ * encuentra "jugo de limones", pero "sal" no encuentra "salmón" ni
+ * "agua" encuentra "aguacate". Todas las palabras del término deben
+ * estar en el ingrediente ("leche de coco" no encuentra "leche").
+ */
+export function ingredienteContiene(
+  ingrediente: string,
+  termino: string
+): boolean {
+  const palabrasTermino = palabrasClave(termino);
+  if (palabrasTermino.length === 0) return false;
+
+  const palabrasIngrediente = new Set(palabrasDe(ingrediente));
+  return palabrasTermino.every((palabra) => palabrasIngrediente.has(palabra));
+}
+
+/**
+ * Comprobar si un texto normalizado contiene una palabra clave completa
+ *
+ * Admite plurales ("nuez" → "nueces", "huevo" → "huevos") y no
+ * confunde palabras que empiezan igual ("pan" no está en "panceta").
+ */
+export function contienePalabra(texto: string, palabra: string): boolean {
+  const raiz = palabra.replace(/z$/, "(z|c)");
+  return new RegExp(`(^|[^a-z])${raiz}(s|es)?([^a-z]|$)`).test(texto);
+}
+
+// Palabras demasiado comunes para puntuar en una búsqueda
+const PALABRAS_VACIAS = new Set([
+  "de",
+  "del",
+  "la",
+  "las",
+  "el",
+  "los",
+  "un",
+  "una",
+  "y",
+  "con",
+  "en",
+  "al",
+  "a",
+]);
+
+/**
+ * Dividir una consulta en términos normalizados, sin palabras vacías
+ *
+ * "Tarta de Limón" → ["tarta", "limon"]
+ */
+export function extraerTerminos(consulta: string): string[] {
+  const terminos = normalizarTexto(consulta)
+    .split(" ")
+    .filter((termino) => termino && !PALABRAS_VACIAS.has(termino));
+
+  return Array.from(new Set(terminos));
+}
+
+/**
+ * Dividir un texto en fragmentos marcando dónde aparece cada término
+ *
+ * La búsqueda se hace sobre el texto normalizado, pero los fragmentos
+ * conservan el texto original (con mayúsculas y tildes).
+ *
+ * @param texto - Texto original a mostrar
+ * @param terminos - Términos ya normalizados
+ */
+export function dividirResaltado(
+  texto: string,
+  terminos: string[]
+): Fragmento[] {
+  if (!texto) return [];
+
+  // PASO 1: Normalizar carácter a carácter para conservar las posiciones
+  const normalizado = Array.from(
+    texto,
+    (caracter) =>
+      caracter
+        .normalize("NFD")
+        .replace(/[\u0300-\u036f]/g, "")
+        .toLowerCase()
+        .charAt(0) || " "
+  ).join("");
+  const caracteres = Array.from(texto);
+
+  // PASO 2: Marcar los caracteres que forman parte de alguna coincidencia
+  const marcados = new Array<boolean>(caracteres.length).fill(false);
+  terminos.forEach((termino) => {
+    let desde = normalizado.indexOf(termino);
+    while (termino && desde !== -1) {
+      marcados.fill(true, desde, desde + termino.length);
+      desde = normalizado.indexOf(termino, desde + termino.length);
+    }
+  });
+
+  // PASO 3: Agrupar caracteres consecutivos con el mismo estado
+  const fragmentos: Fragmento[] = [];
+  caracteres.forEach((caracter, i) => {
+    const ultimo = fragmentos[fragmentos.length - 1];
+    if (ultimo && ultimo.resaltado === marcados[i]) {
+      ultimo.texto += caracter;
+    } else {
+      fragmentos.push({ texto: caracter, resaltado: marcados[i] });
+    }
+  });
+
+  return fragmentos;
+}
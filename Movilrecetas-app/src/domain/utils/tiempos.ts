@@ -0,0 +1,70 @@
+import { DatosPreparacion, DIFICULTADES } from "../models/Preparacion";
+
+/**
+ * Utilidades de Tiempos de Preparación
+ *
+ * Valida los minutos que escribe el chef, calcula el tiempo total
+ * (que se guarda para poder filtrar en el servidor) y lo formatea.
+ */
+
+// Límite por tiempo: cubre marinados y fermentaciones largas
+export const MINUTOS_MAXIMOS = 48 * 60;
+
+// Opciones del filtro "tiempo total" (minutos)
+export const OPCIONES_TIEMPO_MAXIMO = [15, 30, 60];
+
+/**
+ * Validar y normalizar un tiempo en minutos
+ *
+ * @returns Minutos enteros, null si está vacío o undefined si no es válido
+ */
+export function validarMinutos(valor: unknown): number | null | undefined {
+  if (valor === null || valor === undefined || valor === "") return null;
+  const numero = typeof valor === "string" ? Number(valor.trim()) : valor;
+
+  if (typeof numero !== "number" || !Number.isInteger(numero)) return undefined;
+  if (numero < 0 || numero > MINUTOS_MAXIMOS) return undefined;
+
+  // 0 minutos = sin ese paso (ej: ensalada sin cocción)
+  return numero;
+}
+
+/**
+ * Validar los datos de preparación de un formulario
+ *
+ * @returns Mensaje de error o null si son válidos
+ */
+export function validarPreparacion(datos: DatosPreparacion): string | null {
+  if (validarMinutos(datos.tiempo_preparacion) === undefined) {
+    return `El tiempo de preparación debe estar entre 0 y ${MINUTOS_MAXIMOS} minutos`;
+  }
+  if (validarMinutos(datos.tiempo_coccion) === undefined) {
+    return `El tiempo de cocción debe estar entre 0 y ${MINUTOS_MAXIMOS} minutos`;
+  }
+  if (datos.dificultad && !DIFICULTADES.includes(datos.dificultad)) {
+    return "La dificultad no es válida";
+  }
+  return null;
+}
+
+/**
+ * Tiempo total de la receta
+ *
+ * @returns Suma de los tiempos indicados o null si no se indicó ninguno
+ */
+export function calcularTiempoTotal(datos: DatosPreparacion): number | null {
+  if (datos.tiempo_preparacion == null && datos.tiempo_coccion == null) {
+    return null;
+  }
+  return (datos.tiempo_preparacion ?? 0) + (datos.tiempo_coccion ?? 0);
+}
+
+/**
+ * Formatear una duración para la UI: "45 min", "1 h", "1 h 15 min"
+ */
+export function formatearDuracion(minutos: number): string {
+  const horas = Math.floor(minutos / 60);
+  const resto = minutos % 60;
+  if (horas === 0) return `${resto} min`;
+  return resto === 0 ? `${horas} h` : `${horas} h ${resto} min`;
+}
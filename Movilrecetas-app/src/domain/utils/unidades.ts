@@ -0,0 +1,50 @@
+/**
+ * Utilidades de Unidades
+ *
+ * Tabla común de unidades convertibles, usada por la lista de la
+ * compra (para sumar cantidades) y por la estimación nutricional
+ * (para pasar cualquier cantidad a gramos).
+ */
+
+export type Magnitud = "masa" | "volumen";
+
+// Unidades convertibles: factor a la unidad base de su magnitud (g o ml)
+export const MAGNITUDES: Record<
+  string,
+  { magnitud: Magnitud; factor: number }
+> = {
+  mg: { magnitud: "masa", factor: 0.001 },
+  g: { magnitud: "masa", factor: 1 },
+  kg: { magnitud: "masa", factor: 1000 },
+  oz: { magnitud: "masa", factor: 28.35 },
+  lb: { magnitud: "masa", factor: 453.6 },
+  ml: { magnitud: "volumen", factor: 1 },
+  cl: { magnitud: "volumen", factor: 10 },
+  l: { magnitud: "volumen", factor: 1000 },
+  cdta: { magnitud: "volumen", factor: 5 },
+  cda: { magnitud: "volumen", factor: 15 },
+  taza: { magnitud: "volumen", factor: 240 },
+};
+
+// Unidad base de cada magnitud
+export const UNIDAD_BASE: Record<Magnitud, string> = {
+  masa: "g",
+  volumen: "ml",
+};
+
+/**
+ * Pasar una cantidad a la unidad base de su magnitud (g o ml)
+ *
+ * @returns Cantidad y magnitud, o null si la unidad no es convertible
+ */
+export function aUnidadBase(
+  cantidad: number,
+  unidad: string | undefined
+): { cantidad: number; magnitud: Magnitud } | null {
+  const conversion = MAGNITUDES[unidad ?? ""];
+  if (!conversion) return null;
+  return {
+    cantidad: cantidad * conversion.factor,
+    magnitud: conversion.magnitud,
+  };
+}
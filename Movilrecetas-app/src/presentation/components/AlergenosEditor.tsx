@@ -0,0 +1,137 @@
+import React from "react";
+import { StyleSheet, Text, TouchableOpacity, View } from "react-native";
+import {
+  Alergeno,
+  ALERGENOS,
+  Dieta,
+  DIETAS,
+  ETIQUETAS_ALERGENO,
+  ETIQUETAS_DIETA,
+  InfoAlergenos,
+} from "../../domain/models/Alergenos";
+import { Ingrediente } from "../../domain/models/Ingrediente";
+import { detectarAlergenos } from "../../domain/utils/alergenos";
+import { globalStyles } from "../../styles/globalStyles";
+import { colors, fontSize, spacing } from "../../styles/theme";
+
+interface Props {
+  ingredientes: Ingrediente[];
+  manual: InfoAlergenos | null; // null = detección automática
+  onChange: (manual: InfoAlergenos | null) => void;
+}
+
+/**
+ * AlergenosEditor - Alérgenos y dietas de una receta
+ *
+ * Mientras el chef no toque nada, se recalculan con cada cambio de
+ * los ingredientes. Al marcar o desmarcar una opción la receta pasa a
+ * etiquetado manual, que se puede deshacer con "Volver a detectar".
+ *
+ * Usado por las pantallas de crear y editar receta.
+ */
+export function AlergenosEditor({ ingredientes, manual, onChange }: Props) {
+  const actual = manual ?? detectarAlergenos(ingredientes);
+
+  const alternarAlergeno = (alergeno: Alergeno) => {
+    onChange({
+      ...actual,
+      alergenos: actual.alergenos.includes(alergeno)
+        ? actual.alergenos.filter((a) => a !== alergeno)
+        : ALERGENOS.filter(
+            (a) => a === alergeno || actual.alergenos.includes(a)
+          ),
+    });
+  };
+
+  const alternarDieta = (dieta: Dieta) => {
+    onChange({
+      ...actual,
+      dietas: actual.dietas.includes(dieta)
+        ? actual.dietas.filter((d) => d !== dieta)
+        : DIETAS.filter((d) => d === dieta || actual.dietas.includes(d)),
+    });
+  };
+
+  return (
+    <View>
+      <Text style={globalStyles.subtitle}>Alérgenos y dietas:</Text>
+      <Text style={styles.ayuda}>
+        {manual
+          ? "✏️ Corregido por ti"
+          : "🔎 Detectado a partir de los ingredientes. Toca para corregir."}
+      </Text>
+
+      <Text style={styles.etiqueta}>Contiene</Text>
+      <View style={styles.listaChips}>
+        {ALERGENOS.map((alergeno) => (
+          <TouchableOpacity
+            key={alergeno}
+            style={[
+              globalStyles.chip,
+              actual.alergenos.includes(alergeno)
+                ? styles.chipAlergeno
+                : styles.chipInactivo,
+            ]}
+            onPress={() => alternarAlergeno(alergeno)}
+          >
+            <Text style={globalStyles.chipText}>
+              {ETIQUETAS_ALERGENO[alergeno]}
+            </Text>
+          </TouchableOpacity>
+        ))}
+      </View>
+
+      <Text style={styles.etiqueta}>Apta para</Text>
+      <View style={styles.listaChips}>
+        {DIETAS.map((dieta) => (
+          <TouchableOpacity
+            key={dieta}
+            style={[
+              globalStyles.chip,
+              !actual.dietas.includes(dieta) && styles.chipInactivo,
+            ]}
+            onPress={() => alternarDieta(dieta)}
+          >
+            <Text style={globalStyles.chipText}>{ETIQUETAS_DIETA[dieta]}</Text>
+          </TouchableOpacity>
+        ))}
+      </View>
+
+      {manual && (
+        <TouchableOpacity onPress={() => onChange(null)}>
+          <Text style={styles.enlace}>↺ Volver a detectar</Text>
+        </TouchableOpacity>
+      )}
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  ayuda: {
+    fontSize: fontSize.xs,
+    color: colors.textTertiary,
+    marginBottom: spacing.sm,
+  },
+  etiqueta: {
+    fontSize: fontSize.sm,
+    color: colors.textSecondary,
+    marginBottom: spacing.xs,
+  },
+  listaChips: {
+    flexDirection: "row",
+    flexWrap: "wrap",
+    gap: spacing.sm,
+    marginBottom: spacing.md,
+  },
+  chipInactivo: {
+    backgroundColor: colors.borderLight,
+  },
+  chipAlergeno: {
+    backgroundColor: colors.warningLight,
+  },
+  enlace: {
+    fontSize: fontSize.sm,
+    color: colors.primary,
+    marginBottom: spacing.lg,
+  },
+});
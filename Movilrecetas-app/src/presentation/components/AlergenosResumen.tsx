@@ -0,0 +1,89 @@
+import React from "react";
+import { StyleSheet, Text, View } from "react-native";
+import {
+  ETIQUETAS_ALERGENO,
+  ETIQUETAS_DIETA,
+  ETIQUETAS_RESTRICCION,
+  Restriccion,
+} from "../../domain/models/Alergenos";
+import { Receta } from "../../domain/models/Receta";
+import { globalStyles } from "../../styles/globalStyles";
+import { borderRadius, colors, fontSize, spacing } from "../../styles/theme";
+
+interface Props {
+  receta: Receta;
+  incumplidas: Restriccion[]; // Restricciones del usuario que no cumple
+}
+
+/**
+ * AlergenosResumen - Alérgenos, dietas y aviso de restricciones
+ * en el detalle de la receta
+ */
+export function AlergenosResumen({ receta, incumplidas }: Props) {
+  return (
+    <View style={styles.contenedor}>
+      {incumplidas.length > 0 && (
+        <View style={styles.aviso}>
+          <Text style={styles.textoAviso}>
+            ⚠️ No cumple tus restricciones:{" "}
+            {incumplidas.map((r) => ETIQUETAS_RESTRICCION[r]).join(", ")}
+          </Text>
+        </View>
+      )}
+
+      <View style={styles.listaChips}>
+        {receta.dietas.map((dieta) => (
+          <View key={dieta} style={globalStyles.chip}>
+            <Text style={globalStyles.chipText}>{ETIQUETAS_DIETA[dieta]}</Text>
+          </View>
+        ))}
+        {receta.alergenos.map((alergeno) => (
+          <View key={alergeno} style={[globalStyles.chip, styles.chipAlergeno]}>
+            <Text style={styles.textoAlergeno}>
+              {ETIQUETAS_ALERGENO[alergeno]}
+            </Text>
+          </View>
+        ))}
+      </View>
+      {!receta.alergenos_manual && receta.alergenos.length > 0 && (
+        <Text style={styles.nota}>
+          Alérgenos detectados automáticamente: revisa la lista de ingredientes
+        </Text>
+      )}
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  contenedor: {
+    marginBottom: spacing.md,
+  },
+  aviso: {
+    backgroundColor: colors.warningLight,
+    borderRadius: borderRadius.md,
+    padding: spacing.sm,
+    marginBottom: spacing.sm,
+  },
+  textoAviso: {
+    fontSize: fontSize.sm,
+    color: colors.textPrimary,
+    fontWeight: "600",
+  },
+  listaChips: {
+    flexDirection: "row",
+    flexWrap: "wrap",
+    gap: spacing.sm,
+  },
+  chipAlergeno: {
+    backgroundColor: colors.warningLight,
+  },
+  textoAlergeno: {
+    fontSize: fontSize.sm,
+    color: colors.textPrimary,
+  },
+  nota: {
+    fontSize: fontSize.xs,
+    color: colors.textTertiary,
+    marginTop: spacing.xs,
+  },
+});
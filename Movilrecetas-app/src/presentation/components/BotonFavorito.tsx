@@ -0,0 +1,51 @@
+import React from "react";
+import {
+  StyleProp,
+  StyleSheet,
+  Text,
+  TouchableOpacity,
+  ViewStyle,
+} from "react-native";
+import { borderRadius, colors, fontSize, shadows } from "../../styles/theme";
+
+interface Props {
+  esFavorito: boolean;
+  onPress: () => void;
+  style?: StyleProp<ViewStyle>;
+}
+
+/**
+ * BotonFavorito - Corazón para marcar/desmarcar una receta
+ *
+ * Pensado para ir sobre la imagen de la tarjeta (posición en `style`)
+ */
+export function BotonFavorito({ esFavorito, onPress, style }: Props) {
+  return (
+    <TouchableOpacity
+      style={[styles.boton, style]}
+      onPress={onPress}
+      hitSlop={8}
+      accessibilityRole="button"
+      accessibilityLabel={
+        esFavorito ? "Quitar de favoritos" : "Agregar a favoritos"
+      }
+    >
+      <Text style={styles.icono}>{esFavorito ? "❤️" : "🤍"}</Text>
+    </TouchableOpacity>
+  );
+}
+
+const styles = StyleSheet.create({
+  boton: {
+    width: 40,
+    height: 40,
+    borderRadius: borderRadius.round,
+    backgroundColor: colors.white,
+    justifyContent: "center",
+    alignItems: "center",
+    ...shadows.small,
+  },
+  icono: {
+    fontSize: fontSize.lg,
+  },
+});
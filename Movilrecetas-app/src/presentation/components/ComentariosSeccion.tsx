@@ -0,0 +1,255 @@
+import React, { useState } from "react";
+import {
+  ActivityIndicator,
+  Alert,
+  StyleSheet,
+  Text,
+  TextInput,
+  TouchableOpacity,
+  View,
+} from "react-native";
+import { Comentario } from "../../domain/models/Comentario";
+import { globalStyles } from "../../styles/globalStyles";
+import { borderRadius, colors, fontSize, spacing } from "../../styles/theme";
+
+type Resultado = { success: boolean; error?: string };
+
+interface Props {
+  comentarios: Comentario[];
+  usuarioId: string | undefined;
+  chefId: string; // Dueño de la receta: puede borrar cualquier comentario
+  enviando: boolean;
+  onPublicar: (contenido: string) => Promise<Resultado>;
+  onEditar: (id: string, contenido: string) => Promise<Resultado>;
+  onEliminar: (id: string) => Promise<Resultado>;
+}
+
+/**
+ * ComentariosSeccion - Hilo de preguntas y respuestas de una receta
+ *
+ * - Cualquier usuario puede publicar
+ * - El autor puede editar y borrar sus comentarios
+ * - El chef de la receta puede borrar cualquier comentario
+ */
+export function ComentariosSeccion({
+  comentarios,
+  usuarioId,
+  chefId,
+  enviando,
+  onPublicar,
+  onEditar,
+  onEliminar,
+}: Props) {
+  const [texto, setTexto] = useState("");
+  const [editandoId, setEditandoId] = useState<string | null>(null);
+  const [textoEdicion, setTextoEdicion] = useState("");
+
+  const handlePublicar = async () => {
+    const resultado = await onPublicar(texto);
+    if (resultado.success) {
+      setTexto("");
+    } else {
+      Alert.alert("Error", resultado.error || "No se pudo publicar");
+    }
+  };
+
+  const handleEmpezarEdicion = (comentario: Comentario) => {
+    setEditandoId(comentario.id);
+    setTextoEdicion(comentario.contenido);
+  };
+
+  const handleGuardarEdicion = async () => {
+    if (!editandoId) return;
+
+    const resultado = await onEditar(editandoId, textoEdicion);
+    if (resultado.success) {
+      setEditandoId(null);
+    } else {
+      Alert.alert("Error", resultado.error || "No se pudo editar");
+    }
+  };
+
+  const handleEliminar = (id: string) => {
+    Alert.alert("Eliminar comentario", "¿Seguro que quieres eliminarlo?", [
+      {
+        text: "Cancelar",
+        style: "cancel",
+      },
+      {
+        text: "Eliminar",
+        style: "destructive",
+        onPress: async () => {
+          const resultado = await onEliminar(id);
+          if (!resultado.success) {
+            Alert.alert("Error", resultado.error || "No se pudo eliminar");
+          }
+        },
+      },
+    ]);
+  };
+
+  return (
+    <View>
+      <Text style={globalStyles.subtitle}>
+        Preguntas y comentarios ({comentarios.length}):
+      </Text>
+
+      {comentarios.map((comentario) => {
+        const esAutor = comentario.usuario_id === usuarioId;
+        const puedeEliminar = esAutor || chefId === usuarioId;
+        const esDelChef = comentario.usuario_id === chefId;
+
+        return (
+          <View
+            key={comentario.id}
+            style={[styles.comentario, esDelChef && styles.comentarioChef]}
+          >
+            <View style={styles.cabecera}>
+              <Text style={styles.autor}>
+                {esDelChef ? "👨‍🍳 " : ""}
+                {esAutor
+                  ? "Tú"
+                  : comentario.usuario?.nombre ||
+                    comentario.usuario?.email ||
+                    "Usuario"}
+              </Text>
+              <Text style={styles.fecha}>
+                {new Date(comentario.created_at).toLocaleDateString()}
+                {comentario.updated_at ? " · editado" : ""}
+              </Text>
+            </View>
+
+            {editandoId === comentario.id ? (
+              <>
+                <TextInput
+                  style={[globalStyles.input, styles.input]}
+                  value={textoEdicion}
+                  onChangeText={setTextoEdicion}
+                  multiline
+                  autoFocus
+                />
+                <View style={styles.acciones}>
+                  <TouchableOpacity onPress={() => setEditandoId(null)}>
+                    <Text style={styles.textoAccion}>Cancelar</Text>
+                  </TouchableOpacity>
+                  <TouchableOpacity onPress={handleGuardarEdicion}>
+                    <Text style={styles.textoAccion}>Guardar</Text>
+                  </TouchableOpacity>
+                </View>
+              </>
+            ) : (
+              <>
+                <Text style={globalStyles.textPrimary}>
+                  {comentario.contenido}
+                </Text>
+                {(esAutor || puedeEliminar) && (
+                  <View style={styles.acciones}>
+                    {esAutor && (
+                      <TouchableOpacity
+                        onPress={() => handleEmpezarEdicion(comentario)}
+                      >
+                        <Text style={styles.textoAccion}>✏️ Editar</Text>
+                      </TouchableOpacity>
+                    )}
+                    {puedeEliminar && (
+                      <TouchableOpacity
+                        onPress={() => handleEliminar(comentario.id)}
+                      >
+                        <Text style={styles.textoEliminar}>🗑️ Eliminar</Text>
+                      </TouchableOpacity>
+                    )}
+                  </View>
+                )}
+              </>
+            )}
+          </View>
+        );
+      })}
+
+      {usuarioId && (
+        <View style={styles.nuevoComentario}>
+          <TextInput
+            style={[globalStyles.input, styles.input, styles.inputNuevo]}
+            placeholder="Pregunta algo al chef..."
+            value={texto}
+            onChangeText={setTexto}
+            multiline
+          />
+          <TouchableOpacity
+            style={[
+              globalStyles.button,
+              globalStyles.buttonPrimary,
+              styles.botonEnviar,
+            ]}
+            onPress={handlePublicar}
+            disabled={enviando || !texto.trim()}
+          >
+            {enviando ? (
+              <ActivityIndicator color={colors.white} />
+            ) : (
+              <Text style={globalStyles.buttonText}>Enviar</Text>
+            )}
+          </TouchableOpacity>
+        </View>
+      )}
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  comentario: {
+    backgroundColor: colors.white,
+    borderRadius: borderRadius.md,
+    borderWidth: 1,
+    borderColor: colors.borderLight,
+    padding: spacing.sm,
+    marginBottom: spacing.sm,
+  },
+  comentarioChef: {
+    borderColor: colors.primary,
+  },
+  cabecera: {
+    flexDirection: "row",
+    justifyContent: "space-between",
+    marginBottom: spacing.xs,
+  },
+  autor: {
+    fontSize: fontSize.xs,
+    fontWeight: "600",
+    color: colors.textSecondary,
+  },
+  fecha: {
+    fontSize: fontSize.xs,
+    color: colors.textTertiary,
+  },
+  acciones: {
+    flexDirection: "row",
+    justifyContent: "flex-end",
+    gap: spacing.md,
+    marginTop: spacing.xs,
+  },
+  textoAccion: {
+    fontSize: fontSize.sm,
+    color: colors.secondary,
+  },
+  textoEliminar: {
+    fontSize: fontSize.sm,
+    color: colors.danger,
+  },
+  input: {
+    marginBottom: 0,
+    textAlignVertical: "top",
+  },
+  nuevoComentario: {
+    flexDirection: "row",
+    gap: spacing.sm,
+    marginBottom: spacing.lg,
+  },
+  inputNuevo: {
+    flex: 1,
+  },
+  botonEnviar: {
+    paddingHorizontal: spacing.md,
+    justifyContent: "center",
+  },
+});
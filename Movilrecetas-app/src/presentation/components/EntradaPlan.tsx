@@ -0,0 +1,143 @@
+import React, { useEffect, useRef, useState } from "react";
+import { Animated, PanResponder, StyleSheet, Text } from "react-native";
+import { PlanComida } from "../../domain/models/PlanComida";
+import {
+  borderRadius,
+  colors,
+  fontSize,
+  shadows,
+  spacing,
+} from "../../styles/theme";
+
+// Tiempo que hay que mantener pulsado para empezar a arrastrar
+const RETARDO_ARRASTRE = 300;
+// Movimiento a partir del cual deja de ser un toque
+const TOLERANCIA_TOQUE = 8;
+
+interface Props {
+  entrada: PlanComida;
+  onPress: () => void;
+  onInicioArrastre: () => void;
+  onArrastre: (x: number, y: number) => void; // Coordenadas de pantalla
+  onSoltar: (x: number, y: number) => void;
+  onCancelarArrastre: () => void;
+}
+
+/**
+ * EntradaPlan - Receta planificada que se puede arrastrar a otro hueco
+ *
+ * - Toque corto: onPress
+ * - Mantener pulsado y arrastrar: la tarjeta sigue al dedo y al soltar
+ *   se informa la posición para que la pantalla decida el hueco destino
+ *
+ * Mientras no se arrastra, cede el gesto al ScrollView para poder
+ * desplazarse por la semana con normalidad.
+ */
+export function EntradaPlan(props: Props) {
+  const [arrastrando, setArrastrando] = useState(false);
+  const posicion = useRef(new Animated.ValueXY()).current;
+  const arrastrandoRef = useRef(false);
+  const temporizador = useRef<ReturnType<typeof setTimeout> | null>(null);
+
+  // El PanResponder se crea una vez: leer siempre las props más recientes
+  const propsRef = useRef(props);
+  propsRef.current = props;
+
+  const cancelarTemporizador = () => {
+    if (temporizador.current) {
+      clearTimeout(temporizador.current);
+      temporizador.current = null;
+    }
+  };
+
+  const terminarArrastre = () => {
+    cancelarTemporizador();
+    arrastrandoRef.current = false;
+    setArrastrando(false);
+    posicion.setValue({ x: 0, y: 0 });
+  };
+
+  const panResponder = useRef(
+    PanResponder.create({
+      onStartShouldSetPanResponder: () => true,
+      onPanResponderGrant: () => {
+        temporizador.current = setTimeout(() => {
+          arrastrandoRef.current = true;
+          setArrastrando(true);
+          propsRef.current.onInicioArrastre();
+        }, RETARDO_ARRASTRE);
+      },
+      onPanResponderMove: (_, gesto) => {
+        if (!arrastrandoRef.current) {
+          if (
+            Math.abs(gesto.dx) > TOLERANCIA_TOQUE ||
+            Math.abs(gesto.dy) > TOLERANCIA_TOQUE
+          ) {
+            cancelarTemporizador();
+          }
+          return;
+        }
+        posicion.setValue({ x: gesto.dx, y: gesto.dy });
+        propsRef.current.onArrastre(gesto.moveX, gesto.moveY);
+      },
+      // Durante el arrastre no se cede el gesto al ScrollView
+      onPanResponderTerminationRequest: () => !arrastrandoRef.current,
+      onPanResponderRelease: (_, gesto) => {
+        if (arrastrandoRef.current) {
+          propsRef.current.onSoltar(gesto.moveX, gesto.moveY);
+        } else if (
+          temporizador.current &&
+          Math.abs(gesto.dx) <= TOLERANCIA_TOQUE &&
+          Math.abs(gesto.dy) <= TOLERANCIA_TOQUE
+        ) {
+          propsRef.current.onPress();
+        }
+        terminarArrastre();
+      },
+      onPanResponderTerminate: () => {
+        if (arrastrandoRef.current) {
+          propsRef.current.onCancelarArrastre();
+        }
+        terminarArrastre();
+      },
+    })
+  ).current;
+
+  // LIMPIAR: No dejar el temporizador vivo al desmontar
+  useEffect(() => cancelarTemporizador, []);
+
+  return (
+    <Animated.View
+      {...panResponder.panHandlers}
+      style={[
+        styles.entrada,
+        arrastrando && styles.entradaArrastrando,
+        { transform: posicion.getTranslateTransform() },
+      ]}
+    >
+      <Text style={styles.titulo} numberOfLines={1}>
+        {props.entrada.receta?.titulo ?? "Receta eliminada"}
+      </Text>
+    </Animated.View>
+  );
+}
+
+const styles = StyleSheet.create({
+  entrada: {
+    backgroundColor: colors.primary,
+    borderRadius: borderRadius.md,
+    paddingVertical: spacing.xs,
+    paddingHorizontal: spacing.sm,
+    marginBottom: spacing.xs,
+  },
+  entradaArrastrando: {
+    zIndex: 10,
+    opacity: 0.9,
+    ...shadows.medium,
+  },
+  titulo: {
+    color: colors.white,
+    fontSize: fontSize.sm,
+    fontWeight: "600",
+  },
+});
@@ -0,0 +1,64 @@
+import React from "react";
+import { StyleSheet, Text, TouchableOpacity, View } from "react-native";
+import { colors } from "../../styles/theme";
+
+interface Props {
+  valor: number; // Estrellas a pintar (se redondea a la más cercana)
+  onChange?: (valor: number) => void; // Si se pasa, las estrellas se pueden tocar
+  tamano?: number;
+}
+
+const TOTAL_ESTRELLAS = 5;
+
+/**
+ * Estrellas - Fila de 5 estrellas, de solo lectura o seleccionable
+ *
+ * Solo lectura para mostrar valoraciones; con onChange sirve como
+ * selector de puntuación en el formulario de reseña.
+ */
+export function Estrellas({ valor, onChange, tamano = 16 }: Props) {
+  const llenas = Math.round(valor);
+
+  return (
+    <View style={styles.fila}>
+      {Array.from({ length: TOTAL_ESTRELLAS }, (_, i) => {
+        const estrella = (
+          <Text
+            style={[
+              { fontSize: tamano },
+              i < llenas ? styles.llena : styles.vacia,
+            ]}
+          >
+            {i < llenas ? "★" : "☆"}
+          </Text>
+        );
+
+        return onChange ? (
+          <TouchableOpacity
+            key={i}
+            onPress={() => onChange(i + 1)}
+            hitSlop={4}
+            accessibilityLabel={`${i + 1} estrellas`}
+          >
+            {estrella}
+          </TouchableOpacity>
+        ) : (
+          <View key={i}>{estrella}</View>
+        );
+      })}
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  fila: {
+    flexDirection: "row",
+    alignItems: "center",
+  },
+  llena: {
+    color: colors.warning,
+  },
+  vacia: {
+    color: colors.border,
+  },
+});
@@ -0,0 +1,137 @@
+import React, { useState } from "react";
+import {
+  StyleSheet,
+  Text,
+  TextInput,
+  TouchableOpacity,
+  View,
+} from "react-native";
+import { CATEGORIAS_RECETA } from "../../domain/models/Etiqueta";
+import {
+  formatearEtiqueta,
+  MAX_ETIQUETAS,
+  normalizarEtiqueta,
+} from "../../domain/utils/etiquetas";
+import { globalStyles } from "../../styles/globalStyles";
+import { colors, fontSize, spacing } from "../../styles/theme";
+
+interface Props {
+  etiquetas: string[];
+  onChange: (etiquetas: string[]) => void;
+}
+
+/**
+ * EtiquetasSelector - Selector de categorías de una receta
+ *
+ * Muestra las categorías predefinidas para marcarlas con un toque
+ * y permite añadir etiquetas propias ("navidad", "sin horno"...).
+ *
+ * Usado por las pantallas de crear y editar receta.
+ */
+export function EtiquetasSelector({ etiquetas, onChange }: Props) {
+  const [nueva, setNueva] = useState("");
+
+  // Predefinidas primero y después las propias, en el orden añadido
+  const opciones = [
+    ...CATEGORIAS_RECETA.map((c) => c.etiqueta),
+    ...etiquetas.filter(
+      (etiqueta) => !CATEGORIAS_RECETA.some((c) => c.etiqueta === etiqueta)
+    ),
+  ];
+  const llena = etiquetas.length >= MAX_ETIQUETAS;
+
+  const alternar = (etiqueta: string) => {
+    if (etiquetas.includes(etiqueta)) {
+      onChange(etiquetas.filter((e) => e !== etiqueta));
+    } else if (!llena) {
+      onChange([...etiquetas, etiqueta]);
+    }
+  };
+
+  const agregarNueva = () => {
+    const etiqueta = normalizarEtiqueta(nueva);
+    if (etiqueta && !etiquetas.includes(etiqueta) && !llena) {
+      onChange([...etiquetas, etiqueta]);
+    }
+    setNueva("");
+  };
+
+  return (
+    <View>
+      <Text style={globalStyles.subtitle}>Categorías:</Text>
+      <View style={styles.listaChips}>
+        {opciones.map((etiqueta) => {
+          const activa = etiquetas.includes(etiqueta);
+          return (
+            <TouchableOpacity
+              key={etiqueta}
+              style={[globalStyles.chip, !activa && styles.chipInactivo]}
+              onPress={() => alternar(etiqueta)}
+              disabled={!activa && llena}
+            >
+              <Text style={globalStyles.chipText}>
+                {formatearEtiqueta(etiqueta)}
+              </Text>
+            </TouchableOpacity>
+          );
+        })}
+      </View>
+
+      <View style={styles.contenedorNueva}>
+        <TextInput
+          style={[globalStyles.input, styles.inputNueva]}
+          placeholder="Otra etiqueta. Ej: navidad"
+          value={nueva}
+          onChangeText={setNueva}
+          onSubmitEditing={agregarNueva}
+          editable={!llena}
+          autoCapitalize="none"
+        />
+        <TouchableOpacity
+          style={[
+            globalStyles.button,
+            globalStyles.buttonPrimary,
+            styles.botonAgregar,
+          ]}
+          onPress={agregarNueva}
+          disabled={llena}
+        >
+          <Text style={globalStyles.buttonText}>+</Text>
+        </TouchableOpacity>
+      </View>
+      {llena && (
+        <Text style={styles.aviso}>Máximo {MAX_ETIQUETAS} etiquetas</Text>
+      )}
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  listaChips: {
+    flexDirection: "row",
+    flexWrap: "wrap",
+    gap: spacing.sm,
+    marginBottom: spacing.md,
+  },
+  chipInactivo: {
+    backgroundColor: colors.borderLight,
+  },
+  contenedorNueva: {
+    flexDirection: "row",
+    gap: spacing.sm,
+    marginBottom: spacing.lg,
+  },
+  inputNueva: {
+    flex: 1,
+    marginBottom: 0,
+  },
+  botonAgregar: {
+    paddingHorizontal: spacing.lg,
+  },
+  aviso: {
+    fontSize: fontSize.xs,
+    color: colors.textTertiary,
+    marginTop: -spacing.md,
+    marginBottom: spacing.lg,
+  },
+});
@@ -0,0 +1,106 @@
+import React from "react";
+import {
+  ActivityIndicator,
+  Modal,
+  StyleSheet,
+  Text,
+  TouchableOpacity,
+  View,
+} from "react-native";
+import {
+  ETIQUETAS_FORMATO,
+  FORMATOS_EXPORTACION,
+  FormatoExportacion,
+} from "../../domain/models/Exportacion";
+import { globalStyles } from "../../styles/globalStyles";
+import { borderRadius, colors, fontSize, spacing } from "../../styles/theme";
+
+interface Props {
+  visible: boolean;
+  titulo: string; // Qué se exporta (ej: "Tortilla de patatas")
+  exportando: boolean;
+  onElegir: (formato: FormatoExportacion) => void;
+  onCerrar: () => void;
+}
+
+/**
+ * ExportarSheet - Hoja inferior para elegir el formato de exportación
+ */
+export function ExportarSheet({
+  visible,
+  titulo,
+  exportando,
+  onElegir,
+  onCerrar,
+}: Props) {
+  return (
+    <Modal
+      visible={visible}
+      transparent
+      animationType="slide"
+      onRequestClose={onCerrar}
+    >
+      <View style={styles.fondo}>
+        <View style={styles.hoja}>
+          <Text style={globalStyles.subtitle}>📤 Exportar</Text>
+          <Text style={styles.ayuda} numberOfLines={2}>
+            {titulo}
+          </Text>
+
+          {exportando ? (
+            <ActivityIndicator color={colors.primary} style={styles.carga} />
+          ) : (
+            FORMATOS_EXPORTACION.map((formato) => (
+              <TouchableOpacity
+                key={formato}
+                style={styles.opcion}
+                onPress={() => onElegir(formato)}
+              >
+                <Text style={globalStyles.textPrimary}>
+                  {ETIQUETAS_FORMATO[formato]}
+                </Text>
+              </TouchableOpacity>
+            ))
+          )}
+
+          <TouchableOpacity onPress={onCerrar}>
+            <Text style={styles.textoCancelar}>Cancelar</Text>
+          </TouchableOpacity>
+        </View>
+      </View>
+    </Modal>
+  );
+}
+
+const styles = StyleSheet.create({
+  fondo: {
+    flex: 1,
+    justifyContent: "flex-end",
+    backgroundColor: "rgba(0, 0, 0, 0.4)",
+  },
+  hoja: {
+    backgroundColor: colors.white,
+    borderTopLeftRadius: borderRadius.xl,
+    borderTopRightRadius: borderRadius.xl,
+    padding: spacing.lg,
+  },
+  ayuda: {
+    fontSize: fontSize.sm,
+    color: colors.textSecondary,
+    marginBottom: spacing.sm,
+  },
+  opcion: {
+    paddingVertical: spacing.md,
+    borderBottomWidth: 1,
+    borderBottomColor: colors.borderLight,
+  },
+  carga: {
+    marginVertical: spacing.lg,
+  },
+  textoCancelar: {
+    textAlign: "center",
+    color: colors.textSecondary,
+    fontSize: fontSize.md,
+    marginTop: spacing.md,
+  },
+});
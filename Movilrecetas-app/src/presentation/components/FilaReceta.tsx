@@ -0,0 +1,78 @@
+import React from "react";
+import { Image, StyleSheet, Text, TouchableOpacity, View } from "react-native";
+import { Receta } from "../../domain/models/Receta";
+import { globalStyles } from "../../styles/globalStyles";
+import { borderRadius, colors, fontSize, spacing } from "../../styles/theme";
+
+// Alto fijo de cada fila (incluido el margen): permite usar getItemLayout
+export const ALTO_FILA_RECETA = 96;
+
+interface Props {
+  receta: Receta;
+  onPress: () => void;
+  accion?: React.ReactNode; // Botón a la derecha (favorito, quitar...)
+}
+
+/**
+ * FilaReceta - Fila compacta de receta para listas largas
+ * (favoritos, colecciones)
+ */
+export function FilaReceta({ receta, onPress, accion }: Props) {
+  return (
+    <TouchableOpacity style={styles.fila} onPress={onPress}>
+      {receta.imagen_url ? (
+        <Image source={{ uri: receta.imagen_url }} style={styles.imagen} />
+      ) : (
+        <View style={[styles.imagen, styles.imagenPlaceholder]}>
+          <Text style={styles.iconoPlaceholder}>🍽️</Text>
+        </View>
+      )}
+
+      <View style={styles.infoReceta}>
+        <Text style={styles.tituloReceta} numberOfLines={1}>
+          {receta.titulo}
+        </Text>
+        <Text style={globalStyles.textSecondary} numberOfLines={2}>
+          {receta.descripcion}
+        </Text>
+      </View>
+
+      {accion}
+    </TouchableOpacity>
+  );
+}
+
+const styles = StyleSheet.create({
+  fila: {
+    height: ALTO_FILA_RECETA - spacing.sm,
+    marginBottom: spacing.sm,
+    flexDirection: "row",
+    alignItems: "center",
+    gap: spacing.md,
+    backgroundColor: colors.white,
+    borderRadius: borderRadius.lg,
+    padding: spacing.sm,
+  },
+  imagen: {
+    width: 72,
+    height: 72,
+    borderRadius: borderRadius.md,
+  },
+  imagenPlaceholder: {
+    backgroundColor: colors.borderLight,
+    justifyContent: "center",
+    alignItems: "center",
+  },
+  iconoPlaceholder: {
+    fontSize: fontSize.xl,
+  },
+  infoReceta: {
+    flex: 1,
+  },
+  tituloReceta: {
+    fontSize: fontSize.md,
+    fontWeight: "bold",
+    color: colors.textPrimary,
+    marginBottom: spacing.xs,
+  },
+});
@@ -0,0 +1,78 @@
+import React from "react";
+import { ScrollView, StyleSheet, Text, TouchableOpacity } from "react-native";
+import { EtiquetaEnUso } from "../../domain/models/Etiqueta";
+import { formatearEtiqueta } from "../../domain/utils/etiquetas";
+import { globalStyles } from "../../styles/globalStyles";
+import { colors, spacing } from "../../styles/theme";
+
+interface Props {
+  categorias: EtiquetaEnUso[];
+  seleccionada: string | null;
+  onSeleccionar: (etiqueta: string | null) => void;
+}
+
+/**
+ * FiltroCategorias - Fila horizontal de chips para filtrar el feed
+ * por categoría
+ *
+ * Tocar la categoría activa (o "Todas") quita el filtro.
+ */
+export function FiltroCategorias({
+  categorias,
+  seleccionada,
+  onSeleccionar,
+}: Props) {
+  // La categoría elegida se muestra aunque ya no tenga recetas
+  const etiquetas = categorias.map((c) => c.etiqueta);
+  if (seleccionada && !etiquetas.includes(seleccionada)) {
+    etiquetas.unshift(seleccionada);
+  }
+
+  if (etiquetas.length === 0) return null;
+
+  return (
+    <ScrollView
+      horizontal
+      showsHorizontalScrollIndicator={false}
+      style={styles.contenedor}
+      contentContainerStyle={styles.listaChips}
+    >
+      <TouchableOpacity
+        style={[globalStyles.chip, seleccionada !== null && styles.inactivo]}
+        onPress={() => onSeleccionar(null)}
+      >
+        <Text style={globalStyles.chipText}>Todas</Text>
+      </TouchableOpacity>
+      {etiquetas.map((etiqueta) => (
+        <TouchableOpacity
+          key={etiqueta}
+          style={[
+            globalStyles.chip,
+            seleccionada !== etiqueta && styles.inactivo,
+          ]}
+          onPress={() =>
+            onSeleccionar(seleccionada === etiqueta ? null : etiqueta)
+          }
+        >
+          <Text style={globalStyles.chipText}>
+            {formatearEtiqueta(etiqueta)}
+          </Text>
+        </TouchableOpacity>
+      ))}
+    </ScrollView>
+  );
+}
+
+const styles = StyleSheet.create({
+  contenedor: {
+    flexGrow: 0,
+  },
+  listaChips: {
+    gap: spacing.sm,
+    paddingHorizontal: spacing.md,
+    paddingBottom: spacing.sm,
+  },
+  inactivo: {
+    backgroundColor: colors.borderLight,
+  },
+});
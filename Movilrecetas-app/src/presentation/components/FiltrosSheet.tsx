@@ -0,0 +1,278 @@
+import React, { useEffect, useState } from "react";
+import {
+  Modal,
+  ScrollView,
+  StyleSheet,
+  Switch,
+  Text,
+  TouchableOpacity,
+  View,
+} from "react-native";
+import {
+  ETIQUETAS_ORDEN,
+  OPCIONES_LISTADO_POR_DEFECTO,
+  OpcionesListado,
+  OrdenRecetas,
+} from "../../domain/models/OpcionesListado";
+import {
+  DIFICULTADES,
+  ETIQUETAS_DIFICULTAD,
+} from "../../domain/models/Preparacion";
+import { Usuario } from "../../domain/models/Usuario";
+import {
+  formatearDuracion,
+  OPCIONES_TIEMPO_MAXIMO,
+} from "../../domain/utils/tiempos";
+import { globalStyles } from "../../styles/globalStyles";
+import { borderRadius, colors, fontSize, spacing } from "../../styles/theme";
+
+interface Props {
+  visible: boolean;
+  opciones: OpcionesListado;
+  chefs: Usuario[];
+  mostrarSoloMias: boolean; // Solo tiene sentido para chefs
+  onAplicar: (opciones: OpcionesListado) => void;
+  onCerrar: () => void;
+}
+
+/**
+ * FiltrosSheet - Hoja inferior con orden y filtros del feed
+ *
+ * Trabaja sobre una copia de las opciones: los cambios solo se
+ * aplican (y se guardan) al pulsar "Aplicar".
+ */
+export function FiltrosSheet({
+  visible,
+  opciones,
+  chefs,
+  mostrarSoloMias,
+  onAplicar,
+  onCerrar,
+}: Props) {
+  const [borrador, setBorrador] = useState<OpcionesListado>(opciones);
+
+  // Al abrir, partir de las opciones actuales
+  useEffect(() => {
+    if (visible) {
+      setBorrador(opciones);
+    }
+  }, [visible, opciones]);
+
+  const actualizar = (cambios: Partial<OpcionesListado>) => {
+    setBorrador({ ...borrador, ...cambios });
+  };
+
+  return (
+    <Modal
+      visible={visible}
+      transparent
+      animationType="slide"
+      onRequestClose={onCerrar}
+    >
+      <View style={styles.fondo}>
+        <View style={styles.hoja}>
+          <ScrollView>
+            <Text style={globalStyles.subtitle}>Ordenar por</Text>
+            <View style={styles.listaChips}>
+              {(Object.keys(ETIQUETAS_ORDEN) as OrdenRecetas[]).map((orden) => (
+                <TouchableOpacity
+                  key={orden}
+                  style={[
+                    globalStyles.chip,
+                    borrador.orden !== orden && styles.chipInactivo,
+                  ]}
+                  onPress={() => actualizar({ orden })}
+                >
+                  <Text style={globalStyles.chipText}>
+                    {ETIQUETAS_ORDEN[orden]}
+                  </Text>
+                </TouchableOpacity>
+              ))}
+            </View>
+
+            <Text style={globalStyles.subtitle}>Filtros</Text>
+            {mostrarSoloMias && (
+              <View style={styles.filaSwitch}>
+                <Text style={globalStyles.textPrimary}>Solo mis recetas</Text>
+                <Switch
+                  value={borrador.soloMias}
+                  onValueChange={(soloMias) => actualizar({ soloMias })}
+                  trackColor={{ true: colors.primary }}
+                />
+              </View>
+            )}
+            <View style={styles.filaSwitch}>
+              <Text style={globalStyles.textPrimary}>Solo con imagen</Text>
+              <Switch
+                value={borrador.conImagen}
+                onValueChange={(conImagen) => actualizar({ conImagen })}
+                trackColor={{ true: colors.primary }}
+              />
+            </View>
+
+            <Text style={globalStyles.subtitle}>Tiempo total</Text>
+            <View style={styles.listaChips}>
+              <TouchableOpacity
+                style={[
+                  globalStyles.chip,
+                  borrador.tiempoMaximo !== null && styles.chipInactivo,
+                ]}
+                onPress={() => actualizar({ tiempoMaximo: null })}
+              >
+                <Text style={globalStyles.chipText}>Cualquiera</Text>
+              </TouchableOpacity>
+              {OPCIONES_TIEMPO_MAXIMO.map((minutos) => (
+                <TouchableOpacity
+                  key={minutos}
+                  style={[
+                    globalStyles.chip,
+                    borrador.tiempoMaximo !== minutos && styles.chipInactivo,
+                  ]}
+                  onPress={() => actualizar({ tiempoMaximo: minutos })}
+                >
+                  <Text style={globalStyles.chipText}>
+                    ≤ {formatearDuracion(minutos)}
+                  </Text>
+                </TouchableOpacity>
+              ))}
+            </View>
+
+            <Text style={globalStyles.subtitle}>Dificultad</Text>
+            <View style={styles.listaChips}>
+              <TouchableOpacity
+                style={[
+                  globalStyles.chip,
+                  borrador.dificultad !== null && styles.chipInactivo,
+                ]}
+                onPress={() => actualizar({ dificultad: null })}
+              >
+                <Text style={globalStyles.chipText}>Cualquiera</Text>
+              </TouchableOpacity>
+              {DIFICULTADES.map((dificultad) => (
+                <TouchableOpacity
+                  key={dificultad}
+                  style={[
+                    globalStyles.chip,
+                    borrador.dificultad !== dificultad && styles.chipInactivo,
+                  ]}
+                  onPress={() => actualizar({ dificultad })}
+                >
+                  <Text style={globalStyles.chipText}>
+                    {ETIQUETAS_DIFICULTAD[dificultad]}
+                  </Text>
+                </TouchableOpacity>
+              ))}
+            </View>
+
+            {chefs.length > 0 && (
+              <>
+                <Text style={globalStyles.subtitle}>Chef</Text>
+                <View style={styles.listaChips}>
+                  <TouchableOpacity
+                    style={[
+                      globalStyles.chip,
+                      borrador.chefId !== null && styles.chipInactivo,
+                    ]}
+                    onPress={() => actualizar({ chefId: null })}
+                  >
+                    <Text style={globalStyles.chipText}>Todos</Text>
+                  </TouchableOpacity>
+                  {chefs.map((chef) => (
+                    <TouchableOpacity
+                      key={chef.id}
+                      style={[
+                        globalStyles.chip,
+                        borrador.chefId !== chef.id && styles.chipInactivo,
+                      ]}
+                      onPress={() => actualizar({ chefId: chef.id })}
+                    >
+                      <Text style={globalStyles.chipText}>
+                        {chef.nombre || chef.email}
+                      </Text>
+                    </TouchableOpacity>
+                  ))}
+                </View>
+              </>
+            )}
+          </ScrollView>
+
+          <View style={styles.botones}>
+            <TouchableOpacity
+              style={[
+                globalStyles.button,
+                globalStyles.buttonSecondary,
+                styles.boton,
+              ]}
+              onPress={() =>
+                // La categoría se elige con los chips del feed, no aquí
+                setBorrador({
+                  ...OPCIONES_LISTADO_POR_DEFECTO,
+                  etiqueta: borrador.etiqueta,
+                })
+              }
+            >
+              <Text style={globalStyles.buttonText}>Restablecer</Text>
+            </TouchableOpacity>
+            <TouchableOpacity
+              style={[
+                globalStyles.button,
+                globalStyles.buttonPrimary,
+                styles.boton,
+              ]}
+              onPress={() => onAplicar(borrador)}
+            >
+              <Text style={globalStyles.buttonText}>Aplicar</Text>
+            </TouchableOpacity>
+          </View>
+          <TouchableOpacity onPress={onCerrar}>
+            <Text style={styles.textoCancelar}>Cancelar</Text>
+          </TouchableOpacity>
+        </View>
+      </View>
+    </Modal>
+  );
+}
+
+const styles = StyleSheet.create({
+  fondo: {
+    flex: 1,
+    justifyContent: "flex-end",
+    backgroundColor: "rgba(0, 0, 0, 0.4)",
+  },
+  hoja: {
+    maxHeight: "80%",
+    backgroundColor: colors.white,
+    borderTopLeftRadius: borderRadius.xl,
+    borderTopRightRadius: borderRadius.xl,
+    padding: spacing.lg,
+  },
+  listaChips: {
+    flexDirection: "row",
+    flexWrap: "wrap",
+    gap: spacing.sm,
+    marginBottom: spacing.lg,
+  },
+  chipInactivo: {
+    backgroundColor: colors.borderLight,
+  },
+  filaSwitch: {
+    flexDirection: "row",
+    justifyContent: "space-between",
+    alignItems: "center",
+    marginBottom: spacing.md,
+  },
+  botones: {
+    flexDirection: "row",
+    gap: spacing.sm,
+    marginTop: spacing.md,
+  },
+  boton: {
+    flex: 1,
+  },
+  textoCancelar: {
+    textAlign: "center",
+    color: colors.textSecondary,
+    fontSize: fontSize.md,
+    marginTop: spacing.md,
+  },
+});
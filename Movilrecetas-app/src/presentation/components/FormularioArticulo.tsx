@@ -0,0 +1,209 @@
+import React, { useEffect, useState } from "react";
+import {
+  Modal,
+  StyleSheet,
+  Text,
+  TextInput,
+  TouchableOpacity,
+  View,
+} from "react-native";
+import { ArticuloDespensa } from "../../domain/models/Despensa";
+import { DatosArticulo } from "../../domain/useCases/pantry/PantryUseCase";
+import { aFechaISO, formatearDia, sumarDias } from "../../domain/utils/fechas";
+import { globalStyles } from "../../styles/globalStyles";
+import { borderRadius, colors, fontSize, spacing } from "../../styles/theme";
+
+interface Props {
+  visible: boolean;
+  articulo: ArticuloDespensa | null; // null = artículo nuevo
+  onGuardar: (datos: DatosArticulo) => Promise<boolean>;
+  onCerrar: () => void;
+}
+
+// Atajos de caducidad (días desde hoy)
+const ATAJOS_CADUCIDAD = [
+  { etiqueta: "Hoy", dias: 0 },
+  { etiqueta: "+3 días", dias: 3 },
+  { etiqueta: "+1 semana", dias: 7 },
+  { etiqueta: "+1 mes", dias: 30 },
+];
+
+/**
+ * FormularioArticulo - Hoja inferior para añadir o editar un artículo
+ * de la despensa
+ *
+ * La caducidad se escribe como AAAA-MM-DD o se elige con un atajo;
+ * vacía significa que el artículo no caduca.
+ */
+export function FormularioArticulo({
+  visible,
+  articulo,
+  onGuardar,
+  onCerrar,
+}: Props) {
+  const [nombre, setNombre] = useState("");
+  const [cantidad, setCantidad] = useState("");
+  const [unidad, setUnidad] = useState("");
+  const [caducaEl, setCaducaEl] = useState("");
+  const [guardando, setGuardando] = useState(false);
+
+  // Al abrir, partir del artículo que se edita (o vacío)
+  useEffect(() => {
+    if (visible) {
+      setNombre(articulo?.nombre ?? "");
+      setCantidad(articulo?.cantidad ? String(articulo.cantidad) : "");
+      setUnidad(articulo?.unidad ?? "");
+      setCaducaEl(articulo?.caduca_el ?? "");
+    }
+  }, [visible, articulo]);
+
+  const handleGuardar = async () => {
+    const numero = parseFloat(cantidad.replace(",", "."));
+    setGuardando(true);
+    const guardado = await onGuardar({
+      nombre,
+      cantidad: cantidad.trim() ? numero : null,
+      unidad,
+      caduca_el: caducaEl.trim(),
+    });
+    setGuardando(false);
+    if (guardado) onCerrar();
+  };
+
+  const hoy = aFechaISO(new Date());
+
+  return (
+    <Modal
+      visible={visible}
+      transparent
+      animationType="slide"
+      onRequestClose={onCerrar}
+    >
+      <View style={styles.fondo}>
+        <View style={styles.hoja}>
+          <Text style={globalStyles.subtitle}>
+            {articulo ? "Editar artículo" : "Añadir a la despensa"}
+          </Text>
+
+          <TextInput
+            style={globalStyles.input}
+            placeholder="Ingrediente. Ej: leche"
+            value={nombre}
+            onChangeText={setNombre}
+          />
+          <View style={styles.fila}>
+            <TextInput
+              style={[globalStyles.input, styles.campo]}
+              placeholder="Cantidad"
+              value={cantidad}
+              onChangeText={setCantidad}
+              keyboardType="decimal-pad"
+            />
+            <TextInput
+              style={[globalStyles.input, styles.campo]}
+              placeholder="Unidad (g, ml...)"
+              value={unidad}
+              onChangeText={setUnidad}
+              autoCapitalize="none"
+            />
+          </View>
+
+          <Text style={styles.etiqueta}>Caduca el</Text>
+          <TextInput
+            style={globalStyles.input}
+            placeholder="AAAA-MM-DD (vacío si no caduca)"
+            value={caducaEl}
+            onChangeText={setCaducaEl}
+            keyboardType="numbers-and-punctuation"
+          />
+          <View style={styles.atajos}>
+            {ATAJOS_CADUCIDAD.map((atajo) => {
+              const fecha = sumarDias(hoy, atajo.dias);
+              return (
+                <TouchableOpacity
+                  key={atajo.etiqueta}
+                  style={[
+                    globalStyles.chip,
+                    caducaEl !== fecha && styles.chipInactivo,
+                  ]}
+                  onPress={() => setCaducaEl(fecha)}
+                >
+                  <Text style={globalStyles.chipText}>{atajo.etiqueta}</Text>
+                </TouchableOpacity>
+              );
+            })}
+            <TouchableOpacity
+              style={[globalStyles.chip, !!caducaEl && styles.chipInactivo]}
+              onPress={() => setCaducaEl("")}
+            >
+              <Text style={globalStyles.chipText}>No caduca</Text>
+            </TouchableOpacity>
+          </View>
+          {/^\d{4}-\d{2}-\d{2}$/.test(caducaEl) && (
+            <Text style={styles.fechaElegida}>📅 {formatearDia(caducaEl)}</Text>
+          )}
+
+          <TouchableOpacity
+            style={[globalStyles.button, globalStyles.buttonPrimary]}
+            onPress={handleGuardar}
+            disabled={guardando}
+          >
+            <Text style={globalStyles.buttonText}>
+              {guardando ? "Guardando..." : "Guardar"}
+            </Text>
+          </TouchableOpacity>
+          <TouchableOpacity onPress={onCerrar}>
+            <Text style={styles.textoCancelar}>Cancelar</Text>
+          </TouchableOpacity>
+        </View>
+      </View>
+    </Modal>
+  );
+}
+
+const styles = StyleSheet.create({
+  fondo: {
+    flex: 1,
+    justifyContent: "flex-end",
+    backgroundColor: "rgba(0, 0, 0, 0.4)",
+  },
+  hoja: {
+    maxHeight: "90%",
+    backgroundColor: colors.white,
+    borderTopLeftRadius: borderRadius.xl,
+    borderTopRightRadius: borderRadius.xl,
+    padding: spacing.lg,
+  },
+  fila: {
+    flexDirection: "row",
+    gap: spacing.sm,
+  },
+  campo: {
+    flex: 1,
+  },
+  etiqueta: {
+    fontSize: fontSize.sm,
+    color: colors.textSecondary,
+    marginBottom: spacing.xs,
+  },
+  atajos: {
+    flexDirection: "row",
+    flexWrap: "wrap",
+    gap: spacing.sm,
+    marginBottom: spacing.md,
+  },
+  chipInactivo: {
+    backgroundColor: colors.borderLight,
+  },
+  fechaElegida: {
+    fontSize: fontSize.sm,
+    color: colors.textSecondary,
+    marginBottom: spacing.md,
+  },
+  textoCancelar: {
+    textAlign: "center",
+    color: colors.textSecondary,
+    fontSize: fontSize.md,
+    marginTop: spacing.md,
+  },
+});
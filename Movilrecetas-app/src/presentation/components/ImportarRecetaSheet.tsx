@@ -0,0 +1,107 @@
+import React, { useEffect, useState } from "react";
+import {
+  Modal,
+  StyleSheet,
+  Text,
+  TextInput,
+  TouchableOpacity,
+  View,
+} from "react-native";
+import { globalStyles } from "../../styles/globalStyles";
+import { borderRadius, colors, fontSize, spacing } from "../../styles/theme";
+
+interface Props {
+  visible: boolean;
+  onImportar: (texto: string) => boolean; // true si se pudo importar
+  onCerrar: () => void;
+}
+
+/**
+ * ImportarRecetaSheet - Hoja inferior para pegar una receta de un blog
+ *
+ * Acepta el HTML de la página (se busca el JSON-LD dentro) o el
+ * JSON-LD directamente. El resultado se revisa en el formulario.
+ */
+export function ImportarRecetaSheet({ visible, onImportar, onCerrar }: Props) {
+  const [texto, setTexto] = useState("");
+
+  // Al abrir, empezar con el campo vacío
+  useEffect(() => {
+    if (visible) setTexto("");
+  }, [visible]);
+
+  const handleImportar = () => {
+    if (onImportar(texto)) onCerrar();
+  };
+
+  return (
+    <Modal
+      visible={visible}
+      transparent
+      animationType="slide"
+      onRequestClose={onCerrar}
+    >
+      <View style={styles.fondo}>
+        <View style={styles.hoja}>
+          <Text style={globalStyles.subtitle}>📥 Importar receta</Text>
+          <Text style={styles.ayuda}>
+            Pega el código HTML de la página de tu blog o su bloque JSON-LD
+            (schema.org Recipe). Podrás revisar todo antes de publicar.
+          </Text>
+
+          <TextInput
+            style={[globalStyles.input, styles.campo]}
+            placeholder='<script type="application/ld+json">...'
+            value={texto}
+            onChangeText={setTexto}
+            multiline
+            autoCapitalize="none"
+            autoCorrect={false}
+          />
+
+          <TouchableOpacity
+            style={[globalStyles.button, globalStyles.buttonPrimary]}
+            onPress={handleImportar}
+          >
+            <Text style={globalStyles.buttonText}>Importar</Text>
+          </TouchableOpacity>
+          <TouchableOpacity onPress={onCerrar}>
+            <Text style={styles.textoCancelar}>Cancelar</Text>
+          </TouchableOpacity>
+        </View>
+      </View>
+    </Modal>
+  );
+}
+
+const styles = StyleSheet.create({
+  fondo: {
+    flex: 1,
+    justifyContent: "flex-end",
+    backgroundColor: "rgba(0, 0, 0, 0.4)",
+  },
+  hoja: {
+    maxHeight: "90%",
+    backgroundColor: colors.white,
+    borderTopLeftRadius: borderRadius.xl,
+    borderTopRightRadius: borderRadius.xl,
+    padding: spacing.lg,
+  },
+  ayuda: {
+    fontSize: fontSize.sm,
+    color: colors.textSecondary,
+    marginBottom: spacing.sm,
+  },
+  campo: {
+    height: 200,
+    textAlignVertical: "top",
+    fontFamily: "monospace",
+    fontSize: fontSize.xs,
+  },
+  textoCancelar: {
+    textAlign: "center",
+    color: colors.textSecondary,
+    fontSize: fontSize.md,
+    marginTop: spacing.md,
+  },
+});
@@ -0,0 +1,66 @@
+import React from "react";
+import { StyleSheet, Text, View } from "react-native";
+import { ETIQUETAS_DIFICULTAD } from "../../domain/models/Preparacion";
+import { Receta } from "../../domain/models/Receta";
+import { formatearDuracion } from "../../domain/utils/tiempos";
+import { borderRadius, colors, fontSize, spacing } from "../../styles/theme";
+
+interface Props {
+  receta: Receta;
+  detallado?: boolean; // Desglosa preparación y cocción (detalle)
+}
+
+/**
+ * InfoPreparacion - Insignias de tiempo y dificultad
+ * Ej: ⏱️ 45 min  🟢 Fácil
+ *
+ * No muestra nada si la receta no tiene ni tiempos ni dificultad.
+ */
+export function InfoPreparacion({ receta, detallado = false }: Props) {
+  const insignias: string[] = [];
+
+  if (receta.tiempo_total !== null) {
+    insignias.push(`⏱️ ${formatearDuracion(receta.tiempo_total)}`);
+  }
+  if (detallado && receta.tiempo_preparacion) {
+    insignias.push(
+      `🔪 ${formatearDuracion(receta.tiempo_preparacion)} preparación`
+    );
+  }
+  if (detallado && receta.tiempo_coccion) {
+    insignias.push(`🔥 ${formatearDuracion(receta.tiempo_coccion)} cocción`);
+  }
+  if (receta.dificultad) {
+    insignias.push(ETIQUETAS_DIFICULTAD[receta.dificultad]);
+  }
+
+  if (insignias.length === 0) return null;
+
+  return (
+    <View style={styles.fila}>
+      {insignias.map((texto) => (
+        <Text key={texto} style={styles.insignia}>
+          {texto}
+        </Text>
+      ))}
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  fila: {
+    flexDirection: "row",
+    flexWrap: "wrap",
+    gap: spacing.xs,
+  },
+  insignia: {
+    fontSize: fontSize.xs,
+    color: colors.textSecondary,
+    fontWeight: "600",
+    backgroundColor: colors.borderLight,
+    borderRadius: borderRadius.round,
+    paddingHorizontal: spacing.sm,
+    paddingVertical: 2,
+    overflow: "hidden",
+  },
+});
@@ -0,0 +1,142 @@
+import React, { useState } from "react";
+import {
+  StyleSheet,
+  Text,
+  TextInput,
+  TouchableOpacity,
+  View,
+} from "react-native";
+import { Ingrediente } from "../../domain/models/Ingrediente";
+import {
+  formatearCantidad,
+  formatearIngrediente,
+  parsearIngrediente,
+} from "../../domain/utils/ingredientes";
+import { globalStyles } from "../../styles/globalStyles";
+import { colors, fontSize, spacing } from "../../styles/theme";
+
+interface Props {
+  ingredientes: Ingrediente[];
+  onChange: (ingredientes: Ingrediente[]) => void;
+}
+
+/**
+ * IngredientesEditor - Editor de ingredientes estructurados
+ *
+ * El chef escribe texto libre ("200 g de harina, tamizada") y el editor
+ * lo convierte en un Ingrediente, mostrando una vista previa de cómo
+ * se interpretó. Tocar un ingrediente lo devuelve al campo para editarlo.
+ *
+ * Usado por las pantallas de crear y editar receta.
+ */
+export function IngredientesEditor({ ingredientes, onChange }: Props) {
+  const [texto, setTexto] = useState("");
+
+  const vistaPrevia = texto.trim() ? parsearIngrediente(texto) : null;
+
+  const agregarIngrediente = () => {
+    if (vistaPrevia) {
+      onChange([...ingredientes, vistaPrevia]);
+      setTexto("");
+    }
+  };
+
+  const quitarIngrediente = (index: number) => {
+    onChange(ingredientes.filter((_, i) => i !== index));
+  };
+
+  const editarIngrediente = (index: number) => {
+    setTexto(formatearIngrediente(ingredientes[index]));
+    quitarIngrediente(index);
+  };
+
+  return (
+    <View>
+      <Text style={globalStyles.subtitle}>Ingredientes:</Text>
+      <View style={styles.contenedorIngrediente}>
+        <TextInput
+          style={[globalStyles.input, styles.inputIngrediente]}
+          placeholder="Ej: 200 g de harina, tamizada"
+          value={texto}
+          onChangeText={setTexto}
+          onSubmitEditing={agregarIngrediente}
+        />
+        <TouchableOpacity
+          style={[
+            globalStyles.button,
+            globalStyles.buttonPrimary,
+            styles.botonAgregar,
+          ]}
+          onPress={agregarIngrediente}
+        >
+          <Text style={styles.textoAgregar}>+</Text>
+        </TouchableOpacity>
+      </View>
+
+      {/* Cómo se interpretó el texto escrito */}
+      {vistaPrevia && (
+        <Text style={styles.vistaPrevia}>
+          {vistaPrevia.cantidad !== undefined &&
+            `Cantidad: ${formatearCantidad(vistaPrevia.cantidad)} · `}
+          {vistaPrevia.unidad && `Unidad: ${vistaPrevia.unidad} · `}
+          {`Ingrediente: ${vistaPrevia.nombre}`}
+          {vistaPrevia.nota && ` · Nota: ${vistaPrevia.nota}`}
+        </Text>
+      )}
+
+      <View style={styles.listaIngredientes}>
+        {ingredientes.map((ing, index) => (
+          <View key={index} style={globalStyles.chip}>
+            <TouchableOpacity onPress={() => editarIngrediente(index)}>
+              <Text style={globalStyles.chipText}>
+                {formatearIngrediente(ing)}
+              </Text>
+            </TouchableOpacity>
+            <TouchableOpacity onPress={() => quitarIngrediente(index)}>
+              <Text style={styles.textoEliminar}>×</Text>
+            </TouchableOpacity>
+          </View>
+        ))}
+      </View>
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  contenedorIngrediente: {
+    flexDirection: "row",
+    gap: spacing.sm,
+    marginBottom: spacing.sm,
+  },
+  inputIngrediente: {
+    flex: 1,
+    marginBottom: 0,
+  },
+  botonAgregar: {
+    width: 50,
+    justifyContent: "center",
+    alignItems: "center",
+  },
+  textoAgregar: {
+    color: colors.white,
+    fontSize: fontSize.xl,
+    fontWeight: "bold",
+  },
+  vistaPrevia: {
+    fontSize: fontSize.xs,
+    color: colors.textSecondary,
+    marginBottom: spacing.md,
+  },
+  listaIngredientes: {
+    flexDirection: "row",
+    flexWrap: "wrap",
+    gap: spacing.sm,
+    marginTop: spacing.sm,
+    marginBottom: spacing.lg,
+  },
+  textoEliminar: {
+    color: colors.primary,
+    fontSize: fontSize.lg,
+    fontWeight: "bold",
+  },
+});
@@ -0,0 +1,92 @@
+import React from "react";
+import { StyleSheet, Text, View } from "react-native";
+import { EstimacionNutricional } from "../../domain/models/Nutricion";
+import { globalStyles } from "../../styles/globalStyles";
+import { borderRadius, colors, fontSize, spacing } from "../../styles/theme";
+
+interface Props {
+  estimacion: EstimacionNutricional;
+}
+
+/**
+ * PanelNutricional - Calorías y macronutrientes por porción
+ * en el detalle de la receta
+ *
+ * Indica qué ingredientes no entran en el cálculo para que quede
+ * claro que es una estimación. No muestra nada si ningún ingrediente
+ * aporta datos.
+ */
+export function PanelNutricional({ estimacion }: Props) {
+  const { porPorcion, total, porciones, noIncluidos } = estimacion;
+  if (total.calorias === 0) return null;
+
+  const valores = [
+    { etiqueta: "kcal", valor: porPorcion.calorias },
+    { etiqueta: "Proteínas", valor: `${porPorcion.proteinas} g` },
+    { etiqueta: "Grasas", valor: `${porPorcion.grasas} g` },
+    { etiqueta: "Hidratos", valor: `${porPorcion.carbohidratos} g` },
+  ];
+
+  return (
+    <>
+      <Text style={globalStyles.subtitle}>Información nutricional:</Text>
+      <View style={[globalStyles.card, styles.contenedor]}>
+        <Text style={styles.titulo}>Por porción</Text>
+        <View style={styles.fila}>
+          {valores.map(({ etiqueta, valor }) => (
+            <View key={etiqueta} style={styles.celda}>
+              <Text style={styles.valor}>{valor}</Text>
+              <Text style={globalStyles.textSecondary}>{etiqueta}</Text>
+            </View>
+          ))}
+        </View>
+        <Text style={styles.nota}>
+          Total para {porciones} {porciones === 1 ? "porción" : "porciones"}:{" "}
+          {total.calorias} kcal
+        </Text>
+        {noIncluidos.length > 0 && (
+          <Text style={styles.nota}>
+            Sin contar: {noIncluidos.join(", ")} (sin cantidad o sin datos)
+          </Text>
+        )}
+        <Text style={styles.nota}>
+          Valores aproximados calculados con una tabla de referencia
+        </Text>
+      </View>
+    </>
+  );
+}
+
+const styles = StyleSheet.create({
+  contenedor: {
+    marginBottom: spacing.md,
+  },
+  titulo: {
+    fontSize: fontSize.sm,
+    fontWeight: "bold",
+    color: colors.primary,
+    marginBottom: spacing.sm,
+  },
+  fila: {
+    flexDirection: "row",
+    gap: spacing.sm,
+    marginBottom: spacing.sm,
+  },
+  celda: {
+    flex: 1,
+    alignItems: "center",
+    backgroundColor: colors.background,
+    borderRadius: borderRadius.md,
+    paddingVertical: spacing.sm,
+  },
+  valor: {
+    fontSize: fontSize.lg,
+    fontWeight: "bold",
+    color: colors.textPrimary,
+  },
+  nota: {
+    fontSize: fontSize.xs,
+    color: colors.textTertiary,
+    marginTop: spacing.xs,
+  },
+});
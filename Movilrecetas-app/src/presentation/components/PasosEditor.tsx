@@ -0,0 +1,284 @@
+import React, { useState } from "react";
+import {
+  Alert,
+  AlertButton,
+  Image,
+  StyleSheet,
+  Text,
+  TextInput,
+  TouchableOpacity,
+  View,
+} from "react-native";
+import { Paso } from "../../domain/models/Paso";
+import { globalStyles } from "../../styles/globalStyles";
+import { borderRadius, colors, fontSize, spacing } from "../../styles/theme";
+
+interface Props {
+  pasos: Paso[];
+  onChange: (pasos: Paso[]) => void;
+  seleccionarImagen: () => Promise<string | null>;
+  tomarFoto: () => Promise<string | null>;
+}
+
+/**
+ * PasosEditor - Editor de pasos de preparación
+ *
+ * Permite al chef:
+ * - Agregar pasos con duración opcional
+ * - Editar el texto y la duración de cada paso
+ * - Reordenar pasos (↑ ↓) y eliminarlos
+ * - Adjuntar una imagen a cada paso
+ *
+ * Usado por las pantallas de crear y editar receta.
+ */
+export function PasosEditor({
+  pasos,
+  onChange,
+  seleccionarImagen,
+  tomarFoto,
+}: Props) {
+  const [texto, setTexto] = useState("");
+  const [duracion, setDuracion] = useState("");
+
+  const parsearDuracion = (valor: string): number | undefined => {
+    const minutos = parseInt(valor, 10);
+    return minutos > 0 ? minutos : undefined;
+  };
+
+  const agregarPaso = () => {
+    if (!texto.trim()) return;
+
+    const paso: Paso = { texto: texto.trim() };
+    const minutos = parsearDuracion(duracion);
+    if (minutos) paso.duracion_minutos = minutos;
+
+    onChange([...pasos, paso]);
+    setTexto("");
+    setDuracion("");
+  };
+
+  const actualizarPaso = (index: number, cambios: Partial<Paso>) => {
+    onChange(
+      pasos.map((paso, i) => (i === index ? { ...paso, ...cambios } : paso))
+    );
+  };
+
+  const moverPaso = (index: number, direccion: -1 | 1) => {
+    const destino = index + direccion;
+    if (destino < 0 || destino >= pasos.length) return;
+
+    const nuevos = [...pasos];
+    [nuevos[index], nuevos[destino]] = [nuevos[destino], nuevos[index]];
+    onChange(nuevos);
+  };
+
+  const quitarPaso = (index: number) => {
+    onChange(pasos.filter((_, i) => i !== index));
+  };
+
+  const handleImagenPaso = (index: number) => {
+    const opciones: AlertButton[] = [
+      {
+        text: "Cancelar",
+        style: "cancel",
+      },
+      {
+        text: "📷 Cámara",
+        onPress: async () => {
+          const uri = await tomarFoto();
+          if (uri) {
+            actualizarPaso(index, { imagen_url: uri });
+          }
+        },
+      },
+      {
+        text: "🖼️ Galería",
+        onPress: async () => {
+          const uri = await seleccionarImagen();
+          if (uri) {
+            actualizarPaso(index, { imagen_url: uri });
+          }
+        },
+      },
+    ];
+
+    if (pasos[index].imagen_url) {
+      opciones.push({
+        text: "🗑️ Quitar imagen",
+        style: "destructive",
+        onPress: () => actualizarPaso(index, { imagen_url: undefined }),
+      });
+    }
+
+    Alert.alert(
+      "Imagen del paso",
+      "¿Cómo quieres agregar la imagen?",
+      opciones
+    );
+  };
+
+  return (
+    <View>
+      <Text style={globalStyles.subtitle}>Preparación:</Text>
+
+      {pasos.map((paso, index) => (
+        <View key={index} style={styles.paso}>
+          <View style={styles.cabeceraPaso}>
+            <Text style={styles.numeroPaso}>Paso {index + 1}</Text>
+            <View style={styles.accionesPaso}>
+              <TouchableOpacity
+                onPress={() => moverPaso(index, -1)}
+                disabled={index === 0}
+              >
+                <Text
+                  style={[
+                    styles.textoAccion,
+                    index === 0 && styles.textoDeshabilitado,
+                  ]}
+                >
+                  ↑
+                </Text>
+              </TouchableOpacity>
+              <TouchableOpacity
+                onPress={() => moverPaso(index, 1)}
+                disabled={index === pasos.length - 1}
+              >
+                <Text
+                  style={[
+                    styles.textoAccion,
+                    index === pasos.length - 1 && styles.textoDeshabilitado,
+                  ]}
+                >
+                  ↓
+                </Text>
+              </TouchableOpacity>
+              <TouchableOpacity onPress={() => handleImagenPaso(index)}>
+                <Text style={styles.textoAccion}>📷</Text>
+              </TouchableOpacity>
+              <TouchableOpacity onPress={() => quitarPaso(index)}>
+                <Text style={styles.textoEliminar}>×</Text>
+              </TouchableOpacity>
+            </View>
+          </View>
+
+          <TextInput
+            style={[globalStyles.input, styles.inputPaso]}
+            value={paso.texto}
+            onChangeText={(valor) => actualizarPaso(index, { texto: valor })}
+            multiline
+          />
+          <TextInput
+            style={[globalStyles.input, styles.inputDuracion]}
+            placeholder="Minutos (opcional)"
+            value={paso.duracion_minutos ? String(paso.duracion_minutos) : ""}
+            onChangeText={(valor) =>
+              actualizarPaso(index, {
+                duracion_minutos: parsearDuracion(valor),
+              })
+            }
+            keyboardType="number-pad"
+          />
+
+          {paso.imagen_url && (
+            <Image
+              source={{ uri: paso.imagen_url }}
+              style={styles.imagenPaso}
+            />
+          )}
+        </View>
+      ))}
+
+      <TextInput
+        style={[globalStyles.input, styles.inputPaso]}
+        placeholder={`Paso ${pasos.length + 1}: Ej: Precalentar el horno a 180 °C`}
+        value={texto}
+        onChangeText={setTexto}
+        multiline
+      />
+      <View style={styles.contenedorNuevoPaso}>
+        <TextInput
+          style={[globalStyles.input, styles.inputDuracionNueva]}
+          placeholder="Minutos (opcional)"
+          value={duracion}
+          onChangeText={setDuracion}
+          keyboardType="number-pad"
+        />
+        <TouchableOpacity
+          style={[
+            globalStyles.button,
+            globalStyles.buttonPrimary,
+            styles.botonAgregar,
+          ]}
+          onPress={agregarPaso}
+        >
+          <Text style={globalStyles.buttonText}>+ Agregar paso</Text>
+        </TouchableOpacity>
+      </View>
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  paso: {
+    backgroundColor: colors.white,
+    borderRadius: borderRadius.md,
+    borderWidth: 1,
+    borderColor: colors.borderLight,
+    padding: spacing.sm,
+    marginBottom: spacing.md,
+  },
+  cabeceraPaso: {
+    flexDirection: "row",
+    justifyContent: "space-between",
+    alignItems: "center",
+    marginBottom: spacing.sm,
+  },
+  numeroPaso: {
+    fontSize: fontSize.sm,
+    fontWeight: "bold",
+    color: colors.primary,
+  },
+  accionesPaso: {
+    flexDirection: "row",
+    alignItems: "center",
+    gap: spacing.md,
+  },
+  textoAccion: {
+    fontSize: fontSize.lg,
+    color: colors.secondary,
+  },
+  textoDeshabilitado: {
+    color: colors.border,
+  },
+  textoEliminar: {
+    color: colors.danger,
+    fontSize: fontSize.xl,
+    fontWeight: "bold",
+  },
+  inputPaso: {
+    minHeight: 60,
+    textAlignVertical: "top",
+    marginBottom: spacing.sm,
+  },
+  inputDuracion: {
+    marginBottom: 0,
+  },
+  imagenPaso: {
+    width: "100%",
+    height: 150,
+    borderRadius: borderRadius.md,
+    marginTop: spacing.sm,
+  },
+  contenedorNuevoPaso: {
+    flexDirection: "row",
+    gap: spacing.sm,
+    marginBottom: spacing.lg,
+  },
+  inputDuracionNueva: {
+    flex: 1,
+    marginBottom: 0,
+  },
+  botonAgregar: {
+    paddingHorizontal: spacing.md,
+  },
+});
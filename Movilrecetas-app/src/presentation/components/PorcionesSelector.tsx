@@ -0,0 +1,76 @@
+import React from "react";
+import { StyleSheet, Text, TouchableOpacity, View } from "react-native";
+import {
+  PORCIONES_MAXIMAS,
+  PORCIONES_MINIMAS,
+} from "../../domain/utils/porciones";
+import { borderRadius, colors, fontSize, spacing } from "../../styles/theme";
+
+interface Props {
+  porciones: number;
+  onChange: (porciones: number) => void;
+}
+
+/**
+ * PorcionesSelector - Selector de número de porciones (− N +)
+ *
+ * Se usa tanto en los formularios del chef como para escalar
+ * una receta al número de personas del usuario.
+ */
+export function PorcionesSelector({ porciones, onChange }: Props) {
+  const puedeRestar = porciones > PORCIONES_MINIMAS;
+  const puedeSumar = porciones < PORCIONES_MAXIMAS;
+
+  return (
+    <View style={styles.contenedor}>
+      <TouchableOpacity
+        style={[styles.boton, !puedeRestar && styles.botonDeshabilitado]}
+        onPress={() => onChange(porciones - 1)}
+        disabled={!puedeRestar}
+      >
+        <Text style={styles.textoBoton}>−</Text>
+      </TouchableOpacity>
+
+      <Text style={styles.valor}>
+        🍽️ {porciones} {porciones === 1 ? "porción" : "porciones"}
+      </Text>
+
+      <TouchableOpacity
+        style={[styles.boton, !puedeSumar && styles.botonDeshabilitado]}
+        onPress={() => onChange(porciones + 1)}
+        disabled={!puedeSumar}
+      >
+        <Text style={styles.textoBoton}>+</Text>
+      </TouchableOpacity>
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  contenedor: {
+    flexDirection: "row",
+    alignItems: "center",
+    gap: spacing.sm,
+  },
+  boton: {
+    width: 32,
+    height: 32,
+    borderRadius: borderRadius.round,
+    backgroundColor: colors.primary,
+    justifyContent: "center",
+    alignItems: "center",
+  },
+  botonDeshabilitado: {
+    backgroundColor: colors.border,
+  },
+  textoBoton: {
+    color: colors.white,
+    fontSize: fontSize.lg,
+    fontWeight: "bold",
+  },
+  valor: {
+    fontSize: fontSize.sm,
+    color: colors.textPrimary,
+    fontWeight: "600",
+  },
+});
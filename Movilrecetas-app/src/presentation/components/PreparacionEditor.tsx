@@ -0,0 +1,148 @@
+import React from "react";
+import {
+  StyleSheet,
+  Text,
+  TextInput,
+  TouchableOpacity,
+  View,
+} from "react-native";
+import {
+  DatosPreparacion,
+  DIFICULTADES,
+  ETIQUETAS_DIFICULTAD,
+} from "../../domain/models/Preparacion";
+import {
+  calcularTiempoTotal,
+  formatearDuracion,
+  validarPreparacion,
+} from "../../domain/utils/tiempos";
+import { globalStyles } from "../../styles/globalStyles";
+import { colors, fontSize, spacing } from "../../styles/theme";
+
+interface Props {
+  preparacion: DatosPreparacion;
+  onChange: (preparacion: DatosPreparacion) => void;
+}
+
+/**
+ * PreparacionEditor - Tiempos y dificultad de una receta
+ *
+ * Los minutos vacíos se guardan como "sin indicar"; el total se
+ * calcula solo. Los errores se muestran debajo mientras se escribe.
+ *
+ * Usado por las pantallas de crear y editar receta.
+ */
+export function PreparacionEditor({ preparacion, onChange }: Props) {
+  const actualizar = (cambios: Partial<DatosPreparacion>) => {
+    onChange({ ...preparacion, ...cambios });
+  };
+
+  const parsearMinutos = (valor: string): number | null =>
+    valor.trim() ? Number(valor.replace(",", ".")) : null;
+
+  const mostrarMinutos = (valor: number | null) =>
+    valor === null || isNaN(valor) ? "" : String(valor);
+
+  const total = calcularTiempoTotal(preparacion);
+  const error = validarPreparacion(preparacion);
+
+  return (
+    <View>
+      <Text style={globalStyles.subtitle}>Tiempo y dificultad:</Text>
+      <View style={styles.fila}>
+        <View style={styles.campo}>
+          <Text style={styles.etiqueta}>Preparación (min)</Text>
+          <TextInput
+            style={[globalStyles.input, styles.input]}
+            placeholder="Ej: 15"
+            value={mostrarMinutos(preparacion.tiempo_preparacion)}
+            onChangeText={(valor) =>
+              actualizar({ tiempo_preparacion: parsearMinutos(valor) })
+            }
+            keyboardType="number-pad"
+          />
+        </View>
+        <View style={styles.campo}>
+          <Text style={styles.etiqueta}>Cocción (min)</Text>
+          <TextInput
+            style={[globalStyles.input, styles.input]}
+            placeholder="Ej: 30"
+            value={mostrarMinutos(preparacion.tiempo_coccion)}
+            onChangeText={(valor) =>
+              actualizar({ tiempo_coccion: parsearMinutos(valor) })
+            }
+            keyboardType="number-pad"
+          />
+        </View>
+      </View>
+
+      {error ? (
+        <Text style={styles.error}>{error}</Text>
+      ) : (
+        total !== null && (
+          <Text style={styles.total}>⏱️ Total: {formatearDuracion(total)}</Text>
+        )
+      )}
+
+      <View style={styles.listaChips}>
+        {DIFICULTADES.map((dificultad) => (
+          <TouchableOpacity
+            key={dificultad}
+            style={[
+              globalStyles.chip,
+              preparacion.dificultad !== dificultad && styles.chipInactivo,
+            ]}
+            onPress={() =>
+              actualizar({
+                // Tocar la elegida la quita
+                dificultad:
+                  preparacion.dificultad === dificultad ? null : dificultad,
+              })
+            }
+          >
+            <Text style={globalStyles.chipText}>
+              {ETIQUETAS_DIFICULTAD[dificultad]}
+            </Text>
+          </TouchableOpacity>
+        ))}
+      </View>
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  fila: {
+    flexDirection: "row",
+    gap: spacing.sm,
+  },
+  campo: {
+    flex: 1,
+  },
+  etiqueta: {
+    fontSize: fontSize.sm,
+    color: colors.textSecondary,
+    marginBottom: spacing.xs,
+  },
+  input: {
+    marginBottom: spacing.sm,
+  },
+  total: {
+    fontSize: fontSize.sm,
+    color: colors.textSecondary,
+    marginBottom: spacing.md,
+  },
+  error: {
+    fontSize: fontSize.sm,
+    color: colors.danger,
+    marginBottom: spacing.md,
+  },
+  listaChips: {
+    flexDirection: "row",
+    flexWrap: "wrap",
+    gap: spacing.sm,
+    marginBottom: spacing.lg,
+  },
+  chipInactivo: {
+    backgroundColor: colors.borderLight,
+  },
+});
@@ -0,0 +1,201 @@
+import React, { useEffect, useState } from "react";
+import {
+  ActivityIndicator,
+  Alert,
+  StyleSheet,
+  Text,
+  TextInput,
+  TouchableOpacity,
+  View,
+} from "react-native";
+import { Resena } from "../../domain/models/Resena";
+import { globalStyles } from "../../styles/globalStyles";
+import { colors, fontSize, spacing } from "../../styles/theme";
+import { Estrellas } from "./Estrellas";
+
+interface Props {
+  resenas: Resena[];
+  miResena: Resena | null;
+  puedeResenar: boolean; // El chef no valora sus propias recetas
+  onGuardar: (
+    puntuacion: number,
+    comentario: string
+  ) => Promise<{ success: boolean; error?: string }>;
+}
+
+/**
+ * ResenasSeccion - Formulario de reseña y lista de reseñas de una receta
+ *
+ * Si el usuario ya valoró la receta, el formulario parte de su reseña
+ * y al guardar la actualiza (una reseña por usuario y receta).
+ */
+export function ResenasSeccion({
+  resenas,
+  miResena,
+  puedeResenar,
+  onGuardar,
+}: Props) {
+  const [puntuacion, setPuntuacion] = useState(0);
+  const [comentario, setComentario] = useState("");
+  const [editando, setEditando] = useState(false);
+  const [guardando, setGuardando] = useState(false);
+
+  // Partir siempre de la reseña guardada
+  useEffect(() => {
+    setPuntuacion(miResena?.puntuacion ?? 0);
+    setComentario(miResena?.comentario ?? "");
+    setEditando(false);
+  }, [miResena]);
+
+  const handleGuardar = async () => {
+    if (puntuacion === 0) {
+      Alert.alert("Error", "Elige de 1 a 5 estrellas");
+      return;
+    }
+
+    setGuardando(true);
+    const resultado = await onGuardar(puntuacion, comentario);
+    setGuardando(false);
+
+    if (!resultado.success) {
+      Alert.alert("Error", resultado.error || "No se pudo guardar la reseña");
+    }
+  };
+
+  const mostrarFormulario = puedeResenar && (!miResena || editando);
+
+  return (
+    <View>
+      <Text style={globalStyles.subtitle}>Reseñas ({resenas.length}):</Text>
+
+      {mostrarFormulario && (
+        <View style={[globalStyles.card, styles.formulario]}>
+          <Text style={globalStyles.textSecondary}>
+            {miResena ? "Edita tu reseña" : "¿Qué te pareció?"}
+          </Text>
+          <View style={styles.selectorEstrellas}>
+            <Estrellas
+              valor={puntuacion}
+              onChange={setPuntuacion}
+              tamano={32}
+            />
+          </View>
+          <TextInput
+            style={[globalStyles.input, styles.inputComentario]}
+            placeholder="Comentario (opcional)"
+            value={comentario}
+            onChangeText={setComentario}
+            multiline
+          />
+          <View style={styles.botones}>
+            {miResena && (
+              <TouchableOpacity
+                style={[
+                  globalStyles.button,
+                  globalStyles.buttonSecondary,
+                  styles.boton,
+                ]}
+                onPress={() => setEditando(false)}
+                disabled={guardando}
+              >
+                <Text style={globalStyles.buttonText}>Cancelar</Text>
+              </TouchableOpacity>
+            )}
+            <TouchableOpacity
+              style={[
+                globalStyles.button,
+                globalStyles.buttonPrimary,
+                styles.boton,
+              ]}
+              onPress={handleGuardar}
+              disabled={guardando}
+            >
+              {guardando ? (
+                <ActivityIndicator color={colors.white} />
+              ) : (
+                <Text style={globalStyles.buttonText}>
+                  {miResena ? "Actualizar" : "Publicar reseña"}
+                </Text>
+              )}
+            </TouchableOpacity>
+          </View>
+        </View>
+      )}
+
+      {resenas.length === 0 ? (
+        <Text style={[globalStyles.textTertiary, styles.sinResenas]}>
+          Nadie ha valorado esta receta todavía
+        </Text>
+      ) : (
+        resenas.map((resena) => {
+          const esMia = resena.id === miResena?.id;
+          return (
+            <View key={resena.id} style={[globalStyles.card, styles.resena]}>
+              <View style={styles.cabecera}>
+                <Estrellas valor={resena.puntuacion} />
+                <Text style={styles.autor}>
+                  {esMia
+                    ? "Tú"
+                    : resena.usuario?.nombre || resena.usuario?.email}
+                </Text>
+              </View>
+              {!!resena.comentario && (
+                <Text style={globalStyles.textPrimary}>
+                  {resena.comentario}
+                </Text>
+              )}
+              {esMia && puedeResenar && !editando && (
+                <TouchableOpacity onPress={() => setEditando(true)}>
+                  <Text style={styles.textoEditar}>✏️ Editar mi reseña</Text>
+                </TouchableOpacity>
+              )}
+            </View>
+          );
+        })
+      )}
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  formulario: {
+    marginBottom: spacing.md,
+  },
+  selectorEstrellas: {
+    alignItems: "center",
+    marginVertical: spacing.md,
+  },
+  inputComentario: {
+    minHeight: 60,
+    textAlignVertical: "top",
+  },
+  botones: {
+    flexDirection: "row",
+    gap: spacing.sm,
+  },
+  boton: {
+    flex: 1,
+  },
+  sinResenas: {
+    marginBottom: spacing.md,
+  },
+  resena: {
+    marginBottom: spacing.sm,
+  },
+  cabecera: {
+    flexDirection: "row",
+    justifyContent: "space-between",
+    alignItems: "center",
+    marginBottom: spacing.xs,
+  },
+  autor: {
+    fontSize: fontSize.xs,
+    color: colors.textSecondary,
+    fontWeight: "600",
+  },
+  textoEditar: {
+    fontSize: fontSize.sm,
+    color: colors.secondary,
+    marginTop: spacing.sm,
+  },
+});
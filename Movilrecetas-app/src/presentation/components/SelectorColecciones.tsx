@@ -0,0 +1,165 @@
+import React, { useState } from "react";
+import {
+  ActivityIndicator,
+  Modal,
+  ScrollView,
+  StyleSheet,
+  Text,
+  TextInput,
+  TouchableOpacity,
+  View,
+} from "react-native";
+import { Coleccion } from "../../domain/models/Coleccion";
+import { globalStyles } from "../../styles/globalStyles";
+import { borderRadius, colors, fontSize, spacing } from "../../styles/theme";
+
+interface Props {
+  visible: boolean;
+  colecciones: Coleccion[];
+  seleccionadas: string[]; // IDs de las colecciones que ya tienen la receta
+  cargando: boolean;
+  onAlternar: (coleccionId: string, incluir: boolean) => void;
+  onCrear: (nombre: string) => Promise<boolean>;
+  onCerrar: () => void;
+}
+
+/**
+ * SelectorColecciones - Hoja inferior para guardar una receta en colecciones
+ *
+ * Cada colección se marca o desmarca al tocarla; también permite
+ * crear una colección nueva sin salir del detalle.
+ */
+export function SelectorColecciones({
+  visible,
+  colecciones,
+  seleccionadas,
+  cargando,
+  onAlternar,
+  onCrear,
+  onCerrar,
+}: Props) {
+  const [nombreNueva, setNombreNueva] = useState("");
+
+  const handleCrear = async () => {
+    if (await onCrear(nombreNueva)) {
+      setNombreNueva("");
+    }
+  };
+
+  return (
+    <Modal
+      visible={visible}
+      transparent
+      animationType="slide"
+      onRequestClose={onCerrar}
+    >
+      <View style={styles.fondo}>
+        <View style={styles.hoja}>
+          <Text style={globalStyles.subtitle}>Guardar en colección</Text>
+
+          {cargando ? (
+            <ActivityIndicator color={colors.primary} />
+          ) : (
+            <ScrollView>
+              {colecciones.length === 0 && (
+                <Text style={globalStyles.textSecondary}>
+                  Todavía no tienes colecciones
+                </Text>
+              )}
+              {colecciones.map((coleccion) => {
+                const incluida = seleccionadas.includes(coleccion.id);
+                return (
+                  <TouchableOpacity
+                    key={coleccion.id}
+                    style={styles.fila}
+                    onPress={() => onAlternar(coleccion.id, !incluida)}
+                  >
+                    <Text style={styles.casilla}>{incluida ? "☑️" : "⬜"}</Text>
+                    <Text style={[globalStyles.textPrimary, styles.nombre]}>
+                      {coleccion.nombre}
+                    </Text>
+                    <Text style={globalStyles.textTertiary}>
+                      {coleccion.num_recetas}
+                    </Text>
+                  </TouchableOpacity>
+                );
+              })}
+            </ScrollView>
+          )}
+
+          <View style={styles.contenedorNueva}>
+            <TextInput
+              style={[globalStyles.input, styles.inputNueva]}
+              placeholder="Nueva colección"
+              value={nombreNueva}
+              onChangeText={setNombreNueva}
+              onSubmitEditing={handleCrear}
+            />
+            <TouchableOpacity
+              style={[
+                globalStyles.button,
+                globalStyles.buttonPrimary,
+                styles.botonCrear,
+              ]}
+              onPress={handleCrear}
+            >
+              <Text style={globalStyles.buttonText}>+</Text>
+            </TouchableOpacity>
+          </View>
+
+          <TouchableOpacity onPress={onCerrar}>
+            <Text style={styles.textoCerrar}>Listo</Text>
+          </TouchableOpacity>
+        </View>
+      </View>
+    </Modal>
+  );
+}
+
+const styles = StyleSheet.create({
+  fondo: {
+    flex: 1,
+    justifyContent: "flex-end",
+    backgroundColor: "rgba(0, 0, 0, 0.4)",
+  },
+  hoja: {
+    maxHeight: "80%",
+    backgroundColor: colors.white,
+    borderTopLeftRadius: borderRadius.xl,
+    borderTopRightRadius: borderRadius.xl,
+    padding: spacing.lg,
+  },
+  fila: {
+    flexDirection: "row",
+    alignItems: "center",
+    gap: spacing.md,
+    paddingVertical: spacing.sm,
+    borderBottomWidth: 1,
+    borderBottomColor: colors.borderLight,
+  },
+  casilla: {
+    fontSize: fontSize.lg,
+  },
+  nombre: {
+    flex: 1,
+  },
+  contenedorNueva: {
+    flexDirection: "row",
+    gap: spacing.sm,
+    marginTop: spacing.md,
+  },
+  inputNueva: {
+    flex: 1,
+    marginBottom: 0,
+  },
+  botonCrear: {
+    paddingHorizontal: spacing.lg,
+  },
+  textoCerrar: {
+    textAlign: "center",
+    color: colors.primary,
+    fontSize: fontSize.md,
+    fontWeight: "600",
+    marginTop: spacing.md,
+  },
+});
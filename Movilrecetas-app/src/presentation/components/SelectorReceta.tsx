@@ -0,0 +1,118 @@
+import React, { useState } from "react";
+import {
+  ActivityIndicator,
+  FlatList,
+  Modal,
+  StyleSheet,
+  Text,
+  TextInput,
+  TouchableOpacity,
+  View,
+} from "react-native";
+import { Receta } from "../../domain/models/Receta";
+import { globalStyles } from "../../styles/globalStyles";
+import { borderRadius, colors, fontSize, spacing } from "../../styles/theme";
+import { ALTO_FILA_RECETA, FilaReceta } from "./FilaReceta";
+
+interface Props {
+  visible: boolean;
+  titulo: string;
+  recetas: Receta[];
+  cargando: boolean;
+  hayMas: boolean;
+  onBuscar: (texto: string) => void; // Texto vacío = volver al feed
+  onCargarMas: () => void;
+  onElegir: (receta: Receta) => void;
+  onCerrar: () => void;
+}
+
+/**
+ * SelectorReceta - Modal para elegir una receta del feed o buscándola
+ *
+ * Recibe los datos de useRecipes desde la pantalla que lo abre.
+ */
+export function SelectorReceta({
+  visible,
+  titulo,
+  recetas,
+  cargando,
+  hayMas,
+  onBuscar,
+  onCargarMas,
+  onElegir,
+  onCerrar,
+}: Props) {
+  const [busqueda, setBusqueda] = useState("");
+
+  return (
+    <Modal
+      visible={visible}
+      animationType="slide"
+      transparent
+      onRequestClose={onCerrar}
+    >
+      <View style={styles.fondo}>
+        <View style={styles.hoja}>
+          <Text style={globalStyles.subtitle}>{titulo}</Text>
+          <TextInput
+            style={globalStyles.input}
+            placeholder="Buscar recetas..."
+            value={busqueda}
+            onChangeText={setBusqueda}
+            onSubmitEditing={() => onBuscar(busqueda.trim())}
+            returnKeyType="search"
+          />
+
+          {cargando ? (
+            <ActivityIndicator color={colors.primary} />
+          ) : (
+            <FlatList
+              data={recetas}
+              keyExtractor={(item) => item.id}
+              getItemLayout={(_, index) => ({
+                length: ALTO_FILA_RECETA,
+                offset: ALTO_FILA_RECETA * index,
+                index,
+              })}
+              onEndReached={hayMas ? onCargarMas : undefined}
+              onEndReachedThreshold={0.5}
+              ListEmptyComponent={
+                <Text style={globalStyles.emptyState}>
+                  No se encontraron recetas
+                </Text>
+              }
+              renderItem={({ item }) => (
+                <FilaReceta receta={item} onPress={() => onElegir(item)} />
+              )}
+            />
+          )}
+
+          <TouchableOpacity onPress={onCerrar}>
+            <Text style={styles.textoCancelar}>Cancelar</Text>
+          </TouchableOpacity>
+        </View>
+      </View>
+    </Modal>
+  );
+}
+
+const styles = StyleSheet.create({
+  fondo: {
+    flex: 1,
+    justifyContent: "flex-end",
+    backgroundColor: "rgba(0, 0, 0, 0.4)",
+  },
+  hoja: {
+    height: "85%",
+    backgroundColor: colors.background,
+    borderTopLeftRadius: borderRadius.xl,
+    borderTopRightRadius: borderRadius.xl,
+    padding: spacing.lg,
+  },
+  textoCancelar: {
+    textAlign: "center",
+    color: colors.textSecondary,
+    fontSize: fontSize.md,
+    marginTop: spacing.md,
+  },
+});
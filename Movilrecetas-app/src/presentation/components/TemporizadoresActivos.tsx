@@ -0,0 +1,91 @@
+import React from "react";
+import { StyleSheet, Text, TouchableOpacity, View } from "react-native";
+import { Temporizador } from "../../domain/models/Temporizador";
+import { formatearCuentaAtras } from "../../domain/utils/temporizadores";
+import { borderRadius, colors, fontSize, spacing } from "../../styles/theme";
+
+interface Props {
+  temporizadores: Temporizador[];
+  restantes: (temporizador: Temporizador) => number;
+  onCancelar: (id: string) => void;
+}
+
+/**
+ * TemporizadoresActivos - Lista de temporizadores en marcha
+ *
+ * Los terminados se quedan resaltados hasta que el usuario los descarta.
+ * No muestra nada si no hay temporizadores.
+ */
+export function TemporizadoresActivos({
+  temporizadores,
+  restantes,
+  onCancelar,
+}: Props) {
+  if (temporizadores.length === 0) return null;
+
+  return (
+    <View style={styles.contenedor}>
+      {temporizadores.map((temporizador) => {
+        const segundos = restantes(temporizador);
+        const terminado = segundos === 0;
+        return (
+          <View
+            key={temporizador.id}
+            style={[styles.temporizador, terminado && styles.terminado]}
+          >
+            <View style={styles.info}>
+              <Text style={styles.tiempo}>
+                {terminado ? "⏰ ¡Listo!" : formatearCuentaAtras(segundos)}
+              </Text>
+              <Text style={styles.descripcion} numberOfLines={1}>
+                Paso {temporizador.paso + 1} · {temporizador.receta_titulo}
+              </Text>
+            </View>
+            <TouchableOpacity
+              onPress={() => onCancelar(temporizador.id)}
+              hitSlop={8}
+            >
+              <Text style={styles.cancelar}>{terminado ? "OK" : "✕"}</Text>
+            </TouchableOpacity>
+          </View>
+        );
+      })}
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  contenedor: {
+    gap: spacing.sm,
+    marginBottom: spacing.md,
+  },
+  temporizador: {
+    flexDirection: "row",
+    alignItems: "center",
+    backgroundColor: colors.primaryLight,
+    borderRadius: borderRadius.md,
+    padding: spacing.sm,
+    gap: spacing.md,
+  },
+  terminado: {
+    backgroundColor: colors.warningLight,
+  },
+  info: {
+    flex: 1,
+  },
+  tiempo: {
+    fontSize: fontSize.xl,
+    fontWeight: "bold",
+    color: colors.textPrimary,
+    fontVariant: ["tabular-nums"],
+  },
+  descripcion: {
+    fontSize: fontSize.sm,
+    color: colors.textSecondary,
+  },
+  cancelar: {
+    fontSize: fontSize.lg,
+    fontWeight: "bold",
+    color: colors.primary,
+  },
+});
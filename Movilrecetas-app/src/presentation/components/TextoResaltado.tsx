@@ -0,0 +1,52 @@
+import React from "react";
+import { StyleProp, StyleSheet, Text, TextStyle } from "react-native";
+import { Fragmento } from "../../domain/models/ResultadoBusqueda";
+import { colors } from "../../styles/theme";
+
+interface Props {
+  texto: string;
+  fragmentos?: Fragmento[];
+  style?: StyleProp<TextStyle>;
+  numberOfLines?: number;
+}
+
+/**
+ * TextoResaltado - Muestra un texto resaltando las coincidencias de búsqueda
+ *
+ * Si no hay fragmentos (no se está buscando), muestra el texto tal cual.
+ */
+export function TextoResaltado({
+  texto,
+  fragmentos,
+  style,
+  numberOfLines,
+}: Props) {
+  if (!fragmentos || fragmentos.length === 0) {
+    return (
+      <Text style={style} numberOfLines={numberOfLines}>
+        {texto}
+      </Text>
+    );
+  }
+
+  return (
+    <Text style={style} numberOfLines={numberOfLines}>
+      {fragmentos.map((fragmento, index) => (
+        <Text
+          key={index}
+          style={fragmento.resaltado ? styles.resaltado : undefined}
+        >
+          {fragmento.texto}
+        </Text>
+      ))}
+    </Text>
+  );
+}
+
+const styles = StyleSheet.create({
+  resaltado: {
+    backgroundColor: colors.primaryLight,
+    color: colors.primary,
+    fontWeight: "bold",
+  },
+});
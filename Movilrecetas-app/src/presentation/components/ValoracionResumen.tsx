@@ -0,0 +1,45 @@
+import React from "react";
+import { StyleSheet, Text, View } from "react-native";
+import { colors, fontSize, spacing } from "../../styles/theme";
+import { Estrellas } from "./Estrellas";
+
+interface Props {
+  media: number;
+  total: number;
+}
+
+/**
+ * ValoracionResumen - Media de estrellas y número de reseñas
+ * Ej: ★★★★☆ 4,3 (12)
+ */
+export function ValoracionResumen({ media, total }: Props) {
+  if (total === 0) {
+    return <Text style={styles.sinResenas}>☆ Sin reseñas todavía</Text>;
+  }
+
+  return (
+    <View style={styles.fila}>
+      <Estrellas valor={media} tamano={fontSize.sm} />
+      <Text style={styles.texto}>
+        {media.toFixed(1).replace(".", ",")} ({total})
+      </Text>
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  fila: {
+    flexDirection: "row",
+    alignItems: "center",
+    gap: spacing.xs,
+  },
+  texto: {
+    fontSize: fontSize.xs,
+    color: colors.textSecondary,
+    fontWeight: "600",
+  },
+  sinResenas: {
+    fontSize: fontSize.xs,
+    color: colors.textTertiary,
+  },
+});
@@ -1,4 +1,4 @@
-import { useEffect, useState } from "react";
+import { useCallback, useEffect, useState } from "react";
 import { StorageService } from "../../data/services/storageService";
 import { Usuario } from "../../domain/models/Usuario";
 import { AuthUseCase } from "../../domain/useCases/auth/AuthUseCase";
@@ -21,6 +21,8 @@ const authUseCase = new AuthUseCase();
  * - registrar: Crear nuevo usuario
  * - iniciarSesion: Login
  * - cerrarSesion: Logout
+ * - recordarDestino: Guarda la receta de un enlace abierto sin sesión
+ * - tomarDestino: Recupera (una vez) ese destino al entrar (login o registro)
  *
  * HELPERS:
  * - esChef: Boolean para validaciones rápidas
@@ -122,6 +124,18 @@ export function useAuth() {
     return await authUseCase.cerrarSesion();
   };
 
+  /**
+   * Destino pendiente de un enlace (ver AuthUseCase)
+   * Estables entre renders para poder usarlas en efectos
+   */
+  const recordarDestino = useCallback((ruta: string) => {
+    authUseCase.recordarDestino(ruta);
+  }, []);
+
+  const tomarDestino = useCallback(() => {
+    return authUseCase.tomarDestino();
+  }, []);
+
   /**
    * Crear perfil con rol específico (para usuarios que confirmaron email)
    */
@@ -163,6 +177,8 @@ export function useAuth() {
     iniciarSesion, // Función
     cerrarSesion, // Función
     crearPerfilConRol, // Función para crear perfil con rol específico
+    recordarDestino, // Función
+    tomarDestino, // Función
     esChef: usuario?.rol === "chef", // Helper
   };
 }
@@ -0,0 +1,74 @@
+import { useState } from "react";
+import {
+  FilaImportacion,
+  InformeImportacion,
+  ProgresoImportacion,
+} from "../../domain/models/Importacion";
+import { BulkImportUseCase } from "../../domain/useCases/import/BulkImportUseCase";
+
+// Instancia única del UseCase
+const bulkImportUseCase = new BulkImportUseCase();
+
+/**
+ * useBulkImport - Hook de Importación Masiva de Recetas
+ *
+ * ESTADOS:
+ * - nombreArchivo: Nombre del archivo elegido
+ * - filas: Recetas del archivo con sus errores de validación
+ * - leyendo: Boolean mientras se lee el archivo
+ * - progreso: Recetas publicadas / total (null si no se está importando)
+ * - informe: Resultado de la última importación
+ *
+ * MÉTODOS:
+ * - elegirArchivo: Abre el selector y valida el archivo
+ * - importar: Publica las recetas válidas
+ * - reiniciar: Vuelve al estado inicial
+ */
+export function useBulkImport() {
+  const [nombreArchivo, setNombreArchivo] = useState<string | null>(null);
+  const [filas, setFilas] = useState<FilaImportacion[]>([]);
+  const [leyendo, setLeyendo] = useState(false);
+  const [progreso, setProgreso] = useState<ProgresoImportacion | null>(null);
+  const [informe, setInforme] = useState<InformeImportacion | null>(null);
+
+  const elegirArchivo = async () => {
+    setLeyendo(true);
+    const resultado = await bulkImportUseCase.elegirArchivo();
+    setLeyendo(false);
+
+    if (resultado.success && resultado.filas) {
+      setNombreArchivo(resultado.nombre ?? null);
+      setFilas(resultado.filas);
+      setInforme(null);
+    }
+    return resultado;
+  };
+
+  const importar = async () => {
+    const resultado = await bulkImportUseCase.importar(filas, setProgreso);
+    setProgreso(null);
+
+    if (resultado.success && resultado.informe) {
+      setInforme(resultado.informe);
+    }
+    return resultado;
+  };
+
+  const reiniciar = () => {
+    setNombreArchivo(null);
+    setFilas([]);
+    setProgreso(null);
+    setInforme(null);
+  };
+
+  return {
+    nombreArchivo,
+    filas,
+    leyendo,
+    progreso,
+    informe,
+    elegirArchivo,
+    importar,
+    reiniciar,
+  };
+}
@@ -0,0 +1,73 @@
+import { useCallback, useEffect, useState } from "react";
+import { Coleccion } from "../../domain/models/Coleccion";
+import { Receta } from "../../domain/models/Receta";
+import { CollectionsUseCase } from "../../domain/useCases/collections/CollectionsUseCase";
+
+// Instancia única del UseCase
+const collectionsUseCase = new CollectionsUseCase();
+
+/**
+ * useCollection - Hook de UNA Colección y sus recetas
+ *
+ * ESTADOS:
+ * - coleccion: Colección o null si no existe
+ * - recetas: Recetas guardadas (últimas añadidas primero)
+ * - cargando: Boolean de carga
+ *
+ * MÉTODOS:
+ * - recargar: Vuelve a pedir la colección y sus recetas
+ * - quitarReceta: Saca una receta de la colección
+ */
+export function useCollection(id: string | undefined) {
+  const [coleccion, setColeccion] = useState<Coleccion | null>(null);
+  const [recetas, setRecetas] = useState<Receta[]>([]);
+  const [cargando, setCargando] = useState(true);
+
+  /**
+   * Cargar la colección y sus recetas
+   */
+  const recargar = useCallback(async () => {
+    if (!id) {
+      setColeccion(null);
+      setCargando(false);
+      return;
+    }
+
+    setCargando(true);
+    const [datos, recetasColeccion] = await Promise.all([
+      collectionsUseCase.obtenerColeccionPorId(id),
+      collectionsUseCase.obtenerRecetasDeColeccion(id),
+    ]);
+    setColeccion(datos);
+    setRecetas(recetasColeccion);
+    setCargando(false);
+  }, [id]);
+
+  // AL MONTAR (o cambiar de ID): Cargar la colección
+  useEffect(() => {
+    recargar();
+  }, [recargar]);
+
+  /**
+   * Quitar una receta de esta colección
+   */
+  const quitarReceta = async (recetaId: string) => {
+    if (!id) {
+      return { success: false, error: "Colección no encontrada" };
+    }
+
+    const resultado = await collectionsUseCase.quitarReceta(id, recetaId);
+    if (resultado.success) {
+      setRecetas(recetas.filter((r) => r.id !== recetaId));
+    }
+    return resultado;
+  };
+
+  return {
+    coleccion,
+    recetas,
+    cargando,
+    recargar,
+    quitarReceta,
+  };
+}
@@ -0,0 +1,141 @@
+import { useCallback, useState } from "react";
+import { Coleccion } from "../../domain/models/Coleccion";
+import { CollectionsUseCase } from "../../domain/useCases/collections/CollectionsUseCase";
+
+// Instancia única del UseCase
+const collectionsUseCase = new CollectionsUseCase();
+
+/**
+ * useCollections - Hook de las Colecciones del Usuario
+ *
+ * No carga nada al montar: la pantalla de colecciones las pide al
+ * enfocarse y el selector del detalle solo al abrirse.
+ *
+ * ESTADOS:
+ * - colecciones: Colecciones en el orden elegido por el usuario
+ * - cargando: Boolean de carga
+ *
+ * MÉTODOS:
+ * - cargarColecciones: Vuelve a pedir la lista
+ * - crear: Nueva colección al final
+ * - renombrar: Cambia el nombre
+ * - mover: Sube o baja una colección (↑ ↓) y guarda el orden
+ * - eliminar: Borra la colección (no sus recetas)
+ * - obtenerColeccionesDeReceta: IDs de colecciones que contienen una receta
+ * - alternarReceta: Añade o quita una receta de una colección
+ */
+export function useCollections() {
+  const [colecciones, setColecciones] = useState<Coleccion[]>([]);
+  const [cargando, setCargando] = useState(true);
+
+  /**
+   * Cargar las colecciones del usuario
+   */
+  const cargarColecciones = useCallback(async () => {
+    setCargando(true);
+    setColecciones(await collectionsUseCase.obtenerColecciones());
+    setCargando(false);
+  }, []);
+
+  /**
+   * Crear una colección
+   */
+  const crear = async (nombre: string) => {
+    const resultado = await collectionsUseCase.crearColeccion(nombre);
+    if (resultado.success && resultado.coleccion) {
+      setColecciones([...colecciones, resultado.coleccion]);
+    }
+    return resultado;
+  };
+
+  /**
+   * Renombrar una colección
+   */
+  const renombrar = async (id: string, nombre: string) => {
+    const resultado = await collectionsUseCase.renombrarColeccion(id, nombre);
+    if (resultado.success) {
+      setColecciones(
+        colecciones.map((c) =>
+          c.id === id ? { ...c, nombre: nombre.trim() } : c
+        )
+      );
+    }
+    return resultado;
+  };
+
+  /**
+   * Mover una colección una posición arriba (-1) o abajo (1)
+   *
+   * El cambio se ve al instante; si no se puede guardar se deshace
+   */
+  const mover = async (
+    index: number,
+    direccion: -1 | 1
+  ): Promise<{ success: boolean; error?: string }> => {
+    const destino = index + direccion;
+    if (destino < 0 || destino >= colecciones.length) {
+      return { success: true };
+    }
+
+    const anteriores = colecciones;
+    const nuevas = [...colecciones];
+    [nuevas[index], nuevas[destino]] = [nuevas[destino], nuevas[index]];
+    setColecciones(nuevas.map((c, posicion) => ({ ...c, posicion })));
+
+    const resultado = await collectionsUseCase.reordenarColecciones(
+      nuevas.map((c) => c.id)
+    );
+    if (!resultado.success) {
+      setColecciones(anteriores);
+    }
+    return resultado;
+  };
+
+  /**
+   * Eliminar una colección
+   */
+  const eliminar = async (id: string) => {
+    const resultado = await collectionsUseCase.eliminarColeccion(id);
+    if (resultado.success) {
+      setColecciones(colecciones.filter((c) => c.id !== id));
+    }
+    return resultado;
+  };
+
+  /**
+   * Añadir (incluir = true) o quitar una receta de una colección
+   */
+  const alternarReceta = async (
+    coleccionId: string,
+    recetaId: string,
+    incluir: boolean
+  ) => {
+    const resultado = incluir
+      ? await collectionsUseCase.agregarReceta(coleccionId, recetaId)
+      : await collectionsUseCase.quitarReceta(coleccionId, recetaId);
+
+    if (resultado.success) {
+      setColecciones((actuales) =>
+        actuales.map((c) =>
+          c.id === coleccionId
+            ? { ...c, num_recetas: c.num_recetas + (incluir ? 1 : -1) }
+            : c
+        )
+      );
+    }
+    return resultado;
+  };
+
+  return {
+    colecciones,
+    cargando,
+    cargarColecciones,
+    crear,
+    renombrar,
+    mover,
+    eliminar,
+    obtenerColeccionesDeReceta: (recetaId: string) =>
+      collectionsUseCase.obtenerColeccionesDeReceta(recetaId),
+    alternarReceta,
+  };
+}
@@ -0,0 +1,129 @@
+import { useCallback, useEffect, useState } from "react";
+import { Comentario } from "../../domain/models/Comentario";
+import { CommentsUseCase } from "../../domain/useCases/comments/CommentsUseCase";
+
+// Instancia única del UseCase
+const commentsUseCase = new CommentsUseCase();
+
+/**
+ * useComments - Hook del Hilo de Comentarios de una Receta
+ *
+ * Carga los comentarios y se suscribe a los cambios en tiempo real,
+ * así las preguntas y respuestas aparecen sin recargar la pantalla.
+ *
+ * ESTADOS:
+ * - comentarios: Comentarios de la receta (más antiguos primero)
+ * - cargando: Boolean de carga inicial
+ * - enviando: Boolean mientras se publica un comentario
+ *
+ * MÉTODOS:
+ * - publicar: Añade un comentario
+ * - editar: Cambia el texto de un comentario propio
+ * - eliminar: Borra un comentario
+ */
+export function useComments(recetaId: string | undefined) {
+  const [comentarios, setComentarios] = useState<Comentario[]>([]);
+  const [cargando, setCargando] = useState(true);
+  const [enviando, setEnviando] = useState(false);
+
+  /**
+   * Insertar o reemplazar un comentario manteniendo el orden por fecha
+   */
+  const guardarEnLista = useCallback((comentario: Comentario) => {
+    setComentarios((actuales) => {
+      if (actuales.some((c) => c.id === comentario.id)) {
+        return actuales.map((c) => (c.id === comentario.id ? comentario : c));
+      }
+      return [...actuales, comentario].sort((a, b) =>
+        a.created_at.localeCompare(b.created_at)
+      );
+    });
+  }, []);
+
+  const quitarDeLista = useCallback((id: string) => {
+    setComentarios((actuales) => actuales.filter((c) => c.id !== id));
+  }, []);
+
+  // AL MONTAR (o cambiar de receta): Cargar y suscribirse
+  useEffect(() => {
+    if (!recetaId) {
+      setCargando(false);
+      return;
+    }
+
+    const cargar = async () => {
+      setCargando(true);
+      setComentarios(await commentsUseCase.obtenerComentarios(recetaId));
+      setCargando(false);
+    };
+    cargar();
+
+    const desuscribir = commentsUseCase.suscribirseAComentarios(
+      recetaId,
+      (cambio) => {
+        if (cambio.tipo === "DELETE") {
+          quitarDeLista(cambio.id);
+        } else {
+          guardarEnLista(cambio.comentario);
+        }
+      }
+    );
+
+    return () => {
+      desuscribir();
+    };
+  }, [recetaId, guardarEnLista, quitarDeLista]);
+
+  /**
+   * Publicar un comentario
+   * Se añade al momento; el evento en tiempo real no lo duplica
+   */
+  const publicar = async (contenido: string) => {
+    if (!recetaId) {
+      return { success: false, error: "Receta no encontrada" };
+    }
+
+    setEnviando(true);
+    const resultado = await commentsUseCase.publicarComentario(
+      recetaId,
+      contenido
+    );
+    setEnviando(false);
+
+    if (resultado.success && resultado.comentario) {
+      guardarEnLista(resultado.comentario);
+    }
+    return resultado;
+  };
+
+  /**
+   * Editar un comentario propio
+   */
+  const editar = async (id: string, contenido: string) => {
+    const resultado = await commentsUseCase.editarComentario(id, contenido);
+    if (resultado.success && resultado.comentario) {
+      guardarEnLista(resultado.comentario);
+    }
+    return resultado;
+  };
+
+  /**
+   * Eliminar un comentario
+   */
+  const eliminar = async (id: string) => {
+    const resultado = await commentsUseCase.eliminarComentario(id);
+    if (resultado.success) {
+      quitarDeLista(id);
+    }
+    return resultado;
+  };
+
+  return {
+    comentarios,
+    cargando,
+    enviando,
+    publicar,
+    editar,
+    eliminar,
+  };
+}
@@ -0,0 +1,47 @@
+import { useState } from "react";
+import { FormatoExportacion } from "../../domain/models/Exportacion";
+import { Receta } from "../../domain/models/Receta";
+import { ExportUseCase } from "../../domain/useCases/export/ExportUseCase";
+
+// Instancia única del UseCase
+const exportUseCase = new ExportUseCase();
+
+/**
+ * useExport - Hook de Exportación de Recetas
+ *
+ * ESTADOS:
+ * - exportando: Boolean mientras se genera y comparte el archivo
+ *
+ * MÉTODOS:
+ * - exportar: Exporta las recetas indicadas
+ * - exportarMisRecetas: Exporta todas las recetas del chef actual
+ * - compartirEnlace: Comparte el enlace directo a una receta
+ */
+export function useExport() {
+  const [exportando, setExportando] = useState(false);
+
+  const exportar = async (recetas: Receta[], formato: FormatoExportacion) => {
+    setExportando(true);
+    const resultado = await exportUseCase.exportar(recetas, formato);
+    setExportando(false);
+    return resultado;
+  };
+
+  const exportarMisRecetas = async (formato: FormatoExportacion) => {
+    setExportando(true);
+    const resultado = await exportUseCase.exportarMisRecetas(formato);
+    setExportando(false);
+    return resultado;
+  };
+
+  const compartirEnlace = async (receta: Receta) => {
+    return await exportUseCase.compartirEnlace(receta);
+  };
+
+  return {
+    exportando,
+    exportar,
+    exportarMisRecetas,
+    compartirEnlace,
+  };
+}
@@ -0,0 +1,117 @@
+import { useCallback, useState } from "react";
+import { Receta } from "../../domain/models/Receta";
+import { FavoritesUseCase } from "../../domain/useCases/favorites/FavoritesUseCase";
+
+// Instancia única del UseCase
+const favoritesUseCase = new FavoritesUseCase();
+
+/**
+ * useFavorites - Hook de Recetas Favoritas
+ *
+ * Lo usan el feed (corazones de cada tarjeta) y la pestaña "Favoritos".
+ * Cada pantalla pide los datos al enfocarse, así los cambios hechos
+ * en una se ven al volver a la otra.
+ *
+ * ESTADOS:
+ * - favoritos: Recetas favoritas cargadas (más recientes primero)
+ * - idsFavoritos: IDs de todas las recetas favoritas del usuario
+ * - cargando: Boolean de carga de la primera página
+ * - cargandoMas: Boolean de carga de la siguiente página
+ * - hayMas: Si quedan favoritos por cargar
+ *
+ * MÉTODOS:
+ * - cargarIds: Actualiza los IDs favoritos (para los corazones)
+ * - cargarFavoritos: Obtiene la primera página de favoritos
+ * - cargarMas: Añade la siguiente página al final
+ * - esFavorito: Indica si una receta está marcada
+ * - alternarFavorito: Marca o desmarca una receta
+ */
+export function useFavorites() {
+  const [favoritos, setFavoritos] = useState<Receta[]>([]);
+  const [idsFavoritos, setIdsFavoritos] = useState<string[]>([]);
+  const [cargando, setCargando] = useState(true);
+  const [cargandoMas, setCargandoMas] = useState(false);
+  const [cursor, setCursor] = useState<string | null>(null);
+
+  /**
+   * Actualizar los IDs de las recetas favoritas
+   */
+  const cargarIds = useCallback(async () => {
+    setIdsFavoritos(await favoritesUseCase.obtenerIdsFavoritos());
+  }, []);
+
+  /**
+   * Cargar la primera página de favoritos
+   */
+  const cargarFavoritos = useCallback(async () => {
+    setCargando(true);
+    const [pagina, ids] = await Promise.all([
+      favoritesUseCase.obtenerFavoritos(),
+      favoritesUseCase.obtenerIdsFavoritos(),
+    ]);
+    setFavoritos(pagina.recetas);
+    setCursor(pagina.siguienteCursor);
+    setIdsFavoritos(ids);
+    setCargando(false);
+  }, []);
+
+  /**
+   * Cargar la siguiente página y añadirla al final
+   */
+  const cargarMas = async () => {
+    if (!cursor || cargando || cargandoMas) return;
+
+    setCargandoMas(true);
+    const pagina = await favoritesUseCase.obtenerFavoritos(cursor);
+    setFavoritos((actuales) => [
+      ...actuales,
+      ...pagina.recetas.filter((r) => !actuales.some((a) => a.id === r.id)),
+    ]);
+    setCursor(pagina.siguienteCursor);
+    setCargandoMas(false);
+  };
+
+  const esFavorito = (recetaId: string) => idsFavoritos.includes(recetaId);
+
+  /**
+   * Marcar o desmarcar una receta
+   *
+   * El corazón cambia al instante; si Supabase falla se deshace el cambio
+   */
+  const alternarFavorito = async (receta: Receta) => {
+    const eraFavorito = esFavorito(receta.id);
+    const idsAnteriores = idsFavoritos;
+    const favoritosAnteriores = favoritos;
+
+    if (eraFavorito) {
+      setIdsFavoritos(idsAnteriores.filter((id) => id !== receta.id));
+      setFavoritos(favoritosAnteriores.filter((r) => r.id !== receta.id));
+    } else {
+      setIdsFavoritos([...idsAnteriores, receta.id]);
+    }
+
+    const resultado = eraFavorito
+      ? await favoritesUseCase.quitarFavorito(receta.id)
+      : await favoritesUseCase.agregarFavorito(receta.id);
+
+    if (!resultado.success) {
+      setIdsFavoritos(idsAnteriores);
+      setFavoritos(favoritosAnteriores);
+    }
+
+    return resultado;
+  };
+
+  return {
+    favoritos,
+    idsFavoritos,
+    cargando,
+    cargandoMas,
+    hayMas: cursor !== null,
+    cargarIds,
+    cargarFavoritos,
+    cargarMas,
+    esFavorito,
+    alternarFavorito,
+  };
+}
@@ -0,0 +1,119 @@
+import { useCallback, useEffect, useState } from "react";
+import { Comida, PlanComida } from "../../domain/models/PlanComida";
+import { MealPlanUseCase } from "../../domain/useCases/planner/MealPlanUseCase";
+import {
+  diasDeSemana,
+  inicioDeSemana,
+  sumarDias,
+} from "../../domain/utils/fechas";
+
+// Instancia única del UseCase
+const mealPlanUseCase = new MealPlanUseCase();
+
+/**
+ * useMealPlan - Hook del Planificador Semanal
+ *
+ * ESTADOS:
+ * - inicio: Lunes de la semana mostrada (YYYY-MM-DD)
+ * - dias: Los 7 días de esa semana
+ * - entradas: Recetas planificadas en la semana
+ * - cargando: Boolean de carga
+ *
+ * MÉTODOS:
+ * - semanaAnterior / semanaSiguiente / semanaActual: Navegar entre semanas
+ * - entradasDe: Entradas de un día y comida concretos
+ * - asignar: Añade una receta a un hueco
+ * - mover: Cambia una entrada de hueco (arrastrar y soltar)
+ * - quitar: Elimina una entrada
+ * - recargar: Vuelve a pedir la semana
+ */
+export function useMealPlan() {
+  const [inicio, setInicio] = useState(() => inicioDeSemana());
+  const [entradas, setEntradas] = useState<PlanComida[]>([]);
+  const [cargando, setCargando] = useState(true);
+
+  /**
+   * Cargar las entradas de la semana mostrada
+   */
+  const recargar = useCallback(async () => {
+    setCargando(true);
+    setEntradas(await mealPlanUseCase.obtenerSemana(inicio));
+    setCargando(false);
+  }, [inicio]);
+
+  // AL MONTAR (o cambiar de semana): Cargar el plan
+  useEffect(() => {
+    recargar();
+  }, [recargar]);
+
+  const entradasDe = (fecha: string, comida: Comida) =>
+    entradas.filter((e) => e.fecha === fecha && e.comida === comida);
+
+  /**
+   * Asignar una receta a un día y comida
+   */
+  const asignar = async (fecha: string, comida: Comida, recetaId: string) => {
+    const resultado = await mealPlanUseCase.asignarReceta(
+      fecha,
+      comida,
+      recetaId
+    );
+    if (resultado.success && resultado.entrada) {
+      setEntradas([...entradas, resultado.entrada]);
+    }
+    return resultado;
+  };
+
+  /**
+   * Mover una entrada a otro hueco
+   *
+   * La entrada cambia de hueco al soltarla; si no se puede guardar vuelve
+   */
+  const mover = async (
+    id: string,
+    fecha: string,
+    comida: Comida
+  ): Promise<{ success: boolean; error?: string }> => {
+    const anteriores = entradas;
+    const entrada = anteriores.find((e) => e.id === id);
+    if (!entrada || (entrada.fecha === fecha && entrada.comida === comida)) {
+      return { success: true };
+    }
+
+    setEntradas(
+      anteriores.map((e) => (e.id === id ? { ...e, fecha, comida } : e))
+    );
+
+    const resultado = await mealPlanUseCase.moverEntrada(id, fecha, comida);
+    if (!resultado.success) {
+      setEntradas(anteriores);
+    }
+    return resultado;
+  };
+
+  /**
+   * Quitar una entrada del plan
+   */
+  const quitar = async (id: string) => {
+    const resultado = await mealPlanUseCase.quitarEntrada(id);
+    if (resultado.success) {
+      setEntradas(entradas.filter((e) => e.id !== id));
+    }
+    return resultado;
+  };
+
+  return {
+    inicio,
+    dias: diasDeSemana(inicio),
+    entradas,
+    cargando,
+    semanaAnterior: () => setInicio(sumarDias(inicio, -7)),
+    semanaSiguiente: () => setInicio(sumarDias(inicio, 7)),
+    semanaActual: () => setInicio(inicioDeSemana()),
+    entradasDe,
+    asignar,
+    mover,
+    quitar,
+    recargar,
+  };
+}
@@ -0,0 +1,110 @@
+import { useCallback, useState } from "react";
+import {
+  ArticuloDespensa,
+  SugerenciaDespensa,
+} from "../../domain/models/Despensa";
+import {
+  DatosArticulo,
+  PantryUseCase,
+} from "../../domain/useCases/pantry/PantryUseCase";
+import { RecipesUseCase } from "../../domain/useCases/recipe/RecipesUseCase";
+import { ordenarPorCaducidad } from "../../domain/utils/despensa";
+
+// Instancias únicas de los UseCases
+const pantryUseCase = new PantryUseCase();
+const recipesUseCase = new RecipesUseCase();
+
+/**
+ * usePantry - Hook de la Despensa
+ *
+ * No carga nada al montar: las pantallas piden los datos al enfocarse.
+ *
+ * ESTADOS:
+ * - articulos: Contenido de la despensa (primero lo que caduca antes)
+ * - sugerencias: Recetas que aprovechan la despensa
+ * - cargando: Boolean de carga de los artículos
+ * - cargandoSugerencias: Boolean de carga de las sugerencias
+ *
+ * MÉTODOS:
+ * - cargarArticulos: Vuelve a pedir la despensa
+ * - cargarSugerencias: Pide la despensa y calcula las recetas sugeridas
+ * - agregar: Añade un artículo
+ * - actualizar: Edita un artículo
+ * - eliminar: Quita un artículo
+ */
+export function usePantry() {
+  const [articulos, setArticulos] = useState<ArticuloDespensa[]>([]);
+  const [sugerencias, setSugerencias] = useState<SugerenciaDespensa[]>([]);
+  const [cargando, setCargando] = useState(true);
+  const [cargandoSugerencias, setCargandoSugerencias] = useState(true);
+
+  /**
+   * Cargar la despensa del usuario
+   */
+  const cargarArticulos = useCallback(async () => {
+    setCargando(true);
+    setArticulos(await pantryUseCase.obtenerArticulos());
+    setCargando(false);
+  }, []);
+
+  /**
+   * Cargar la despensa y las recetas que la aprovechan
+   */
+  const cargarSugerencias = useCallback(async () => {
+    setCargandoSugerencias(true);
+    const actuales = await pantryUseCase.obtenerArticulos();
+    setArticulos(actuales);
+    setSugerencias(await recipesUseCase.sugerirConDespensa(actuales));
+    setCargandoSugerencias(false);
+  }, []);
+
+  /**
+   * Añadir un artículo (se coloca según su caducidad)
+   */
+  const agregar = async (datos: DatosArticulo) => {
+    const resultado = await pantryUseCase.agregarArticulo(datos);
+    if (resultado.success && resultado.articulo) {
+      setArticulos(ordenarPorCaducidad([...articulos, resultado.articulo]));
+    }
+    return resultado;
+  };
+
+  /**
+   * Editar un artículo
+   */
+  const actualizar = async (id: string, datos: DatosArticulo) => {
+    const resultado = await pantryUseCase.actualizarArticulo(id, datos);
+    if (resultado.success && resultado.articulo) {
+      const actualizado = resultado.articulo;
+      setArticulos(
+        ordenarPorCaducidad(
+          articulos.map((a) => (a.id === id ? actualizado : a))
+        )
+      );
+    }
+    return resultado;
+  };
+
+  /**
+   * Eliminar un artículo
+   */
+  const eliminar = async (id: string) => {
+    const resultado = await pantryUseCase.eliminarArticulo(id);
+    if (resultado.success) {
+      setArticulos(articulos.filter((a) => a.id !== id));
+    }
+    return resultado;
+  };
+
+  return {
+    articulos,
+    sugerencias,
+    cargando,
+    cargandoSugerencias,
+    cargarArticulos,
+    cargarSugerencias,
+    agregar,
+    actualizar,
+    eliminar,
+  };
+}
@@ -0,0 +1,79 @@
+import { useCallback, useEffect, useState } from "react";
+import {
+  ModoRestricciones,
+  PREFERENCIAS_DIETA_POR_DEFECTO,
+  PreferenciasDieta,
+  Restriccion,
+} from "../../domain/models/Alergenos";
+import { ProfileUseCase } from "../../domain/useCases/profile/ProfileUseCase";
+
+// Instancia única del UseCase
+const profileUseCase = new ProfileUseCase();
+
+/**
+ * useProfile - Hook de las Preferencias del Perfil
+ *
+ * ESTADOS:
+ * - preferencias: Restricciones alimentarias y modo (ocultar / avisar)
+ * - cargando: Boolean de carga
+ *
+ * MÉTODOS:
+ * - alternarRestriccion: Añade o quita una restricción y la guarda
+ * - cambiarModo: Cambia entre ocultar y avisar y lo guarda
+ * - recargar: Vuelve a leer las preferencias
+ */
+export function useProfile() {
+  const [preferencias, setPreferencias] = useState<PreferenciasDieta>(
+    PREFERENCIAS_DIETA_POR_DEFECTO
+  );
+  const [cargando, setCargando] = useState(true);
+
+  /**
+   * Leer las preferencias guardadas en el perfil
+   */
+  const recargar = useCallback(async () => {
+    setPreferencias(await profileUseCase.obtenerPreferencias());
+    setCargando(false);
+  }, []);
+
+  // AL MONTAR: Cargar las preferencias
+  useEffect(() => {
+    recargar();
+  }, [recargar]);
+
+  /**
+   * Guardar con actualización optimista (se revierte si falla)
+   */
+  const guardar = async (nuevas: PreferenciasDieta) => {
+    const anteriores = preferencias;
+    setPreferencias(nuevas);
+
+    const resultado = await profileUseCase.guardarPreferencias(
+      nuevas.restricciones,
+      nuevas.modo
+    );
+    if (!resultado.success) {
+      setPreferencias(anteriores);
+    }
+    return resultado;
+  };
+
+  const alternarRestriccion = (restriccion: Restriccion) =>
+    guardar({
+      ...preferencias,
+      restricciones: preferencias.restricciones.includes(restriccion)
+        ? preferencias.restricciones.filter((r) => r !== restriccion)
+        : [...preferencias.restricciones, restriccion],
+    });
+
+  const cambiarModo = (modo: ModoRestricciones) =>
+    guardar({ ...preferencias, modo });
+
+  return {
+    preferencias,
+    cargando,
+    alternarRestriccion,
+    cambiarModo,
+    recargar,
+  };
+}
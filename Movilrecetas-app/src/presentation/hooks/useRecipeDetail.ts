@@ -0,0 +1,64 @@
+import { useCallback, useEffect, useState } from "react";
+import { Receta } from "../../domain/models/Receta";
+import { RecipesUseCase } from "../../domain/useCases/recipe/RecipesUseCase";
+
+// Instancia única del UseCase
+const recipesUseCase = new RecipesUseCase();
+
+/**
+ * useRecipeDetail - Hook del Detalle de una Receta
+ *
+ * Carga UNA receta por su ID directamente desde el UseCase,
+ * sin depender de la lista ya cargada en useRecipes.
+ *
+ * ESTADOS:
+ * - receta: Receta original o null si no existe
+ * - recetaEscalada: Receta con ingredientes para las porciones elegidas
+ * - porciones: Porciones elegidas por el usuario
+ * - cargando: Boolean de carga
+ *
+ * MÉTODOS:
+ * - setPorciones: Cambia las porciones a mostrar
+ * - recargar: Vuelve a pedir la receta
+ */
+export function useRecipeDetail(id: string | undefined) {
+  const [receta, setReceta] = useState<Receta | null>(null);
+  const [porciones, setPorciones] = useState<number | null>(null);
+  const [cargando, setCargando] = useState(true);
+
+  /**
+   * Cargar la receta por ID
+   */
+  const recargar = useCallback(async () => {
+    if (!id) {
+      setReceta(null);
+      setCargando(false);
+      return;
+    }
+
+    setCargando(true);
+    const data = await recipesUseCase.obtenerRecetaPorId(id);
+    setReceta(data);
+    setPorciones(data?.porciones ?? null);
+    setCargando(false);
+  }, [id]);
+
+  // AL MONTAR (o cambiar de ID): Cargar la receta
+  useEffect(() => {
+    recargar();
+  }, [recargar]);
+
+  const recetaEscalada =
+    receta && porciones
+      ? recipesUseCase.escalarReceta(receta, porciones)
+      : receta;
+
+  return {
+    receta,
+    recetaEscalada,
+    porciones: porciones ?? receta?.porciones ?? 0,
+    setPorciones,
+    cargando,
+    recargar,
+  };
+}
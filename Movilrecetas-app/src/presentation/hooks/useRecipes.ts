@@ -1,9 +1,26 @@
-import { useEffect, useState } from "react";
-import { Receta } from "../../domain/models/Receta";
+import { useCallback, useEffect, useRef, useState } from "react";
+import { StorageService } from "../../data/services/storageService";
+import {
+  PREFERENCIAS_DIETA_POR_DEFECTO,
+  PreferenciasDieta,
+  Restriccion,
+} from "../../domain/models/Alergenos";
+import {
+  OPCIONES_LISTADO_POR_DEFECTO,
+  OpcionesListado,
+} from "../../domain/models/OpcionesListado";
+import { DatosReceta, Receta } from "../../domain/models/Receta";
+import {
+  ResultadoBusqueda,
+  ResultadoBusquedaTexto,
+} from "../../domain/models/ResultadoBusqueda";
+import { ProfileUseCase } from "../../domain/useCases/profile/ProfileUseCase";
 import { RecipesUseCase } from "../../domain/useCases/recipe/RecipesUseCase";
+import { restriccionesIncumplidas } from "../../domain/utils/alergenos";
 
-// Instancia única del UseCase
+// Instancias únicas de los UseCases
 const recipesUseCase = new RecipesUseCase();
+const profileUseCase = new ProfileUseCase();
 
 /**
  * useRecipes - Hook de Gestión de Recetas
@@ -11,69 +28,263 @@ const recipesUseCase = new RecipesUseCase();
  * Maneja el estado de las recetas y proporciona métodos
  * para crear, actualizar, eliminar y buscar.
  *
+ * El feed se carga por páginas: crear, actualizar y eliminar modifican
+ * la lista en memoria en lugar de volver a descargarla completa. Los
+ * cambios hechos desde otra pantalla (crear, editar, importar) se recogen
+ * con sincronizar al volver al feed.
+ *
+ * Las recetas que no cumplen las restricciones del usuario se ocultan
+ * o se marcan con un aviso, según lo que haya elegido en su perfil.
+ *
  * ESTADOS:
  * - recetas: Array de recetas
- * - cargando: Boolean de carga
+ * - cargando: Boolean de carga (primera página o búsqueda)
+ * - cargandoMas: Boolean de carga de la siguiente página
+ * - hayMas: true si quedan páginas por cargar
+ * - opciones: Orden y filtros del feed (se recuerdan entre sesiones)
+ * - coincidencias: Resultado de la última búsqueda por receta (id → resultado)
+ * - resultadosTexto: Fragmentos resaltados de la última búsqueda de texto
+ * - preferencias: Restricciones alimentarias del perfil del usuario
+ * - avisos: Restricciones que incumple cada receta (id → restricciones)
+ * - ocultas: Recetas cargadas que no se muestran por las restricciones
  *
  * MÉTODOS:
- * - cargarRecetas: Obtiene todas las recetas
- * - buscar: Filtra por ingrediente
+ * - cargarRecetas: Obtiene la primera página del feed
+ * - cargarMas: Añade la siguiente página (scroll infinito)
+ * - refrescar: Añade las recetas nuevas y actualiza las cargadas (pull to refresh)
+ * - sincronizar: Igual que refrescar, sin salir de una búsqueda (al volver al feed)
+ * - cambiarOpciones: Cambia orden/filtros, los guarda y recarga el feed
+ * - recargarPreferencias: Vuelve a leer las restricciones del perfil
+ * - obtenerChefs: Lista de chefs para el filtro "por chef"
+ * - obtenerEtiquetas: Categorías en uso para el filtro por categoría
+ * - buscar: Busca por ingredientes disponibles (ordenado por relevancia)
+ * - buscarTexto: Busca en título, descripción e ingredientes
  * - crear: Crea nueva receta
  * - actualizar: Modifica receta existente
  * - eliminar: Borra receta
+ * - escalar: Recalcula ingredientes para otras porciones
+ * - importar: Convierte una receta pegada de un blog en un borrador
  * - seleccionarImagen: Abre galería
  */
 export function useRecipes() {
   const [recetas, setRecetas] = useState<Receta[]>([]);
   const [cargando, setCargando] = useState(true);
+  const [cargandoMas, setCargandoMas] = useState(false);
+  const [cursor, setCursor] = useState<string | null>(null);
+  const [enBusqueda, setEnBusqueda] = useState(false);
+  const [opciones, setOpciones] = useState<OpcionesListado>(
+    OPCIONES_LISTADO_POR_DEFECTO
+  );
+  const [coincidencias, setCoincidencias] = useState<
+    Record<string, ResultadoBusqueda>
+  >({});
+  const [resultadosTexto, setResultadosTexto] = useState<
+    Record<string, ResultadoBusquedaTexto>
+  >({});
+  const [preferencias, setPreferencias] = useState<PreferenciasDieta>(
+    PREFERENCIAS_DIETA_POR_DEFECTO
+  );
+  // Estado actual para sincronizar, que es estable (se usa en useFocusEffect)
+  const estado = useRef({ recetas, cursor, enBusqueda, cargando, opciones });
+  estado.current = { recetas, cursor, enBusqueda, cargando, opciones };
+
+  /**
+   * Leer las restricciones alimentarias del perfil
+   */
+  const recargarPreferencias = useCallback(async () => {
+    setPreferencias(await profileUseCase.obtenerPreferencias());
+  }, []);
+
+  /**
+   * Cargar la primera página del feed con unas opciones concretas
+   * (sale del modo búsqueda)
+   */
+  const cargarPrimeraPagina = useCallback(
+    async (opcionesListado: OpcionesListado) => {
+      setCargando(true);
+      const pagina = await recipesUseCase.obtenerRecetas(opcionesListado);
+      setRecetas(pagina.recetas);
+      setCursor(pagina.siguienteCursor);
+      setEnBusqueda(false);
+      setCoincidencias({});
+      setResultadosTexto({});
+      setCargando(false);
+    },
+    []
+  );
 
-  // AL MONTAR: Cargar todas las recetas
+  // AL MONTAR: Recuperar orden/filtros guardados, cargar la primera página
+  // y las restricciones del usuario
   useEffect(() => {
-    cargarRecetas();
+    const cargarOpcionesGuardadas = async () => {
+      const guardadas = await StorageService.getObject<OpcionesListado>(
+        StorageService.LIST_OPTIONS_KEY
+      );
+      const iniciales = { ...OPCIONES_LISTADO_POR_DEFECTO, ...guardadas };
+      setOpciones(iniciales);
+      await cargarPrimeraPagina(iniciales);
+    };
+    cargarOpcionesGuardadas();
+    recargarPreferencias();
+  }, [cargarPrimeraPagina, recargarPreferencias]);
+
+  /**
+   * Cargar la primera página del feed con las opciones actuales
+   */
+  const cargarRecetas = () => cargarPrimeraPagina(opciones);
+
+  /**
+   * Cambiar orden/filtros: se guardan y se recarga el feed
+   */
+  const cambiarOpciones = async (nuevas: OpcionesListado) => {
+    setOpciones(nuevas);
+    await StorageService.setObject(StorageService.LIST_OPTIONS_KEY, nuevas);
+    await cargarPrimeraPagina(nuevas);
+  };
+
+  /**
+   * Cargar la siguiente página y añadirla al final
+   * No hace nada si se está mostrando una búsqueda o no hay más páginas
+   */
+  const cargarMas = async () => {
+    if (!cursor || enBusqueda || cargando || cargandoMas) return;
+
+    setCargandoMas(true);
+    const pagina = await recipesUseCase.obtenerRecetas(opciones, cursor);
+    setRecetas((actuales) => [
+      ...actuales,
+      ...pagina.recetas.filter((r) => !actuales.some((a) => a.id === r.id)),
+    ]);
+    setCursor(pagina.siguienteCursor);
+    setCargandoMas(false);
+  };
+
+  /**
+   * Con los órdenes paginados por posición (offset), la siguiente página
+   * empieza tantas filas antes como recetas hayan desaparecido de la lista
+   */
+  const retrocederCursor = useCallback((filas: number) => {
+    const orden = estado.current.opciones.orden;
+    if (filas === 0 || orden === "recientes" || orden === "antiguas") return;
+    setCursor((actual) =>
+      actual ? String(Math.max(0, parseInt(actual, 10) - filas)) : actual
+    );
   }, []);
 
   /**
-   * Cargar todas las recetas
+   * Traer los cambios de la lista cargada sin descargarla de nuevo:
+   * - Nuevas: solo las publicadas después de la más reciente cargada. Van
+   *   al principio; con "Más antiguas" al final, y solo si ya no quedan
+   *   páginas (si quedan, llegarán con el scroll)
+   * - Ediciones y borrados: se vuelven a leer las recetas cargadas
    */
-  const cargarRecetas = async () => {
+  const traerCambios = useCallback(async () => {
+    const { recetas: cargadas, opciones: opcionesListado } = estado.current;
+    const masReciente = cargadas.reduce(
+      (max, r) => (r.created_at > max ? r.created_at : max),
+      cargadas[0].created_at
+    );
+    const ids = cargadas.map((r) => r.id);
+
+    const [nuevas, vigentes] = await Promise.all([
+      recipesUseCase.obtenerRecetasNuevas(masReciente, opcionesListado),
+      recipesUseCase.obtenerRecetasPorIds(ids, opcionesListado),
+    ]);
+
+    // Si no se pudieron releer, se mantienen como estaban
+    const porId = new Map((vigentes ?? []).map((r) => [r.id, r]));
+    const releidas = new Set(vigentes ? ids : []);
+    const alFinal =
+      opcionesListado.orden === "antiguas" && estado.current.cursor === null;
+
+    setRecetas((actuales) => {
+      const actualizadas = actuales.flatMap((r) =>
+        releidas.has(r.id) ? (porId.get(r.id) ?? []) : [r]
+      );
+      const sinRepetir = nuevas.filter(
+        (r) => !actualizadas.some((a) => a.id === r.id)
+      );
+      if (opcionesListado.orden !== "antiguas") {
+        return [...sinRepetir, ...actualizadas];
+      }
+      return alFinal ? [...actualizadas, ...sinRepetir] : actualizadas;
+    });
+    retrocederCursor(vigentes ? ids.length - vigentes.length : 0);
+  }, [retrocederCursor]);
+
+  /**
+   * Refrescar (pull to refresh): añadir las recetas nuevas y actualizar
+   * las cargadas. Si se está mostrando una búsqueda o la lista está
+   * vacía, vuelve a cargar la primera página
+   */
+  const refrescar = async () => {
+    if (enBusqueda || recetas.length === 0) {
+      await cargarRecetas();
+      return;
+    }
+    await traerCambios();
+  };
+
+  /**
+   * Sincronizar al volver al feed: recoger las recetas creadas, editadas
+   * o eliminadas desde otra pantalla. No hace nada durante una búsqueda
+   * o una carga
+   */
+  const sincronizar = useCallback(async () => {
+    const {
+      recetas: cargadas,
+      enBusqueda: buscando,
+      cargando: ocupado,
+    } = estado.current;
+    if (buscando || ocupado || cargadas.length === 0) return;
+    await traerCambios();
+  }, [traerCambios]);
+
+  /**
+   * Buscar recetas por los ingredientes que el usuario tiene
+   */
+  const buscar = async (ingredientes: string[]) => {
     setCargando(true);
-    const data = await recipesUseCase.obtenerRecetas();
-    setRecetas(data);
+    const resultados = await recipesUseCase.buscarPorIngredientes(ingredientes);
+    setRecetas(resultados.map((resultado) => resultado.receta));
+    setEnBusqueda(true);
+    setCoincidencias(
+      Object.fromEntries(
+        resultados.map((resultado) => [resultado.receta.id, resultado])
+      )
+    );
+    setResultadosTexto({});
     setCargando(false);
   };
 
   /**
-   * Buscar recetas por ingrediente
+   * Buscar recetas por texto (título, descripción e ingredientes)
    */
-  const buscar = async (ingrediente: string) => {
+  const buscarTexto = async (consulta: string) => {
     setCargando(true);
-    const data = await recipesUseCase.buscarPorIngrediente(ingrediente);
-    setRecetas(data);
+    const resultados = await recipesUseCase.buscarTexto(consulta);
+    setRecetas(resultados.map((resultado) => resultado.receta));
+    setEnBusqueda(true);
+    setResultadosTexto(
+      Object.fromEntries(
+        resultados.map((resultado) => [resultado.receta.id, resultado])
+      )
+    );
+    setCoincidencias({});
     setCargando(false);
   };
 
   /**
    * Crear nueva receta
-   * Al terminar, recarga la lista automáticamente
-   */
-  const crear = async (
-    titulo: string,
-    descripcion: string,
-    ingredientes: string[],
-    chefId: string,
-    imagenUri?: string
-  ) => {
-    const resultado = await recipesUseCase.crearReceta(
-      titulo,
-      descripcion,
-      ingredientes,
-      chefId,
-      imagenUri
-    );
+   * Al terminar, la añade al inicio de la lista
+   */
+  const crear = async (datos: DatosReceta, chefId: string) => {
+    const resultado = await recipesUseCase.crearReceta(datos, chefId);
 
-    // Si fue exitoso, recargar lista
-    if (resultado.success) {
-      await cargarRecetas();
+    // Si fue exitoso, añadirla al inicio (es la más reciente)
+    if (resultado.success && resultado.receta) {
+      const nueva = resultado.receta;
+      setRecetas((actuales) => [nueva, ...actuales]);
     }
 
     return resultado;
@@ -82,23 +293,15 @@ export function useRecipes() {
   /**
    * Actualizar receta existente
    */
-  const actualizar = async (
-    id: string,
-    titulo: string,
-    descripcion: string,
-    ingredientes: string[],
-    imagenUri?: string
-  ) => {
-    const resultado = await recipesUseCase.actualizarReceta(
-      id,
-      titulo,
-      descripcion,
-      ingredientes,
-      imagenUri
-    );
+  const actualizar = async (id: string, datos: DatosReceta) => {
+    const resultado = await recipesUseCase.actualizarReceta(id, datos);
 
-    if (resultado.success) {
-      await cargarRecetas();
+    // Si fue exitoso, reemplazarla en la lista
+    if (resultado.success && resultado.receta) {
+      const actualizada = resultado.receta;
+      setRecetas((actuales) =>
+        actuales.map((r) => (r.id === actualizada.id ? actualizada : r))
+      );
     }
 
     return resultado;
@@ -110,13 +313,44 @@ export function useRecipes() {
   const eliminar = async (id: string) => {
     const resultado = await recipesUseCase.eliminarReceta(id);
 
+    // Si fue exitoso, quitarla de la lista
     if (resultado.success) {
-      await cargarRecetas();
+      const estaba = recetas.some((r) => r.id === id);
+      setRecetas((actuales) => actuales.filter((r) => r.id !== id));
+      if (estaba && !enBusqueda) retrocederCursor(1);
     }
 
     return resultado;
   };
 
+  /**
+   * Obtener chefs para el filtro del listado
+   */
+  const obtenerChefs = async () => {
+    return await recipesUseCase.obtenerChefs();
+  };
+
+  /**
+   * Obtener las categorías en uso para el filtro del listado
+   */
+  const obtenerEtiquetas = useCallback(async () => {
+    return await recipesUseCase.obtenerEtiquetas();
+  }, []);
+
+  /**
+   * Escalar receta a otro número de porciones (no modifica la original)
+   */
+  const escalar = (receta: Receta, porciones: number) => {
+    return recipesUseCase.escalarReceta(receta, porciones);
+  };
+
+  /**
+   * Importar una receta pegada (HTML o JSON-LD) como borrador
+   */
+  const importar = (texto: string) => {
+    return recipesUseCase.importarReceta(texto);
+  };
+
   /**
    * Seleccionar imagen de galería
    */
@@ -138,14 +372,44 @@ export function useRecipes() {
     return await recipesUseCase.mostrarOpcionesImagen();
   };
 
+  // Restricciones que incumple cada receta (solo las que incumplen alguna)
+  const avisos: Record<string, Restriccion[]> = {};
+  for (const receta of recetas) {
+    const incumplidas = restriccionesIncumplidas(
+      receta,
+      preferencias.restricciones
+    );
+    if (incumplidas.length > 0) avisos[receta.id] = incumplidas;
+  }
+  const ocultar = preferencias.modo === "ocultar";
+  const visibles = ocultar ? recetas.filter((r) => !avisos[r.id]) : recetas;
+
   return {
-    recetas,
+    recetas: visibles,
     cargando,
+    cargandoMas,
+    hayMas: cursor !== null && !enBusqueda,
+    opciones,
+    coincidencias,
+    resultadosTexto,
+    preferencias,
+    avisos,
+    ocultas: recetas.length - visibles.length,
+    recargarPreferencias,
     cargarRecetas,
+    cargarMas,
+    refrescar,
+    sincronizar,
+    cambiarOpciones,
+    obtenerChefs,
+    obtenerEtiquetas,
     buscar,
+    buscarTexto,
     crear,
     actualizar,
     eliminar,
+    escalar,
+    importar,
     seleccionarImagen,
     tomarFoto,
     opcionesImagen,
@@ -0,0 +1,75 @@
+import { useCallback, useEffect, useState } from "react";
+import { Resena } from "../../domain/models/Resena";
+import { ReviewsUseCase } from "../../domain/useCases/reviews/ReviewsUseCase";
+
+// Instancia única del UseCase
+const reviewsUseCase = new ReviewsUseCase();
+
+/**
+ * useReviews - Hook de Reseñas de una Receta
+ *
+ * ESTADOS:
+ * - resenas: Reseñas de la receta (más recientes primero)
+ * - miResena: Reseña del usuario actual o null
+ * - cargando: Boolean de carga
+ *
+ * MÉTODOS:
+ * - guardar: Crea o edita la reseña del usuario actual
+ * - recargar: Vuelve a pedir las reseñas
+ */
+export function useReviews(recetaId: string | undefined) {
+  const [resenas, setResenas] = useState<Resena[]>([]);
+  const [miResena, setMiResena] = useState<Resena | null>(null);
+  const [cargando, setCargando] = useState(true);
+
+  /**
+   * Cargar las reseñas y la del usuario actual
+   */
+  const recargar = useCallback(async () => {
+    if (!recetaId) {
+      setCargando(false);
+      return;
+    }
+
+    setCargando(true);
+    const [todas, mia] = await Promise.all([
+      reviewsUseCase.obtenerResenas(recetaId),
+      reviewsUseCase.obtenerMiResena(recetaId),
+    ]);
+    setResenas(todas);
+    setMiResena(mia);
+    setCargando(false);
+  }, [recetaId]);
+
+  // AL MONTAR (o cambiar de receta): Cargar reseñas
+  useEffect(() => {
+    recargar();
+  }, [recargar]);
+
+  /**
+   * Crear o editar la reseña del usuario actual
+   */
+  const guardar = async (puntuacion: number, comentario: string) => {
+    if (!recetaId) {
+      return { success: false, error: "Receta no encontrada" };
+    }
+
+    const resultado = await reviewsUseCase.guardarResena(
+      recetaId,
+      puntuacion,
+      comentario
+    );
+    if (resultado.success) {
+      await recargar();
+    }
+    return resultado;
+  };
+
+  return {
+    resenas,
+    miResena,
+    cargando,
+    guardar,
+    recargar,
+  };
+}
@@ -0,0 +1,82 @@
+import { useCallback, useEffect, useState } from "react";
+import { ListaCompra } from "../../domain/models/ListaCompra";
+import { Receta } from "../../domain/models/Receta";
+import { ShoppingListUseCase } from "../../domain/useCases/shopping/ShoppingListUseCase";
+
+// Instancia única del UseCase
+const shoppingListUseCase = new ShoppingListUseCase();
+
+/**
+ * useShoppingList - Hook de la Lista de la Compra
+ *
+ * ESTADOS:
+ * - lista: Recetas elegidas y artículos marcados
+ * - grupos: Artículos consolidados por sección del supermercado
+ * - pendientes: Número de artículos sin marcar
+ * - cargando: Boolean de carga
+ *
+ * MÉTODOS:
+ * - agregarRecetas: Añade recetas con sus porciones
+ * - quitarReceta: Quita una receta y sus ingredientes
+ * - alternarMarcado: Marca o desmarca un artículo
+ * - desmarcarTodo: Desmarca todos los artículos
+ * - vaciar: Borra la lista
+ * - recargar: Vuelve a leer la lista guardada
+ */
+export function useShoppingList() {
+  const [lista, setLista] = useState<ListaCompra | null>(null);
+  const [cargando, setCargando] = useState(true);
+
+  /**
+   * Leer la lista guardada en el dispositivo
+   */
+  const recargar = useCallback(async () => {
+    setLista(await shoppingListUseCase.obtenerLista());
+    setCargando(false);
+  }, []);
+
+  // AL MONTAR: Cargar la lista
+  useEffect(() => {
+    recargar();
+  }, [recargar]);
+
+  const agregarRecetas = async (
+    recetas: { receta: Receta; porciones: number }[]
+  ) => {
+    setLista(await shoppingListUseCase.agregarRecetas(recetas));
+  };
+
+  const quitarReceta = async (recetaId: string) => {
+    setLista(await shoppingListUseCase.quitarReceta(recetaId));
+  };
+
+  const alternarMarcado = async (itemId: string) => {
+    setLista(await shoppingListUseCase.alternarMarcado(itemId));
+  };
+
+  const desmarcarTodo = async () => {
+    setLista(await shoppingListUseCase.desmarcarTodo());
+  };
+
+  const vaciar = async () => {
+    setLista(await shoppingListUseCase.vaciarLista());
+  };
+
+  const grupos = lista ? shoppingListUseCase.obtenerGrupos(lista) : [];
+
+  return {
+    lista,
+    grupos,
+    pendientes: grupos.reduce(
+      (total, grupo) => total + grupo.items.filter((i) => !i.marcado).length,
+      0
+    ),
+    cargando,
+    agregarRecetas,
+    quitarReceta,
+    alternarMarcado,
+    desmarcarTodo,
+    vaciar,
+    recargar,
+  };
+}
@@ -0,0 +1,54 @@
+import { useEffect, useState } from "react";
+import {
+  NuevoTemporizador,
+  Temporizador,
+} from "../../domain/models/Temporizador";
+import { CookTimersUseCase } from "../../domain/useCases/cooking/CookTimersUseCase";
+
+// Instancia única del UseCase
+const cookTimersUseCase = new CookTimersUseCase();
+
+/**
+ * useTemporizadores - Hook de los Temporizadores de Cocina
+ *
+ * ESTADOS:
+ * - temporizadores: Temporizadores activos y terminados sin descartar
+ * - ahora: Momento actual (se actualiza cada segundo mientras haya alguno)
+ *
+ * MÉTODOS:
+ * - iniciar: Inicia un temporizador para un paso
+ * - cancelar: Cancela o descarta un temporizador
+ * - restantes: Segundos que le quedan a un temporizador (0 si terminó)
+ */
+export function useTemporizadores() {
+  const [temporizadores, setTemporizadores] = useState<Temporizador[]>(
+    cookTimersUseCase.obtenerTemporizadores()
+  );
+  const [ahora, setAhora] = useState(Date.now());
+
+  // AL MONTAR: Escuchar los cambios hechos desde cualquier pantalla
+  useEffect(() => cookTimersUseCase.suscribir(setTemporizadores), []);
+
+  // Reloj: solo avanza mientras hay temporizadores
+  useEffect(() => {
+    if (temporizadores.length === 0) return;
+    const intervalo = setInterval(() => setAhora(Date.now()), 1000);
+    return () => clearInterval(intervalo);
+  }, [temporizadores.length]);
+
+  const iniciar = (datos: NuevoTemporizador) =>
+    cookTimersUseCase.iniciar(datos);
+
+  const cancelar = (id: string) => cookTimersUseCase.cancelar(id);
+
+  const restantes = (temporizador: Temporizador) =>
+    Math.max(0, (temporizador.termina_en - ahora) / 1000);
+
+  return {
+    temporizadores,
+    ahora,
+    iniciar,
+    cancelar,
+    restantes,
+  };
+}
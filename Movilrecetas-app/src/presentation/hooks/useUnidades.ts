@@ -0,0 +1,64 @@
+import { useFocusEffect } from "expo-router";
+import { useCallback, useState } from "react";
+import { StorageService } from "../../data/services/storageService";
+import { Ingrediente } from "../../domain/models/Ingrediente";
+import {
+  SISTEMA_POR_DEFECTO,
+  SISTEMAS_UNIDADES,
+  SistemaUnidades,
+} from "../../domain/models/Unidades";
+import {
+  convertirIngrediente,
+  convertirTemperaturasEnTexto,
+} from "../../domain/utils/conversiones";
+
+/**
+ * useUnidades - Hook del Sistema de Unidades
+ *
+ * La preferencia se guarda en el dispositivo y se vuelve a leer al
+ * enfocar la pantalla, así el cambio hecho en el perfil se ve al volver.
+ *
+ * ESTADOS:
+ * - sistema: Sistema en que se muestran las cantidades
+ *
+ * MÉTODOS:
+ * - cambiarSistema: Guarda el nuevo sistema
+ * - convertir: Ingrediente en el sistema del usuario
+ * - convertirTexto: Texto con las temperaturas convertidas
+ */
+export function useUnidades() {
+  const [sistema, setSistema] = useState<SistemaUnidades>(SISTEMA_POR_DEFECTO);
+
+  // AL ENFOCAR: Leer la preferencia guardada
+  useFocusEffect(
+    useCallback(() => {
+      const cargarSistema = async () => {
+        const guardado = await StorageService.getItem(
+          StorageService.UNIT_SYSTEM_KEY
+        );
+        setSistema(
+          SISTEMAS_UNIDADES.find((s) => s === guardado) ?? SISTEMA_POR_DEFECTO
+        );
+      };
+      cargarSistema();
+    }, [])
+  );
+
+  const cambiarSistema = async (nuevo: SistemaUnidades) => {
+    setSistema(nuevo);
+    await StorageService.setItem(StorageService.UNIT_SYSTEM_KEY, nuevo);
+  };
+
+  const convertir = <T extends Ingrediente>(ingrediente: T): T =>
+    convertirIngrediente(ingrediente, sistema);
+
+  const convertirTexto = (texto: string) =>
+    convertirTemperaturasEnTexto(texto, sistema);
+
+  return {
+    sistema,
+    cambiarSistema,
+    convertir,
+    convertirTexto,
+  };
+}
@@ -11,6 +11,7 @@ export const colors = {
   secondary: "#2196F3", // Azul - acciones secundarias
   danger: "#f44336", // Rojo - eliminar
   warning: "#FF9800", // Naranja - alertas
+  warningLight: "#FFF3E0", // Naranja claro - fondos de aviso
 
   // Neutros
   background: "#f5f5f5", // Fondo de la app
@@ -0,0 +1,15 @@
+-- Recetas: ingredientes estructurados
+--
+-- "ingredientes" pasa de text[] a jsonb. Las filas antiguas quedan como un
+-- array de textos (["200 g de harina", ...]), que la app sigue leyendo
+-- (utils/ingredientes.ts → normalizarIngredientes); las nuevas guardan
+-- objetos { nombre, cantidad?, unidad?, nota? }.
+
+alter table public.recetas
+  alter column ingredientes drop default;
+
+alter table public.recetas
+  alter column ingredientes type jsonb using to_jsonb(ingredientes);
+
+alter table public.recetas
+  alter column ingredientes set default '[]'::jsonb;
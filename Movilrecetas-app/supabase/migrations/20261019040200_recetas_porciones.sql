@@ -0,0 +1,8 @@
+-- Recetas: número de personas para las que está escrita la receta
+--
+-- Las recetas existentes quedan con 4 (PORCIONES_POR_DEFECTO en
+-- utils/porciones.ts).
+
+alter table public.recetas
+  add column porciones int not null default 4
+    constraint recetas_porciones_check check (porciones between 1 and 50);
@@ -0,0 +1,7 @@
+-- Recetas: pasos de preparación en orden
+--
+-- jsonb con una lista de { texto, duracion_minutos?, imagen_url? }. Las
+-- recetas existentes quedan sin pasos.
+
+alter table public.recetas
+  add column pasos jsonb not null default '[]'::jsonb;
@@ -0,0 +1,13 @@
+-- Recetas: número de ingredientes, para ordenar el feed por "Menos
+-- ingredientes" / "Más ingredientes" sin leer la lista de cada receta.
+-- La app lo escribe al crear y actualizar; aquí se rellenan las existentes.
+
+alter table public.recetas
+  add column num_ingredientes int not null default 0;
+
+update public.recetas
+  set num_ingredientes = jsonb_array_length(ingredientes)
+  where jsonb_typeof(ingredientes) = 'array';
+
+create index recetas_num_ingredientes_idx
+  on public.recetas (num_ingredientes, created_at desc);
@@ -0,0 +1,26 @@
+-- Favoritos: recetas guardadas por cada usuario (chef o no)
+
+create table public.favoritos (
+  usuario_id uuid not null references public.usuarios (id) on delete cascade,
+  receta_id uuid not null references public.recetas (id) on delete cascade,
+  created_at timestamptz not null default now(),
+  primary key (usuario_id, receta_id)
+);
+
+-- Listado paginado por fecha (cursor en created_at)
+create index favoritos_usuario_created_at_idx
+  on public.favoritos (usuario_id, created_at desc);
+
+alter table public.favoritos enable row level security;
+
+create policy "favoritos: el usuario ve los suyos"
+  on public.favoritos for select
+  using (auth.uid() = usuario_id);
+
+create policy "favoritos: el usuario marca los suyos"
+  on public.favoritos for insert
+  with check (auth.uid() = usuario_id);
+
+create policy "favoritos: el usuario desmarca los suyos"
+  on public.favoritos for delete
+  using (auth.uid() = usuario_id);
@@ -0,0 +1,73 @@
+-- Reseñas: una puntuación (1-5) y un comentario opcional por usuario y receta
+--
+-- Un trigger mantiene en "recetas" la media y el número de reseñas, que
+-- usan las tarjetas y el orden "Mejor valoradas" sin agregar en cada
+-- consulta.
+
+create table public.resenas (
+  id uuid primary key default gen_random_uuid(),
+  receta_id uuid not null references public.recetas (id) on delete cascade,
+  usuario_id uuid not null references public.usuarios (id) on delete cascade,
+  puntuacion int not null check (puntuacion between 1 and 5),
+  comentario text,
+  created_at timestamptz not null default now(),
+  updated_at timestamptz not null default now(),
+  unique (usuario_id, receta_id)
+);
+
+create index resenas_receta_created_at_idx
+  on public.resenas (receta_id, created_at desc);
+
+alter table public.resenas enable row level security;
+
+create policy "resenas: lectura pública"
+  on public.resenas for select
+  using (true);
+
+create policy "resenas: el autor crea la suya"
+  on public.resenas for insert
+  with check (auth.uid() = usuario_id);
+
+create policy "resenas: el autor edita la suya"
+  on public.resenas for update
+  using (auth.uid() = usuario_id)
+  with check (auth.uid() = usuario_id);
+
+-- Media y número de reseñas en la receta
+alter table public.recetas
+  add column valoracion_media numeric(3, 2),
+  add column num_resenas int not null default 0;
+
+create index recetas_valoracion_idx
+  on public.recetas (valoracion_media desc nulls last, num_resenas desc);
+
+create or replace function public.resenas_actualizar_valoracion()
+returns trigger
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  receta uuid := coalesce(new.receta_id, old.receta_id);
+begin
+  update public.recetas
+    set valoracion_media = (
+          select round(avg(puntuacion), 2)
+          from public.resenas
+          where receta_id = receta
+        ),
+        num_resenas = (
+          select count(*)
+          from public.resenas
+          where receta_id = receta
+        )
+    where id = receta;
+  return null;
+end
+$$;
+
+create trigger resenas_valoracion
+  after insert or update of puntuacion or delete
+  on public.resenas
+  for each row
+  execute function public.resenas_actualizar_valoracion();
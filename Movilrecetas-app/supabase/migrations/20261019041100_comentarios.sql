@@ -0,0 +1,40 @@
+-- Comentarios: hilo de conversación de cada receta, en tiempo real
+
+create table public.comentarios (
+  id uuid primary key default gen_random_uuid(),
+  receta_id uuid not null references public.recetas (id) on delete cascade,
+  usuario_id uuid not null references public.usuarios (id) on delete cascade,
+  contenido text not null check (length(trim(contenido)) > 0),
+  created_at timestamptz not null default now(),
+  updated_at timestamptz
+);
+
+create index comentarios_receta_created_at_idx
+  on public.comentarios (receta_id, created_at);
+
+alter table public.comentarios enable row level security;
+
+create policy "comentarios: lectura pública"
+  on public.comentarios for select
+  using (true);
+
+create policy "comentarios: cualquier usuario comenta como él mismo"
+  on public.comentarios for insert
+  with check (auth.uid() = usuario_id);
+
+create policy "comentarios: el autor edita el suyo"
+  on public.comentarios for update
+  using (auth.uid() = usuario_id)
+  with check (auth.uid() = usuario_id);
+
+create policy "comentarios: el autor o el chef de la receta lo borra"
+  on public.comentarios for delete
+  using (
+    auth.uid() = usuario_id
+    or auth.uid() = (
+      select chef_id from public.recetas where id = receta_id
+    )
+  );
+
+-- Cambios en vivo
+alter publication supabase_realtime add table public.comentarios;
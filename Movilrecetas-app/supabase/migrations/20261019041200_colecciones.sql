@@ -0,0 +1,46 @@
+-- Colecciones: recetarios personales de cada usuario
+
+create table public.colecciones (
+  id uuid primary key default gen_random_uuid(),
+  usuario_id uuid not null references public.usuarios (id) on delete cascade,
+  nombre text not null check (length(trim(nombre)) > 0),
+  posicion int not null default 0,
+  created_at timestamptz not null default now()
+);
+
+-- Sin nombres repetidos por usuario (sin distinguir mayúsculas)
+create unique index colecciones_usuario_nombre_key
+  on public.colecciones (usuario_id, lower(nombre));
+
+create table public.colecciones_recetas (
+  coleccion_id uuid not null references public.colecciones (id) on delete cascade,
+  receta_id uuid not null references public.recetas (id) on delete cascade,
+  created_at timestamptz not null default now(),
+  primary key (coleccion_id, receta_id)
+);
+
+create index colecciones_recetas_receta_idx
+  on public.colecciones_recetas (receta_id);
+
+alter table public.colecciones enable row level security;
+alter table public.colecciones_recetas enable row level security;
+
+create policy "colecciones: el usuario gestiona las suyas"
+  on public.colecciones for all
+  using (auth.uid() = usuario_id)
+  with check (auth.uid() = usuario_id);
+
+create policy "colecciones_recetas: el usuario gestiona las de sus colecciones"
+  on public.colecciones_recetas for all
+  using (
+    exists (
+      select 1 from public.colecciones c
+      where c.id = coleccion_id and c.usuario_id = auth.uid()
+    )
+  )
+  with check (
+    exists (
+      select 1 from public.colecciones c
+      where c.id = coleccion_id and c.usuario_id = auth.uid()
+    )
+  );
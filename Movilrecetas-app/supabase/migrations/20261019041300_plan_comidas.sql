@@ -0,0 +1,22 @@
+-- Planificador semanal: recetas asignadas a cada día y comida
+--
+-- Un hueco (fecha + comida) puede tener varias recetas (ej: plato y postre).
+
+create table public.plan_comidas (
+  id uuid primary key default gen_random_uuid(),
+  usuario_id uuid not null references public.usuarios (id) on delete cascade,
+  fecha date not null,
+  comida text not null check (comida in ('desayuno', 'almuerzo', 'cena')),
+  receta_id uuid not null references public.recetas (id) on delete cascade,
+  created_at timestamptz not null default now()
+);
+
+create index plan_comidas_usuario_fecha_idx
+  on public.plan_comidas (usuario_id, fecha);
+
+alter table public.plan_comidas enable row level security;
+
+create policy "plan_comidas: el usuario gestiona su plan"
+  on public.plan_comidas for all
+  using (auth.uid() = usuario_id)
+  with check (auth.uid() = usuario_id);
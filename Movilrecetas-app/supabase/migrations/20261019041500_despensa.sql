@@ -0,0 +1,21 @@
+-- Despensa: artículos que tiene cada usuario en casa, con caducidad opcional
+
+create table public.despensa (
+  id uuid primary key default gen_random_uuid(),
+  usuario_id uuid not null references public.usuarios (id) on delete cascade,
+  nombre text not null check (length(trim(nombre)) > 0),
+  cantidad numeric check (cantidad > 0),
+  unidad text,
+  caduca_el date, -- null = no caduca
+  created_at timestamptz not null default now()
+);
+
+create index despensa_usuario_caduca_el_idx
+  on public.despensa (usuario_id, caduca_el nulls last);
+
+alter table public.despensa enable row level security;
+
+create policy "despensa: el usuario gestiona la suya"
+  on public.despensa for all
+  using (auth.uid() = usuario_id)
+  with check (auth.uid() = usuario_id);
@@ -0,0 +1,9 @@
+-- Recetas: categorías normalizadas (minúsculas, sin repetir)
+--
+-- El filtro por categoría usa "contains" (@>), de ahí el índice GIN.
+
+alter table public.recetas
+  add column etiquetas text[] not null default '{}';
+
+create index recetas_etiquetas_idx
+  on public.recetas using gin (etiquetas);
@@ -0,0 +1,12 @@
+-- Recetas: tiempos (minutos) y dificultad
+--
+-- tiempo_total lo calcula la app (preparación + cocción, null si no se
+-- indicó ninguno) y se guarda para poder filtrar por tiempo máximo.
+
+alter table public.recetas
+  add column tiempo_preparacion int check (tiempo_preparacion >= 0),
+  add column tiempo_coccion int check (tiempo_coccion >= 0),
+  add column tiempo_total int check (tiempo_total >= 0),
+  add column dificultad text check (dificultad in ('facil', 'media', 'dificil'));
+
+create index recetas_tiempo_total_idx on public.recetas (tiempo_total);
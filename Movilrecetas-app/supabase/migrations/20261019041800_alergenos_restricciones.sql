@@ -0,0 +1,17 @@
+-- Alérgenos y dietas de las recetas, y restricciones de cada usuario
+--
+-- La app detecta los alérgenos a partir de los ingredientes; con
+-- alergenos_manual = true el chef los ha corregido y se respetan tal cual.
+-- Las recetas existentes quedan sin marcar y la app los detecta al leerlas.
+
+alter table public.recetas
+  add column alergenos text[] not null default '{}',
+  add column dietas text[] not null default '{}',
+  add column alergenos_manual boolean not null default false;
+
+-- Perfil: alérgenos y dietas del usuario, y qué hacer en el feed con las
+-- recetas que no los cumplen
+alter table public.usuarios
+  add column restricciones text[] not null default '{}',
+  add column modo_restricciones text not null default 'avisar'
+    check (modo_restricciones in ('ocultar', 'avisar'));
@@ -0,0 +1,8 @@
+-- Comentarios: los eventos DELETE de realtime traen la fila completa
+--
+-- Con la identidad por defecto solo traen la clave primaria, y el filtro
+-- "receta_id=eq...." de la suscripción no se aplica a los DELETE. Con
+-- REPLICA IDENTITY FULL llega receta_id y el cliente descarta los borrados
+-- de otras recetas.
+
+alter table public.comentarios replica identity full;
@@ -0,0 +1,49 @@
+-- Recetas: columnas de búsqueda
+--
+-- "busqueda_ingredientes" y "busqueda_texto": texto en minúsculas y sin
+-- tildes que mantiene un trigger. Las búsquedas filtran en el servidor con
+-- ilike sobre ellas (índices trigram) y la app solo puntúa y resalta las
+-- candidatas.
+
+create extension if not exists unaccent;
+create extension if not exists pg_trgm;
+
+alter table public.recetas
+  add column if not exists busqueda_ingredientes text not null default '',
+  add column if not exists busqueda_texto text not null default '';
+
+create or replace function public.recetas_actualizar_busqueda()
+returns trigger
+language plpgsql
+as $$
+declare
+  nombres text;
+begin
+  -- Nombre de cada ingrediente: campo "nombre" o el texto de las filas antiguas
+  select coalesce(string_agg(coalesce(elem ->> 'nombre', elem #>> '{}'), ' '), '')
+    into nombres
+    from jsonb_array_elements(coalesce(new.ingredientes, '[]'::jsonb)) as elem;
+
+  new.busqueda_ingredientes := lower(unaccent(nombres));
+  new.busqueda_texto := lower(
+    unaccent(concat_ws(' ', new.titulo, new.descripcion, nombres))
+  );
+  return new;
+end
+$$;
+
+drop trigger if exists recetas_busqueda on public.recetas;
+create trigger recetas_busqueda
+  before insert or update of titulo, descripcion, ingredientes
+  on public.recetas
+  for each row
+  execute function public.recetas_actualizar_busqueda();
+
+-- Rellenar las filas existentes (dispara el trigger)
+update public.recetas set titulo = titulo;
+
+create index if not exists recetas_busqueda_ingredientes_trgm
+  on public.recetas using gin (busqueda_ingredientes gin_trgm_ops);
+
+create index if not exists recetas_busqueda_texto_trgm
+  on public.recetas using gin (busqueda_texto gin_trgm_ops);
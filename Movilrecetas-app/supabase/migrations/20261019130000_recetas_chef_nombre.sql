@@ -0,0 +1,64 @@
+-- Recetas: nombre del chef copiado en la receta, para el orden "Por chef"
+--
+-- PostgREST no ordena las filas de "recetas" por una columna de
+-- "usuarios" embebida, así que el nombre se guarda en la propia receta.
+-- Es el nombre que muestra la app: el del perfil o, si no tiene, el email.
+-- Dos triggers lo mantienen al crear la receta y al cambiar el perfil.
+
+alter table public.recetas
+  add column chef_nombre text;
+
+create or replace function public.nombre_visible_usuario(usuario uuid)
+returns text
+language sql
+stable
+security definer
+set search_path = public
+as $$
+  select coalesce(nullif(trim(nombre), ''), email)
+  from public.usuarios
+  where id = usuario
+$$;
+
+create or replace function public.recetas_copiar_chef_nombre()
+returns trigger
+language plpgsql
+as $$
+begin
+  new.chef_nombre := public.nombre_visible_usuario(new.chef_id);
+  return new;
+end
+$$;
+
+create trigger recetas_chef_nombre
+  before insert or update of chef_id
+  on public.recetas
+  for each row
+  execute function public.recetas_copiar_chef_nombre();
+
+create or replace function public.usuarios_propagar_nombre()
+returns trigger
+language plpgsql
+security definer
+set search_path = public
+as $$
+begin
+  update public.recetas
+    set chef_nombre = public.nombre_visible_usuario(new.id)
+    where chef_id = new.id;
+  return null;
+end
+$$;
+
+create trigger usuarios_nombre_en_recetas
+  after update of nombre, email
+  on public.usuarios
+  for each row
+  execute function public.usuarios_propagar_nombre();
+
+-- Rellenar las recetas existentes
+update public.recetas
+  set chef_nombre = public.nombre_visible_usuario(chef_id);
+
+create index recetas_chef_nombre_idx
+  on public.recetas (chef_nombre, chef_id, created_at desc);